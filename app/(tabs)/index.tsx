@@ -1,23 +1,24 @@
 import React from 'react';
-import { View, FlatList, StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { View, FlatList, StyleSheet, Text, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 import { Bell, Plus } from 'lucide-react-native';
-import { useApp } from '@/context/AppContext';
 import { StoriesRow } from '@/components/StoriesRow';
 import { PostCard } from '@/components/PostCard';
-import { rankFeedPosts } from '@/utils/feedAlgorithm';
+import { useFeed } from '@/hooks/useFeed';
+import { useImpressions } from '@/hooks/useImpressions';
 
 export default function FeedScreen() {
   const insets = useSafeAreaInsets();
-  const { posts } = useApp();
-
-  const rankedPosts = rankFeedPosts(posts);
+  const router = useRouter();
+  const { posts, getAuthor, explainPost, loading, loadingMore, refreshing, error, loadMore, refresh } = useFeed();
+  const { onViewableItemsChanged, viewabilityConfig } = useImpressions('feed');
 
   const renderHeader = () => (
     <>
       <View style={[styles.header, { paddingTop: insets.top + 10 }]}>
         <View style={styles.headerLeft}>
-          <TouchableOpacity style={styles.createBtn}>
+          <TouchableOpacity style={styles.createBtn} onPress={() => router.push('/create-post')}>
             <Plus size={28} color="#1a1a1a" strokeWidth={2.5} />
           </TouchableOpacity>
         </View>
@@ -32,16 +33,28 @@ export default function FeedScreen() {
         </View>
       </View>
       <StoriesRow />
+      {error ? <Text style={styles.errorText}>{error}. Pull down to try again.</Text> : null}
     </>
   );
 
+  const renderFooter = () =>
+    loading || loadingMore ? <ActivityIndicator style={styles.footer} color="#1a1a1a" /> : null;
+
   return (
     <View style={styles.container}>
       <FlatList
-        data={rankedPosts}
+        data={posts}
         keyExtractor={(item) => item.id}
-        renderItem={({ item }) => <PostCard post={item} />}
+        renderItem={({ item }) => (
+          <PostCard post={item} author={getAuthor(item.user_id)} onExplain={() => explainPost(item.id)} />
+        )}
         ListHeaderComponent={renderHeader}
+        ListFooterComponent={renderFooter}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        onViewableItemsChanged={onViewableItemsChanged}
+        viewabilityConfig={viewabilityConfig}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} />}
         showsVerticalScrollIndicator={false}
         contentContainerStyle={styles.listContent}
       />
@@ -104,4 +117,14 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 20,
   },
+  footer: {
+    paddingVertical: 20,
+  },
+  errorText: {
+    color: '#FF6B6B',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
 });
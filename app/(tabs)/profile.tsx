@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Alert, View, ScrollView, StyleSheet } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 import { useApp } from '@/context/AppContext';
 import { useAuth } from '@/hooks/useAuth';
 import { ProfileHeader } from '@/components/ProfileHeader';
@@ -9,6 +10,7 @@ import { MediaGrid } from '@/components/MediaGrid';
 
 export default function ProfileScreen() {
   const insets = useSafeAreaInsets();
+  const router = useRouter();
   const { currentUser } = useApp();
   const { logout } = useAuth();
   const [activeTab, setActiveTab] = useState<'posts' | 'saved' | 'videos'>('posts');
@@ -35,6 +37,7 @@ export default function ProfileScreen() {
   const openSettings = () => {
     Alert.alert('Settings', 'Manage your account', [
       { text: 'Cancel', style: 'cancel' },
+      { text: 'Active sessions', onPress: () => router.push('/sessions') },
       { text: 'Log out', style: 'destructive', onPress: () => void handleLogout() },
     ]);
   };
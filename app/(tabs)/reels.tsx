@@ -2,10 +2,12 @@ import React from 'react';
 import { View, FlatList, StyleSheet, Text } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useApp } from '@/context/AppContext';
+import { useImpressions } from '@/hooks/useImpressions';
 
 export default function ReelsScreen() {
   const insets = useSafeAreaInsets();
   const { posts } = useApp();
+  const { onViewableItemsChanged, viewabilityConfig } = useImpressions('reel');
 
   // Filter posts that have video type
   const reels = posts.filter((post) => post.type === 'video');
@@ -32,6 +34,8 @@ export default function ReelsScreen() {
             </View>
           )}
           ListHeaderComponent={renderHeader}
+          onViewableItemsChanged={onViewableItemsChanged}
+          viewabilityConfig={viewabilityConfig}
           showsVerticalScrollIndicator={false}
           contentContainerStyle={styles.listContent}
         />
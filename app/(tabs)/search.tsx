@@ -13,10 +13,10 @@ const ITEM_SIZE = (width - GRID_GAP * 2) / 3;
 export default function SearchScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { posts, users } = useApp();
+  const { posts, users, canViewPost } = useApp();
   const [searchQuery, setSearchQuery] = useState('');
 
-  const mediaPosts = posts.filter(post => post.media_url);
+  const mediaPosts = posts.filter(post => post.media_url && canViewPost(post));
   const filteredUsers = searchQuery
     ? users.filter(u =>
         u.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -1,12 +1,329 @@
-import { View, Text, StyleSheet } from 'react-native';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Switch,
+  ActivityIndicator,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
 import { AdminRoute } from '@/components/ProtectedRoute';
+import {
+  adminAPI,
+  type PrivilegedRole,
+  type RankingProfile,
+  type RankingProfileAuditEntry,
+} from '@/utils/adminAPI';
+import {
+  BLENDED_SIGNALS,
+  validateRankingParameters,
+  type RankingParameters,
+  type RankingSignal,
+} from '@/utils/feedAlgorithm';
+
+const TWO_FACTOR_ROLES: { role: PrivilegedRole; label: string }[] = [
+  { role: 'admin', label: 'Require 2FA for admins' },
+  { role: 'moderator', label: 'Require 2FA for moderators' },
+];
+
+const WEIGHT_FIELDS: { signal: RankingSignal; label: string }[] = [
+  { signal: 'underexposure_boost', label: 'Under-exposure boost' },
+  { signal: 'follower_balance', label: 'Follower balance' },
+  { signal: 'recency', label: 'Recency' },
+  { signal: 'engagement_quality', label: 'Engagement quality' },
+  { signal: 'content_diversity', label: 'Content diversity' },
+  { signal: 'impression_decay', label: 'Impression decay (extra)' },
+];
+
+type NumericParameter = Exclude<keyof RankingParameters, 'weights'>;
+
+const PARAMETER_FIELDS: { key: NumericParameter; label: string }[] = [
+  { key: 'follower_cap', label: 'Follower cap' },
+  { key: 'impression_cap', label: 'Impression cap' },
+  { key: 'recency_decay_hours', label: 'Recency decay (hours)' },
+  { key: 'underexposed_visibility', label: 'Under-exposed below visibility' },
+  { key: 'priority_slot_interval', label: 'Priority slot every N posts' },
+  { key: 'priority_slot_offset', label: 'Priority slot position (0-based)' },
+  { key: 'diversity_window', label: 'Feed mix window (posts)' },
+  { key: 'author_cap', label: 'Max posts per author in window' },
+  { key: 'min_followed_per_window', label: 'Min followed posts in window' },
+  { key: 'min_discovery_per_window', label: 'Min discovery posts in window' },
+];
+
+// Form fields are edited as text and parsed on every change
+type RankingDraft = Record<RankingSignal | NumericParameter, string>;
+
+function toDraft(parameters: RankingParameters): RankingDraft {
+  const draft = {} as RankingDraft;
+  for (const { signal } of WEIGHT_FIELDS) draft[signal] = String(parameters.weights[signal]);
+  for (const { key } of PARAMETER_FIELDS) draft[key] = String(parameters[key]);
+  return draft;
+}
+
+function fromDraft(draft: RankingDraft): RankingParameters {
+  const parse = (value: string) => (value.trim() === '' ? NaN : Number(value));
+  const weights = {} as Record<RankingSignal, number>;
+  for (const { signal } of WEIGHT_FIELDS) weights[signal] = parse(draft[signal]);
+
+  const parameters = { weights } as RankingParameters;
+  for (const { key } of PARAMETER_FIELDS) parameters[key] = parse(draft[key]);
+  return parameters;
+}
+
+/**
+ * Feed ranking profiles: pick, edit, activate and review changes
+ */
+function RankingProfilesSection() {
+  const [profiles, setProfiles] = useState<RankingProfile[]>([]);
+  const [audit, setAudit] = useState<RankingProfileAuditEntry[]>([]);
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RankingDraft | null>(null);
+  const [newName, setNewName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const selected = profiles.find(profile => profile.name === selectedName) ?? null;
+
+  const load = useCallback(async (select?: string) => {
+    const [nextProfiles, nextAudit] = await Promise.all([
+      adminAPI.getRankingProfiles(),
+      adminAPI.getRankingProfileAudit({ limit: 10 }),
+    ]);
+    const current =
+      nextProfiles.find(profile => profile.name === select) ??
+      nextProfiles.find(profile => profile.active) ??
+      nextProfiles[0];
+
+    setProfiles(nextProfiles);
+    setAudit(nextAudit);
+    setSelectedName(current?.name ?? null);
+    setDraft(current ? toDraft(current.parameters) : null);
+  }, []);
+
+  useEffect(() => {
+    load()
+      .catch((err: any) => setError(err.message || 'Failed to load ranking profiles'))
+      .finally(() => setLoading(false));
+  }, [load]);
+
+  const selectProfile = (profile: RankingProfile) => {
+    setSelectedName(profile.name);
+    setDraft(toDraft(profile.parameters));
+    setError('');
+  };
+
+  const run = async (action: () => Promise<string>) => {
+    try {
+      setSaving(true);
+      setError('');
+      await load(await action());
+    } catch (err: any) {
+      setError(err.message || 'Failed to save ranking profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loader} />;
+  }
+
+  if (!selected || !draft) {
+    return error ? <Text style={styles.error}>{error}</Text> : null;
+  }
+
+  const parameters = fromDraft(draft);
+  const problems = validateRankingParameters(parameters);
+  const blendedSum = BLENDED_SIGNALS.reduce((sum, signal) => sum + (parameters.weights[signal] || 0), 0);
+  const changed = JSON.stringify(parameters) !== JSON.stringify(selected.parameters);
+
+  return (
+    <>
+      <View style={styles.chips}>
+        {profiles.map(profile => (
+          <TouchableOpacity
+            key={profile.name}
+            style={[styles.chip, profile.name === selected.name && styles.chipSelected]}
+            onPress={() => selectProfile(profile)}
+            disabled={saving}
+          >
+            <Text style={[styles.chipText, profile.name === selected.name && styles.chipTextSelected]}>
+              {profile.name}
+              {profile.active ? ' · active' : ''}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.meta}>
+        Version {selected.version} · updated {new Date(selected.updatedAt).toLocaleString()} by {selected.updatedBy}
+      </Text>
+
+      <Text style={styles.subheading}>Weights</Text>
+      {WEIGHT_FIELDS.map(({ signal, label }) => (
+        <View key={signal} style={styles.row}>
+          <Text style={styles.rowLabel}>{label}</Text>
+          <TextInput
+            style={styles.input}
+            value={draft[signal]}
+            onChangeText={value => setDraft({ ...draft, [signal]: value })}
+            keyboardType="decimal-pad"
+            editable={!saving}
+          />
+        </View>
+      ))}
+      <Text style={[styles.sum, Math.abs(blendedSum - 1) > 0.001 && styles.sumInvalid]}>
+        Blended weights sum to {blendedSum.toFixed(3)} (must be 1.000)
+      </Text>
+
+      <Text style={styles.subheading}>Caps and slots</Text>
+      {PARAMETER_FIELDS.map(({ key, label }) => (
+        <View key={key} style={styles.row}>
+          <Text style={styles.rowLabel}>{label}</Text>
+          <TextInput
+            style={styles.input}
+            value={draft[key]}
+            onChangeText={value => setDraft({ ...draft, [key]: value })}
+            keyboardType="number-pad"
+            editable={!saving}
+          />
+        </View>
+      ))}
+
+      {problems.map(problem => (
+        <Text key={problem} style={styles.error}>{problem}</Text>
+      ))}
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.button, (saving || !changed || problems.length > 0) && styles.buttonDisabled]}
+          disabled={saving || !changed || problems.length > 0}
+          onPress={() =>
+            run(async () => (await adminAPI.updateRankingProfile(selected.name, parameters, selected.version)).name)
+          }
+        >
+          <Text style={styles.buttonText}>Save</Text>
+        </TouchableOpacity>
+        {!selected.active && (
+          <TouchableOpacity
+            style={[styles.button, styles.buttonSecondary, saving && styles.buttonDisabled]}
+            disabled={saving}
+            onPress={() => run(async () => (await adminAPI.activateRankingProfile(selected.name)).name)}
+          >
+            <Text style={styles.buttonSecondaryText}>Use for feed</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, styles.nameInput]}
+          value={newName}
+          onChangeText={value => setNewName(value.toLowerCase())}
+          placeholder="new-profile-name"
+          autoCapitalize="none"
+          editable={!saving}
+        />
+        <TouchableOpacity
+          style={[styles.button, styles.buttonSecondary, (saving || !newName || problems.length > 0) && styles.buttonDisabled]}
+          disabled={saving || !newName || problems.length > 0}
+          onPress={() =>
+            run(async () => {
+              const created = await adminAPI.createRankingProfile(newName, parameters);
+              setNewName('');
+              return created.name;
+            })
+          }
+        >
+          <Text style={styles.buttonSecondaryText}>Save as new</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.subheading}>Recent changes</Text>
+      {audit.map(entry => (
+        <Text key={entry.id} style={styles.auditEntry}>
+          {new Date(entry.createdAt).toLocaleString()} · {entry.profileName} v{entry.version} {entry.action} by{' '}
+          {entry.actorId}
+        </Text>
+      ))}
+    </>
+  );
+}
 
 function SettingsContent() {
+  const [requiredRoles, setRequiredRoles] = useState<PrivilegedRole[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    adminAPI
+      .getTwoFactorPolicy()
+      .then(policy => setRequiredRoles(policy.requiredRoles))
+      .catch((err: any) => setError(err.message || 'Failed to load settings'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggleRole = async (role: PrivilegedRole, required: boolean) => {
+    const next = required
+      ? [...requiredRoles, role]
+      : requiredRoles.filter(existing => existing !== role);
+
+    try {
+      setSaving(true);
+      setError('');
+      const policy = await adminAPI.updateTwoFactorPolicy(next);
+      setRequiredRoles(policy.requiredRoles);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
-    <View style={styles.container}>
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <Text style={styles.title}>System Settings</Text>
       <Text style={styles.description}>Configure system-wide settings</Text>
-    </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Security</Text>
+        <Text style={styles.sectionDescription}>
+          Accounts in these roles must set up two-factor authentication before they can use
+          admin or moderation tools.
+        </Text>
+
+        {error ? <Text style={styles.error}>{error}</Text> : null}
+
+        {loading ? (
+          <ActivityIndicator style={styles.loader} />
+        ) : (
+          TWO_FACTOR_ROLES.map(({ role, label }) => (
+            <View key={role} style={styles.row}>
+              <Text style={styles.rowLabel}>{label}</Text>
+              <Switch
+                value={requiredRoles.includes(role)}
+                onValueChange={value => toggleRole(role, value)}
+                disabled={saving}
+              />
+            </View>
+          ))
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Feed ranking</Text>
+        <Text style={styles.sectionDescription}>
+          The active profile ranks every home feed loaded from now on. Each save creates a new
+          version and is kept in the change history.
+        </Text>
+        <RankingProfilesSection />
+      </View>
+    </ScrollView>
   );
 }
 
@@ -21,9 +338,11 @@ export default function Settings() {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    padding: 20,
     backgroundColor: '#f5f5f5',
   },
+  content: {
+    padding: 20,
+  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -33,4 +352,129 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  section: {
+    marginTop: 24,
+    padding: 16,
+    borderRadius: 8,
+    backgroundColor: '#fff',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+  },
+  rowLabel: {
+    fontSize: 15,
+    color: '#1A1A1A',
+  },
+  loader: {
+    marginVertical: 12,
+  },
+  error: {
+    color: '#B00020',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#1A1A1A',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#1A1A1A',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 8,
+  },
+  subheading: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 2,
+  },
+  input: {
+    minWidth: 90,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    fontSize: 15,
+    textAlign: 'right',
+  },
+  nameInput: {
+    flex: 1,
+    marginRight: 8,
+    textAlign: 'left',
+  },
+  sum: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  sumInvalid: {
+    color: '#B00020',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#1A1A1A',
+    marginRight: 8,
+  },
+  buttonSecondary: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#1A1A1A',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonSecondaryText: {
+    color: '#1A1A1A',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  auditEntry: {
+    fontSize: 12,
+    color: '#666',
+    paddingVertical: 3,
+  },
 });
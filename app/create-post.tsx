@@ -0,0 +1,606 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import { Image as ExpoImage } from 'expo-image';
+import { Camera, Hash, Image as ImageIcon, Play, X } from 'lucide-react-native';
+import { useApp, type PostAudience } from '@/context/AppContext';
+import { AudiencePicker } from '@/components/AudiencePicker';
+import { CameraCapture, type CapturedPhoto } from '@/components/CameraCapture';
+import { useCaptionSuggestions } from '@/hooks/useCaptionSuggestions';
+import { postsAPI, type PostMediaInput } from '@/utils/postsAPI';
+import { extractMentions, findActiveToken, replaceActiveToken } from '@/utils/captionTokens';
+
+// Limits enforced by createPostValidation on the server
+const MAX_CAPTION_LENGTH = 2000;
+const MAX_MEDIA = 5;
+const MAX_MENTIONS = 20;
+const MAX_ALT_LENGTH = 1000;
+
+interface ComposerMedia {
+  key: string;
+  uri: string; // Local file from the camera or gallery
+  type: 'image' | 'video';
+  mimeType: string;
+  width?: number;
+  height?: number;
+  blurhash?: string; // Generated on the device once picked
+  alt: string;
+  progress?: number; // 0 to 1 while uploading
+  mediaId?: string; // Kept so a retry after a failed post skips the upload
+}
+
+let mediaKey = 0;
+
+function toComposerMedia(asset: {
+  uri: string;
+  type?: string | null;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+}): ComposerMedia {
+  const type = asset.type === 'video' ? 'video' : 'image';
+  return {
+    key: `media-${++mediaKey}`,
+    uri: asset.uri,
+    type,
+    mimeType: asset.mimeType || (type === 'video' ? 'video/mp4' : 'image/jpeg'),
+    width: asset.width || undefined,
+    height: asset.height || undefined,
+    alt: '',
+  };
+}
+
+/**
+ * Attachment as sent with the post: the upload in remote mode, the local file in mock mode
+ */
+function toPostMedia(item: ComposerMedia): PostMediaInput {
+  return {
+    ...(item.mediaId ? { mediaId: item.mediaId } : { url: item.uri, type: item.type }),
+    ...(item.width && item.height && { width: item.width, height: item.height }),
+    ...(item.blurhash && { blurhash: item.blurhash }),
+    ...(item.alt.trim() && { alt: item.alt.trim() }),
+  };
+}
+
+export default function CreatePostScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { auth, createPost } = useApp();
+  const isRemote = !!auth && !auth.accessToken.startsWith('mock-');
+
+  const [caption, setCaption] = useState('');
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [audience, setAudience] = useState<PostAudience>('public');
+  const [media, setMedia] = useState<ComposerMedia[]>([]);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [altEditing, setAltEditing] = useState<ComposerMedia | null>(null);
+  const [altDraft, setAltDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [status, setStatus] = useState('');
+  // Usernames picked from suggestions, to send the mentioned user IDs
+  const mentioned = useRef(new Map<string, string>());
+  const captionInput = useRef<TextInput>(null);
+
+  const token = useMemo(
+    () => (selection.start === selection.end ? findActiveToken(caption, selection.start) : null),
+    [caption, selection]
+  );
+  const suggestions = useCaptionSuggestions(posting ? null : token);
+
+  const remaining = MAX_MEDIA - media.length;
+  const canPost = (caption.trim().length > 0 || media.length > 0) && !posting;
+
+  const updateMedia = (key: string, changes: Partial<ComposerMedia>) => {
+    setMedia(current => current.map(item => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  const addMedia = (items: ComposerMedia[]) => {
+    setMedia(current => [...current, ...items].slice(0, MAX_MEDIA));
+
+    // Placeholders are a nicety: a photo without one simply loads on a blank background
+    items
+      .filter(item => item.type === 'image')
+      .forEach(item => {
+        ExpoImage.generateBlurhashAsync(item.uri, [4, 3])
+          .then(blurhash => blurhash && updateMedia(item.key, { blurhash }))
+          .catch(() => {});
+      });
+  };
+
+  const openAltEditor = (item: ComposerMedia) => {
+    setAltDraft(item.alt);
+    setAltEditing(item);
+  };
+
+  const saveAlt = () => {
+    if (altEditing) {
+      updateMedia(altEditing.key, { alt: altDraft });
+    }
+    setAltEditing(null);
+  };
+
+  const pickFromGallery = async () => {
+    if (remaining <= 0) {
+      Alert.alert('Media limit reached', `A post can have up to ${MAX_MEDIA} photos or videos.`);
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images', 'videos'],
+      allowsMultipleSelection: true,
+      selectionLimit: remaining,
+      orderedSelection: true,
+      quality: 0.8,
+    });
+    if (!result.canceled) {
+      addMedia(result.assets.map(toComposerMedia));
+    }
+  };
+
+  const openCamera = () => {
+    if (remaining <= 0) {
+      Alert.alert('Media limit reached', `A post can have up to ${MAX_MEDIA} photos or videos.`);
+      return;
+    }
+    setCameraOpen(true);
+  };
+
+  const handleCapture = (photo: CapturedPhoto) => {
+    setCameraOpen(false);
+    addMedia([toComposerMedia({ ...photo, type: 'image' })]);
+  };
+
+  const applySuggestion = (replacement: string) => {
+    if (!token) {
+      return;
+    }
+    const next = replaceActiveToken(caption, token, replacement);
+    setCaption(next.text);
+    setSelection({ start: next.cursor, end: next.cursor });
+    captionInput.current?.focus();
+  };
+
+  /**
+   * Upload items not uploaded yet, one at a time, returning every item with its media ID
+   */
+  const uploadMedia = async (): Promise<ComposerMedia[]> => {
+    const uploaded: ComposerMedia[] = [];
+    for (const [index, item] of media.entries()) {
+      if (item.mediaId) {
+        uploaded.push(item);
+        continue;
+      }
+
+      setStatus(`Uploading ${index + 1} of ${media.length}…`);
+      updateMedia(item.key, { progress: 0 });
+      const { id } = await postsAPI.uploadMedia(item.uri, item.mimeType, progress =>
+        updateMedia(item.key, { progress })
+      );
+      updateMedia(item.key, { progress: undefined, mediaId: id });
+      uploaded.push({ ...item, mediaId: id });
+    }
+    return uploaded;
+  };
+
+  const handlePost = async () => {
+    setPosting(true);
+    try {
+      // Mock mode has no server to upload to; local posts show the files directly
+      const attachments = isRemote ? await uploadMedia() : media;
+      const mentions = [
+        ...new Set(
+          extractMentions(caption)
+            .map(username => mentioned.current.get(username))
+            .filter((id): id is string => !!id)
+        ),
+      ].slice(0, MAX_MENTIONS);
+
+      setStatus('Posting…');
+      await createPost({
+        caption: caption.trim(),
+        type: media.some(item => item.type === 'video') ? 'video' : media.length > 0 ? 'image' : 'text',
+        media: attachments.map(toPostMedia),
+        audience,
+        mentions,
+      });
+      router.back();
+    } catch (err: any) {
+      setMedia(current => current.map(item => ({ ...item, progress: undefined })));
+      Alert.alert('Could not post', err.message || 'Please try again.');
+    } finally {
+      setPosting(false);
+      setStatus('');
+    }
+  };
+
+  const renderSuggestions = () => {
+    if (token?.trigger === '@' && suggestions.users.length > 0) {
+      return suggestions.users.map(user => (
+        <TouchableOpacity
+          key={user.id}
+          style={styles.suggestion}
+          onPress={() => {
+            mentioned.current.set(user.username.toLowerCase(), user.id);
+            applySuggestion(`@${user.username}`);
+          }}
+        >
+          <Image source={{ uri: user.avatar }} style={styles.suggestionAvatar} />
+          <View>
+            <Text style={styles.suggestionTitle}>{user.name}</Text>
+            <Text style={styles.suggestionSubtitle}>@{user.username}</Text>
+          </View>
+        </TouchableOpacity>
+      ));
+    }
+
+    if (token?.trigger === '#' && suggestions.hashtags.length > 0) {
+      return suggestions.hashtags.map(({ tag, count }) => (
+        <TouchableOpacity key={tag} style={styles.suggestion} onPress={() => applySuggestion(`#${tag}`)}>
+          <View style={styles.hashtagIcon}>
+            <Hash size={18} color="#1a1a1a" />
+          </View>
+          <View>
+            <Text style={styles.suggestionTitle}>#{tag}</Text>
+            <Text style={styles.suggestionSubtitle}>
+              {count} {count === 1 ? 'post' : 'posts'}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      ));
+    }
+
+    return null;
+  };
+
+  const suggestionRows = renderSuggestions();
+
+  return (
+    <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <View style={[styles.header, { paddingTop: insets.top + 10 }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeBtn} disabled={posting}>
+          <X size={28} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.title}>New Post</Text>
+        <TouchableOpacity
+          style={[styles.postBtn, !canPost && styles.postBtnDisabled]}
+          onPress={handlePost}
+          disabled={!canPost}
+        >
+          {posting ? <ActivityIndicator color="#1a1a1a" /> : <Text style={styles.postText}>Post</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {status ? <Text style={styles.status}>{status}</Text> : null}
+
+      <View style={styles.content}>
+        <AudiencePicker value={audience} onChange={setAudience} />
+        <TextInput
+          ref={captionInput}
+          style={styles.captionInput}
+          placeholder="What's on your mind? Use @ to mention and # to tag"
+          placeholderTextColor="#999"
+          value={caption}
+          onChangeText={setCaption}
+          selection={selection}
+          onSelectionChange={event => setSelection(event.nativeEvent.selection)}
+          maxLength={MAX_CAPTION_LENGTH}
+          editable={!posting}
+          multiline
+          autoFocus
+        />
+
+        {suggestionRows ? (
+          <ScrollView style={styles.suggestions} keyboardShouldPersistTaps="handled">
+            {suggestionRows}
+          </ScrollView>
+        ) : null}
+
+        {media.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.mediaStrip}>
+            {media.map(item => (
+              <View key={item.key} style={styles.mediaItem}>
+                <Image source={{ uri: item.uri }} style={styles.mediaThumb} />
+                {item.type === 'video' && (
+                  <View style={styles.videoBadge}>
+                    <Play size={14} color="#fff" fill="#fff" />
+                  </View>
+                )}
+                {item.progress !== undefined && (
+                  <View style={styles.progressTrack}>
+                    <View style={[styles.progressFill, { width: `${Math.round(item.progress * 100)}%` }]} />
+                  </View>
+                )}
+                {!posting && item.progress === undefined && (
+                  <TouchableOpacity
+                    style={[styles.altBadge, item.alt.trim() ? styles.altBadgeSet : null]}
+                    onPress={() => openAltEditor(item)}
+                    accessibilityLabel={item.alt.trim() ? 'Edit description' : 'Add description'}
+                  >
+                    <Text style={styles.altBadgeText}>ALT</Text>
+                  </TouchableOpacity>
+                )}
+                {!posting && (
+                  <TouchableOpacity
+                    style={styles.removeBtn}
+                    onPress={() => setMedia(current => current.filter(other => other.key !== item.key))}
+                  >
+                    <X size={14} color="#fff" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+
+      <View style={[styles.toolbar, { paddingBottom: insets.bottom + 12 }]}>
+        <TouchableOpacity style={styles.toolBtn} onPress={openCamera} disabled={posting}>
+          <Camera size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.toolBtn} onPress={pickFromGallery} disabled={posting}>
+          <ImageIcon size={24} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.mediaCount}>
+          {media.length}/{MAX_MEDIA}
+        </Text>
+        <Text style={styles.charCount}>{MAX_CAPTION_LENGTH - caption.length}</Text>
+      </View>
+
+      <CameraCapture visible={cameraOpen} onCapture={handleCapture} onClose={() => setCameraOpen(false)} />
+
+      <Modal visible={!!altEditing} transparent animationType="slide" onRequestClose={() => setAltEditing(null)}>
+        <TouchableOpacity style={styles.altBackdrop} activeOpacity={1} onPress={() => setAltEditing(null)} />
+        <View style={[styles.altSheet, { paddingBottom: insets.bottom + 16 }]}>
+          <View style={styles.altHeader}>
+            <Text style={styles.altTitle}>Describe this {altEditing?.type === 'video' ? 'video' : 'photo'}</Text>
+            <TouchableOpacity onPress={saveAlt}>
+              <Text style={styles.altDone}>Done</Text>
+            </TouchableOpacity>
+          </View>
+          {altEditing && <Image source={{ uri: altEditing.uri }} style={styles.altPreview} resizeMode="contain" />}
+          <TextInput
+            style={styles.altInput}
+            placeholder="Alt text helps people using screen readers"
+            placeholderTextColor="#999"
+            value={altDraft}
+            onChangeText={setAltDraft}
+            maxLength={MAX_ALT_LENGTH}
+            multiline
+            autoFocus
+          />
+        </View>
+      </Modal>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e5e5e5',
+  },
+  closeBtn: {
+    padding: 4,
+  },
+  title: {
+    color: '#1a1a1a',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  postBtn: {
+    backgroundColor: '#FFD400',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    minWidth: 64,
+    alignItems: 'center',
+  },
+  postBtnDisabled: {
+    opacity: 0.4,
+  },
+  postText: {
+    color: '#1a1a1a',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  status: {
+    fontSize: 13,
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  captionInput: {
+    flex: 1,
+    fontSize: 17,
+    color: '#1a1a1a',
+    marginTop: 16,
+    textAlignVertical: 'top',
+  },
+  suggestions: {
+    maxHeight: 220,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e5e5e5',
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  suggestionAvatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 12,
+  },
+  hashtagIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f2f2f2',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  suggestionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  suggestionSubtitle: {
+    fontSize: 13,
+    color: '#888',
+  },
+  mediaStrip: {
+    flexGrow: 0,
+    marginTop: 12,
+  },
+  mediaItem: {
+    width: 96,
+    height: 96,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginRight: 8,
+    backgroundColor: '#f2f2f2',
+  },
+  mediaThumb: {
+    width: '100%',
+    height: '100%',
+  },
+  videoBadge: {
+    position: 'absolute',
+    left: 6,
+    bottom: 6,
+  },
+  progressTrack: {
+    position: 'absolute',
+    left: 6,
+    right: 6,
+    bottom: 6,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.5)',
+  },
+  progressFill: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#FFD400',
+  },
+  altBadge: {
+    position: 'absolute',
+    left: 4,
+    top: 4,
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  altBadgeSet: {
+    backgroundColor: '#1a1a1a',
+  },
+  altBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  altBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  altSheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+  },
+  altHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  altTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  altDone: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  altPreview: {
+    width: '100%',
+    height: 160,
+    borderRadius: 8,
+    backgroundColor: '#f2f2f2',
+  },
+  altInput: {
+    minHeight: 80,
+    maxHeight: 160,
+    fontSize: 16,
+    color: '#1a1a1a',
+    marginTop: 12,
+    textAlignVertical: 'top',
+  },
+  removeBtn: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingTop: 12,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e5e5e5',
+  },
+  toolBtn: {
+    padding: 8,
+    marginRight: 4,
+  },
+  mediaCount: {
+    fontSize: 13,
+    color: '#888',
+    marginLeft: 4,
+  },
+  charCount: {
+    fontSize: 13,
+    color: '#888',
+    marginLeft: 'auto',
+  },
+});
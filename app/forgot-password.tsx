@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Mail, Lock, Eye, EyeOff } from 'lucide-react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { authAPI } from '@/utils/authAPI';
+
+/**
+ * Forgot password screen
+ *
+ * Without a token: asks for the account email and requests a reset link.
+ * With ?token=... (opened from the reset email): asks for the new password.
+ */
+export default function ForgotPasswordScreen() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const router = useRouter();
+  const hasToken = typeof token === 'string' && token.length > 0;
+
+  const handleRequestLink = async () => {
+    if (!email) {
+      setError('Email is required');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+      await authAPI.requestPasswordReset(email.trim());
+      setMessage('If an account exists for this email, a reset link is on its way.');
+    } catch (err: any) {
+      setError(err.message || 'Could not send reset link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!password || !confirmPassword) {
+      setError('Enter and confirm your new password');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+      await authAPI.resetPassword(token as string, password);
+      setMessage('Your password has been reset. Log in with your new password.');
+    } catch (err: any) {
+      setError(err.message || 'Password reset failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const done = message.length > 0;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.screen}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <StatusBar style="dark" backgroundColor="#FFFFFF" />
+      <ScrollView
+        contentContainerStyle={styles.container}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.brand}>Vairo</Text>
+        <Text style={styles.title}>{hasToken ? 'New Password' : 'Forgot Password'}</Text>
+        <Text style={styles.subtitle}>
+          {hasToken
+            ? 'Choose a new password for your account'
+            : 'Enter your email and we will send you a reset link'}
+        </Text>
+
+        {error ? <Text style={styles.error}>{error}</Text> : null}
+        {done ? <Text style={styles.success}>{message}</Text> : null}
+
+        {!done && !hasToken && (
+          <View style={styles.inputWrap}>
+            <Mail size={16} color="#8A8A8A" />
+            <TextInput
+              style={styles.input}
+              placeholder="Enter your email"
+              placeholderTextColor="#9E9E9E"
+              value={email}
+              onChangeText={setEmail}
+              editable={!loading}
+              keyboardType="email-address"
+              autoCapitalize="none"
+            />
+          </View>
+        )}
+
+        {!done && hasToken && (
+          <>
+            <View style={styles.inputWrap}>
+              <Lock size={16} color="#8A8A8A" />
+              <TextInput
+                style={styles.input}
+                placeholder="New password"
+                placeholderTextColor="#9E9E9E"
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry={!showPassword}
+                editable={!loading}
+                autoCapitalize="none"
+              />
+              <TouchableOpacity onPress={() => setShowPassword(visible => !visible)}>
+                {showPassword ? (
+                  <EyeOff size={16} color="#8A8A8A" />
+                ) : (
+                  <Eye size={16} color="#8A8A8A" />
+                )}
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.inputWrap}>
+              <Lock size={16} color="#8A8A8A" />
+              <TextInput
+                style={styles.input}
+                placeholder="Confirm new password"
+                placeholderTextColor="#9E9E9E"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry={!showPassword}
+                editable={!loading}
+                autoCapitalize="none"
+              />
+            </View>
+
+            <Text style={styles.hint}>
+              At least 12 characters with upper and lower case letters, a number and a special character.
+            </Text>
+          </>
+        )}
+
+        {!done && (
+          <TouchableOpacity
+            style={[styles.primaryButton, loading && styles.buttonDisabled]}
+            onPress={hasToken ? handleResetPassword : handleRequestLink}
+            disabled={loading}
+          >
+            {loading ? (
+              <ActivityIndicator color="#1A1A1A" />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {hasToken ? 'Reset Password' : 'Send Reset Link'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity onPress={() => router.replace('/login')}>
+          <Text style={styles.bottomLink}>
+            Remembered it? <Text style={styles.bottomLinkAccent}>Back to log in</Text>
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  container: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 24,
+  },
+  brand: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#D89B17',
+    textAlign: 'center',
+    marginBottom: 6,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#121212',
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    color: '#6B6B6B',
+    marginTop: 8,
+    marginBottom: 18,
+    fontSize: 13,
+  },
+  inputWrap: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E2E2E2',
+    borderRadius: 12,
+    backgroundColor: '#FCFCFC',
+    paddingHorizontal: 12,
+    marginBottom: 10,
+    minHeight: 50,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 10,
+    fontSize: 16,
+    color: '#1A1A1A',
+  },
+  hint: {
+    color: '#6B6B6B',
+    fontSize: 12,
+    marginTop: 2,
+    marginBottom: 14,
+  },
+  primaryButton: {
+    backgroundColor: '#FFBD2E',
+    borderRadius: 12,
+    minHeight: 50,
+    borderWidth: 1,
+    borderColor: '#1A1A1A',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 4,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#1A1A1A',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  error: {
+    color: '#B00020',
+    marginBottom: 10,
+    textAlign: 'center',
+    fontSize: 12,
+  },
+  success: {
+    color: '#1E7B34',
+    marginBottom: 10,
+    textAlign: 'center',
+    fontSize: 13,
+  },
+  bottomLink: {
+    color: '#5C5C5C',
+    textAlign: 'center',
+    marginTop: 18,
+    fontSize: 14,
+  },
+  bottomLinkAccent: {
+    color: '#D89B17',
+    fontWeight: '600',
+  },
+});
@@ -93,7 +93,7 @@ export default function LoginScreen() {
             <Circle size={14} color="#8A8A8A" />
             <Text style={styles.rememberText}>Remember me</Text>
           </View>
-          <TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push('/forgot-password')}>
             <Text style={styles.forgotText}>Forget Password?</Text>
           </TouchableOpacity>
         </View>
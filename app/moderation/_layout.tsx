@@ -38,6 +38,12 @@ export default function ModerationLayout() {
           title: 'User Warnings',
         }}
       />
+      <Stack.Screen
+        name="deleted"
+        options={{
+          title: 'Deleted Posts',
+        }}
+      />
     </Stack>
   );
 }
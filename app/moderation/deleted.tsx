@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { ModeratorRoute } from '@/components/ProtectedRoute';
+import { formatTimeAgo } from '@/utils/feedAlgorithm';
+import { postsAPI, type ServerPost } from '@/utils/postsAPI';
+
+/**
+ * Deleted posts - soft-deleted by their authors or by moderators
+ * Each row can be restored, putting the post back in feeds and profiles.
+ */
+function DeletedPostsContent() {
+  const [posts, setPosts] = useState<ServerPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPosts = useCallback(async () => {
+    try {
+      setError('');
+      setPosts(await postsAPI.getDeletedPosts());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load deleted posts');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPosts();
+  }, [loadPosts]);
+
+  const restorePost = (post: ServerPost) => {
+    Alert.alert('Restore post', 'The post will show up in feeds and on its author\'s profile again.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Restore',
+        onPress: async () => {
+          try {
+            await postsAPI.restorePost(post.id);
+            setPosts(current => current.filter(item => item.id !== post.id));
+          } catch (err: any) {
+            setError(err.message || 'Failed to restore post');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderPost = ({ item }: { item: ServerPost }) => (
+    <View style={styles.row}>
+      <View style={styles.rowBody}>
+        <Text style={styles.caption} numberOfLines={2}>
+          {item.caption || `(${item.type} post without caption)`}
+        </Text>
+        <Text style={styles.meta}>
+          Posted by {item.userId} · {formatTimeAgo(item.createdAt)}
+        </Text>
+        {item.deletedAt && (
+          <Text style={styles.meta}>
+            Deleted {formatTimeAgo(item.deletedAt)}
+            {item.deletedBy === item.userId ? ' by the author' : ` by ${item.deletedBy}`}
+          </Text>
+        )}
+      </View>
+      <TouchableOpacity style={styles.restoreBtn} onPress={() => restorePost(item)}>
+        <Text style={styles.restoreText}>Restore</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} />
+      ) : (
+        <FlatList
+          data={posts}
+          keyExtractor={item => item.id}
+          renderItem={renderPost}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadPosts();
+              }}
+            />
+          }
+          ListEmptyComponent={<Text style={styles.empty}>No deleted posts</Text>}
+        />
+      )}
+    </View>
+  );
+}
+
+export default function DeletedPosts() {
+  return (
+    <ModeratorRoute>
+      <DeletedPostsContent />
+    </ModeratorRoute>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e5e5e5',
+  },
+  rowBody: {
+    flex: 1,
+    marginRight: 12,
+  },
+  caption: {
+    fontSize: 15,
+    color: '#1a1a1a',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  restoreBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+  },
+  restoreText: {
+    color: '#1a1a1a',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  empty: {
+    fontSize: 16,
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  error: {
+    color: '#B00020',
+    fontSize: 13,
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+});
@@ -64,6 +64,14 @@ function ModerationDashboardContent() {
           <Text style={styles.menuText}>⚠️ User Warnings</Text>
           <Text style={styles.menuArrow}>›</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.menuItem}
+          onPress={() => router.push('/moderation/deleted')}
+        >
+          <Text style={styles.menuText}>🗑️ Deleted Posts</Text>
+          <Text style={styles.menuArrow}>›</Text>
+        </TouchableOpacity>
       </View>
 
       <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
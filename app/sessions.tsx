@@ -0,0 +1,256 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, Monitor, Smartphone } from 'lucide-react-native';
+import { authAPI, type Session } from '@/utils/authAPI';
+
+function formatLastSeen(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'Active now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function isMobile(session: Session): boolean {
+  return /iPhone|iPad|Android|iOS|app/i.test(session.deviceName);
+}
+
+/**
+ * Active sessions - where the current user is logged in
+ * Each row can be logged out individually; "Log out everywhere else"
+ * keeps only this device.
+ */
+export default function SessionsScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setError('');
+      setSessions(await authAPI.listSessions());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const revokeSession = (session: Session) => {
+    Alert.alert('Log out device', `Log out of ${session.deviceName}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Log out',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await authAPI.revokeSession(session.id);
+            setSessions(current => current.filter(item => item.id !== session.id));
+          } catch (err: any) {
+            setError(err.message || 'Failed to log out device');
+          }
+        },
+      },
+    ]);
+  };
+
+  const logoutOthers = () => {
+    Alert.alert('Log out everywhere else', 'All other devices will need to log in again.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Log out others',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await authAPI.logoutOtherSessions();
+            setSessions(current => current.filter(item => item.current));
+          } catch (err: any) {
+            setError(err.message || 'Failed to log out other devices');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderSession = ({ item }: { item: Session }) => {
+    const Icon = isMobile(item) ? Smartphone : Monitor;
+
+    return (
+      <View style={styles.row}>
+        <View style={styles.iconWrap}>
+          <Icon size={22} color="#1a1a1a" />
+        </View>
+        <View style={styles.rowBody}>
+          <Text style={styles.deviceName}>{item.deviceName}</Text>
+          <Text style={styles.meta}>
+            {item.current ? 'This device' : formatLastSeen(item.lastSeenAt)}
+            {item.ip ? ` · ${item.ip}` : ''}
+          </Text>
+          <Text style={styles.meta}>
+            Signed in {new Date(item.createdAt).toLocaleDateString()}
+          </Text>
+        </View>
+        {!item.current && (
+          <TouchableOpacity style={styles.revokeBtn} onPress={() => revokeSession(item)}>
+            <Text style={styles.revokeText}>Log out</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const hasOtherSessions = sessions.some(session => !session.current);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.navHeader, { paddingTop: insets.top + 10 }]}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <ChevronLeft size={28} color="#1a1a1a" />
+        </TouchableOpacity>
+        <Text style={styles.navTitle}>Active sessions</Text>
+      </View>
+
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} />
+      ) : (
+        <FlatList
+          data={sessions}
+          keyExtractor={item => item.id}
+          renderItem={renderSession}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadSessions();
+              }}
+            />
+          }
+          ListEmptyComponent={<Text style={styles.empty}>No active sessions</Text>}
+          ListFooterComponent={
+            hasOtherSessions ? (
+              <TouchableOpacity style={styles.logoutOthersBtn} onPress={logoutOthers}>
+                <Text style={styles.logoutOthersText}>Log out everywhere else</Text>
+              </TouchableOpacity>
+            ) : null
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  navHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingBottom: 8,
+    backgroundColor: '#fff',
+  },
+  backBtn: {
+    padding: 4,
+  },
+  navTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginLeft: 8,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e5e5e5',
+  },
+  iconWrap: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#f2f2f2',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowBody: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  deviceName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  revokeBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+  },
+  revokeText: {
+    color: '#B00020',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  logoutOthersBtn: {
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#B00020',
+    alignItems: 'center',
+  },
+  logoutOthersText: {
+    color: '#B00020',
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  empty: {
+    fontSize: 16,
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  error: {
+    color: '#B00020',
+    fontSize: 13,
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+});
@@ -14,6 +14,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { ChevronUp, Heart, Send } from 'lucide-react-native';
 import { useApp } from '@/context/AppContext';
+import { useImpressions } from '@/hooks/useImpressions';
 import { formatTimeAgo } from '@/utils/feedAlgorithm';
 
 const { width, height } = Dimensions.get('window');
@@ -24,6 +25,7 @@ export default function StoryViewerScreen() {
   const router = useRouter();
   const { userId } = useLocalSearchParams<{ userId: string }>();
   const { getUser, markStorySeen, isFollowing, toggleFollow } = useApp();
+  const { trackImpression } = useImpressions('story');
 
   const groupedStories: any[] = [];
   const userStoryIndex = groupedStories.findIndex(g => g.user_id === userId);
@@ -73,10 +75,11 @@ export default function StoryViewerScreen() {
   useEffect(() => {
     if (currentStory) {
       markStorySeen(currentStory.id);
+      trackImpression(currentStory.id);
       startProgress();
     }
     return () => stopProgress();
-  }, [currentStory, markStorySeen, startProgress, stopProgress]);
+  }, [currentStory, markStorySeen, trackImpression, startProgress, stopProgress]);
 
   const goToPreviousStory = () => {
     if (currentStoryIndex > 0) {
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, ScrollView, StyleSheet, TouchableOpacity, Text } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
@@ -7,13 +7,28 @@ import { useApp } from '@/context/AppContext';
 import { ProfileHeader } from '@/components/ProfileHeader';
 import { ProfileTabs } from '@/components/ProfileTabs';
 import { MediaGrid } from '@/components/MediaGrid';
+import { postsAPI } from '@/utils/postsAPI';
+import type { Post } from '@/utils/feedAlgorithm';
 
 export default function UserProfileScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { getUser } = useApp();
+  const { auth, posts, getUser, canViewPost } = useApp();
   const [activeTab, setActiveTab] = useState<'posts' | 'saved' | 'videos'>('posts');
+  const [remotePosts, setRemotePosts] = useState<Post[]>([]);
+  const isRemote = !!auth && !auth.accessToken.startsWith('mock-');
+
+  // The server only returns the posts we are in the audience of
+  useEffect(() => {
+    if (!isRemote || !id) {
+      return;
+    }
+    postsAPI
+      .getUserPosts(id)
+      .then(page => setRemotePosts(page.posts))
+      .catch(() => setRemotePosts([]));
+  }, [isRemote, id]);
 
   const user = getUser(id);
 
@@ -25,7 +40,7 @@ export default function UserProfileScreen() {
     );
   }
 
-  const userPosts: any[] = [];
+  const userPosts = isRemote ? remotePosts : posts.filter(post => post.user_id === id && canViewPost(post));
   const mediaPosts = userPosts.filter(post => post.media_url);
   const videoPosts = userPosts.filter(post => post.type === 'video');
 
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { Check, ChevronDown, Globe, Lock, Star, Users, X, type LucideIcon } from 'lucide-react-native';
+import type { PostAudience } from '@/context/AppContext';
+
+export const AUDIENCE_OPTIONS: Record<PostAudience, { icon: LucideIcon; title: string; description: string }> = {
+  public: {
+    icon: Globe,
+    title: 'Public',
+    description: 'Anyone on Vairo',
+  },
+  followers: {
+    icon: Users,
+    title: 'Followers',
+    description: 'Only people who follow you',
+  },
+  close_friends: {
+    icon: Star,
+    title: 'Close friends',
+    description: 'Only people on your close friends list',
+  },
+  only_me: {
+    icon: Lock,
+    title: 'Only me',
+    description: 'Nobody else can see it',
+  },
+};
+
+const AUDIENCE_ORDER: PostAudience[] = ['public', 'followers', 'close_friends', 'only_me'];
+
+/**
+ * Icon for a post's audience (posts without one are public)
+ */
+export function AudienceIcon({ audience, size = 12, color = '#888' }: {
+  audience?: PostAudience;
+  size?: number;
+  color?: string;
+}) {
+  const Icon = AUDIENCE_OPTIONS[audience || 'public'].icon;
+  return <Icon size={size} color={color} />;
+}
+
+interface AudiencePickerProps {
+  value: PostAudience;
+  onChange: (audience: PostAudience) => void;
+}
+
+/**
+ * Composer control: the chosen audience, opening a sheet with every option
+ */
+export function AudiencePicker({ value, onChange }: AudiencePickerProps) {
+  const [open, setOpen] = useState(false);
+  const current = AUDIENCE_OPTIONS[value];
+
+  return (
+    <>
+      <TouchableOpacity style={styles.trigger} onPress={() => setOpen(true)}>
+        <AudienceIcon audience={value} size={16} color="#1a1a1a" />
+        <Text style={styles.triggerText}>{current.title}</Text>
+        <ChevronDown size={16} color="#1a1a1a" />
+      </TouchableOpacity>
+
+      <Modal visible={open} transparent animationType="slide" onRequestClose={() => setOpen(false)}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={() => setOpen(false)} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Who can see this?</Text>
+            <TouchableOpacity onPress={() => setOpen(false)}>
+              <X size={24} color="#333" />
+            </TouchableOpacity>
+          </View>
+
+          {AUDIENCE_ORDER.map(audience => {
+            const option = AUDIENCE_OPTIONS[audience];
+            return (
+              <TouchableOpacity
+                key={audience}
+                style={styles.option}
+                onPress={() => {
+                  onChange(audience);
+                  setOpen(false);
+                }}
+              >
+                <View style={styles.optionIcon}>
+                  <AudienceIcon audience={audience} size={20} color="#1a1a1a" />
+                </View>
+                <View style={styles.optionBody}>
+                  <Text style={styles.optionTitle}>{option.title}</Text>
+                  <Text style={styles.optionDescription}>{option.description}</Text>
+                </View>
+                {audience === value && <Check size={20} color="#1a1a1a" />}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  trigger: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  triggerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginHorizontal: 6,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  optionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#f2f2f2',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  optionBody: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  optionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,169 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ActivityIndicator } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { CameraView, useCameraPermissions, type CameraType } from 'expo-camera';
+import { RefreshCw, X } from 'lucide-react-native';
+
+export interface CapturedPhoto {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+interface CameraCaptureProps {
+  visible: boolean;
+  onCapture: (photo: CapturedPhoto) => void;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen camera for taking a photo, asking for permission first
+ */
+export function CameraCapture({ visible, onCapture, onClose }: CameraCaptureProps) {
+  const insets = useSafeAreaInsets();
+  const camera = useRef<CameraView>(null);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [facing, setFacing] = useState<CameraType>('back');
+  const [capturing, setCapturing] = useState(false);
+
+  const takePhoto = async () => {
+    if (!camera.current || capturing) {
+      return;
+    }
+    setCapturing(true);
+    try {
+      const photo = await camera.current.takePictureAsync({ quality: 0.8 });
+      if (photo) {
+        onCapture({ uri: photo.uri, width: photo.width, height: photo.height });
+      }
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (!permission) {
+      return <ActivityIndicator color="#fff" style={styles.centered} />;
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.permissionText}>Allow camera access to take photos for your posts.</Text>
+          {permission.canAskAgain ? (
+            <TouchableOpacity style={styles.permissionBtn} onPress={requestPermission}>
+              <Text style={styles.permissionBtnText}>Allow camera</Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.permissionHint}>Camera access is turned off in your device settings.</Text>
+          )}
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <CameraView ref={camera} style={styles.camera} facing={facing} />
+        <View style={[styles.controls, { paddingBottom: insets.bottom + 24 }]}>
+          <View style={styles.controlSpacer} />
+          <TouchableOpacity style={styles.shutter} onPress={takePhoto} disabled={capturing}>
+            <View style={styles.shutterInner} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.flipBtn}
+            onPress={() => setFacing(current => (current === 'back' ? 'front' : 'back'))}
+          >
+            <RefreshCw size={24} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {renderBody()}
+        <TouchableOpacity style={[styles.closeBtn, { top: insets.top + 10 }]} onPress={onClose}>
+          <X size={28} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  camera: {
+    flex: 1,
+  },
+  closeBtn: {
+    position: 'absolute',
+    left: 16,
+    padding: 4,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  permissionText: {
+    color: '#fff',
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  permissionHint: {
+    color: '#999',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  permissionBtn: {
+    backgroundColor: '#FFD400',
+    borderRadius: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  permissionBtnText: {
+    color: '#1a1a1a',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 32,
+    paddingTop: 24,
+  },
+  controlSpacer: {
+    width: 44,
+  },
+  shutter: {
+    width: 76,
+    height: 76,
+    borderRadius: 38,
+    borderWidth: 4,
+    borderColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shutterInner: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: '#fff',
+  },
+  flipBtn: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
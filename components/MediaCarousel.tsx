@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, FlatList, type LayoutChangeEvent, type NativeScrollEvent, type NativeSyntheticEvent } from 'react-native';
+import { Image } from 'expo-image';
+import type { PostMedia } from '@/utils/feedAlgorithm';
+
+// Taller than 4:5 or wider than 1.91:1 is cropped to fit
+const MIN_ASPECT_RATIO = 0.8;
+const MAX_ASPECT_RATIO = 1.91;
+const DEFAULT_ASPECT_RATIO = 1.2;
+
+/**
+ * Width / height for the carousel, set by the first attachment so pages don't jump
+ */
+function carouselAspectRatio(media: PostMedia[]): number {
+  const first = media[0];
+  if (!first?.width || !first?.height) {
+    return DEFAULT_ASPECT_RATIO;
+  }
+  return Math.min(MAX_ASPECT_RATIO, Math.max(MIN_ASPECT_RATIO, first.width / first.height));
+}
+
+interface MediaCarouselProps {
+  media: PostMedia[];
+}
+
+/**
+ * A post's attachments as swipeable pages, with position dots when there are several
+ */
+export function MediaCarousel({ media }: MediaCarouselProps) {
+  const [width, setWidth] = useState(0);
+  const [index, setIndex] = useState(0);
+  const aspectRatio = carouselAspectRatio(media);
+  const multiple = media.length > 1;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const handleScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (width > 0) {
+      setIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+    }
+  };
+
+  const renderItem = ({ item, index: position }: { item: PostMedia; index: number }) => (
+    <View style={{ width, aspectRatio }}>
+      <Image
+        source={{ uri: item.url }}
+        placeholder={item.blurhash ? { blurhash: item.blurhash } : undefined}
+        style={styles.media}
+        contentFit="cover"
+        transition={200}
+        accessible
+        accessibilityLabel={
+          item.alt || (multiple ? `${item.type === 'video' ? 'Video' : 'Photo'} ${position + 1} of ${media.length}` : undefined)
+        }
+      />
+      {item.type === 'video' && (
+        <View style={styles.videoIndicator}>
+          <Text style={styles.videoText}>VIDEO</Text>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View onLayout={handleLayout}>
+      <View style={{ aspectRatio }}>
+        {width > 0 && (
+          <FlatList
+            data={media}
+            keyExtractor={(item, position) => `${position}:${item.url}`}
+            renderItem={renderItem}
+            horizontal
+            pagingEnabled
+            scrollEnabled={multiple}
+            showsHorizontalScrollIndicator={false}
+            onMomentumScrollEnd={handleScrollEnd}
+            getItemLayout={(_, position) => ({ length: width, offset: width * position, index: position })}
+          />
+        )}
+        {multiple && (
+          <View style={styles.counter}>
+            <Text style={styles.counterText}>
+              {index + 1}/{media.length}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {multiple && (
+        <View style={styles.dots}>
+          {media.map((item, position) => (
+            <View key={`${position}:${item.url}`} style={[styles.dot, position === index && styles.dotActive]} />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  media: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: '#f0f0f0',
+  },
+  videoIndicator: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  videoText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  counter: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  counterText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  dots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    paddingTop: 10,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#d0d0d0',
+    marginHorizontal: 3,
+  },
+  dotActive: {
+    backgroundColor: '#1a1a1a',
+  },
+});
@@ -1,7 +1,8 @@
 import React from 'react';
-import { View, Image, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
-import { Play } from 'lucide-react-native';
-import { formatNumber } from '@/utils/feedAlgorithm';
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
+import { Image } from 'expo-image';
+import { Copy, Play } from 'lucide-react-native';
+import { formatNumber, getPostMedia } from '@/utils/feedAlgorithm';
 
 interface MediaGridProps {
   posts: any[];
@@ -14,11 +15,13 @@ const GRID_COLUMNS = 3;
 const ITEM_SIZE = (width - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS;
 
 export function MediaGrid({ posts, onPostPress }: MediaGridProps) {
-  const mediaPosts = posts.filter(post => post.media_url);
+  const mediaPosts = posts
+    .map(post => ({ post, media: getPostMedia(post) }))
+    .filter(({ media }) => media.length > 0);
 
   return (
     <View style={styles.container}>
-      {mediaPosts.map((post, index) => (
+      {mediaPosts.map(({ post, media }, index) => (
         <TouchableOpacity
           key={post.id}
           style={[
@@ -31,8 +34,19 @@ export function MediaGrid({ posts, onPostPress }: MediaGridProps) {
           onPress={() => onPostPress?.(post)}
           activeOpacity={0.8}
         >
-          <Image source={{ uri: post.media_url }} style={styles.media} />
-          {post.type === 'video' && (
+          <Image
+            source={{ uri: media[0].url }}
+            placeholder={media[0].blurhash ? { blurhash: media[0].blurhash } : undefined}
+            style={styles.media}
+            contentFit="cover"
+            accessibilityLabel={media[0].alt}
+          />
+          {media.length > 1 && (
+            <View style={styles.multiBadge} accessibilityLabel={`${media.length} items`}>
+              <Copy size={18} color="#fff" />
+            </View>
+          )}
+          {media[0].type === 'video' && (
             <View style={styles.videoOverlay}>
               <Play size={20} color="#fff" fill="#fff" />
               <Text style={styles.viewCount}>{formatNumber(post.likes)}</Text>
@@ -60,6 +74,15 @@ const styles = StyleSheet.create({
     height: '100%',
     backgroundColor: '#f0f0f0',
   },
+  multiBadge: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    shadowColor: '#000',
+    shadowOpacity: 0.4,
+    shadowRadius: 2,
+    shadowOffset: { width: 0, height: 1 },
+  },
   videoOverlay: {
     position: 'absolute',
     bottom: 8,
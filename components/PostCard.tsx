@@ -1,28 +1,40 @@
 import React, { useState } from 'react';
-import { View, Image, Text, StyleSheet, TouchableOpacity, Modal, TextInput } from 'react-native';
-import { MessageCircle, Share2, MoreVertical, Globe, X } from 'lucide-react-native';
+import { View, Image, Text, StyleSheet, TouchableOpacity, Modal, TextInput, Alert } from 'react-native';
+import { MessageCircle, Share2, MoreVertical, X, Info, Pencil, Trash2 } from 'lucide-react-native';
 import { useApp } from '@/context/AppContext';
-import { formatNumber, formatTimeAgo } from '@/utils/feedAlgorithm';
+import { formatNumber, formatTimeAgo, getPostMedia, type RankingExplanation, type User as FeedUser } from '@/utils/feedAlgorithm';
 import { useRouter } from 'expo-router';
+import { WhyThisPostSheet } from '@/components/WhyThisPostSheet';
+import { AudienceIcon } from '@/components/AudiencePicker';
+import { MediaCarousel } from '@/components/MediaCarousel';
 
 interface PostCardProps {
   post: any;
+  author?: FeedUser; // Defaults to the AppContext user (server feed posts bring their own)
+  onExplain?: () => Promise<RankingExplanation | null>; // Feed only: enables "Why this post?"
 }
 
-export function PostCard({ post }: PostCardProps) {
+export function PostCard({ post, author, onExplain }: PostCardProps) {
   const router = useRouter();
-  const { getUser, addComment, getComments } = useApp();
-  const user = getUser(post.user_id);
+  const { getUser, addComment, getComments, editPost, deletePost, canManagePost } = useApp();
+  const user = author || getUser(post.user_id);
   const [expanded, setExpanded] = useState(false);
   const [showCommentModal, setShowCommentModal] = useState(false);
   const [commentText, setCommentText] = useState('');
+  const [showMenu, setShowMenu] = useState(false);
+  const [showWhy, setShowWhy] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [editText, setEditText] = useState('');
+  const [saving, setSaving] = useState(false);
 
   if (!user) return null;
 
   const caption = post.caption;
   const shouldTruncate = caption.length > 100 && !expanded;
   const displayCaption = shouldTruncate ? caption.slice(0, 100) + '...' : caption;
+  const media = getPostMedia(post);
   const comments = getComments(post.id);
+  const canManage = canManagePost(post);
 
   const handleUserPress = () => {
     router.push(`/user/${user.id}`);
@@ -36,6 +48,42 @@ export function PostCard({ post }: PostCardProps) {
     }
   };
 
+  const openEdit = () => {
+    setShowMenu(false);
+    setEditText(caption);
+    setShowEditModal(true);
+  };
+
+  const handleSaveEdit = async () => {
+    setSaving(true);
+    try {
+      await editPost(post.id, editText.trim());
+      setShowEditModal(false);
+    } catch (err: any) {
+      Alert.alert('Could not edit post', err.message || 'Failed to edit post');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = () => {
+    setShowMenu(false);
+    Alert.alert('Delete post', 'This post will be removed from your profile and feeds.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deletePost(post.id);
+          } catch (err: any) {
+            Alert.alert('Could not delete post', err.message || 'Failed to delete post');
+          }
+        },
+      },
+    ]);
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -46,11 +94,17 @@ export function PostCard({ post }: PostCardProps) {
             <View style={styles.timeRow}>
               <Text style={styles.timeText}>{formatTimeAgo(post.created_at)}</Text>
               <Text style={styles.dot}>•</Text>
-              <Globe size={12} color="#888" />
+              <AudienceIcon audience={post.audience} />
+              {post.edited_at && (
+                <>
+                  <Text style={styles.dot}>•</Text>
+                  <Text style={styles.timeText}>Edited</Text>
+                </>
+              )}
             </View>
           </View>
         </TouchableOpacity>
-        <TouchableOpacity style={styles.moreBtn}>
+        <TouchableOpacity style={styles.moreBtn} onPress={() => (onExplain || canManage) && setShowMenu(true)}>
           <MoreVertical size={20} color="#333" />
         </TouchableOpacity>
       </View>
@@ -65,16 +119,7 @@ export function PostCard({ post }: PostCardProps) {
         </Text>
       </View>
 
-      {post.media_url && (
-        <View style={styles.mediaContainer}>
-          <Image source={{ uri: post.media_url }} style={styles.media} resizeMode="cover" />
-          {post.type === 'video' && (
-            <View style={styles.videoIndicator}>
-              <Text style={styles.videoText}>VIDEO</Text>
-            </View>
-          )}
-        </View>
-      )}
+      {media.length > 0 && <MediaCarousel media={media} />}
 
       <View style={styles.actions}>
         <TouchableOpacity style={styles.actionBtn} onPress={() => setShowCommentModal(true)}>
@@ -138,6 +183,84 @@ export function PostCard({ post }: PostCardProps) {
           </View>
         </View>
       </Modal>
+
+      <Modal
+        visible={showMenu}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowMenu(false)}
+      >
+        <TouchableOpacity style={styles.menuBackdrop} activeOpacity={1} onPress={() => setShowMenu(false)}>
+          <View style={styles.menu}>
+            {onExplain && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => {
+                  setShowMenu(false);
+                  setShowWhy(true);
+                }}
+              >
+                <Info size={20} color="#333" />
+                <Text style={styles.menuItemText}>Why this post?</Text>
+              </TouchableOpacity>
+            )}
+            {canManage && (
+              <>
+                <TouchableOpacity style={styles.menuItem} onPress={openEdit}>
+                  <Pencil size={20} color="#333" />
+                  <Text style={styles.menuItemText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.menuItem} onPress={confirmDelete}>
+                  <Trash2 size={20} color="#B00020" />
+                  <Text style={[styles.menuItemText, styles.menuItemDestructive]}>Delete</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      <Modal
+        visible={showEditModal}
+        animationType="slide"
+        onRequestClose={() => setShowEditModal(false)}
+      >
+        <View style={styles.commentModal}>
+          <View style={styles.commentHeader}>
+            <Text style={styles.commentTitle}>Edit post</Text>
+            <TouchableOpacity onPress={() => setShowEditModal(false)}>
+              <X size={24} color="#333" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.commentInputContainer}>
+            <TextInput
+              style={styles.commentInput}
+              placeholder="Write a caption..."
+              value={editText}
+              onChangeText={setEditText}
+              maxLength={2000}
+              multiline
+              autoFocus
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, saving && styles.sendButtonDisabled]}
+              onPress={handleSaveEdit}
+              disabled={saving}
+            >
+              <Text style={styles.sendButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {onExplain && (
+        <WhyThisPostSheet
+          visible={showWhy}
+          onClose={() => setShowWhy(false)}
+          loadExplanation={onExplain}
+        />
+      )}
     </View>
   );
 }
@@ -212,28 +335,6 @@ const styles = StyleSheet.create({
     color: '#0066CC',
     fontWeight: '500',
   },
-  mediaContainer: {
-    position: 'relative',
-  },
-  media: {
-    width: '100%',
-    aspectRatio: 1.2,
-    backgroundColor: '#f0f0f0',
-  },
-  videoIndicator: {
-    position: 'absolute',
-    top: 12,
-    right: 12,
-    backgroundColor: 'rgba(0,0,0,0.7)',
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 4,
-  },
-  videoText: {
-    color: '#fff',
-    fontSize: 10,
-    fontWeight: '700',
-  },
   actions: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -342,4 +443,30 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#1a1a1a',
   },
+  menuBackdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  menu: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingVertical: 12,
+    paddingBottom: 32,
+  },
+  menuItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  menuItemText: {
+    fontSize: 16,
+    color: '#1a1a1a',
+    marginLeft: 12,
+  },
+  menuItemDestructive: {
+    color: '#B00020',
+  },
 });
@@ -0,0 +1,218 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ActivityIndicator } from 'react-native';
+import { Sparkles, X } from 'lucide-react-native';
+import type { RankingExplanation, RankingSignal } from '@/utils/feedAlgorithm';
+
+const SIGNAL_LABELS: Record<RankingSignal, { title: string; description: string }> = {
+  underexposure_boost: {
+    title: 'Under-exposure boost',
+    description: 'Accounts that have been seen less get a lift',
+  },
+  follower_balance: {
+    title: 'Follower balance',
+    description: 'Smaller audiences score higher than very large ones',
+  },
+  recency: {
+    title: 'Recency',
+    description: 'Newer posts score higher, fading with age',
+  },
+  engagement_quality: {
+    title: 'Engagement quality',
+    description: 'Likes, comments and shares relative to audience size',
+  },
+  content_diversity: {
+    title: 'Content diversity',
+    description: 'Keeps a mix of text, photos and videos',
+  },
+  impression_decay: {
+    title: 'Impression decay',
+    description: 'Accounts already seen a lot recently are held back',
+  },
+};
+
+interface WhyThisPostSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  loadExplanation: () => Promise<RankingExplanation | null>;
+}
+
+/**
+ * "Why this post?" - the weighted signals behind a post's place in the feed
+ */
+export function WhyThisPostSheet({ visible, onClose, loadExplanation }: WhyThisPostSheetProps) {
+  const [explanation, setExplanation] = useState<RankingExplanation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Load once per opening, even if the parent passes a new function each render
+  const loadRef = useRef(loadExplanation);
+  loadRef.current = loadExplanation;
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+
+    loadRef.current()
+      .then(result => {
+        if (cancelled) return;
+        setExplanation(result);
+        if (!result) setError('This post is no longer in your feed. Pull down to refresh.');
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.message || 'Failed to load explanation');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
+  const components = explanation
+    ? [...explanation.components].sort((a, b) => b.contribution - a.contribution)
+    : [];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+      <View style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Why this post?</Text>
+          <TouchableOpacity onPress={onClose}>
+            <X size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} color="#1a1a1a" />
+        ) : error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : explanation ? (
+          <>
+            {explanation.priority_slot && (
+              <View style={styles.prioritySlot}>
+                <Sparkles size={16} color="#1a1a1a" />
+                <Text style={styles.prioritySlotText}>
+                  Shown in a slot we reserve for voices that are heard less often
+                </Text>
+              </View>
+            )}
+
+            <Text style={styles.summary}>
+              Position {explanation.position + 1} in your feed · score {explanation.score.toFixed(2)}
+            </Text>
+
+            {components.map(component => (
+              <View key={component.signal} style={styles.component}>
+                <View style={styles.componentHeader}>
+                  <Text style={styles.componentTitle}>{SIGNAL_LABELS[component.signal].title}</Text>
+                  <Text style={styles.componentValue}>+{component.contribution.toFixed(2)}</Text>
+                </View>
+                <View style={styles.bar}>
+                  <View style={[styles.barFill, { width: `${Math.round(component.value * 100)}%` }]} />
+                </View>
+                <Text style={styles.componentDescription}>
+                  {SIGNAL_LABELS[component.signal].description} · weight {Math.round(component.weight * 100)}%
+                </Text>
+              </View>
+            ))}
+          </>
+        ) : null}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  loading: {
+    paddingVertical: 40,
+  },
+  errorText: {
+    color: '#FF6B6B',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  prioritySlot: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF6CC',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  prioritySlotText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#1a1a1a',
+    marginLeft: 8,
+  },
+  summary: {
+    fontSize: 13,
+    color: '#888',
+    marginBottom: 16,
+  },
+  component: {
+    marginBottom: 14,
+  },
+  componentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  componentTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  componentValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  bar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#f0f0f0',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#FFD400',
+  },
+  componentDescription: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+});
@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
 import { storage } from '@/utils/storage';
+import { generateSeedData, type SeedData } from '@/utils/seedData';
+import { postsAPI, type PostMediaInput } from '@/utils/postsAPI';
+import type { PostMedia } from '@/utils/feedAlgorithm';
 
 export type UserRole = 'user' | 'moderator' | 'admin';
 
@@ -34,19 +37,32 @@ export interface AuthState {
   expiresIn: number; // Token expiration in seconds
 }
 
+/**
+ * Who besides the author can see a post
+ */
+export type PostAudience = 'public' | 'followers' | 'close_friends' | 'only_me';
+
 export interface Post {
   id: string;
   user_id: string;
   type: 'text' | 'image' | 'video';
   caption: string;
-  media_url?: string;
+  media_url?: string; // First attachment
+  media?: PostMedia[]; // All attachments in order
+  audience?: PostAudience; // Missing means public
   likes: number;
   comments: number;
   shares: number;
   created_at: string;
+  edited_at?: string;
   reach_score: number;
 }
 
+/**
+ * Caption change made in this session (applied over server feed pages too)
+ */
+export type PostEdit = Pick<Post, 'caption' | 'edited_at'>;
+
 export interface Story {
   id: string;
   user_id: string;
@@ -75,6 +91,19 @@ interface AppState {
   seenStories: Set<string>;
   postReactions: Map<string, ReactionType>;
   postComments: Map<string, Comment[]>;
+  editedPosts: Map<string, PostEdit>;
+  deletedPosts: Set<string>;
+}
+
+/**
+ * A post about to be published (media already uploaded, or local URIs in mock mode)
+ */
+export interface PostDraft {
+  caption: string;
+  type: 'text' | 'image' | 'video';
+  media?: PostMediaInput[]; // In display order, at most 5; uploads by ID, local files by URL in mock mode
+  audience?: PostAudience; // Defaults to public
+  mentions?: string[]; // User IDs mentioned in the caption
 }
 
 interface AppContextType extends AppState {
@@ -82,7 +111,14 @@ interface AppContextType extends AppState {
   toggleFollow: (userId: string) => void;
   markStorySeen: (storyId: string) => void;
   addComment: (postId: string, text: string) => void;
-  createPost: (caption: string, type: 'text' | 'image' | 'video', mediaUrl?: string) => void;
+  // Signed in against the API server these call it, and throw its error
+  // (e.g. when the edit window has closed)
+  createPost: (draft: PostDraft) => Promise<void>;
+  editPost: (postId: string, caption: string) => Promise<void>;
+  deletePost: (postId: string) => Promise<void>;
+  canManagePost: (post: Pick<Post, 'user_id'>) => boolean; // Author, moderator or admin
+  // Mock mode check for local posts; the server filters its responses itself
+  canViewPost: (post: Pick<Post, 'user_id' | 'audience'>) => boolean;
   isLiked: (postId: string) => boolean;
   isFollowing: (userId: string) => boolean;
   isStorySeen: (storyId: string) => boolean;
@@ -104,17 +140,49 @@ interface AppContextType extends AppState {
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+/**
+ * Sample data for mock mode, generated from EXPO_PUBLIC_SEED_DATA (a seed
+ * number). Returns null when unset, leaving the app empty.
+ */
+function loadSeedData(): SeedData | null {
+  const seedValue = process.env.EXPO_PUBLIC_SEED_DATA;
+  if (!seedValue) {
+    return null;
+  }
+
+  const seed = parseInt(seedValue, 10);
+  if (!Number.isFinite(seed) || seed < 0) {
+    console.warn(`Ignoring EXPO_PUBLIC_SEED_DATA="${seedValue}": expected a seed number`);
+    return null;
+  }
+
+  return generateSeedData({ seed });
+}
+
+function groupCommentsByPost(comments: Comment[]): Map<string, Comment[]> {
+  const grouped = new Map<string, Comment[]>();
+  for (const comment of comments) {
+    grouped.set(comment.postId, [...(grouped.get(comment.postId) || []), comment]);
+  }
+  return grouped;
+}
+
 export function AppProvider({ children }: { children: ReactNode }) {
-  const [users] = useState<User[]>([]);
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [stories] = useState<Story[]>([]);
+  const [seedData] = useState(loadSeedData);
+  const [users] = useState<User[]>(() => seedData?.users || []);
+  const [posts, setPosts] = useState<Post[]>(() => seedData?.posts || []);
+  const [stories] = useState<Story[]>(() => seedData?.stories || []);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [auth, setAuth] = useState<AuthState | null>(null);
   const [following, setFollowing] = useState<Set<string>>(new Set());
   const [likedPosts, setLikedPosts] = useState<Set<string>>(new Set());
   const [seenStories, setSeenStories] = useState<Set<string>>(new Set());
   const [postReactions, setPostReactions] = useState<Map<string, ReactionType>>(new Map());
-  const [postComments, setPostComments] = useState<Map<string, Comment[]>>(new Map());
+  const [postComments, setPostComments] = useState<Map<string, Comment[]>>(
+    () => groupCommentsByPost(seedData?.comments || [])
+  );
+  const [editedPosts, setEditedPosts] = useState<Map<string, PostEdit>>(new Map());
+  const [deletedPosts, setDeletedPosts] = useState<Set<string>>(new Set());
 
   // Restore mock authentication state on app startup
   useEffect(() => {
@@ -231,14 +299,26 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }));
   }, []);
 
+  const isRemote = !!auth && !auth.accessToken.startsWith('mock-');
+
   const createPost = useCallback(
-    (caption: string, type: 'text' | 'image' | 'video', mediaUrl?: string) => {
+    async ({ caption, type, media = [], audience = 'public', mentions = [] }: PostDraft) => {
+      if (isRemote) {
+        // The server feed picks it up on the next refresh
+        await postsAPI.createPost({ caption, type, audience, media, mentions });
+        return;
+      }
+
+      // Mock mode has nothing uploaded, only local files
+      const localMedia = media.filter((item): item is PostMedia => 'url' in item);
       const newPost: Post = {
         id: `post-${Date.now()}`,
         user_id: currentUser?.id || 'current-user',
         type,
         caption,
-        media_url: mediaUrl,
+        media_url: localMedia[0]?.url,
+        media: localMedia,
+        audience,
         likes: 0,
         comments: 0,
         shares: 0,
@@ -248,7 +328,51 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
       setPosts(prev => [newPost, ...prev]);
     },
-    [currentUser?.id]
+    [isRemote, currentUser?.id]
+  );
+
+  const editPost = useCallback(
+    async (postId: string, caption: string) => {
+      const edit: PostEdit = { caption, edited_at: new Date().toISOString() };
+      if (isRemote) {
+        const updated = await postsAPI.editPost(postId, caption);
+        edit.caption = updated.caption;
+        edit.edited_at = updated.editedAt;
+      }
+
+      setEditedPosts(prev => new Map(prev).set(postId, edit));
+      setPosts(prev => prev.map(post => (post.id === postId ? { ...post, ...edit } : post)));
+    },
+    [isRemote]
+  );
+
+  const deletePost = useCallback(
+    async (postId: string) => {
+      if (isRemote) {
+        await postsAPI.deletePost(postId);
+      }
+
+      setDeletedPosts(prev => new Set(prev).add(postId));
+      setPosts(prev => prev.filter(post => post.id !== postId));
+    },
+    [isRemote]
+  );
+
+  const canManagePost = useCallback(
+    (post: Pick<Post, 'user_id'>) =>
+      !!auth && (post.user_id === auth.userId || auth.role === 'admin' || auth.role === 'moderator'),
+    [auth]
+  );
+
+  // Mock mode keeps no close friends lists, so only authors see close_friends posts
+  const canViewPost = useCallback(
+    (post: Pick<Post, 'user_id' | 'audience'>) => {
+      if (!post.audience || post.audience === 'public' || post.user_id === currentUser?.id) {
+        return true;
+      }
+      return post.audience === 'followers' && following.has(post.user_id);
+    },
+    [currentUser?.id, following]
   );
 
   const toggleFollow = useCallback((userId: string) => {
@@ -400,11 +524,17 @@ export function AppProvider({ children }: { children: ReactNode }) {
     seenStories,
     postReactions,
     postComments,
+    editedPosts,
+    deletedPosts,
     toggleLike,
     toggleFollow,
     markStorySeen,
     addComment,
     createPost,
+    editPost,
+    deletePost,
+    canManagePost,
+    canViewPost,
     isLiked,
     isFollowing,
     isStorySeen,
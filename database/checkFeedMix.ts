@@ -0,0 +1,290 @@
+/**
+ * Feed Mix Check CLI - Randomized property check of the feed arrangement
+ *
+ * Usage:
+ *   npm run db:check-feed -- [--seed <n>] [--runs <n>]
+ *
+ * Ranks random feeds with random (valid) ranking parameters through
+ * rankFeedPosts (utils/feedAlgorithm.ts) and checks what
+ * interleavePrioritySlots promises for every one of them:
+ *
+ * - Every post with a known author is placed exactly once (none dropped)
+ * - No window of diversity_window consecutive posts has more than
+ *   author_cap posts by one author
+ * - Every window has min_followed_per_window followed posts and
+ *   min_discovery_per_window others, unless the author cap left no post
+ *   of the missing kind to place where the window fell short
+ * - The window checks stop where the author cap allowed none of the
+ *   remaining posts; from there on the posts are in rank order
+ *
+ * Inputs come from createRandom (utils/seedData.ts), so a failing case
+ * can be reproduced with the seed and run printed in the report.
+ *
+ * Exits with status 1 if any property fails.
+ */
+
+import {
+  BLENDED_SIGNALS,
+  rankFeedPosts,
+  validateRankingParameters,
+  type Post,
+  type RankedPost,
+  type RankingParameters,
+  type User,
+} from '../utils/feedAlgorithm';
+import { createRandom } from '../utils/seedData';
+import { parseSeedNumber } from './seeder';
+
+const USAGE = `Usage: npm run db:check-feed -- [--seed <n>] [--runs <n>]
+
+  --seed <n>   First seed (default 1); run i uses seed n + i
+  --runs <n>   Number of random feeds to check (default 500)`;
+
+const DEFAULT_RUNS = 500;
+const MAX_FAILURES_SHOWN = 10;
+
+interface FeedCase {
+  posts: Post[];
+  users: Map<string, User>;
+  parameters: RankingParameters;
+  followedIds?: Set<string>;
+}
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`${name} needs a value`);
+  }
+  return value;
+}
+
+/**
+ * A random feed: a few prolific authors among many occasional ones, some
+ * posts by unknown authors (never eligible) and, most of the time, a
+ * followed set to enforce the followed / discovery mix with
+ */
+function generateCase(seed: number): FeedCase {
+  const random = createRandom(seed);
+  const integer = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+  const window = integer(2, 12);
+  const minFollowed = integer(0, window);
+  const blend = BLENDED_SIGNALS.map(() => random() + 0.01);
+  const blendTotal = blend.reduce((sum, weight) => sum + weight, 0);
+  const interval = integer(2, 6);
+
+  const parameters: RankingParameters = {
+    weights: {
+      underexposure_boost: blend[0] / blendTotal,
+      follower_balance: blend[1] / blendTotal,
+      recency: blend[2] / blendTotal,
+      engagement_quality: blend[3] / blendTotal,
+      content_diversity: blend[4] / blendTotal,
+      impression_decay: random() * 0.5,
+    },
+    follower_cap: integer(1, 100000),
+    impression_cap: integer(1, 100000),
+    recency_decay_hours: integer(1, 720),
+    underexposed_visibility: integer(0, 100),
+    priority_slot_interval: interval,
+    priority_slot_offset: integer(0, interval - 1),
+    diversity_window: window,
+    author_cap: integer(1, window),
+    min_followed_per_window: minFollowed,
+    min_discovery_per_window: integer(0, window - minFollowed),
+  };
+
+  const users = new Map<string, User>();
+  const userCount = integer(1, 15);
+  for (let i = 0; i < userCount; i++) {
+    const id = `user_${i}`;
+    users.set(id, {
+      id,
+      name: id,
+      username: id,
+      avatar: '',
+      bio: '',
+      location: '',
+      occupation: '',
+      followers_count: integer(0, 200000),
+      following_count: 0,
+      posts_count: 0,
+      likes_count: 0,
+      visibility_score: integer(0, 100),
+      recent_impressions: integer(0, 200000),
+      created_at: new Date(0).toISOString(),
+    });
+  }
+
+  const authorIds = [...users.keys()];
+  const now = Date.now();
+  const posts: Post[] = [];
+  const postCount = integer(0, 60);
+  for (let i = 0; i < postCount; i++) {
+    // Squaring skews authorship towards the first few users
+    const authorId = random() < 0.05 ? 'user_unknown' : authorIds[Math.floor(random() ** 2 * authorIds.length)];
+    posts.push({
+      id: `post_${i}`,
+      user_id: authorId,
+      type: (['text', 'image', 'video'] as const)[integer(0, 2)],
+      caption: '',
+      likes: integer(0, 500),
+      comments: integer(0, 100),
+      shares: integer(0, 50),
+      created_at: new Date(now - integer(0, 14 * 24) * 60 * 60 * 1000).toISOString(),
+      reach_score: 0,
+    });
+  }
+
+  const followedIds = random() < 0.8
+    ? new Set(authorIds.filter(() => random() < 0.4))
+    : undefined;
+
+  return { posts, users, parameters, followedIds };
+}
+
+/**
+ * Check one ranked feed
+ *
+ * @returns Violated properties (empty when the feed is correct)
+ */
+function checkCase({ posts, users, parameters, followedIds }: FeedCase, feed: RankedPost[]): string[] {
+  const problems: string[] = [];
+  const window = parameters.diversity_window;
+
+  // Author counts in the window ending at position i, excluding i itself
+  const authorCountsBefore = (i: number) => {
+    const counts = new Map<string, number>();
+    for (const post of feed.slice(Math.max(0, i - window + 1), i)) {
+      counts.set(post.user_id, (counts.get(post.user_id) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const allowedAt = (i: number, post: Post) =>
+    (authorCountsBefore(i).get(post.user_id) ?? 0) < parameters.author_cap;
+
+  // Every eligible post exactly once, nothing else
+  const eligible = new Map(posts.filter(post => users.has(post.user_id)).map(post => [post.id, post]));
+  const placedIds = new Set<string>();
+  for (const post of feed) {
+    if (!eligible.has(post.id)) {
+      problems.push(`${post.id} is not an eligible post`);
+    } else if (placedIds.has(post.id)) {
+      problems.push(`${post.id} is placed twice`);
+    }
+    placedIds.add(post.id);
+  }
+  for (const post of eligible.values()) {
+    if (!placedIds.has(post.id)) {
+      problems.push(`${post.id} is missing from the feed`);
+    }
+  }
+
+  // The tail starts at the first position where every remaining post is capped
+  let tailStart = 0;
+  while (tailStart < feed.length && feed.slice(tailStart).some(post => allowedAt(tailStart, post))) {
+    tailStart++;
+  }
+  for (let i = tailStart + 1; i < feed.length; i++) {
+    if (feed[i].ranking_score > feed[i - 1].ranking_score) {
+      problems.push(`the capped tail from position ${tailStart} is out of rank order at position ${i}`);
+      break;
+    }
+  }
+
+  for (let end = window - 1; end < tailStart; end++) {
+    const start = end - window + 1;
+    const windowPosts = feed.slice(start, end + 1);
+
+    const authorCounts = new Map<string, number>();
+    for (const post of windowPosts) {
+      authorCounts.set(post.user_id, (authorCounts.get(post.user_id) ?? 0) + 1);
+    }
+    for (const [authorId, count] of authorCounts) {
+      if (count > parameters.author_cap) {
+        problems.push(`${authorId} has ${count} posts in positions ${start}-${end} (cap ${parameters.author_cap})`);
+      }
+    }
+
+    if (!followedIds) {
+      continue;
+    }
+
+    const followed = windowPosts.filter(post => followedIds.has(post.user_id)).length;
+    const shortfalls: [kind: boolean, label: string, count: number, minimum: number][] = [
+      [true, 'followed', followed, parameters.min_followed_per_window],
+      [false, 'discovery', windowPosts.length - followed, parameters.min_discovery_per_window],
+    ];
+
+    for (const [kind, label, count, minimum] of shortfalls) {
+      if (count >= minimum) {
+        continue;
+      }
+      // A short window is only fair if, at some position in it that got the
+      // other kind, no remaining post of the missing kind fit under the cap
+      const excused = windowPosts.some((post, offset) => {
+        const position = start + offset;
+        return followedIds.has(post.user_id) !== kind && !feed.slice(position)
+          .some(candidate => followedIds.has(candidate.user_id) === kind && allowedAt(position, candidate));
+      });
+      if (!excused) {
+        problems.push(`positions ${start}-${end} have ${count} ${label} posts (minimum ${minimum})`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+async function main(args: string[]): Promise<void> {
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const seedOption = readOption(args, '--seed');
+  const runsOption = readOption(args, '--runs');
+  const firstSeed = seedOption !== undefined ? parseSeedNumber(seedOption) : 1;
+  const runs = runsOption !== undefined ? parseSeedNumber(runsOption) : DEFAULT_RUNS;
+
+  let failed = 0;
+  let placedPosts = 0;
+  for (let run = 0; run < runs; run++) {
+    const seed = firstSeed + run;
+    const feedCase = generateCase(seed);
+
+    const errors = validateRankingParameters(feedCase.parameters);
+    if (errors.length > 0) {
+      throw new Error(`Seed ${seed} generated invalid parameters:\n  ${errors.join('\n  ')}`);
+    }
+
+    const feed = rankFeedPosts(feedCase.posts, id => feedCase.users.get(id), {
+      parameters: feedCase.parameters,
+      followedIds: feedCase.followedIds,
+    });
+    placedPosts += feed.length;
+
+    const problems = checkCase(feedCase, feed);
+    if (problems.length > 0) {
+      failed++;
+      if (failed <= MAX_FAILURES_SHOWN) {
+        console.error(`❌ Seed ${seed}:\n  ${problems.join('\n  ')}`);
+      }
+    }
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} of ${runs} feeds broke the feed mix (reproduce with --seed <n> --runs 1)`);
+  }
+
+  console.log(`✅ ${runs} random feeds (seeds ${firstSeed}-${firstSeed + runs - 1}, ${placedPosts} posts placed) keep the feed mix`);
+}
+
+main(process.argv.slice(2)).catch((error: any) => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,169 @@
+/**
+ * Lockout Sharing Check CLI - Account lockout across server instances
+ *
+ * Usage:
+ *   npm run db:check-lockout
+ *
+ * Loads utils/accountLockout.ts twice, as two server instances whose Redis
+ * stores (utils/keyValueStore.ts) share one stand-in Redis, and checks that
+ * what one instance does is what the other one sees:
+ *
+ * - A lock recorded on one instance blocks logins on the other
+ * - An admin unlock on one instance lets the account log in on the other,
+ *   even though the instance that recorded the lock still has it in its
+ *   local copy of the store
+ * - Clearing failed attempts on one instance resets the back-off on the other
+ *
+ * The stand-in keeps keys in memory with the same get / set EX / del /
+ * MULTI INCR EXPIRE semantics the store uses; no Redis server is needed.
+ *
+ * Exits with status 1 if any check fails.
+ */
+
+import type { User } from '../utils/User';
+import '../utils/userStore';
+
+type AccountLockout = typeof import('../utils/accountLockout');
+
+interface StoredValue {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory stand-in for the node-redis client calls made by RedisKeyValueStore
+ */
+function createSharedRedis() {
+  const data = new Map<string, StoredValue>();
+
+  const read = (key: string): string | null => {
+    const entry = data.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      data.delete(key);
+      return null;
+    }
+    return entry.value;
+  };
+  const write = (key: string, value: string, seconds: number) => {
+    data.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+  };
+
+  return {
+    on() {},
+    async connect() {},
+    async get(key: string) {
+      return read(key);
+    },
+    async set(key: string, value: string, options: { EX: number }) {
+      write(key, value, options.EX);
+      return 'OK';
+    },
+    async del(key: string) {
+      return read(key) === null ? 0 : (data.delete(key), 1);
+    },
+    multi() {
+      const commands: (() => unknown)[] = [];
+      const chain = {
+        incr(key: string) {
+          commands.push(() => {
+            // Like Redis, INCR keeps an existing key's TTL (a new key has none)
+            const current = read(key);
+            const next = (parseInt(current || '0', 10) || 0) + 1;
+            data.set(key, { value: String(next), expiresAt: current === null ? Infinity : data.get(key)!.expiresAt });
+            return next;
+          });
+          return chain;
+        },
+        expire(key: string, seconds: number) {
+          commands.push(() => {
+            const value = read(key);
+            if (value === null) {
+              return 0;
+            }
+            write(key, value, seconds);
+            return 1;
+          });
+          return chain;
+        },
+        async exec() {
+          return commands.map(command => command());
+        },
+      };
+      return chain;
+    },
+  };
+}
+
+/**
+ * Load a fresh copy of the lockout module, as a separate server instance
+ * connected to the shared stand-in Redis
+ */
+function loadInstance(redis: ReturnType<typeof createSharedRedis>): AccountLockout {
+  require.cache[require.resolve('redis')] = {
+    id: 'redis',
+    exports: { createClient: () => redis },
+    loaded: true,
+  } as NodeModule;
+  for (const module of ['../utils/keyValueStore', '../utils/accountLockout']) {
+    delete require.cache[require.resolve(module)];
+  }
+
+  // The store picks Redis only in production with REDIS_URL set
+  const { NODE_ENV, REDIS_URL } = process.env;
+  process.env.NODE_ENV = 'production';
+  process.env.REDIS_URL = 'redis://shared-check';
+  try {
+    return require('../utils/accountLockout');
+  } finally {
+    process.env.NODE_ENV = NODE_ENV;
+    process.env.REDIS_URL = REDIS_URL;
+  }
+}
+
+async function lockAccount(instance: AccountLockout, email: string): Promise<void> {
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    if ((await instance.recordFailedLogin(email)).reason === 'locked') {
+      return;
+    }
+  }
+  throw new Error('The account never locked');
+}
+
+async function main(): Promise<void> {
+  const redis = createSharedRedis();
+  const first = loadInstance(redis);
+  const second = loadInstance(redis);
+  const failures: string[] = [];
+  const check = (passed: boolean, description: string) => {
+    console.log(`${passed ? '✅' : '❌'} ${description}`);
+    if (!passed) {
+      failures.push(description);
+    }
+  };
+
+  const email = 'lockout-check@example.com';
+  const user = { id: 'user_lockoutcheck', email, lockNotifications: [] } as unknown as User;
+
+  await lockAccount(second, email);
+  check((await first.checkLoginAllowed(email)).reason === 'locked', 'A lock recorded on one instance blocks logins on the other');
+
+  check(await first.unlockAccount(user, 'user_admin'), 'The other instance sees the account as locked when unlocking it');
+  check((await second.checkLoginAllowed(email)).allowed, 'An unlock on one instance lets the account log in on the other');
+  check(!(await second.getLockoutStatus(user)).locked, 'The instance that recorded the lock reports it lifted');
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    await second.recordFailedLogin(email);
+  }
+  await first.clearFailedLogins(email);
+  check((await second.checkLoginAllowed(email)).allowed, 'Clearing failed attempts on one instance ends the back-off on the other');
+  check((await second.getLockoutStatus(user)).failedAttempts === 0, 'Cleared failed attempts read as 0 on the other instance');
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} lockout check(s) failed`);
+  }
+}
+
+main().catch((error: any) => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,128 @@
+/**
+ * Migration CLI
+ *
+ * Usage:
+ *   npm run db:migrate -- status
+ *   npm run db:migrate -- up [--to <version>]
+ *   npm run db:migrate -- down [--steps <n> | --to <version>]
+ *   npm run db:migrate -- baseline <version>
+ *
+ * status    list migrations: applied, pending, drifted or missing
+ * up        apply pending migrations (all, or up to --to)
+ * down      roll back the newest migration (or --steps n, or down to --to)
+ * baseline  mark migrations up to <version> as applied without running
+ *           them (databases migrated by hand before this runner existed)
+ *
+ * Environment Variables:
+ * - DATABASE_URL (required)
+ *
+ * Exits with status 1 on any error, including checksum drift.
+ */
+
+import dotenv from 'dotenv';
+import { closePool, getPool } from './pool';
+import {
+  baselineMigrations,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+  type Migration,
+  type MigrationState,
+} from './migrator';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run db:migrate -- <command>
+
+  status                          Show applied and pending migrations
+  up [--to <version>]             Apply pending migrations
+  down [--steps <n>|--to <ver>]   Roll back (default: newest migration)
+  baseline <version>              Mark migrations as applied without running them`;
+
+const STATE_LABELS: Record<MigrationState, string> = {
+  applied: '✅ applied ',
+  pending: '⏳ pending ',
+  drifted: '❌ DRIFTED ',
+  missing: '❌ MISSING ',
+};
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`${name} needs a value`);
+  }
+  return value;
+}
+
+function printMigrations(verb: string, migrations: Migration[]): void {
+  if (migrations.length === 0) {
+    console.log(`Nothing to ${verb}.`);
+    return;
+  }
+  for (const migration of migrations) {
+    console.log(`  ${verb}: ${migration.filename}`);
+  }
+}
+
+async function main(args: string[]): Promise<void> {
+  const [command, ...rest] = args;
+
+  if (!['status', 'up', 'down', 'baseline'].includes(command)) {
+    console.log(USAGE);
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+
+  const pool = getPool();
+
+  switch (command) {
+    case 'status': {
+      const status = await getMigrationStatus(pool);
+      for (const entry of status) {
+        const appliedAt = entry.appliedAt ? `  (${entry.appliedAt.toISOString()})` : '';
+        console.log(`${STATE_LABELS[entry.state]} ${entry.version}_${entry.name}${appliedAt}`);
+      }
+      if (status.some(entry => entry.state === 'drifted' || entry.state === 'missing')) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    case 'up':
+      printMigrations('applied', await migrateUp(pool, { to: readOption(rest, '--to') }));
+      return;
+
+    case 'down': {
+      const steps = readOption(rest, '--steps');
+      const to = readOption(rest, '--to');
+      if (steps !== undefined && !/^\d+$/.test(steps)) {
+        throw new Error('--steps must be a positive integer');
+      }
+      printMigrations(
+        'rolled back',
+        await migrateDown(pool, { steps: steps ? parseInt(steps, 10) : undefined, to })
+      );
+      return;
+    }
+
+    case 'baseline': {
+      const version = rest[0];
+      if (!version) {
+        throw new Error('baseline needs a version');
+      }
+      printMigrations('recorded', await baselineMigrations(pool, version));
+      return;
+    }
+  }
+}
+
+main(process.argv.slice(2))
+  .catch((error: any) => {
+    console.error(`❌ ${error.code ? `[${error.code}] ` : ''}${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
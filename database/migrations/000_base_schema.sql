@@ -0,0 +1,131 @@
+/**
+ * Database Migration: Base schema
+ *
+ * Creates the tables the app and the later migrations assume:
+ * users (without role - see 001), posts, comments, post_likes, follows,
+ * stories, story_views and messages.
+ *
+ * Column names match the PostgreSQL repositories in
+ * database/repositories/postgres.ts.
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+CREATE TABLE users (
+  id VARCHAR(64) PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  password_hash TEXT NOT NULL,
+  display_name VARCHAR(100),
+  username VARCHAR(30),
+  avatar TEXT,
+  bio VARCHAR(500),
+  location VARCHAR(100),
+  website TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  is_suspended BOOLEAN,
+  suspension_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_login_at TIMESTAMPTZ,
+  verified_email BOOLEAN NOT NULL DEFAULT false,
+  email_verified_at TIMESTAMPTZ,
+  phone_number VARCHAR(32),
+  two_factor_enabled BOOLEAN,
+  two_factor_enabled_at TIMESTAMPTZ,
+  two_factor_secret TEXT,
+  two_factor_pending_secret TEXT,
+  two_factor_last_used_step BIGINT,
+  recovery_code_hashes TEXT[],
+  lock_notifications JSONB,
+  CONSTRAINT users_email_key UNIQUE (email),
+  CONSTRAINT users_username_key UNIQUE (username)
+);
+
+CREATE TABLE posts (
+  id VARCHAR(64) PRIMARY KEY,
+  user_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL CHECK (type IN ('text', 'image', 'video')),
+  caption TEXT NOT NULL DEFAULT '',
+  media_urls TEXT[] NOT NULL DEFAULT '{}',
+  mentions TEXT[] NOT NULL DEFAULT '{}',
+  likes_count INTEGER NOT NULL DEFAULT 0 CHECK (likes_count >= 0),
+  comments_count INTEGER NOT NULL DEFAULT 0 CHECK (comments_count >= 0),
+  shares_count INTEGER NOT NULL DEFAULT 0 CHECK (shares_count >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_posts_user_created ON posts(user_id, created_at DESC);
+CREATE INDEX idx_posts_created ON posts(created_at DESC);
+
+CREATE TABLE comments (
+  id VARCHAR(64) PRIMARY KEY,
+  post_id VARCHAR(64) NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  user_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  text VARCHAR(500) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_comments_post_created ON comments(post_id, created_at);
+
+CREATE TABLE post_likes (
+  post_id VARCHAR(64) NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  user_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (post_id, user_id)
+);
+
+CREATE INDEX idx_post_likes_user ON post_likes(user_id);
+
+CREATE TABLE follows (
+  follower_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  followee_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (follower_id, followee_id),
+  CHECK (follower_id <> followee_id)
+);
+
+CREATE INDEX idx_follows_followee ON follows(followee_id);
+
+CREATE TABLE stories (
+  id VARCHAR(64) PRIMARY KEY,
+  user_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  media_url TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_stories_user_expires ON stories(user_id, expires_at);
+
+CREATE TABLE story_views (
+  story_id VARCHAR(64) NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+  viewer_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  viewed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (story_id, viewer_id)
+);
+
+-- Direct messages between two users
+CREATE TABLE messages (
+  id VARCHAR(64) PRIMARY KEY,
+  sender_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  recipient_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  read_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_messages_recipient_created ON messages(recipient_id, created_at DESC);
+CREATE INDEX idx_messages_sender_created ON messages(sender_id, created_at DESC);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS messages;
+DROP TABLE IF EXISTS story_views;
+DROP TABLE IF EXISTS stories;
+DROP TABLE IF EXISTS follows;
+DROP TABLE IF EXISTS post_likes;
+DROP TABLE IF EXISTS comments;
+DROP TABLE IF EXISTS posts;
+DROP TABLE IF EXISTS users;
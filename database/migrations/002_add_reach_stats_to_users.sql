@@ -0,0 +1,28 @@
+/**
+ * Database Migration: Add reach statistics to users
+ *
+ * Denormalized counters and exposure figures read by the feed ranking
+ * (utils/feedAlgorithm.ts):
+ * - followers_count / following_count: kept in step by the follow repository
+ * - visibility_score: 0-100, low means under-exposed (new accounts start at 0)
+ * - recent_impressions: decaying count of recent feed impressions
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+ALTER TABLE users ADD COLUMN followers_count INTEGER NOT NULL DEFAULT 0 CHECK (followers_count >= 0);
+ALTER TABLE users ADD COLUMN following_count INTEGER NOT NULL DEFAULT 0 CHECK (following_count >= 0);
+ALTER TABLE users ADD COLUMN visibility_score SMALLINT NOT NULL DEFAULT 0 CHECK (visibility_score BETWEEN 0 AND 100);
+ALTER TABLE users ADD COLUMN recent_impressions INTEGER NOT NULL DEFAULT 0 CHECK (recent_impressions >= 0);
+
+CREATE INDEX idx_users_visibility_score ON users(visibility_score);
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_users_visibility_score;
+ALTER TABLE users DROP COLUMN recent_impressions;
+ALTER TABLE users DROP COLUMN visibility_score;
+ALTER TABLE users DROP COLUMN following_count;
+ALTER TABLE users DROP COLUMN followers_count;
@@ -0,0 +1,47 @@
+/**
+ * Database Migration: Create ranking profiles and their audit trail
+ *
+ * Named, versioned sets of feed ranking parameters (weights, caps, recency
+ * decay, priority-slot interleave; see RankingParameters in
+ * utils/feedAlgorithm.ts), stored as JSONB. The active profile ranks the
+ * home feed. The repository keeps exactly one profile active.
+ *
+ * Every create, update and activation appends a row to
+ * ranking_profile_audit, with the full parameters before and after.
+ *
+ * The 'default' profile is created by the server on first use.
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+CREATE TABLE ranking_profiles (
+  name VARCHAR(40) PRIMARY KEY,
+  description TEXT NOT NULL DEFAULT '',
+  version INTEGER NOT NULL DEFAULT 1 CHECK (version >= 1),
+  parameters JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_by VARCHAR(64) NOT NULL
+);
+
+CREATE TABLE ranking_profile_audit (
+  id VARCHAR(64) PRIMARY KEY,
+  profile_name VARCHAR(40) NOT NULL REFERENCES ranking_profiles(name) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  action VARCHAR(16) NOT NULL CHECK (action IN ('created', 'updated', 'activated')),
+  actor_id VARCHAR(64) NOT NULL,
+  previous_parameters JSONB,
+  parameters JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ranking_profile_audit_created_at ON ranking_profile_audit(created_at DESC);
+CREATE INDEX idx_ranking_profile_audit_profile ON ranking_profile_audit(profile_name, created_at DESC);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS ranking_profile_audit;
+DROP TABLE IF EXISTS ranking_profiles;
@@ -0,0 +1,20 @@
+/**
+ * Database Migration: Decaying recent impressions
+ *
+ * recent_impressions becomes a fractional, exponentially decaying count
+ * (see utils/impressions.ts): each write first decays the stored value
+ * from impressions_decayed_at to the current time, so rounding never
+ * stops small counts from fading.
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+ALTER TABLE users ALTER COLUMN recent_impressions TYPE DOUBLE PRECISION;
+ALTER TABLE users ADD COLUMN impressions_decayed_at TIMESTAMPTZ;
+
+-- migrate:down
+
+ALTER TABLE users DROP COLUMN impressions_decayed_at;
+ALTER TABLE users ALTER COLUMN recent_impressions TYPE INTEGER USING round(recent_impressions);
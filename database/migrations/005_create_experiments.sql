@@ -0,0 +1,56 @@
+/**
+ * Database Migration: Create feed ranking experiments
+ *
+ * A/B experiments on the home feed ranking (see utils/experiments.ts).
+ * Users are bucketed by a hash of the experiment name and their user ID;
+ * each arm ranks with its own ranking profile. Only one experiment can
+ * run at a time (partial unique index).
+ *
+ * - experiment_arm_stats: sessions, impressions and engagement per arm
+ * - experiment_exposure: impressions per author from each arm's viewers,
+ *   for the fairness read-out (Gini, top-1% share)
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+CREATE TABLE experiments (
+  name VARCHAR(40) PRIMARY KEY,
+  description TEXT NOT NULL DEFAULT '',
+  status VARCHAR(16) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+  traffic_percent SMALLINT NOT NULL CHECK (traffic_percent BETWEEN 1 AND 100),
+  arms JSONB NOT NULL,
+  created_by VARCHAR(64) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  stopped_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX idx_experiments_one_running ON experiments(status) WHERE status = 'running';
+
+CREATE TABLE experiment_arm_stats (
+  experiment_name VARCHAR(40) NOT NULL REFERENCES experiments(name) ON DELETE CASCADE,
+  arm VARCHAR(40) NOT NULL,
+  sessions BIGINT NOT NULL DEFAULT 0,
+  impressions BIGINT NOT NULL DEFAULT 0,
+  underexposed_impressions BIGINT NOT NULL DEFAULT 0,
+  likes BIGINT NOT NULL DEFAULT 0,
+  comments BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (experiment_name, arm)
+);
+
+CREATE TABLE experiment_exposure (
+  experiment_name VARCHAR(40) NOT NULL REFERENCES experiments(name) ON DELETE CASCADE,
+  arm VARCHAR(40) NOT NULL,
+  author_id VARCHAR(64) NOT NULL,
+  impressions INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (experiment_name, arm, author_id)
+);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS experiment_exposure;
+DROP TABLE IF EXISTS experiment_arm_stats;
+DROP TABLE IF EXISTS experiments;
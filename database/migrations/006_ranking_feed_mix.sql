@@ -0,0 +1,22 @@
+/**
+ * Database Migration: Add feed mix parameters to ranking profiles
+ *
+ * Ranking profiles gained a per-author cap and a followed / discovery mix
+ * (diversity_window, author_cap, min_followed_per_window,
+ * min_discovery_per_window; see RankingParameters in utils/feedAlgorithm.ts).
+ * Existing profiles get the defaults so they stay valid; values already
+ * present are kept. Versions are not bumped, and the audit trail is not
+ * written to: this is a schema change, not an edit.
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+UPDATE ranking_profiles
+   SET parameters = '{"diversity_window": 10, "author_cap": 2, "min_followed_per_window": 3, "min_discovery_per_window": 2}'::jsonb || parameters;
+
+-- migrate:down
+
+UPDATE ranking_profiles
+   SET parameters = parameters - 'diversity_window' - 'author_cap' - 'min_followed_per_window' - 'min_discovery_per_window';
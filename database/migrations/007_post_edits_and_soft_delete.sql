@@ -0,0 +1,39 @@
+/**
+ * Database Migration: Post edit history and soft deletion
+ *
+ * - posts.edited_at: when the caption was last edited (the "edited" marker)
+ * - post_edits: every replaced caption, with who replaced it and when
+ * - posts.deleted_at / deleted_by: soft deletion. Deleted posts are hidden
+ *   from every query until a moderator restores them; likes, comments and
+ *   edit history are kept.
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+ALTER TABLE posts
+  ADD COLUMN edited_at TIMESTAMPTZ,
+  ADD COLUMN deleted_at TIMESTAMPTZ,
+  ADD COLUMN deleted_by VARCHAR(64);
+
+CREATE INDEX idx_posts_deleted ON posts(deleted_at DESC) WHERE deleted_at IS NOT NULL;
+
+CREATE TABLE post_edits (
+  id VARCHAR(64) PRIMARY KEY,
+  post_id VARCHAR(64) NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  caption TEXT NOT NULL,
+  edited_by VARCHAR(64) NOT NULL,
+  edited_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_post_edits_post ON post_edits(post_id, edited_at DESC);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS post_edits;
+DROP INDEX IF EXISTS idx_posts_deleted;
+ALTER TABLE posts
+  DROP COLUMN IF EXISTS deleted_by,
+  DROP COLUMN IF EXISTS deleted_at,
+  DROP COLUMN IF EXISTS edited_at;
@@ -0,0 +1,32 @@
+/**
+ * Database Migration: Post audiences and close friends
+ *
+ * - posts.audience: who besides the author can see the post
+ *   (public, followers, close_friends or only_me). Existing posts stay public.
+ * - close_friends: each user's close friends list, the audience of
+ *   close_friends posts. Unlike follows, it is one-sided and private to
+ *   the list owner.
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+ALTER TABLE posts
+  ADD COLUMN audience VARCHAR(16) NOT NULL DEFAULT 'public'
+    CHECK (audience IN ('public', 'followers', 'close_friends', 'only_me'));
+
+CREATE TABLE close_friends (
+  user_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  friend_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, friend_id),
+  CHECK (user_id <> friend_id)
+);
+
+CREATE INDEX idx_close_friends_friend ON close_friends(friend_id);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS close_friends;
+ALTER TABLE posts DROP COLUMN IF EXISTS audience;
@@ -0,0 +1,36 @@
+/**
+ * Database Migration: Post media attachments
+ *
+ * - posts.media: the post's photos and videos in display order, each
+ *   { url, type, width?, height?, blurhash?, alt? }. Replaces media_urls;
+ *   existing URLs become attachments typed after their post (video posts'
+ *   media is video, everything else image).
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+ALTER TABLE posts ADD COLUMN media JSONB NOT NULL DEFAULT '[]';
+
+UPDATE posts
+   SET media = (
+     SELECT jsonb_agg(
+              jsonb_build_object('url', url, 'type', CASE WHEN posts.type = 'video' THEN 'video' ELSE 'image' END)
+              ORDER BY position
+            )
+       FROM unnest(media_urls) WITH ORDINALITY AS urls(url, position)
+   )
+ WHERE cardinality(media_urls) > 0;
+
+ALTER TABLE posts DROP COLUMN media_urls;
+
+-- migrate:down
+
+ALTER TABLE posts ADD COLUMN media_urls TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE posts
+   SET media_urls = ARRAY(SELECT item->>'url' FROM jsonb_array_elements(media) WITH ORDINALITY AS items(item, position) ORDER BY position)
+ WHERE jsonb_array_length(media) > 0;
+
+ALTER TABLE posts DROP COLUMN media;
@@ -0,0 +1,29 @@
+/**
+ * Database Migration: Uploaded media
+ *
+ * - media: files finished through the chunked upload API
+ *   (utils/mediaUploads.ts). Each row records where the storage driver
+ *   keeps the file, its public URL and the sniffed content type; posts
+ *   attach uploads by ID, and only the uploader can attach them.
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+CREATE TABLE media (
+  id VARCHAR(64) PRIMARY KEY,
+  user_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  storage_key TEXT NOT NULL UNIQUE,
+  url TEXT NOT NULL,
+  type VARCHAR(8) NOT NULL CHECK (type IN ('image', 'video')),
+  content_type VARCHAR(64) NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_media_user ON media(user_id, created_at DESC);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS media;
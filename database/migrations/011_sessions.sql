@@ -0,0 +1,35 @@
+/**
+ * Database Migration: Login sessions
+ *
+ * - sessions: one row per refresh token family (utils/refreshTokens.ts),
+ *   so sessions survive restarts and a revocation on one server instance
+ *   is seen by all of them. current_token_id is the only refresh token of
+ *   the family still accepted; rotation updates it with a compare-and-set.
+ *   Access tokens carry the session ID as `sid`.
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+CREATE TABLE sessions (
+  id VARCHAR(64) PRIMARY KEY,
+  user_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  current_token_id VARCHAR(64) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_rotated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  revoked_reason VARCHAR(32),
+  device_name VARCHAR(100) NOT NULL,
+  user_agent TEXT,
+  ip VARCHAR(45),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sessions_user ON sessions(user_id, last_seen_at DESC);
+CREATE INDEX idx_sessions_expires ON sessions(expires_at);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS sessions;
@@ -0,0 +1,22 @@
+/**
+ * Database Migration: Admin settings
+ *
+ * - settings: admin-managed policies as JSON, one row per key, so every
+ *   server instance enforces the same policy and it survives restarts.
+ *   First key: two_factor_required_roles (utils/twoFactor.ts).
+ *
+ * Run with: npm run db:migrate -- up
+ */
+
+-- migrate:up
+
+CREATE TABLE settings (
+  key VARCHAR(64) PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_by VARCHAR(64) NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS settings;
@@ -0,0 +1,441 @@
+/**
+ * Migration Runner - Versioned PostgreSQL migrations
+ *
+ * Migrations are the files in database/migrations named
+ * <version>_<name>.sql (e.g. 001_add_role_to_users.sql), applied in
+ * version order. Each file has an up and an optional down section:
+ *
+ *   -- migrate:up
+ *   ALTER TABLE ...;
+ *
+ *   -- migrate:down
+ *   ALTER TABLE ...;
+ *
+ * Applied versions are recorded in the schema_migrations table together
+ * with a SHA-256 checksum of the file. Every migration runs in its own
+ * transaction (the SQL and its schema_migrations row commit together).
+ *
+ * Before migrating up or down, every applied migration is compared with
+ * its file. If a file was edited after it ran (checksum drift) or was
+ * deleted, the runner refuses to continue - write a new migration instead.
+ *
+ * A PostgreSQL advisory lock stops two deploys from migrating at once.
+ *
+ * CLI: database/migrate.ts (npm run db:migrate -- status|up|down|baseline)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+const MIGRATION_FILE_PATTERN = /^(\d{3,})_([a-z0-9_]+)\.sql$/;
+const UP_MARKER = /^--\s*migrate:up\s*$/m;
+const DOWN_MARKER = /^--\s*migrate:down\s*$/m;
+
+/** Arbitrary constant shared by every runner (pg_advisory_lock key) */
+const MIGRATION_LOCK_ID = 72_019_001;
+
+/**
+ * Migration error with a machine-readable code
+ */
+export class MigrationError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Migration file parsed from disk
+ */
+export interface Migration {
+  version: string;
+  name: string;
+  filename: string;
+  checksum: string;
+  up: string;
+  down: string | null; // null when the file has no down section
+}
+
+/**
+ * Row of schema_migrations
+ */
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export type MigrationState =
+  | 'applied'
+  | 'pending'
+  | 'drifted' // applied, but the file changed since
+  | 'missing'; // applied, but the file is gone
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt?: Date;
+}
+
+/**
+ * Subset of pg's Pool used by the runner
+ */
+interface MigrationPool {
+  connect(): Promise<MigrationClient>;
+}
+
+interface MigrationClient {
+  query(text: string, params?: unknown[]): Promise<{ rows: any[] }>;
+  release(): void;
+}
+
+// ============================================================
+// MIGRATION FILES
+// ============================================================
+
+/**
+ * Checksum of a migration file (line endings normalized)
+ */
+export function checksumMigration(content: string): string {
+  return crypto.createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Split a migration file into its up and down sections
+ *
+ * @throws MigrationError if the file has no up section
+ */
+export function parseMigration(filename: string, content: string): Migration {
+  const match = MIGRATION_FILE_PATTERN.exec(filename);
+  if (!match) {
+    throw new MigrationError('INVALID_MIGRATION', `${filename}: expected <version>_<name>.sql`);
+  }
+
+  const upMatch = UP_MARKER.exec(content);
+  if (!upMatch) {
+    throw new MigrationError('INVALID_MIGRATION', `${filename}: missing "-- migrate:up" section`);
+  }
+
+  const afterUp = content.slice(upMatch.index + upMatch[0].length);
+  const downMatch = DOWN_MARKER.exec(afterUp);
+
+  const up = (downMatch ? afterUp.slice(0, downMatch.index) : afterUp).trim();
+  const down = downMatch ? afterUp.slice(downMatch.index + downMatch[0].length).trim() : '';
+
+  if (!up) {
+    throw new MigrationError('INVALID_MIGRATION', `${filename}: "-- migrate:up" section is empty`);
+  }
+
+  return {
+    version: match[1],
+    name: match[2],
+    filename,
+    checksum: checksumMigration(content),
+    up,
+    down: down || null,
+  };
+}
+
+/**
+ * Read all migrations from disk, sorted by version
+ *
+ * @throws MigrationError for malformed files or duplicate versions
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const migrations = fs
+    .readdirSync(dir)
+    .filter(filename => filename.endsWith('.sql'))
+    .map(filename => parseMigration(filename, fs.readFileSync(path.join(dir, filename), 'utf8')))
+    .sort((a, b) => Number(a.version) - Number(b.version));
+
+  for (let i = 1; i < migrations.length; i++) {
+    if (Number(migrations[i].version) === Number(migrations[i - 1].version)) {
+      throw new MigrationError(
+        'DUPLICATE_VERSION',
+        `${migrations[i - 1].filename} and ${migrations[i].filename} share version ${migrations[i].version}`
+      );
+    }
+  }
+
+  return migrations;
+}
+
+// ============================================================
+// DATABASE STATE
+// ============================================================
+
+async function ensureMigrationsTable(client: MigrationClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(32) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )
+  `);
+}
+
+async function readApplied(client: MigrationClient): Promise<AppliedMigration[]> {
+  const { rows } = await client.query(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+
+  return rows
+    .map(row => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: row.applied_at,
+    }))
+    .sort((a, b) => Number(a.version) - Number(b.version));
+}
+
+/**
+ * Compare applied migrations with the files on disk
+ */
+function compareWithFiles(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map(row => [row.version, row]));
+  const fileVersions = new Set(migrations.map(migration => migration.version));
+
+  const fromFiles: MigrationStatus[] = migrations.map(migration => {
+    const row = appliedByVersion.get(migration.version);
+    if (!row) {
+      return { version: migration.version, name: migration.name, state: 'pending' };
+    }
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: row.checksum === migration.checksum ? 'applied' : 'drifted',
+      appliedAt: row.appliedAt,
+    };
+  });
+
+  const missing: MigrationStatus[] = applied
+    .filter(row => !fileVersions.has(row.version))
+    .map(row => ({ version: row.version, name: row.name, state: 'missing', appliedAt: row.appliedAt }));
+
+  return [...fromFiles, ...missing].sort((a, b) => Number(a.version) - Number(b.version));
+}
+
+/**
+ * @throws MigrationError if any applied migration drifted or is missing
+ */
+function assertNoDrift(status: MigrationStatus[]): void {
+  const problems = status.filter(entry => entry.state === 'drifted' || entry.state === 'missing');
+  if (problems.length === 0) {
+    return;
+  }
+
+  const details = problems
+    .map(entry =>
+      entry.state === 'drifted'
+        ? `${entry.version}_${entry.name}: file changed after it was applied`
+        : `${entry.version}_${entry.name}: applied but the file no longer exists`
+    )
+    .join('; ');
+
+  throw new MigrationError(
+    problems.some(entry => entry.state === 'drifted') ? 'CHECKSUM_MISMATCH' : 'MISSING_MIGRATION',
+    `Refusing to migrate: ${details}`
+  );
+}
+
+/**
+ * Run fn on one connection while holding the migration lock
+ */
+async function withMigrationLock<T>(pool: MigrationPool, fn: (client: MigrationClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    try {
+      await ensureMigrationsTable(client);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Run SQL plus its bookkeeping statement in one transaction
+ */
+async function runInTransaction(
+  client: MigrationClient,
+  sql: string,
+  bookkeeping: { text: string; params: unknown[] }
+): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await client.query(sql);
+    await client.query(bookkeeping.text, bookkeeping.params);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+function findVersion(migrations: Migration[], version: string): Migration {
+  const migration = migrations.find(candidate => Number(candidate.version) === Number(version));
+  if (!migration) {
+    throw new MigrationError('UNKNOWN_VERSION', `No migration with version ${version}`);
+  }
+  return migration;
+}
+
+// ============================================================
+// COMMANDS
+// ============================================================
+
+/**
+ * State of every migration, on disk or in the database
+ */
+export async function getMigrationStatus(
+  pool: MigrationPool,
+  migrations: Migration[] = loadMigrations()
+): Promise<MigrationStatus[]> {
+  return withMigrationLock(pool, async client => compareWithFiles(migrations, await readApplied(client)));
+}
+
+/**
+ * Apply pending migrations in version order
+ *
+ * @param options.to - Stop after this version (default: apply all)
+ * @returns Migrations that were applied
+ * @throws MigrationError on drift; the failing migration's error otherwise
+ *         (earlier migrations in the run stay applied)
+ */
+export async function migrateUp(
+  pool: MigrationPool,
+  options: { to?: string } = {},
+  migrations: Migration[] = loadMigrations()
+): Promise<Migration[]> {
+  const target = options.to ? Number(findVersion(migrations, options.to).version) : Infinity;
+
+  return withMigrationLock(pool, async client => {
+    const status = compareWithFiles(migrations, await readApplied(client));
+    assertNoDrift(status);
+
+    const pendingVersions = new Set(status.filter(entry => entry.state === 'pending').map(entry => entry.version));
+    const pending = migrations.filter(
+      migration => pendingVersions.has(migration.version) && Number(migration.version) <= target
+    );
+
+    const applied: Migration[] = [];
+    for (const migration of pending) {
+      try {
+        await runInTransaction(client, migration.up, {
+          text: 'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          params: [migration.version, migration.name, migration.checksum],
+        });
+      } catch (error: any) {
+        throw new MigrationError('MIGRATION_FAILED', `${migration.filename} failed: ${error.message}`);
+      }
+      applied.push(migration);
+    }
+
+    return applied;
+  });
+}
+
+/**
+ * Roll back applied migrations, newest first
+ *
+ * @param options.steps - How many to roll back (default: 1)
+ * @param options.to - Roll back everything after this version instead
+ * @returns Migrations that were rolled back
+ * @throws MigrationError on drift, or if a migration has no down section
+ */
+export async function migrateDown(
+  pool: MigrationPool,
+  options: { steps?: number; to?: string } = {},
+  migrations: Migration[] = loadMigrations()
+): Promise<Migration[]> {
+  return withMigrationLock(pool, async client => {
+    const status = compareWithFiles(migrations, await readApplied(client));
+    assertNoDrift(status);
+
+    const appliedNewestFirst = status
+      .filter(entry => entry.state === 'applied')
+      .reverse()
+      .map(entry => findVersion(migrations, entry.version));
+
+    const targets =
+      options.to !== undefined
+        ? appliedNewestFirst.filter(migration => Number(migration.version) > Number(findVersion(migrations, options.to!).version))
+        : appliedNewestFirst.slice(0, options.steps ?? 1);
+
+    const irreversible = targets.find(migration => !migration.down);
+    if (irreversible) {
+      throw new MigrationError(
+        'IRREVERSIBLE_MIGRATION',
+        `${irreversible.filename} has no "-- migrate:down" section`
+      );
+    }
+
+    const rolledBack: Migration[] = [];
+    for (const migration of targets) {
+      try {
+        await runInTransaction(client, migration.down!, {
+          text: 'DELETE FROM schema_migrations WHERE version = $1',
+          params: [migration.version],
+        });
+      } catch (error: any) {
+        throw new MigrationError('MIGRATION_FAILED', `${migration.filename} (down) failed: ${error.message}`);
+      }
+      rolledBack.push(migration);
+    }
+
+    return rolledBack;
+  });
+}
+
+/**
+ * Record migrations up to a version as applied without running them
+ * For databases where those migrations were run by hand before the runner existed.
+ *
+ * @returns Migrations that were recorded
+ */
+export async function baselineMigrations(
+  pool: MigrationPool,
+  version: string,
+  migrations: Migration[] = loadMigrations()
+): Promise<Migration[]> {
+  const target = Number(findVersion(migrations, version).version);
+
+  return withMigrationLock(pool, async client => {
+    const status = compareWithFiles(migrations, await readApplied(client));
+    assertNoDrift(status);
+
+    const pendingVersions = new Set(status.filter(entry => entry.state === 'pending').map(entry => entry.version));
+    const recorded = migrations.filter(
+      migration => pendingVersions.has(migration.version) && Number(migration.version) <= target
+    );
+
+    await client.query('BEGIN');
+    try {
+      for (const migration of recorded) {
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+
+    return recorded;
+  });
+}
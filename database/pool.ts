@@ -0,0 +1,60 @@
+/**
+ * PostgreSQL Connection Pool
+ *
+ * One shared pool per process, created on first use so the memory
+ * backend never needs the pg driver or a database.
+ *
+ * Environment Variables:
+ * - DATABASE_URL (required for the postgres backend)
+ * - DATABASE_POOL_MAX (default: 10)
+ * - DATABASE_SSL (true to require TLS, e.g. managed databases)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+/**
+ * Subset of pg's Pool / PoolClient used by the repositories
+ */
+export interface Queryable {
+  query(text: string, params?: unknown[]): Promise<{ rows: any[]; rowCount: number | null }>;
+}
+
+let pool: any = null;
+
+/**
+ * Lazily create the shared pool
+ * @throws Error if DATABASE_URL is not set
+ */
+export function getPool(): any {
+  if (!pool) {
+    const connectionString = process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error('DATABASE_URL must be set to use the postgres backend');
+    }
+
+    const { Pool } = require('pg');
+
+    pool = new Pool({
+      connectionString,
+      max: parseInt(process.env.DATABASE_POOL_MAX || '10', 10),
+      ...(process.env.DATABASE_SSL === 'true' ? { ssl: { rejectUnauthorized: true } } : {}),
+    });
+
+    pool.on('error', (err: Error) => {
+      console.error('PostgreSQL idle client error:', err.message);
+    });
+  }
+
+  return pool;
+}
+
+/**
+ * Close the shared pool (graceful shutdown, CLI scripts)
+ */
+export async function closePool(): Promise<void> {
+  if (pool) {
+    const closing = pool;
+    pool = null;
+    await closing.end();
+  }
+}
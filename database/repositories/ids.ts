@@ -0,0 +1,16 @@
+/**
+ * Record ID generation shared by all repository backends
+ *
+ * IDs are <prefix>_<hex> so they pass the route param validators
+ * (and user IDs pass mention validation: user_<alphanumeric>).
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import crypto from 'crypto';
+
+export type RecordPrefix = 'user' | 'post' | 'edit' | 'comment' | 'media' | 'story' | 'audit';
+
+export function generateId(prefix: RecordPrefix): string {
+  return `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+}
@@ -0,0 +1,48 @@
+/**
+ * Repositories - Data access for the API server
+ *
+ * Selects the backend once per process:
+ * - DATABASE_DRIVER=memory (default): in-process maps, no database needed,
+ *   so the whole API runs offline. Data is lost on restart.
+ * - DATABASE_DRIVER=postgres: PostgreSQL via DATABASE_URL
+ *   (run the migrations in database/migrations first).
+ *
+ * @example
+ * const { posts, likes } = getRepositories();
+ * const post = await posts.findById(postId);
+ *
+ * Environment Variables:
+ * - DATABASE_DRIVER (memory | postgres, default: memory)
+ * - DATABASE_URL (postgres only, see database/pool.ts)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import { getPool } from '../pool';
+import { createMemoryRepositories } from './memory';
+import { createPostgresRepositories } from './postgres';
+import type { Repositories } from './types';
+
+export * from './types';
+
+let repositories: Repositories | null = null;
+
+/**
+ * Get the repositories for the configured backend
+ * @throws Error for an unknown DATABASE_DRIVER, or postgres without DATABASE_URL
+ */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    const driver = process.env.DATABASE_DRIVER || 'memory';
+
+    if (driver === 'memory') {
+      repositories = createMemoryRepositories();
+    } else if (driver === 'postgres') {
+      repositories = createPostgresRepositories(getPool());
+    } else {
+      throw new Error(`Unknown DATABASE_DRIVER "${driver}" (expected memory or postgres)`);
+    }
+  }
+
+  return repositories;
+}
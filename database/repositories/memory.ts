@@ -0,0 +1,945 @@
+/**
+ * In-Memory Repositories
+ *
+ * Default backend for local development and offline work
+ * (DATABASE_DRIVER=memory). Data lives in process maps and is lost on
+ * restart. Behaviour mirrors postgres.ts: same ordering, same
+ * duplicate handling, same counter semantics.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import type { RankingParameters } from '../../utils/feedAlgorithm';
+import type { CreateUserInput, User } from '../../utils/User';
+import { generateId } from './ids';
+import {
+  canViewPost,
+  resolvePageSize,
+  type CloseFriendRecord,
+  type CloseFriendRepository,
+  type CommentRecord,
+  type CommentRepository,
+  type CreateCommentInput,
+  type CreateExperimentInput,
+  type CreateMediaInput,
+  type CreatePostInput,
+  type CreateRankingProfileInput,
+  type CreateSessionInput,
+  type CreateStoryInput,
+  type ExperimentArmStats,
+  type ExperimentCounter,
+  type ExperimentRecord,
+  type ExperimentRepository,
+  type ExperimentStatus,
+  type FollowRecord,
+  type FollowRepository,
+  type LikeRepository,
+  type MediaRecord,
+  type MediaRepository,
+  type PageOptions,
+  type PostCounter,
+  type PostEditRecord,
+  type PostListOptions,
+  type PostRecord,
+  type PostRepository,
+  type RankingProfileAuditAction,
+  type RankingProfileAuditRecord,
+  type RankingProfileRecord,
+  type RankingProfileRepository,
+  type Repositories,
+  type SessionRecord,
+  type SessionRepository,
+  type SettingRecord,
+  type SettingRepository,
+  type SessionRotation,
+  type StoryRecord,
+  type StoryRepository,
+  type UserRepository,
+} from './types';
+
+const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Newest first, optionally before a cutoff, limited to one page
+ */
+function pageNewestFirst<T extends { createdAt: Date }>(records: T[], page: PageOptions = {}): T[] {
+  const before = page.before?.getTime();
+
+  return records
+    .filter(record => before === undefined || record.createdAt.getTime() < before)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, resolvePageSize(page.limit));
+}
+
+// ============================================================
+// USERS
+// ============================================================
+
+export class MemoryUserRepository implements UserRepository {
+  private usersById = new Map<string, User>();
+  private userIdsByEmail = new Map<string, string>();
+
+  async findById(id: string): Promise<User | undefined> {
+    return this.usersById.get(id);
+  }
+
+  async findByEmail(email: string): Promise<User | undefined> {
+    const userId = this.userIdsByEmail.get(email.toLowerCase());
+    return userId ? this.usersById.get(userId) : undefined;
+  }
+
+  async findByIds(ids: string[]): Promise<User[]> {
+    return ids
+      .map(id => this.usersById.get(id))
+      .filter((user): user is User => user !== undefined);
+  }
+
+  async search(query: string, limit?: number): Promise<User[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+
+    const matches: User[] = [];
+    for (const user of this.usersById.values()) {
+      if (
+        user.displayName?.toLowerCase().includes(needle) ||
+        user.username?.toLowerCase().startsWith(needle)
+      ) {
+        matches.push(user);
+      }
+    }
+
+    return matches.slice(0, resolvePageSize(limit));
+  }
+
+  async create(input: CreateUserInput): Promise<User> {
+    const email = input.email.toLowerCase();
+
+    if (this.userIdsByEmail.has(email)) {
+      throw new Error('Email already registered');
+    }
+
+    const now = input.createdAt || new Date();
+    const user: User = {
+      id: generateId('user'),
+      email,
+      passwordHash: input.passwordHash,
+      displayName: input.displayName,
+      username: input.username,
+      role: input.role || 'user',
+      followersCount: 0,
+      followingCount: 0,
+      visibilityScore: 0,
+      recentImpressions: 0,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+      verifiedEmail: false,
+    };
+
+    this.usersById.set(user.id, user);
+    this.userIdsByEmail.set(email, user.id);
+
+    return user;
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Omit<User, 'id' | 'email' | 'createdAt'>>
+  ): Promise<User | undefined> {
+    const existing = this.usersById.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated: User = {
+      ...existing,
+      ...changes,
+      updatedAt: new Date(),
+    };
+
+    this.usersById.set(id, updated);
+    return updated;
+  }
+
+  async advanceTwoFactorStep(id: string, step: number): Promise<boolean> {
+    const existing = this.usersById.get(id);
+    if (!existing || (existing.twoFactorLastUsedStep !== undefined && step <= existing.twoFactorLastUsedStep)) {
+      return false;
+    }
+
+    this.usersById.set(id, { ...existing, twoFactorLastUsedStep: step, updatedAt: new Date() });
+    return true;
+  }
+
+  async removeRecoveryCodeHash(id: string, hash: string): Promise<boolean> {
+    const existing = this.usersById.get(id);
+    if (!existing?.recoveryCodeHashes?.includes(hash)) {
+      return false;
+    }
+
+    this.usersById.set(id, {
+      ...existing,
+      recoveryCodeHashes: existing.recoveryCodeHashes.filter(stored => stored !== hash),
+      updatedAt: new Date(),
+    });
+    return true;
+  }
+
+  async addImpressions(counts: Record<string, number>, now: Date, halfLifeHours: number): Promise<void> {
+    for (const [userId, count] of Object.entries(counts)) {
+      const user = this.usersById.get(userId);
+      if (user) {
+        const decayed = decayImpressions(user, now, halfLifeHours);
+        this.usersById.set(userId, {
+          ...user,
+          ...decayed,
+          recentImpressions: decayed.recentImpressions + count,
+        });
+      }
+    }
+  }
+
+  async refreshReachStats(now: Date, halfLifeHours: number): Promise<number> {
+    const scored: User[] = [];
+    for (const user of this.usersById.values()) {
+      const decayed: User = { ...user, ...decayImpressions(user, now, halfLifeHours) };
+      this.usersById.set(user.id, decayed);
+      if (decayed.isActive && !decayed.isSuspended) {
+        scored.push(decayed);
+      }
+    }
+
+    // Percentile rank, matching PostgreSQL's percent_rank(): ties share the lower rank
+    const sorted = scored.map(user => user.recentImpressions!).sort((a, b) => a - b);
+    const firstIndex = new Map<number, number>();
+    sorted.forEach((value, index) => {
+      if (!firstIndex.has(value)) firstIndex.set(value, index);
+    });
+
+    for (const user of scored) {
+      const rank = firstIndex.get(user.recentImpressions!)!;
+      user.visibilityScore = sorted.length > 1 ? Math.round((100 * rank) / (sorted.length - 1)) : 0;
+    }
+
+    return scored.length;
+  }
+
+  /**
+   * Keep followersCount / followingCount in step with a follow edge
+   * (called by MemoryFollowRepository)
+   */
+  adjustFollowCounts(followerId: string, followeeId: string, delta: 1 | -1): void {
+    const follower = this.usersById.get(followerId);
+    const followee = this.usersById.get(followeeId);
+
+    if (follower) {
+      this.usersById.set(followerId, {
+        ...follower,
+        followingCount: Math.max(0, (follower.followingCount ?? 0) + delta),
+      });
+    }
+    if (followee) {
+      this.usersById.set(followeeId, {
+        ...followee,
+        followersCount: Math.max(0, (followee.followersCount ?? 0) + delta),
+      });
+    }
+  }
+}
+
+/**
+ * A user's recentImpressions brought forward to now (exponential decay)
+ */
+function decayImpressions(
+  user: User,
+  now: Date,
+  halfLifeHours: number
+): { recentImpressions: number; impressionsDecayedAt: Date } {
+  const since = user.impressionsDecayedAt ?? now;
+  const elapsedHours = Math.max(0, now.getTime() - since.getTime()) / (60 * 60 * 1000);
+
+  return {
+    recentImpressions: (user.recentImpressions ?? 0) * 0.5 ** (elapsedHours / halfLifeHours),
+    impressionsDecayedAt: since > now ? since : now,
+  };
+}
+
+// ============================================================
+// SESSIONS
+// ============================================================
+
+export class MemorySessionRepository implements SessionRepository {
+  private sessions = new Map<string, SessionRecord>();
+
+  async findById(id: string): Promise<SessionRecord | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async create(input: CreateSessionInput): Promise<SessionRecord> {
+    const session: SessionRecord = { ...input };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  async rotate(id: string, expectedTokenId: string, changes: SessionRotation): Promise<SessionRecord | undefined> {
+    // Check and write without awaiting in between so concurrent calls cannot interleave
+    const session = this.sessions.get(id);
+    if (!session || session.revokedAt || session.currentTokenId !== expectedTokenId) {
+      return undefined;
+    }
+
+    const updated = { ...session, ...changes };
+    this.sessions.set(id, updated);
+    return updated;
+  }
+
+  async revoke(id: string, reason: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session || session.revokedAt) {
+      return false;
+    }
+
+    this.sessions.set(id, { ...session, revokedAt: new Date(), revokedReason: reason });
+    return true;
+  }
+
+  async revokeAllForUser(userId: string, reason: string, exceptId?: string): Promise<string[]> {
+    const revoked: string[] = [];
+    for (const session of this.sessions.values()) {
+      if (session.userId === userId && session.id !== exceptId && (await this.revoke(session.id, reason))) {
+        revoked.push(session.id);
+      }
+    }
+    return revoked;
+  }
+
+  async listActiveByUser(userId: string, now: Date): Promise<SessionRecord[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId && !session.revokedAt && session.expiresAt > now)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    let removed = 0;
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+// ============================================================
+// POSTS
+// ============================================================
+
+export class MemoryPostRepository implements PostRepository {
+  private posts = new Map<string, PostRecord>();
+  private edits: PostEditRecord[] = [];
+
+  private visible(page: PostListOptions = {}): PostRecord[] {
+    const viewer = page.visibleTo;
+    return [...this.posts.values()].filter(post => !post.deletedAt && (!viewer || canViewPost(post, viewer)));
+  }
+
+  async findById(id: string, options: { includeDeleted?: boolean } = {}): Promise<PostRecord | undefined> {
+    const post = this.posts.get(id);
+    return post && (!post.deletedAt || options.includeDeleted) ? post : undefined;
+  }
+
+  async listByUser(userId: string, page?: PostListOptions): Promise<PostRecord[]> {
+    const records = this.visible(page).filter(post => post.userId === userId);
+    return pageNewestFirst(records, page);
+  }
+
+  async listRecent(page: PostListOptions & { userIds?: string[] } = {}): Promise<PostRecord[]> {
+    const authors = page.userIds ? new Set(page.userIds) : null;
+    const records = this.visible(page).filter(post => !authors || authors.has(post.userId));
+    return pageNewestFirst(records, page);
+  }
+
+  async search(query: string, page?: PostListOptions): Promise<PostRecord[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+
+    const records = this.visible(page).filter(post => post.caption.toLowerCase().includes(needle));
+    return pageNewestFirst(records, page);
+  }
+
+  async countByUser(userId: string): Promise<number> {
+    return this.visible().filter(post => post.userId === userId).length;
+  }
+
+  async create(input: CreatePostInput): Promise<PostRecord> {
+    const createdAt = input.createdAt || new Date();
+    const post: PostRecord = {
+      id: generateId('post'),
+      userId: input.userId,
+      type: input.type,
+      caption: input.caption,
+      media: input.media || [],
+      mentions: input.mentions || [],
+      audience: input.audience || 'public',
+      likesCount: 0,
+      commentsCount: 0,
+      sharesCount: 0,
+      createdAt,
+      updatedAt: createdAt,
+    };
+
+    this.posts.set(post.id, post);
+    return post;
+  }
+
+  async incrementCounter(id: string, counter: PostCounter, delta: number): Promise<number> {
+    const post = this.posts.get(id);
+    if (!post) {
+      return 0;
+    }
+
+    const value = Math.max(0, post[counter] + delta);
+    this.posts.set(id, { ...post, [counter]: value });
+    return value;
+  }
+
+  async updateCaption(id: string, caption: string, editedBy: string): Promise<PostRecord | undefined> {
+    const post = this.posts.get(id);
+    if (!post || post.deletedAt) {
+      return undefined;
+    }
+
+    const now = new Date();
+    this.edits.push({ id: generateId('edit'), postId: id, caption: post.caption, editedBy, editedAt: now });
+
+    const updated: PostRecord = { ...post, caption, editedAt: now, updatedAt: now };
+    this.posts.set(id, updated);
+    return updated;
+  }
+
+  async listEdits(postId: string): Promise<PostEditRecord[]> {
+    return this.edits
+      .filter(edit => edit.postId === postId)
+      .sort((a, b) => b.editedAt.getTime() - a.editedAt.getTime());
+  }
+
+  async softDelete(id: string, deletedBy: string): Promise<PostRecord | undefined> {
+    const post = this.posts.get(id);
+    if (!post || post.deletedAt) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const deleted: PostRecord = { ...post, deletedAt: now, deletedBy, updatedAt: now };
+    this.posts.set(id, deleted);
+    return deleted;
+  }
+
+  async restore(id: string): Promise<PostRecord | undefined> {
+    const post = this.posts.get(id);
+    if (!post || !post.deletedAt) {
+      return undefined;
+    }
+
+    const restored: PostRecord = { ...post, deletedAt: undefined, deletedBy: undefined, updatedAt: new Date() };
+    this.posts.set(id, restored);
+    return restored;
+  }
+
+  async listDeleted(limit?: number): Promise<PostRecord[]> {
+    return [...this.posts.values()]
+      .filter(post => post.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime())
+      .slice(0, resolvePageSize(limit));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.edits = this.edits.filter(edit => edit.postId !== id);
+    return this.posts.delete(id);
+  }
+}
+
+// ============================================================
+// COMMENTS
+// ============================================================
+
+export class MemoryCommentRepository implements CommentRepository {
+  private comments = new Map<string, CommentRecord>();
+
+  async findById(id: string): Promise<CommentRecord | undefined> {
+    return this.comments.get(id);
+  }
+
+  async listByPost(postId: string, limit?: number): Promise<CommentRecord[]> {
+    return [...this.comments.values()]
+      .filter(comment => comment.postId === postId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, resolvePageSize(limit));
+  }
+
+  async create(input: CreateCommentInput): Promise<CommentRecord> {
+    const comment: CommentRecord = {
+      id: generateId('comment'),
+      postId: input.postId,
+      userId: input.userId,
+      text: input.text,
+      createdAt: input.createdAt || new Date(),
+    };
+
+    this.comments.set(comment.id, comment);
+    return comment;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.comments.delete(id);
+  }
+}
+
+// ============================================================
+// LIKES
+// ============================================================
+
+export class MemoryLikeRepository implements LikeRepository {
+  // Keys are `${postId}:${userId}`
+  private likes = new Set<string>();
+
+  async add(postId: string, userId: string): Promise<boolean> {
+    const key = `${postId}:${userId}`;
+    if (this.likes.has(key)) {
+      return false;
+    }
+    this.likes.add(key);
+    return true;
+  }
+
+  async remove(postId: string, userId: string): Promise<boolean> {
+    return this.likes.delete(`${postId}:${userId}`);
+  }
+
+  async hasLiked(postId: string, userId: string): Promise<boolean> {
+    return this.likes.has(`${postId}:${userId}`);
+  }
+
+  async listLikedPostIds(userId: string, postIds: string[]): Promise<string[]> {
+    return postIds.filter(postId => this.likes.has(`${postId}:${userId}`));
+  }
+}
+
+// ============================================================
+// FOLLOWS
+// ============================================================
+
+export class MemoryFollowRepository implements FollowRepository {
+  // Keys are `${followerId}:${followeeId}`
+  private follows = new Map<string, FollowRecord>();
+
+  constructor(private users: MemoryUserRepository) {}
+
+  async follow(followerId: string, followeeId: string): Promise<boolean> {
+    const key = `${followerId}:${followeeId}`;
+    if (this.follows.has(key)) {
+      return false;
+    }
+    this.follows.set(key, { followerId, followeeId, createdAt: new Date() });
+    this.users.adjustFollowCounts(followerId, followeeId, 1);
+    return true;
+  }
+
+  async unfollow(followerId: string, followeeId: string): Promise<boolean> {
+    const removed = this.follows.delete(`${followerId}:${followeeId}`);
+    if (removed) {
+      this.users.adjustFollowCounts(followerId, followeeId, -1);
+    }
+    return removed;
+  }
+
+  async isFollowing(followerId: string, followeeId: string): Promise<boolean> {
+    return this.follows.has(`${followerId}:${followeeId}`);
+  }
+
+  async listFollowingIds(userId: string): Promise<string[]> {
+    return [...this.follows.values()]
+      .filter(follow => follow.followerId === userId)
+      .map(follow => follow.followeeId);
+  }
+
+  async listFollowerIds(userId: string): Promise<string[]> {
+    return [...this.follows.values()]
+      .filter(follow => follow.followeeId === userId)
+      .map(follow => follow.followerId);
+  }
+
+  async countFollowers(userId: string): Promise<number> {
+    return (await this.listFollowerIds(userId)).length;
+  }
+
+  async countFollowing(userId: string): Promise<number> {
+    return (await this.listFollowingIds(userId)).length;
+  }
+}
+
+// ============================================================
+// CLOSE FRIENDS
+// ============================================================
+
+export class MemoryCloseFriendRepository implements CloseFriendRepository {
+  // Keys are `${userId}:${friendId}`
+  private entries = new Map<string, CloseFriendRecord>();
+
+  async add(userId: string, friendId: string): Promise<boolean> {
+    const key = `${userId}:${friendId}`;
+    if (this.entries.has(key)) {
+      return false;
+    }
+    this.entries.set(key, { userId, friendId, createdAt: new Date() });
+    return true;
+  }
+
+  async remove(userId: string, friendId: string): Promise<boolean> {
+    return this.entries.delete(`${userId}:${friendId}`);
+  }
+
+  async listFriendIds(userId: string): Promise<string[]> {
+    return [...this.entries.values()]
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(entry => entry.friendId);
+  }
+
+  async listOwnerIds(friendId: string): Promise<string[]> {
+    return [...this.entries.values()]
+      .filter(entry => entry.friendId === friendId)
+      .map(entry => entry.userId);
+  }
+}
+
+// ============================================================
+// MEDIA
+// ============================================================
+
+export class MemoryMediaRepository implements MediaRepository {
+  private media = new Map<string, MediaRecord>();
+
+  async findById(id: string): Promise<MediaRecord | undefined> {
+    return this.media.get(id);
+  }
+
+  async create(input: CreateMediaInput): Promise<MediaRecord> {
+    const record: MediaRecord = {
+      id: generateId('media'),
+      ...input,
+      createdAt: new Date(),
+    };
+
+    this.media.set(record.id, record);
+    return record;
+  }
+}
+
+// ============================================================
+// STORIES
+// ============================================================
+
+export class MemoryStoryRepository implements StoryRepository {
+  private stories = new Map<string, StoryRecord>();
+  private viewers = new Map<string, Set<string>>();
+
+  async findById(id: string): Promise<StoryRecord | undefined> {
+    return this.stories.get(id);
+  }
+
+  async listActiveByUsers(userIds: string[], now: Date = new Date()): Promise<StoryRecord[]> {
+    const authors = new Set(userIds);
+
+    return [...this.stories.values()]
+      .filter(story => authors.has(story.userId) && story.expiresAt > now)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async create(input: CreateStoryInput): Promise<StoryRecord> {
+    const createdAt = input.createdAt || new Date();
+    const story: StoryRecord = {
+      id: generateId('story'),
+      userId: input.userId,
+      mediaUrl: input.mediaUrl,
+      createdAt,
+      expiresAt: input.expiresAt || new Date(createdAt.getTime() + STORY_LIFETIME_MS),
+    };
+
+    this.stories.set(story.id, story);
+    return story;
+  }
+
+  async markViewed(storyId: string, viewerId: string): Promise<boolean> {
+    const viewers = this.viewers.get(storyId) || new Set<string>();
+    if (viewers.has(viewerId)) {
+      return false;
+    }
+    viewers.add(viewerId);
+    this.viewers.set(storyId, viewers);
+    return true;
+  }
+
+  async listViewerIds(storyId: string): Promise<string[]> {
+    return [...(this.viewers.get(storyId) || [])];
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    let removed = 0;
+    for (const [id, story] of this.stories) {
+      if (story.expiresAt <= now) {
+        this.stories.delete(id);
+        this.viewers.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+// ============================================================
+// RANKING PROFILES
+// ============================================================
+
+export class MemoryRankingProfileRepository implements RankingProfileRepository {
+  private profiles = new Map<string, RankingProfileRecord>();
+  private audit: RankingProfileAuditRecord[] = [];
+
+  private record(
+    profile: RankingProfileRecord,
+    action: RankingProfileAuditAction,
+    actorId: string,
+    previousParameters?: RankingParameters
+  ): void {
+    this.audit.push({
+      id: generateId('audit'),
+      profileName: profile.name,
+      version: profile.version,
+      action,
+      actorId,
+      previousParameters,
+      parameters: profile.parameters,
+      createdAt: new Date(),
+    });
+  }
+
+  async list(): Promise<RankingProfileRecord[]> {
+    return [...this.profiles.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findByName(name: string): Promise<RankingProfileRecord | undefined> {
+    return this.profiles.get(name);
+  }
+
+  async findActive(): Promise<RankingProfileRecord | undefined> {
+    return [...this.profiles.values()].find(profile => profile.active);
+  }
+
+  async create(input: CreateRankingProfileInput): Promise<RankingProfileRecord> {
+    if (this.profiles.has(input.name)) {
+      throw new Error('Ranking profile already exists');
+    }
+
+    const now = new Date();
+    const profile: RankingProfileRecord = {
+      name: input.name,
+      description: input.description || '',
+      version: 1,
+      parameters: input.parameters,
+      active: false,
+      createdAt: now,
+      updatedAt: now,
+      updatedBy: input.actorId,
+    };
+
+    this.profiles.set(profile.name, profile);
+    this.record(profile, 'created', input.actorId);
+
+    return input.active ? (await this.activate(profile.name, input.actorId))! : profile;
+  }
+
+  async update(
+    name: string,
+    changes: { parameters: RankingParameters; description?: string },
+    actorId: string,
+    expectedVersion?: number
+  ): Promise<RankingProfileRecord | undefined> {
+    const existing = this.profiles.get(name);
+    if (!existing || (expectedVersion !== undefined && existing.version !== expectedVersion)) {
+      return undefined;
+    }
+
+    const updated: RankingProfileRecord = {
+      ...existing,
+      parameters: changes.parameters,
+      description: changes.description ?? existing.description,
+      version: existing.version + 1,
+      updatedAt: new Date(),
+      updatedBy: actorId,
+    };
+
+    this.profiles.set(name, updated);
+    this.record(updated, 'updated', actorId, existing.parameters);
+    return updated;
+  }
+
+  async activate(name: string, actorId: string): Promise<RankingProfileRecord | undefined> {
+    const target = this.profiles.get(name);
+    if (!target) {
+      return undefined;
+    }
+
+    for (const profile of this.profiles.values()) {
+      if (profile.active && profile.name !== name) {
+        this.profiles.set(profile.name, { ...profile, active: false });
+      }
+    }
+
+    const activated = { ...target, active: true };
+    this.profiles.set(name, activated);
+    this.record(activated, 'activated', actorId);
+    return activated;
+  }
+
+  async listAudit(options: { profileName?: string; limit?: number } = {}): Promise<RankingProfileAuditRecord[]> {
+    return this.audit
+      .filter(entry => !options.profileName || entry.profileName === options.profileName)
+      .reverse()
+      .slice(0, resolvePageSize(options.limit));
+  }
+}
+
+// ============================================================
+// EXPERIMENTS
+// ============================================================
+
+export class MemoryExperimentRepository implements ExperimentRepository {
+  private experiments = new Map<string, ExperimentRecord>();
+  private stats = new Map<string, ExperimentArmStats>(); // "<experiment>:<arm>"
+
+  async list(): Promise<ExperimentRecord[]> {
+    return [...this.experiments.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async findByName(name: string): Promise<ExperimentRecord | undefined> {
+    return this.experiments.get(name);
+  }
+
+  async findRunning(): Promise<ExperimentRecord | undefined> {
+    return [...this.experiments.values()].find(experiment => experiment.status === 'running');
+  }
+
+  async create(input: CreateExperimentInput): Promise<ExperimentRecord> {
+    if (this.experiments.has(input.name)) {
+      throw new Error('Experiment already exists');
+    }
+
+    const now = new Date();
+    const experiment: ExperimentRecord = {
+      name: input.name,
+      description: input.description || '',
+      status: 'draft',
+      trafficPercent: input.trafficPercent,
+      arms: input.arms,
+      createdBy: input.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.experiments.set(experiment.name, experiment);
+    return experiment;
+  }
+
+  async transition(name: string, from: ExperimentStatus, to: ExperimentStatus): Promise<ExperimentRecord | undefined> {
+    const existing = this.experiments.get(name);
+    if (!existing || existing.status !== from) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const updated: ExperimentRecord = {
+      ...existing,
+      status: to,
+      updatedAt: now,
+      ...(to === 'running' && { startedAt: now }),
+      ...(to === 'stopped' && { stoppedAt: now }),
+    };
+
+    this.experiments.set(name, updated);
+    return updated;
+  }
+
+  async recordArmActivity(
+    name: string,
+    arm: string,
+    counters: Partial<Record<ExperimentCounter, number>>,
+    exposure: Record<string, number> = {}
+  ): Promise<void> {
+    const key = `${name}:${arm}`;
+    const existing = this.stats.get(key);
+    const stats: ExperimentArmStats = existing
+      ? { ...existing, exposure: { ...existing.exposure } }
+      : { arm, sessions: 0, impressions: 0, underexposedImpressions: 0, likes: 0, comments: 0, exposure: {} };
+
+    for (const [counter, delta] of Object.entries(counters) as [ExperimentCounter, number][]) {
+      stats[counter] += delta;
+    }
+    for (const [authorId, count] of Object.entries(exposure)) {
+      stats.exposure[authorId] = (stats.exposure[authorId] ?? 0) + count;
+    }
+
+    this.stats.set(key, stats);
+  }
+
+  async getArmStats(name: string): Promise<ExperimentArmStats[]> {
+    return [...this.stats.entries()]
+      .filter(([key]) => key.startsWith(`${name}:`))
+      .map(([, stats]) => ({ ...stats, exposure: { ...stats.exposure } }));
+  }
+}
+
+// ============================================================
+// SETTINGS
+// ============================================================
+
+export class MemorySettingRepository implements SettingRepository {
+  private settings = new Map<string, SettingRecord>();
+
+  async get(key: string): Promise<SettingRecord | undefined> {
+    return this.settings.get(key);
+  }
+
+  async set(key: string, value: unknown, updatedBy: string): Promise<SettingRecord> {
+    const record: SettingRecord = { key, value, updatedBy, updatedAt: new Date() };
+    this.settings.set(key, record);
+    return record;
+  }
+}
+
+/**
+ * Fresh, empty set of memory repositories
+ */
+export function createMemoryRepositories(): Repositories {
+  const users = new MemoryUserRepository();
+
+  return {
+    driver: 'memory',
+    users,
+    sessions: new MemorySessionRepository(),
+    posts: new MemoryPostRepository(),
+    comments: new MemoryCommentRepository(),
+    likes: new MemoryLikeRepository(),
+    follows: new MemoryFollowRepository(users),
+    closeFriends: new MemoryCloseFriendRepository(),
+    media: new MemoryMediaRepository(),
+    stories: new MemoryStoryRepository(),
+    rankingProfiles: new MemoryRankingProfileRepository(),
+    experiments: new MemoryExperimentRepository(),
+    settings: new MemorySettingRepository(),
+  };
+}
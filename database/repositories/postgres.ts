@@ -0,0 +1,1280 @@
+/**
+ * PostgreSQL Repositories
+ *
+ * Backend for deployed environments (DATABASE_DRIVER=postgres).
+ * Uses the tables created by database/migrations, including the `users`
+ * table that 001_add_role_to_users.sql adds the role column to.
+ *
+ * Tables: users, sessions, posts, post_edits, comments, post_likes, follows, close_friends, media, stories, story_views,
+ * ranking_profiles, ranking_profile_audit, experiments, experiment_arm_stats,
+ * experiment_exposure, settings
+ *
+ * All queries are parameterized. Records are mapped between snake_case
+ * columns and the camelCase records in types.ts.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import type { RankingParameters } from '../../utils/feedAlgorithm';
+import type { AccountLockNotification, CreateUserInput, User } from '../../utils/User';
+import type { Queryable } from '../pool';
+import { generateId } from './ids';
+import {
+  resolvePageSize,
+  type CloseFriendRepository,
+  type CommentRecord,
+  type CommentRepository,
+  type CreateCommentInput,
+  type CreateExperimentInput,
+  type CreateMediaInput,
+  type CreatePostInput,
+  type CreateRankingProfileInput,
+  type CreateSessionInput,
+  type CreateStoryInput,
+  type ExperimentArmStats,
+  type ExperimentCounter,
+  type ExperimentRecord,
+  type ExperimentRepository,
+  type ExperimentStatus,
+  type FollowRepository,
+  type LikeRepository,
+  type MediaRecord,
+  type MediaRepository,
+  type PostCounter,
+  type PostEditRecord,
+  type PostListOptions,
+  type PostRecord,
+  type PostRepository,
+  type PostViewer,
+  type RankingProfileAuditRecord,
+  type RankingProfileRecord,
+  type RankingProfileRepository,
+  type Repositories,
+  type SessionRecord,
+  type SessionRepository,
+  type SettingRecord,
+  type SettingRepository,
+  type SessionRotation,
+  type StoryRecord,
+  type StoryRepository,
+  type UserRepository,
+} from './types';
+
+const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+/** PostgreSQL unique_violation */
+const UNIQUE_VIOLATION = '23505';
+
+// ============================================================
+// USERS
+// ============================================================
+
+/**
+ * User record field -> users column
+ */
+const USER_COLUMNS: Record<Exclude<keyof User, 'id'>, string> = {
+  email: 'email',
+  passwordHash: 'password_hash',
+  displayName: 'display_name',
+  username: 'username',
+  avatar: 'avatar',
+  bio: 'bio',
+  location: 'location',
+  website: 'website',
+  role: 'role',
+  followersCount: 'followers_count',
+  followingCount: 'following_count',
+  visibilityScore: 'visibility_score',
+  recentImpressions: 'recent_impressions',
+  impressionsDecayedAt: 'impressions_decayed_at',
+  isActive: 'is_active',
+  isSuspended: 'is_suspended',
+  suspensionReason: 'suspension_reason',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  lastLoginAt: 'last_login_at',
+  verifiedEmail: 'verified_email',
+  emailVerifiedAt: 'email_verified_at',
+  phoneNumber: 'phone_number',
+  twoFactorEnabled: 'two_factor_enabled',
+  twoFactorEnabledAt: 'two_factor_enabled_at',
+  twoFactorSecret: 'two_factor_secret',
+  twoFactorPendingSecret: 'two_factor_pending_secret',
+  twoFactorLastUsedStep: 'two_factor_last_used_step',
+  recoveryCodeHashes: 'recovery_code_hashes',
+  lockNotifications: 'lock_notifications',
+};
+
+function optional<T>(value: T | null): T | undefined {
+  return value === null ? undefined : value;
+}
+
+/**
+ * recent_impressions decayed from impressions_decayed_at to $1, halving
+ * every $2 hours (SQL fragment for the users table aliased as u)
+ */
+const DECAYED_IMPRESSIONS = `u.recent_impressions * power(
+  0.5,
+  GREATEST(0, EXTRACT(EPOCH FROM ($1::timestamptz - COALESCE(u.impressions_decayed_at, $1::timestamptz)))) / ($2::float8 * 3600)
+)`;
+
+function rowToUser(row: any): User {
+  return {
+    id: row.id,
+    email: row.email,
+    passwordHash: row.password_hash,
+    displayName: optional(row.display_name),
+    username: optional(row.username),
+    avatar: optional(row.avatar),
+    bio: optional(row.bio),
+    location: optional(row.location),
+    website: optional(row.website),
+    role: row.role,
+    followersCount: row.followers_count,
+    followingCount: row.following_count,
+    visibilityScore: row.visibility_score,
+    recentImpressions: row.recent_impressions,
+    impressionsDecayedAt: optional(row.impressions_decayed_at),
+    isActive: row.is_active,
+    isSuspended: optional(row.is_suspended),
+    suspensionReason: optional(row.suspension_reason),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastLoginAt: optional(row.last_login_at),
+    verifiedEmail: optional(row.verified_email),
+    emailVerifiedAt: optional(row.email_verified_at),
+    phoneNumber: optional(row.phone_number),
+    twoFactorEnabled: optional(row.two_factor_enabled),
+    twoFactorEnabledAt: optional(row.two_factor_enabled_at),
+    twoFactorSecret: optional(row.two_factor_secret),
+    twoFactorPendingSecret: optional(row.two_factor_pending_secret),
+    twoFactorLastUsedStep:
+      row.two_factor_last_used_step === null ? undefined : Number(row.two_factor_last_used_step),
+    recoveryCodeHashes: optional(row.recovery_code_hashes),
+    lockNotifications: row.lock_notifications
+      ? row.lock_notifications.map(parseLockNotification)
+      : undefined,
+  };
+}
+
+/**
+ * jsonb returns dates as ISO strings
+ */
+function parseLockNotification(raw: any): AccountLockNotification {
+  return {
+    ...raw,
+    lockedAt: new Date(raw.lockedAt),
+    lockedUntil: new Date(raw.lockedUntil),
+    unlockedAt: raw.unlockedAt ? new Date(raw.unlockedAt) : undefined,
+  };
+}
+
+function toUserColumnValue(field: keyof User, value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+  if (field === 'lockNotifications') {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+export class PostgresUserRepository implements UserRepository {
+  constructor(private db: Queryable) {}
+
+  async findById(id: string): Promise<User | undefined> {
+    const { rows } = await this.db.query('SELECT * FROM users WHERE id = $1', [id]);
+    return rows[0] ? rowToUser(rows[0]) : undefined;
+  }
+
+  async findByEmail(email: string): Promise<User | undefined> {
+    const { rows } = await this.db.query('SELECT * FROM users WHERE email = $1', [email.toLowerCase()]);
+    return rows[0] ? rowToUser(rows[0]) : undefined;
+  }
+
+  async findByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const { rows } = await this.db.query('SELECT * FROM users WHERE id = ANY($1)', [ids]);
+    const byId = new Map(rows.map(row => [row.id, rowToUser(row)]));
+    return ids.map(id => byId.get(id)).filter((user): user is User => user !== undefined);
+  }
+
+  async search(query: string, limit?: number): Promise<User[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+
+    const escaped = needle.replace(/[\\%_]/g, match => `\\${match}`);
+    const { rows } = await this.db.query(
+      `SELECT * FROM users
+        WHERE lower(display_name) LIKE $1
+           OR lower(username) LIKE $2
+        ORDER BY created_at
+        LIMIT $3`,
+      [`%${escaped}%`, `${escaped}%`, resolvePageSize(limit)]
+    );
+    return rows.map(rowToUser);
+  }
+
+  async create(input: CreateUserInput): Promise<User> {
+    try {
+      const { rows } = await this.db.query(
+        `INSERT INTO users (id, email, password_hash, display_name, username, role, is_active, verified_email, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, true, false, COALESCE($7, now()), COALESCE($7, now()))
+         RETURNING *`,
+        [
+          generateId('user'),
+          input.email.toLowerCase(),
+          input.passwordHash,
+          input.displayName ?? null,
+          input.username ?? null,
+          input.role || 'user',
+          input.createdAt ?? null,
+        ]
+      );
+      return rowToUser(rows[0]);
+    } catch (error: any) {
+      if (error.code === UNIQUE_VIOLATION && error.constraint?.includes('email')) {
+        throw new Error('Email already registered');
+      }
+      throw error;
+    }
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Omit<User, 'id' | 'email' | 'createdAt'>>
+  ): Promise<User | undefined> {
+    const fields = (Object.keys(changes) as (keyof typeof changes)[]).filter(
+      field => field !== 'updatedAt' && field in USER_COLUMNS
+    );
+
+    const assignments = fields.map((field, index) => `${USER_COLUMNS[field]} = $${index + 2}`);
+    const values = fields.map(field => toUserColumnValue(field, changes[field]));
+
+    const { rows } = await this.db.query(
+      `UPDATE users SET ${[...assignments, 'updated_at = now()'].join(', ')}
+        WHERE id = $1
+        RETURNING *`,
+      [id, ...values]
+    );
+    return rows[0] ? rowToUser(rows[0]) : undefined;
+  }
+
+  async advanceTwoFactorStep(id: string, step: number): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      `UPDATE users SET two_factor_last_used_step = $2, updated_at = now()
+        WHERE id = $1 AND (two_factor_last_used_step IS NULL OR two_factor_last_used_step < $2)`,
+      [id, step]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async removeRecoveryCodeHash(id: string, hash: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      `UPDATE users SET recovery_code_hashes = array_remove(recovery_code_hashes, $2), updated_at = now()
+        WHERE id = $1 AND $2 = ANY(recovery_code_hashes)`,
+      [id, hash]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async addImpressions(counts: Record<string, number>, now: Date, halfLifeHours: number): Promise<void> {
+    const userIds = Object.keys(counts);
+    if (userIds.length === 0) {
+      return;
+    }
+
+    await this.db.query(
+      `UPDATE users u
+          SET recent_impressions = ${DECAYED_IMPRESSIONS} + c.count,
+              impressions_decayed_at = GREATEST(u.impressions_decayed_at, $1::timestamptz)
+         FROM unnest($3::varchar[], $4::integer[]) AS c(id, count)
+        WHERE u.id = c.id`,
+      [now, halfLifeHours, userIds, userIds.map(id => counts[id])]
+    );
+  }
+
+  async refreshReachStats(now: Date, halfLifeHours: number): Promise<number> {
+    await this.db.query(
+      `UPDATE users u
+          SET recent_impressions = ${DECAYED_IMPRESSIONS},
+              impressions_decayed_at = GREATEST(u.impressions_decayed_at, $1::timestamptz)`,
+      [now, halfLifeHours]
+    );
+
+    const { rowCount } = await this.db.query(
+      `UPDATE users u
+          SET visibility_score = ranked.score
+         FROM (
+           SELECT id, round(100 * percent_rank() OVER (ORDER BY recent_impressions))::smallint AS score
+             FROM users
+            WHERE is_active AND is_suspended IS NOT TRUE
+         ) ranked
+        WHERE u.id = ranked.id`
+    );
+    return rowCount ?? 0;
+  }
+}
+
+// ============================================================
+// SESSIONS
+// ============================================================
+
+function rowToSession(row: any): SessionRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    currentTokenId: row.current_token_id,
+    createdAt: row.created_at,
+    lastRotatedAt: row.last_rotated_at,
+    expiresAt: row.expires_at,
+    revokedAt: optional(row.revoked_at),
+    revokedReason: optional(row.revoked_reason),
+    deviceName: row.device_name,
+    userAgent: optional(row.user_agent),
+    ip: optional(row.ip),
+    lastSeenAt: row.last_seen_at,
+  };
+}
+
+export class PostgresSessionRepository implements SessionRepository {
+  constructor(private db: Queryable) {}
+
+  async findById(id: string): Promise<SessionRecord | undefined> {
+    const { rows } = await this.db.query('SELECT * FROM sessions WHERE id = $1', [id]);
+    return rows[0] ? rowToSession(rows[0]) : undefined;
+  }
+
+  async create(input: CreateSessionInput): Promise<SessionRecord> {
+    const { rows } = await this.db.query(
+      `INSERT INTO sessions
+         (id, user_id, current_token_id, created_at, last_rotated_at, expires_at,
+          device_name, user_agent, ip, last_seen_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        input.id,
+        input.userId,
+        input.currentTokenId,
+        input.createdAt,
+        input.lastRotatedAt,
+        input.expiresAt,
+        input.deviceName,
+        input.userAgent ?? null,
+        input.ip ?? null,
+        input.lastSeenAt,
+      ]
+    );
+    return rowToSession(rows[0]);
+  }
+
+  async rotate(id: string, expectedTokenId: string, changes: SessionRotation): Promise<SessionRecord | undefined> {
+    // The WHERE clause is the compare: a concurrent rotation or revocation makes it match nothing
+    const { rows } = await this.db.query(
+      `UPDATE sessions
+          SET current_token_id = $3, last_rotated_at = $4, expires_at = $5,
+              user_agent = $6, ip = $7, last_seen_at = $8
+        WHERE id = $1 AND current_token_id = $2 AND revoked_at IS NULL
+        RETURNING *`,
+      [
+        id,
+        expectedTokenId,
+        changes.currentTokenId,
+        changes.lastRotatedAt,
+        changes.expiresAt,
+        changes.userAgent ?? null,
+        changes.ip ?? null,
+        changes.lastSeenAt,
+      ]
+    );
+    return rows[0] ? rowToSession(rows[0]) : undefined;
+  }
+
+  async revoke(id: string, reason: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      'UPDATE sessions SET revoked_at = now(), revoked_reason = $2 WHERE id = $1 AND revoked_at IS NULL',
+      [id, reason]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async revokeAllForUser(userId: string, reason: string, exceptId?: string): Promise<string[]> {
+    const { rows } = await this.db.query(
+      `UPDATE sessions SET revoked_at = now(), revoked_reason = $2
+        WHERE user_id = $1 AND revoked_at IS NULL AND id IS DISTINCT FROM $3
+        RETURNING id`,
+      [userId, reason, exceptId ?? null]
+    );
+    return rows.map(row => row.id);
+  }
+
+  async listActiveByUser(userId: string, now: Date): Promise<SessionRecord[]> {
+    const { rows } = await this.db.query(
+      `SELECT * FROM sessions
+        WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > $2
+        ORDER BY last_seen_at DESC`,
+      [userId, now]
+    );
+    return rows.map(rowToSession);
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const { rowCount } = await this.db.query('DELETE FROM sessions WHERE expires_at <= $1', [now]);
+    return rowCount ?? 0;
+  }
+}
+
+// ============================================================
+// POSTS
+// ============================================================
+
+const POST_COUNTER_COLUMNS: Record<PostCounter, string> = {
+  likesCount: 'likes_count',
+  commentsCount: 'comments_count',
+  sharesCount: 'shares_count',
+};
+
+function rowToPost(row: any): PostRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    caption: row.caption,
+    media: row.media || [],
+    mentions: row.mentions || [],
+    audience: row.audience,
+    likesCount: row.likes_count,
+    commentsCount: row.comments_count,
+    sharesCount: row.shares_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    editedAt: optional(row.edited_at),
+    deletedAt: optional(row.deleted_at),
+    deletedBy: optional(row.deleted_by),
+  };
+}
+
+function rowToPostEdit(row: any): PostEditRecord {
+  return {
+    id: row.id,
+    postId: row.post_id,
+    caption: row.caption,
+    editedBy: row.edited_by,
+    editedAt: row.edited_at,
+  };
+}
+
+/**
+ * WHERE condition mirroring canViewPost, with the viewer in parameters
+ * $first (user ID, NULL for no check), $first+1 (following IDs) and
+ * $first+2 (close-friend-of IDs); see visibleToParams
+ */
+function visibleToCondition(first: number): string {
+  return `($${first}::text IS NULL
+            OR audience = 'public'
+            OR user_id = $${first}
+            OR (audience = 'followers' AND user_id = ANY($${first + 1}::text[]))
+            OR (audience = 'close_friends' AND user_id = ANY($${first + 2}::text[])))`;
+}
+
+function visibleToParams(viewer?: PostViewer): unknown[] {
+  return viewer ? [viewer.userId, viewer.followingIds, viewer.closeFriendOfIds] : [null, [], []];
+}
+
+export class PostgresPostRepository implements PostRepository {
+  constructor(private db: Queryable) {}
+
+  async findById(id: string, options: { includeDeleted?: boolean } = {}): Promise<PostRecord | undefined> {
+    const { rows } = await this.db.query(
+      'SELECT * FROM posts WHERE id = $1 AND ($2 OR deleted_at IS NULL)',
+      [id, options.includeDeleted ?? false]
+    );
+    return rows[0] ? rowToPost(rows[0]) : undefined;
+  }
+
+  async listByUser(userId: string, page: PostListOptions = {}): Promise<PostRecord[]> {
+    return this.listRecent({ ...page, userIds: [userId] });
+  }
+
+  async listRecent(page: PostListOptions & { userIds?: string[] } = {}): Promise<PostRecord[]> {
+    const { rows } = await this.db.query(
+      `SELECT * FROM posts
+        WHERE ($1::text[] IS NULL OR user_id = ANY($1))
+          AND ($2::timestamptz IS NULL OR created_at < $2)
+          AND deleted_at IS NULL
+          AND ${visibleToCondition(4)}
+        ORDER BY created_at DESC
+        LIMIT $3`,
+      [page.userIds ?? null, page.before ?? null, resolvePageSize(page.limit), ...visibleToParams(page.visibleTo)]
+    );
+    return rows.map(rowToPost);
+  }
+
+  async search(query: string, page: PostListOptions = {}): Promise<PostRecord[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+
+    const escaped = needle.replace(/[\\%_]/g, match => `\\${match}`);
+    const { rows } = await this.db.query(
+      `SELECT * FROM posts
+        WHERE lower(caption) LIKE $1
+          AND ($2::timestamptz IS NULL OR created_at < $2)
+          AND deleted_at IS NULL
+          AND ${visibleToCondition(4)}
+        ORDER BY created_at DESC
+        LIMIT $3`,
+      [`%${escaped}%`, page.before ?? null, resolvePageSize(page.limit), ...visibleToParams(page.visibleTo)]
+    );
+    return rows.map(rowToPost);
+  }
+
+  async countByUser(userId: string): Promise<number> {
+    const { rows } = await this.db.query('SELECT count(*) AS count FROM posts WHERE user_id = $1 AND deleted_at IS NULL', [userId]);
+    return Number(rows[0].count);
+  }
+
+  async create(input: CreatePostInput): Promise<PostRecord> {
+    const { rows } = await this.db.query(
+      `INSERT INTO posts (id, user_id, type, caption, media, mentions, audience, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7, COALESCE($8, now()), COALESCE($8, now()))
+       RETURNING *`,
+      [
+        generateId('post'),
+        input.userId,
+        input.type,
+        input.caption,
+        JSON.stringify(input.media || []),
+        input.mentions || [],
+        input.audience || 'public',
+        input.createdAt ?? null,
+      ]
+    );
+    return rowToPost(rows[0]);
+  }
+
+  async incrementCounter(id: string, counter: PostCounter, delta: number): Promise<number> {
+    const column = POST_COUNTER_COLUMNS[counter];
+    const { rows } = await this.db.query(
+      `UPDATE posts SET ${column} = GREATEST(0, ${column} + $2)
+        WHERE id = $1
+        RETURNING ${column} AS value`,
+      [id, delta]
+    );
+    return rows[0] ? Number(rows[0].value) : 0;
+  }
+
+  async updateCaption(id: string, caption: string, editedBy: string): Promise<PostRecord | undefined> {
+    // Lock the row so concurrent edits each record the caption they replaced
+    const { rows } = await this.db.query(
+      `WITH previous AS (
+         SELECT id, caption FROM posts WHERE id = $1 AND deleted_at IS NULL FOR UPDATE
+       ),
+       history AS (
+         INSERT INTO post_edits (id, post_id, caption, edited_by)
+         SELECT $4, id, caption, $3 FROM previous
+       )
+       UPDATE posts SET caption = $2, edited_at = now(), updated_at = now()
+        WHERE id = (SELECT id FROM previous)
+        RETURNING *`,
+      [id, caption, editedBy, generateId('edit')]
+    );
+    return rows[0] ? rowToPost(rows[0]) : undefined;
+  }
+
+  async listEdits(postId: string): Promise<PostEditRecord[]> {
+    const { rows } = await this.db.query(
+      'SELECT * FROM post_edits WHERE post_id = $1 ORDER BY edited_at DESC',
+      [postId]
+    );
+    return rows.map(rowToPostEdit);
+  }
+
+  async softDelete(id: string, deletedBy: string): Promise<PostRecord | undefined> {
+    const { rows } = await this.db.query(
+      `UPDATE posts SET deleted_at = now(), deleted_by = $2, updated_at = now()
+        WHERE id = $1 AND deleted_at IS NULL
+        RETURNING *`,
+      [id, deletedBy]
+    );
+    return rows[0] ? rowToPost(rows[0]) : undefined;
+  }
+
+  async restore(id: string): Promise<PostRecord | undefined> {
+    const { rows } = await this.db.query(
+      `UPDATE posts SET deleted_at = NULL, deleted_by = NULL, updated_at = now()
+        WHERE id = $1 AND deleted_at IS NOT NULL
+        RETURNING *`,
+      [id]
+    );
+    return rows[0] ? rowToPost(rows[0]) : undefined;
+  }
+
+  async listDeleted(limit?: number): Promise<PostRecord[]> {
+    const { rows } = await this.db.query(
+      'SELECT * FROM posts WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC LIMIT $1',
+      [resolvePageSize(limit)]
+    );
+    return rows.map(rowToPost);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { rowCount } = await this.db.query('DELETE FROM posts WHERE id = $1', [id]);
+    return (rowCount ?? 0) > 0;
+  }
+}
+
+// ============================================================
+// COMMENTS
+// ============================================================
+
+function rowToComment(row: any): CommentRecord {
+  return {
+    id: row.id,
+    postId: row.post_id,
+    userId: row.user_id,
+    text: row.text,
+    createdAt: row.created_at,
+  };
+}
+
+export class PostgresCommentRepository implements CommentRepository {
+  constructor(private db: Queryable) {}
+
+  async findById(id: string): Promise<CommentRecord | undefined> {
+    const { rows } = await this.db.query('SELECT * FROM comments WHERE id = $1', [id]);
+    return rows[0] ? rowToComment(rows[0]) : undefined;
+  }
+
+  async listByPost(postId: string, limit?: number): Promise<CommentRecord[]> {
+    const { rows } = await this.db.query(
+      'SELECT * FROM comments WHERE post_id = $1 ORDER BY created_at ASC LIMIT $2',
+      [postId, resolvePageSize(limit)]
+    );
+    return rows.map(rowToComment);
+  }
+
+  async create(input: CreateCommentInput): Promise<CommentRecord> {
+    const { rows } = await this.db.query(
+      `INSERT INTO comments (id, post_id, user_id, text, created_at)
+       VALUES ($1, $2, $3, $4, COALESCE($5, now()))
+       RETURNING *`,
+      [generateId('comment'), input.postId, input.userId, input.text, input.createdAt ?? null]
+    );
+    return rowToComment(rows[0]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { rowCount } = await this.db.query('DELETE FROM comments WHERE id = $1', [id]);
+    return (rowCount ?? 0) > 0;
+  }
+}
+
+// ============================================================
+// LIKES
+// ============================================================
+
+export class PostgresLikeRepository implements LikeRepository {
+  constructor(private db: Queryable) {}
+
+  async add(postId: string, userId: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      `INSERT INTO post_likes (post_id, user_id) VALUES ($1, $2)
+       ON CONFLICT DO NOTHING`,
+      [postId, userId]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async remove(postId: string, userId: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      'DELETE FROM post_likes WHERE post_id = $1 AND user_id = $2',
+      [postId, userId]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async hasLiked(postId: string, userId: string): Promise<boolean> {
+    const { rows } = await this.db.query(
+      'SELECT 1 FROM post_likes WHERE post_id = $1 AND user_id = $2',
+      [postId, userId]
+    );
+    return rows.length > 0;
+  }
+
+  async listLikedPostIds(userId: string, postIds: string[]): Promise<string[]> {
+    if (postIds.length === 0) {
+      return [];
+    }
+    const { rows } = await this.db.query(
+      'SELECT post_id FROM post_likes WHERE user_id = $1 AND post_id = ANY($2)',
+      [userId, postIds]
+    );
+    const liked = new Set(rows.map(row => row.post_id));
+    return postIds.filter(postId => liked.has(postId));
+  }
+}
+
+// ============================================================
+// FOLLOWS
+// ============================================================
+
+export class PostgresFollowRepository implements FollowRepository {
+  constructor(private db: Queryable) {}
+
+  // Both statements keep users.followers_count / following_count in step with the edge
+
+  async follow(followerId: string, followeeId: string): Promise<boolean> {
+    const { rows } = await this.db.query(
+      `WITH inserted AS (
+         INSERT INTO follows (follower_id, followee_id) VALUES ($1, $2)
+         ON CONFLICT DO NOTHING
+         RETURNING follower_id, followee_id
+       ), followee AS (
+         UPDATE users SET followers_count = followers_count + 1
+          WHERE id IN (SELECT followee_id FROM inserted)
+       ), follower AS (
+         UPDATE users SET following_count = following_count + 1
+          WHERE id IN (SELECT follower_id FROM inserted)
+       )
+       SELECT count(*) AS count FROM inserted`,
+      [followerId, followeeId]
+    );
+    return Number(rows[0].count) > 0;
+  }
+
+  async unfollow(followerId: string, followeeId: string): Promise<boolean> {
+    const { rows } = await this.db.query(
+      `WITH deleted AS (
+         DELETE FROM follows WHERE follower_id = $1 AND followee_id = $2
+         RETURNING follower_id, followee_id
+       ), followee AS (
+         UPDATE users SET followers_count = GREATEST(0, followers_count - 1)
+          WHERE id IN (SELECT followee_id FROM deleted)
+       ), follower AS (
+         UPDATE users SET following_count = GREATEST(0, following_count - 1)
+          WHERE id IN (SELECT follower_id FROM deleted)
+       )
+       SELECT count(*) AS count FROM deleted`,
+      [followerId, followeeId]
+    );
+    return Number(rows[0].count) > 0;
+  }
+
+  async isFollowing(followerId: string, followeeId: string): Promise<boolean> {
+    const { rows } = await this.db.query(
+      'SELECT 1 FROM follows WHERE follower_id = $1 AND followee_id = $2',
+      [followerId, followeeId]
+    );
+    return rows.length > 0;
+  }
+
+  async listFollowingIds(userId: string): Promise<string[]> {
+    const { rows } = await this.db.query('SELECT followee_id FROM follows WHERE follower_id = $1', [userId]);
+    return rows.map(row => row.followee_id);
+  }
+
+  async listFollowerIds(userId: string): Promise<string[]> {
+    const { rows } = await this.db.query('SELECT follower_id FROM follows WHERE followee_id = $1', [userId]);
+    return rows.map(row => row.follower_id);
+  }
+
+  async countFollowers(userId: string): Promise<number> {
+    const { rows } = await this.db.query('SELECT count(*) AS count FROM follows WHERE followee_id = $1', [userId]);
+    return Number(rows[0].count);
+  }
+
+  async countFollowing(userId: string): Promise<number> {
+    const { rows } = await this.db.query('SELECT count(*) AS count FROM follows WHERE follower_id = $1', [userId]);
+    return Number(rows[0].count);
+  }
+}
+
+// ============================================================
+// CLOSE FRIENDS
+// ============================================================
+
+export class PostgresCloseFriendRepository implements CloseFriendRepository {
+  constructor(private db: Queryable) {}
+
+  async add(userId: string, friendId: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      'INSERT INTO close_friends (user_id, friend_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+      [userId, friendId]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async remove(userId: string, friendId: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      'DELETE FROM close_friends WHERE user_id = $1 AND friend_id = $2',
+      [userId, friendId]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async listFriendIds(userId: string): Promise<string[]> {
+    const { rows } = await this.db.query(
+      'SELECT friend_id FROM close_friends WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return rows.map(row => row.friend_id);
+  }
+
+  async listOwnerIds(friendId: string): Promise<string[]> {
+    const { rows } = await this.db.query('SELECT user_id FROM close_friends WHERE friend_id = $1', [friendId]);
+    return rows.map(row => row.user_id);
+  }
+}
+
+// ============================================================
+// MEDIA
+// ============================================================
+
+function rowToMedia(row: any): MediaRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    storageKey: row.storage_key,
+    url: row.url,
+    type: row.type,
+    contentType: row.content_type,
+    size: Number(row.size_bytes),
+    createdAt: row.created_at,
+  };
+}
+
+export class PostgresMediaRepository implements MediaRepository {
+  constructor(private db: Queryable) {}
+
+  async findById(id: string): Promise<MediaRecord | undefined> {
+    const { rows } = await this.db.query('SELECT * FROM media WHERE id = $1', [id]);
+    return rows[0] ? rowToMedia(rows[0]) : undefined;
+  }
+
+  async create(input: CreateMediaInput): Promise<MediaRecord> {
+    const { rows } = await this.db.query(
+      `INSERT INTO media (id, user_id, storage_key, url, type, content_type, size_bytes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [generateId('media'), input.userId, input.storageKey, input.url, input.type, input.contentType, input.size]
+    );
+    return rowToMedia(rows[0]);
+  }
+}
+
+// ============================================================
+// STORIES
+// ============================================================
+
+function rowToStory(row: any): StoryRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    mediaUrl: row.media_url,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+export class PostgresStoryRepository implements StoryRepository {
+  constructor(private db: Queryable) {}
+
+  async findById(id: string): Promise<StoryRecord | undefined> {
+    const { rows } = await this.db.query('SELECT * FROM stories WHERE id = $1', [id]);
+    return rows[0] ? rowToStory(rows[0]) : undefined;
+  }
+
+  async listActiveByUsers(userIds: string[], now: Date = new Date()): Promise<StoryRecord[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    const { rows } = await this.db.query(
+      `SELECT * FROM stories
+        WHERE user_id = ANY($1) AND expires_at > $2
+        ORDER BY created_at ASC`,
+      [userIds, now]
+    );
+    return rows.map(rowToStory);
+  }
+
+  async create(input: CreateStoryInput): Promise<StoryRecord> {
+    const createdAt = input.createdAt || new Date();
+    const expiresAt = input.expiresAt || new Date(createdAt.getTime() + STORY_LIFETIME_MS);
+
+    const { rows } = await this.db.query(
+      `INSERT INTO stories (id, user_id, media_url, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [generateId('story'), input.userId, input.mediaUrl, createdAt, expiresAt]
+    );
+    return rowToStory(rows[0]);
+  }
+
+  async markViewed(storyId: string, viewerId: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      `INSERT INTO story_views (story_id, viewer_id) VALUES ($1, $2)
+       ON CONFLICT DO NOTHING`,
+      [storyId, viewerId]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async listViewerIds(storyId: string): Promise<string[]> {
+    const { rows } = await this.db.query(
+      'SELECT viewer_id FROM story_views WHERE story_id = $1 ORDER BY viewed_at ASC',
+      [storyId]
+    );
+    return rows.map(row => row.viewer_id);
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    // story_views rows go with their story (ON DELETE CASCADE)
+    const { rowCount } = await this.db.query('DELETE FROM stories WHERE expires_at <= $1', [now]);
+    return rowCount ?? 0;
+  }
+}
+
+// ============================================================
+// RANKING PROFILES
+// ============================================================
+
+function rowToRankingProfile(row: any): RankingProfileRecord {
+  return {
+    name: row.name,
+    description: row.description,
+    version: row.version,
+    parameters: row.parameters,
+    active: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by,
+  };
+}
+
+function rowToRankingProfileAudit(row: any): RankingProfileAuditRecord {
+  return {
+    id: row.id,
+    profileName: row.profile_name,
+    version: row.version,
+    action: row.action,
+    actorId: row.actor_id,
+    previousParameters: row.previous_parameters ?? undefined,
+    parameters: row.parameters,
+    createdAt: row.created_at,
+  };
+}
+
+// Each write and its audit entry are one statement (data-modifying CTEs)
+
+export class PostgresRankingProfileRepository implements RankingProfileRepository {
+  constructor(private db: Queryable) {}
+
+  async list(): Promise<RankingProfileRecord[]> {
+    const { rows } = await this.db.query('SELECT * FROM ranking_profiles ORDER BY name ASC');
+    return rows.map(rowToRankingProfile);
+  }
+
+  async findByName(name: string): Promise<RankingProfileRecord | undefined> {
+    const { rows } = await this.db.query('SELECT * FROM ranking_profiles WHERE name = $1', [name]);
+    return rows[0] ? rowToRankingProfile(rows[0]) : undefined;
+  }
+
+  async findActive(): Promise<RankingProfileRecord | undefined> {
+    const { rows } = await this.db.query('SELECT * FROM ranking_profiles WHERE is_active LIMIT 1');
+    return rows[0] ? rowToRankingProfile(rows[0]) : undefined;
+  }
+
+  async create(input: CreateRankingProfileInput): Promise<RankingProfileRecord> {
+    let created: RankingProfileRecord;
+
+    try {
+      const { rows } = await this.db.query(
+        `WITH created AS (
+           INSERT INTO ranking_profiles (name, description, parameters, updated_by)
+           VALUES ($1, $2, $3::jsonb, $4)
+           RETURNING *
+         ), audit AS (
+           INSERT INTO ranking_profile_audit (id, profile_name, version, action, actor_id, parameters)
+           SELECT $5, name, version, 'created', $4, parameters FROM created
+         )
+         SELECT * FROM created`,
+        [input.name, input.description || '', JSON.stringify(input.parameters), input.actorId, generateId('audit')]
+      );
+      created = rowToRankingProfile(rows[0]);
+    } catch (error: any) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error('Ranking profile already exists');
+      }
+      throw error;
+    }
+
+    return input.active ? (await this.activate(created.name, input.actorId))! : created;
+  }
+
+  async update(
+    name: string,
+    changes: { parameters: RankingParameters; description?: string },
+    actorId: string,
+    expectedVersion?: number
+  ): Promise<RankingProfileRecord | undefined> {
+    const { rows } = await this.db.query(
+      `WITH previous AS (
+         SELECT name, parameters FROM ranking_profiles
+          WHERE name = $1 AND ($4::integer IS NULL OR version = $4)
+          FOR UPDATE
+       ), updated AS (
+         UPDATE ranking_profiles p
+            SET parameters = $2::jsonb,
+                description = COALESCE($3, p.description),
+                version = p.version + 1,
+                updated_at = now(),
+                updated_by = $5
+           FROM previous
+          WHERE p.name = previous.name
+         RETURNING p.*
+       ), audit AS (
+         INSERT INTO ranking_profile_audit
+           (id, profile_name, version, action, actor_id, previous_parameters, parameters)
+         SELECT $6, updated.name, updated.version, 'updated', $5, previous.parameters, updated.parameters
+           FROM updated, previous
+       )
+       SELECT * FROM updated`,
+      [
+        name,
+        JSON.stringify(changes.parameters),
+        changes.description ?? null,
+        expectedVersion ?? null,
+        actorId,
+        generateId('audit'),
+      ]
+    );
+    return rows[0] ? rowToRankingProfile(rows[0]) : undefined;
+  }
+
+  async activate(name: string, actorId: string): Promise<RankingProfileRecord | undefined> {
+    const { rows } = await this.db.query(
+      `WITH updated AS (
+         UPDATE ranking_profiles SET is_active = (name = $1)
+          WHERE (is_active OR name = $1)
+            AND EXISTS (SELECT 1 FROM ranking_profiles WHERE name = $1)
+         RETURNING *
+       ), audit AS (
+         INSERT INTO ranking_profile_audit (id, profile_name, version, action, actor_id, parameters)
+         SELECT $3, name, version, 'activated', $2, parameters FROM updated WHERE name = $1
+       )
+       SELECT * FROM updated WHERE name = $1`,
+      [name, actorId, generateId('audit')]
+    );
+    return rows[0] ? rowToRankingProfile(rows[0]) : undefined;
+  }
+
+  async listAudit(options: { profileName?: string; limit?: number } = {}): Promise<RankingProfileAuditRecord[]> {
+    const { rows } = await this.db.query(
+      `SELECT * FROM ranking_profile_audit
+        WHERE ($1::text IS NULL OR profile_name = $1)
+        ORDER BY created_at DESC
+        LIMIT $2`,
+      [options.profileName ?? null, resolvePageSize(options.limit)]
+    );
+    return rows.map(rowToRankingProfileAudit);
+  }
+}
+
+// ============================================================
+// EXPERIMENTS
+// ============================================================
+
+const EXPERIMENT_COUNTER_COLUMNS: Record<ExperimentCounter, string> = {
+  sessions: 'sessions',
+  impressions: 'impressions',
+  underexposedImpressions: 'underexposed_impressions',
+  likes: 'likes',
+  comments: 'comments',
+};
+
+function rowToExperiment(row: any): ExperimentRecord {
+  return {
+    name: row.name,
+    description: row.description,
+    status: row.status,
+    trafficPercent: row.traffic_percent,
+    arms: row.arms,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    startedAt: optional(row.started_at),
+    stoppedAt: optional(row.stopped_at),
+  };
+}
+
+export class PostgresExperimentRepository implements ExperimentRepository {
+  constructor(private db: Queryable) {}
+
+  async list(): Promise<ExperimentRecord[]> {
+    const { rows } = await this.db.query('SELECT * FROM experiments ORDER BY created_at DESC');
+    return rows.map(rowToExperiment);
+  }
+
+  async findByName(name: string): Promise<ExperimentRecord | undefined> {
+    const { rows } = await this.db.query('SELECT * FROM experiments WHERE name = $1', [name]);
+    return rows[0] ? rowToExperiment(rows[0]) : undefined;
+  }
+
+  async findRunning(): Promise<ExperimentRecord | undefined> {
+    const { rows } = await this.db.query("SELECT * FROM experiments WHERE status = 'running' LIMIT 1");
+    return rows[0] ? rowToExperiment(rows[0]) : undefined;
+  }
+
+  async create(input: CreateExperimentInput): Promise<ExperimentRecord> {
+    try {
+      const { rows } = await this.db.query(
+        `INSERT INTO experiments (name, description, status, traffic_percent, arms, created_by)
+         VALUES ($1, $2, 'draft', $3, $4, $5)
+         RETURNING *`,
+        [input.name, input.description || '', input.trafficPercent, JSON.stringify(input.arms), input.createdBy]
+      );
+      return rowToExperiment(rows[0]);
+    } catch (error: any) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error('Experiment already exists');
+      }
+      throw error;
+    }
+  }
+
+  async transition(name: string, from: ExperimentStatus, to: ExperimentStatus): Promise<ExperimentRecord | undefined> {
+    // The partial unique index on status = 'running' rejects a second running experiment
+    const { rows } = await this.db.query(
+      `UPDATE experiments
+          SET status = $3,
+              updated_at = now(),
+              started_at = CASE WHEN $3 = 'running' THEN now() ELSE started_at END,
+              stopped_at = CASE WHEN $3 = 'stopped' THEN now() ELSE stopped_at END
+        WHERE name = $1 AND status = $2
+        RETURNING *`,
+      [name, from, to]
+    );
+    return rows[0] ? rowToExperiment(rows[0]) : undefined;
+  }
+
+  async recordArmActivity(
+    name: string,
+    arm: string,
+    counters: Partial<Record<ExperimentCounter, number>>,
+    exposure: Record<string, number> = {}
+  ): Promise<void> {
+    const fields = Object.keys(counters) as ExperimentCounter[];
+    if (fields.length > 0) {
+      const columns = fields.map(field => EXPERIMENT_COUNTER_COLUMNS[field]);
+      await this.db.query(
+        `INSERT INTO experiment_arm_stats (experiment_name, arm, ${columns.join(', ')})
+         VALUES ($1, $2, ${columns.map((_, index) => `$${index + 3}`).join(', ')})
+         ON CONFLICT (experiment_name, arm) DO UPDATE
+           SET ${columns.map(column => `${column} = experiment_arm_stats.${column} + EXCLUDED.${column}`).join(', ')}`,
+        [name, arm, ...fields.map(field => counters[field])]
+      );
+    }
+
+    const authorIds = Object.keys(exposure);
+    if (authorIds.length > 0) {
+      await this.db.query(
+        `INSERT INTO experiment_exposure (experiment_name, arm, author_id, impressions)
+         SELECT $1, $2, e.author_id, e.impressions
+           FROM unnest($3::varchar[], $4::integer[]) AS e(author_id, impressions)
+         ON CONFLICT (experiment_name, arm, author_id) DO UPDATE
+           SET impressions = experiment_exposure.impressions + EXCLUDED.impressions`,
+        [name, arm, authorIds, authorIds.map(id => exposure[id])]
+      );
+    }
+  }
+
+  async getArmStats(name: string): Promise<ExperimentArmStats[]> {
+    const [{ rows: statsRows }, { rows: exposureRows }] = await Promise.all([
+      this.db.query('SELECT * FROM experiment_arm_stats WHERE experiment_name = $1', [name]),
+      this.db.query(
+        'SELECT arm, author_id, impressions FROM experiment_exposure WHERE experiment_name = $1',
+        [name]
+      ),
+    ]);
+
+    return statsRows.map(row => {
+      const exposure: Record<string, number> = {};
+      for (const entry of exposureRows) {
+        if (entry.arm === row.arm) {
+          exposure[entry.author_id] = entry.impressions;
+        }
+      }
+
+      return {
+        arm: row.arm,
+        sessions: Number(row.sessions),
+        impressions: Number(row.impressions),
+        underexposedImpressions: Number(row.underexposed_impressions),
+        likes: Number(row.likes),
+        comments: Number(row.comments),
+        exposure,
+      };
+    });
+  }
+}
+
+// ============================================================
+// SETTINGS
+// ============================================================
+
+function rowToSetting(row: any): SettingRecord {
+  return {
+    key: row.key,
+    value: row.value,
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class PostgresSettingRepository implements SettingRepository {
+  constructor(private db: Queryable) {}
+
+  async get(key: string): Promise<SettingRecord | undefined> {
+    const { rows } = await this.db.query('SELECT * FROM settings WHERE key = $1', [key]);
+    return rows[0] ? rowToSetting(rows[0]) : undefined;
+  }
+
+  async set(key: string, value: unknown, updatedBy: string): Promise<SettingRecord> {
+    const { rows } = await this.db.query(
+      `INSERT INTO settings (key, value, updated_by)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (key) DO UPDATE
+         SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by, updated_at = now()
+       RETURNING *`,
+      [key, JSON.stringify(value), updatedBy]
+    );
+    return rowToSetting(rows[0]);
+  }
+}
+
+/**
+ * Repositories backed by a pool (or a single client inside a transaction)
+ */
+export function createPostgresRepositories(db: Queryable): Repositories {
+  return {
+    driver: 'postgres',
+    users: new PostgresUserRepository(db),
+    sessions: new PostgresSessionRepository(db),
+    posts: new PostgresPostRepository(db),
+    comments: new PostgresCommentRepository(db),
+    likes: new PostgresLikeRepository(db),
+    follows: new PostgresFollowRepository(db),
+    closeFriends: new PostgresCloseFriendRepository(db),
+    media: new PostgresMediaRepository(db),
+    stories: new PostgresStoryRepository(db),
+    rankingProfiles: new PostgresRankingProfileRepository(db),
+    experiments: new PostgresExperimentRepository(db),
+    settings: new PostgresSettingRepository(db),
+  };
+}
@@ -0,0 +1,575 @@
+/**
+ * Repository Types - Records and data access interfaces
+ *
+ * Every repository has an in-memory implementation (memory.ts) and a
+ * PostgreSQL implementation (postgres.ts). Routes only see these
+ * interfaces, via getRepositories() in index.ts.
+ *
+ * Records use camelCase; the PostgreSQL implementation maps them to the
+ * snake_case columns of the schema in database/migrations.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import type { RankingParameters } from '../../utils/feedAlgorithm';
+import type { CreateUserInput, User } from '../../utils/User';
+
+export type PostType = 'text' | 'image' | 'video';
+
+/**
+ * Who can see a post besides its author
+ * - public: everyone
+ * - followers: accounts that follow the author
+ * - close_friends: accounts on the author's close friends list
+ * - only_me: nobody else
+ */
+export type PostAudience = 'public' | 'followers' | 'close_friends' | 'only_me';
+
+export const POST_AUDIENCES: PostAudience[] = ['public', 'followers', 'close_friends', 'only_me'];
+
+/**
+ * A photo or video attached to a post
+ */
+export interface PostMedia {
+  url: string;
+  type: 'image' | 'video';
+  width?: number; // Pixels, when the uploader knows them
+  height?: number;
+  blurhash?: string; // Compact placeholder shown while the file loads
+  alt?: string; // Description for screen readers
+}
+
+/**
+ * Post record
+ */
+export interface PostRecord {
+  id: string;
+  userId: string;
+  type: PostType;
+  caption: string;
+  media: PostMedia[]; // In display order
+  mentions: string[]; // Mentioned user IDs
+  audience: PostAudience;
+  likesCount: number;
+  commentsCount: number;
+  sharesCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  editedAt?: Date; // Last caption edit
+  deletedAt?: Date; // Soft-deleted: hidden everywhere until restored
+  deletedBy?: string; // Author, or the moderator who removed it
+}
+
+/**
+ * A caption as it was before an edit
+ */
+export interface PostEditRecord {
+  id: string;
+  postId: string;
+  caption: string; // The replaced caption
+  editedBy: string; // Who replaced it
+  editedAt: Date;
+}
+
+export interface CreatePostInput {
+  userId: string;
+  type: PostType;
+  caption: string;
+  media?: PostMedia[];
+  mentions?: string[];
+  audience?: PostAudience; // Defaults to 'public'
+  createdAt?: Date; // Defaults to now (seed data sets it explicitly)
+}
+
+/**
+ * The reader of a post listing, with the relationships audiences depend on
+ */
+export interface PostViewer {
+  userId: string;
+  followingIds: string[]; // Authors whose followers-only posts they see
+  closeFriendOfIds: string[]; // Authors who list them as a close friend
+}
+
+/**
+ * Listing options: a page, limited to what one viewer may see
+ */
+export interface PostListOptions extends PageOptions {
+  visibleTo?: PostViewer; // Omit for every audience (internal use only)
+}
+
+/**
+ * Whether the viewer is in the post's audience (authors always see their own)
+ */
+export function canViewPost(post: Pick<PostRecord, 'userId' | 'audience'>, viewer: PostViewer): boolean {
+  if (post.userId === viewer.userId || post.audience === 'public') {
+    return true;
+  }
+  switch (post.audience) {
+    case 'followers':
+      return viewer.followingIds.includes(post.userId);
+    case 'close_friends':
+      return viewer.closeFriendOfIds.includes(post.userId);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Denormalized post counters
+ */
+export type PostCounter = 'likesCount' | 'commentsCount' | 'sharesCount';
+
+/**
+ * Close friends list entry: userId shares close-friends posts with friendId
+ */
+export interface CloseFriendRecord {
+  userId: string;
+  friendId: string;
+  createdAt: Date;
+}
+
+/**
+ * An uploaded file (utils/mediaUploads.ts), attachable to its owner's posts by ID
+ */
+export interface MediaRecord {
+  id: string;
+  userId: string; // Uploader
+  storageKey: string; // Key in the media storage driver
+  url: string; // Public URL
+  type: 'image' | 'video';
+  contentType: string; // Sniffed from the file, not taken from the client
+  size: number; // Bytes
+  createdAt: Date;
+}
+
+export interface CreateMediaInput {
+  userId: string;
+  storageKey: string;
+  url: string;
+  type: 'image' | 'video';
+  contentType: string;
+  size: number;
+}
+
+/**
+ * A login session: one refresh token family (utils/refreshTokens.ts)
+ */
+export interface SessionRecord {
+  id: string; // Family ID, the `sid` claim of its access tokens
+  userId: string;
+  currentTokenId: string; // The only refresh token of the family still accepted
+  createdAt: Date;
+  lastRotatedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+
+  // Device details (updated on every rotation)
+  deviceName: string;
+  userAgent?: string;
+  ip?: string;
+  lastSeenAt: Date;
+}
+
+export type CreateSessionInput = Omit<SessionRecord, 'revokedAt' | 'revokedReason'>;
+
+export type SessionRotation = Pick<
+  SessionRecord,
+  'currentTokenId' | 'lastRotatedAt' | 'expiresAt' | 'userAgent' | 'ip' | 'lastSeenAt'
+>;
+
+/**
+ * Comment record
+ */
+export interface CommentRecord {
+  id: string;
+  postId: string;
+  userId: string;
+  text: string;
+  createdAt: Date;
+}
+
+export interface CreateCommentInput {
+  postId: string;
+  userId: string;
+  text: string;
+  createdAt?: Date;
+}
+
+/**
+ * Follow edge: followerId follows followeeId
+ */
+export interface FollowRecord {
+  followerId: string;
+  followeeId: string;
+  createdAt: Date;
+}
+
+/**
+ * Story record (visible until expiresAt)
+ */
+export interface StoryRecord {
+  id: string;
+  userId: string;
+  mediaUrl: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface CreateStoryInput {
+  userId: string;
+  mediaUrl: string;
+  createdAt?: Date;
+  expiresAt?: Date; // Defaults to 24 hours after createdAt
+}
+
+/**
+ * Named set of feed ranking parameters. Every edit bumps the version.
+ */
+export interface RankingProfileRecord {
+  name: string; // Slug, e.g. 'default'
+  description: string;
+  version: number; // Starts at 1
+  parameters: RankingParameters;
+  active: boolean; // The profile that ranks the home feed (exactly one)
+  createdAt: Date;
+  updatedAt: Date;
+  updatedBy: string; // User ID, or 'system'
+}
+
+export interface CreateRankingProfileInput {
+  name: string;
+  description?: string;
+  parameters: RankingParameters;
+  active?: boolean;
+  actorId: string;
+}
+
+export type RankingProfileAuditAction = 'created' | 'updated' | 'activated';
+
+/**
+ * One entry of the ranking profile audit trail
+ */
+export interface RankingProfileAuditRecord {
+  id: string;
+  profileName: string;
+  version: number; // Profile version after the change
+  action: RankingProfileAuditAction;
+  actorId: string;
+  previousParameters?: RankingParameters; // Only for 'updated'
+  parameters: RankingParameters;
+  createdAt: Date;
+}
+
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+/**
+ * One variant of an experiment: users bucketed into it are ranked with its profile
+ */
+export interface ExperimentArm {
+  name: string; // e.g. 'control'
+  profileName: string; // Ranking profile used for this arm
+  weight: number; // Relative share of enrolled users
+}
+
+/**
+ * Feed ranking A/B experiment. At most one runs at a time.
+ */
+export interface ExperimentRecord {
+  name: string; // Slug, also the bucketing salt
+  description: string;
+  status: ExperimentStatus;
+  trafficPercent: number; // 1-100: share of users enrolled
+  arms: ExperimentArm[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  stoppedAt?: Date;
+}
+
+export interface CreateExperimentInput {
+  name: string;
+  description?: string;
+  trafficPercent: number;
+  arms: ExperimentArm[];
+  createdBy: string;
+}
+
+export type ExperimentCounter = 'sessions' | 'impressions' | 'underexposedImpressions' | 'likes' | 'comments';
+
+/**
+ * Everything recorded for one arm of an experiment
+ */
+export interface ExperimentArmStats extends Record<ExperimentCounter, number> {
+  arm: string;
+  exposure: Record<string, number>; // authorId -> impressions from this arm's viewers
+}
+
+/**
+ * Newest-first pagination
+ */
+export interface PageOptions {
+  limit?: number; // Default 20, max 100
+  before?: Date; // Only records created strictly before this time
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Clamp a requested page size to 1..MAX_PAGE_SIZE
+ */
+export function resolvePageSize(limit?: number): number {
+  if (!limit || !Number.isFinite(limit)) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_SIZE);
+}
+
+// ============================================================
+// REPOSITORY INTERFACES
+// ============================================================
+
+export interface UserRepository {
+  findById(id: string): Promise<User | undefined>;
+  /** Case-insensitive */
+  findByEmail(email: string): Promise<User | undefined>;
+  findByIds(ids: string[]): Promise<User[]>;
+  /** Match on display name or username prefix (never email - results are public) */
+  search(query: string, limit?: number): Promise<User[]>;
+  /** @throws Error if the email is already registered */
+  create(input: CreateUserInput): Promise<User>;
+  update(
+    id: string,
+    changes: Partial<Omit<User, 'id' | 'email' | 'createdAt'>>
+  ): Promise<User | undefined>;
+  /**
+   * Record an accepted TOTP time step, only if it is later than the last one
+   * @returns false if this step (or a later one) was already used - a replay
+   */
+  advanceTwoFactorStep(id: string, step: number): Promise<boolean>;
+  /**
+   * Remove a recovery code hash, only if it is still there
+   * @returns false if the code was already used
+   */
+  removeRecoveryCodeHash(id: string, hash: string): Promise<boolean>;
+  /**
+   * Add impressions to accounts' recentImpressions. The stored value first
+   * decays from impressionsDecayedAt to now, halving every halfLifeHours.
+   *
+   * @param counts - userId -> new impressions
+   */
+  addImpressions(counts: Record<string, number>, now: Date, halfLifeHours: number): Promise<void>;
+  /**
+   * Decay every account's recentImpressions to now, then set visibilityScore
+   * of active, unsuspended accounts to their percentile rank (0-100) by
+   * recentImpressions. Ties share the lower rank.
+   *
+   * @returns Number of accounts scored
+   */
+  refreshReachStats(now: Date, halfLifeHours: number): Promise<number>;
+}
+
+export interface SessionRepository {
+  findById(id: string): Promise<SessionRecord | undefined>;
+  create(input: CreateSessionInput): Promise<SessionRecord>;
+  /**
+   * Move a session to its next refresh token, as one compare-and-set:
+   * only if it is not revoked and expectedTokenId is still current
+   *
+   * @returns The updated session, or undefined if the check failed
+   */
+  rotate(id: string, expectedTokenId: string, changes: SessionRotation): Promise<SessionRecord | undefined>;
+  /** @returns false if missing or already revoked */
+  revoke(id: string, reason: string): Promise<boolean>;
+  /** @returns IDs of the sessions revoked */
+  revokeAllForUser(userId: string, reason: string, exceptId?: string): Promise<string[]>;
+  /** Unrevoked, unexpired sessions, most recently used first */
+  listActiveByUser(userId: string, now: Date): Promise<SessionRecord[]>;
+  /** @returns Number of sessions removed */
+  deleteExpired(now: Date): Promise<number>;
+}
+
+/**
+ * Soft-deleted posts are left out of every lookup and listing unless
+ * asked for explicitly. Listings given visibleTo only return posts whose
+ * audience includes that viewer (see canViewPost); findById does not
+ * check audiences.
+ */
+export interface PostRepository {
+  findById(id: string, options?: { includeDeleted?: boolean }): Promise<PostRecord | undefined>;
+  listByUser(userId: string, page?: PostListOptions): Promise<PostRecord[]>;
+  /** Newest posts from the given authors (all authors if omitted) */
+  listRecent(page?: PostListOptions & { userIds?: string[] }): Promise<PostRecord[]>;
+  /** Newest posts whose caption contains the query (case-insensitive) */
+  search(query: string, page?: PostListOptions): Promise<PostRecord[]>;
+  countByUser(userId: string): Promise<number>;
+  create(input: CreatePostInput): Promise<PostRecord>;
+  /** Add delta to a counter, never going below zero. Returns the new value. */
+  incrementCounter(id: string, counter: PostCounter, delta: number): Promise<number>;
+  /**
+   * Replace the caption, keeping the previous one in the edit history
+   * @returns undefined if missing or deleted
+   */
+  updateCaption(id: string, caption: string, editedBy: string): Promise<PostRecord | undefined>;
+  /** Previous captions, newest first */
+  listEdits(postId: string): Promise<PostEditRecord[]>;
+  /** @returns undefined if missing or already deleted */
+  softDelete(id: string, deletedBy: string): Promise<PostRecord | undefined>;
+  /** @returns undefined if missing or not deleted */
+  restore(id: string): Promise<PostRecord | undefined>;
+  /** Soft-deleted posts, most recently deleted first */
+  listDeleted(limit?: number): Promise<PostRecord[]>;
+  /** Permanent. @returns Whether the post existed */
+  delete(id: string): Promise<boolean>;
+}
+
+export interface CommentRepository {
+  findById(id: string): Promise<CommentRecord | undefined>;
+  /** Oldest first, like a conversation */
+  listByPost(postId: string, limit?: number): Promise<CommentRecord[]>;
+  create(input: CreateCommentInput): Promise<CommentRecord>;
+  /** @returns Whether the comment existed */
+  delete(id: string): Promise<boolean>;
+}
+
+export interface LikeRepository {
+  /** @returns false if the user already liked the post */
+  add(postId: string, userId: string): Promise<boolean>;
+  /** @returns false if the user had not liked the post */
+  remove(postId: string, userId: string): Promise<boolean>;
+  hasLiked(postId: string, userId: string): Promise<boolean>;
+  /** Which of these posts the user has liked */
+  listLikedPostIds(userId: string, postIds: string[]): Promise<string[]>;
+}
+
+/**
+ * follow/unfollow also keep the users' followersCount / followingCount in step
+ */
+export interface FollowRepository {
+  /** @returns false if already following */
+  follow(followerId: string, followeeId: string): Promise<boolean>;
+  /** @returns false if not following */
+  unfollow(followerId: string, followeeId: string): Promise<boolean>;
+  isFollowing(followerId: string, followeeId: string): Promise<boolean>;
+  listFollowingIds(userId: string): Promise<string[]>;
+  listFollowerIds(userId: string): Promise<string[]>;
+  countFollowers(userId: string): Promise<number>;
+  countFollowing(userId: string): Promise<number>;
+}
+
+export interface CloseFriendRepository {
+  /** @returns false if already on the list */
+  add(userId: string, friendId: string): Promise<boolean>;
+  /** @returns false if not on the list */
+  remove(userId: string, friendId: string): Promise<boolean>;
+  /** The user's close friends, most recently added first */
+  listFriendIds(userId: string): Promise<string[]>;
+  /** Users who have friendId on their close friends list */
+  listOwnerIds(friendId: string): Promise<string[]>;
+}
+
+export interface MediaRepository {
+  findById(id: string): Promise<MediaRecord | undefined>;
+  create(input: CreateMediaInput): Promise<MediaRecord>;
+}
+
+export interface StoryRepository {
+  findById(id: string): Promise<StoryRecord | undefined>;
+  /** Unexpired stories from these users, oldest first */
+  listActiveByUsers(userIds: string[], now?: Date): Promise<StoryRecord[]>;
+  create(input: CreateStoryInput): Promise<StoryRecord>;
+  /** @returns false if the viewer had already seen the story */
+  markViewed(storyId: string, viewerId: string): Promise<boolean>;
+  listViewerIds(storyId: string): Promise<string[]>;
+  /** @returns Number of stories removed */
+  deleteExpired(now?: Date): Promise<number>;
+}
+
+/**
+ * Create, update and activate record an audit entry in the same write
+ */
+export interface RankingProfileRepository {
+  list(): Promise<RankingProfileRecord[]>;
+  findByName(name: string): Promise<RankingProfileRecord | undefined>;
+  findActive(): Promise<RankingProfileRecord | undefined>;
+  /** @throws Error if the name is taken */
+  create(input: CreateRankingProfileInput): Promise<RankingProfileRecord>;
+  /**
+   * Replace the parameters (and optionally the description), bumping the version
+   * @returns undefined if the profile is missing or no longer at expectedVersion
+   */
+  update(
+    name: string,
+    changes: { parameters: RankingParameters; description?: string },
+    actorId: string,
+    expectedVersion?: number
+  ): Promise<RankingProfileRecord | undefined>;
+  /** Make this the only active profile. @returns undefined if missing */
+  activate(name: string, actorId: string): Promise<RankingProfileRecord | undefined>;
+  /** Newest first, optionally for one profile */
+  listAudit(options?: { profileName?: string; limit?: number }): Promise<RankingProfileAuditRecord[]>;
+}
+
+export interface ExperimentRepository {
+  /** Newest first */
+  list(): Promise<ExperimentRecord[]>;
+  findByName(name: string): Promise<ExperimentRecord | undefined>;
+  findRunning(): Promise<ExperimentRecord | undefined>;
+  /** Creates a draft. @throws Error if the name is taken */
+  create(input: CreateExperimentInput): Promise<ExperimentRecord>;
+  /**
+   * draft -> running -> stopped, stamping startedAt / stoppedAt
+   * @returns undefined if missing or not in the expected status
+   */
+  transition(name: string, from: ExperimentStatus, to: ExperimentStatus): Promise<ExperimentRecord | undefined>;
+  /**
+   * Add to an arm's counters and to its per-author exposure
+   *
+   * @param exposure - authorId -> impressions
+   */
+  recordArmActivity(
+    name: string,
+    arm: string,
+    counters: Partial<Record<ExperimentCounter, number>>,
+    exposure?: Record<string, number>
+  ): Promise<void>;
+  /** Arms with no activity yet are omitted */
+  getArmStats(name: string): Promise<ExperimentArmStats[]>;
+}
+
+/**
+ * An admin-managed setting, stored as JSON (e.g. the 2FA policy in utils/twoFactor.ts)
+ */
+export interface SettingRecord {
+  key: string;
+  value: unknown;
+  updatedBy: string; // Admin user ID
+  updatedAt: Date;
+}
+
+export interface SettingRepository {
+  get(key: string): Promise<SettingRecord | undefined>;
+  /** Insert or replace */
+  set(key: string, value: unknown, updatedBy: string): Promise<SettingRecord>;
+}
+
+/**
+ * All repositories of one backend
+ */
+export interface Repositories {
+  driver: 'memory' | 'postgres';
+  users: UserRepository;
+  sessions: SessionRepository;
+  posts: PostRepository;
+  comments: CommentRepository;
+  likes: LikeRepository;
+  follows: FollowRepository;
+  closeFriends: CloseFriendRepository;
+  media: MediaRepository;
+  stories: StoryRepository;
+  rankingProfiles: RankingProfileRepository;
+  experiments: ExperimentRepository;
+  settings: SettingRepository;
+}
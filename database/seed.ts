@@ -0,0 +1,81 @@
+/**
+ * Seed CLI
+ *
+ * Usage:
+ *   npm run db:seed -- --seed <n> [--users <count>]
+ *
+ * Generates the data set for seed <n> (utils/seedData.ts) and loads it into
+ * the configured database. The same seed always produces the same users
+ * and content; run against an empty database, since seed emails are
+ * unique and a second run with the same seed fails.
+ *
+ * The memory driver keeps nothing once this process exits, so with
+ * DATABASE_DRIVER=memory start the server with SEED_DATA=<n> instead.
+ *
+ * Environment Variables:
+ * - DATABASE_DRIVER=postgres and DATABASE_URL (required)
+ * - SEED_PASSWORD (optional, password for every seeded account)
+ *
+ * Exits with status 1 on any error.
+ */
+
+import dotenv from 'dotenv';
+import { generateSeedData } from '../utils/seedData';
+import { closePool } from './pool';
+import { getRepositories } from './repositories';
+import { parseSeedNumber, seedRepositories } from './seeder';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run db:seed -- --seed <n> [--users <count>]
+
+  --seed <n>        Seed number (the same seed gives the same data)
+  --users <count>   Number of users to generate (default 40)`;
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`${name} needs a value`);
+  }
+  return value;
+}
+
+async function main(args: string[]): Promise<void> {
+  const seedOption = readOption(args, '--seed');
+
+  if (seedOption === undefined) {
+    console.log(USAGE);
+    process.exitCode = args.length > 0 ? 1 : 0;
+    return;
+  }
+
+  const usersOption = readOption(args, '--users');
+  const seed = parseSeedNumber(seedOption);
+  const userCount = usersOption !== undefined ? parseSeedNumber(usersOption) : undefined;
+
+  const repositories = getRepositories();
+  if (repositories.driver === 'memory') {
+    throw new Error('The memory driver does not persist; start the server with SEED_DATA=<n> instead');
+  }
+
+  const summary = await seedRepositories(repositories, generateSeedData({ seed, users: userCount }), {
+    password: process.env.SEED_PASSWORD,
+  });
+
+  console.log(
+    `✅ Seed ${seed}: ${summary.users} users, ${summary.posts} posts, ${summary.comments} comments, ` +
+      `${summary.follows} follows, ${summary.stories} stories`
+  );
+  console.log(`   Log in as ${summary.sampleEmail}`);
+}
+
+main(process.argv.slice(2))
+  .catch((error: any) => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -0,0 +1,141 @@
+/**
+ * Seeder - Load generated seed data into the repositories
+ *
+ * Takes the output of generateSeedData() (utils/seedData.ts) and writes it
+ * through the repository interfaces, so it works with both backends.
+ * Repositories assign their own IDs; seed IDs are only used to link
+ * records together while loading.
+ *
+ * Every seeded account gets the same password and a verified email, so
+ * any of them can log in and post straight away.
+ *
+ * Used by the db:seed CLI (database/seed.ts) and by the server on startup
+ * when SEED_DATA is set with the memory driver.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import { hashPassword } from '../utils/passwordHash';
+import type { SeedData } from '../utils/seedData';
+import type { Repositories } from './repositories';
+
+export const DEFAULT_SEED_PASSWORD = 'vairo-seed-password';
+
+export interface SeedSummary {
+  users: number;
+  posts: number;
+  comments: number;
+  follows: number;
+  stories: number;
+  sampleEmail: string; // An account to log in with
+}
+
+/**
+ * Parse a seed number from the CLI or SEED_DATA
+ *
+ * @throws Error unless the value is a non-negative integer
+ */
+export function parseSeedNumber(value: string): number {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`Seed must be a non-negative integer, got "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Write a generated data set into the repositories
+ *
+ * Follows are created before the reach stats are written, so the seeded
+ * (heavy-tailed) follower counts win over the handful of real edges.
+ *
+ * @throws Error if a seed email is already registered
+ */
+export async function seedRepositories(
+  repositories: Repositories,
+  data: SeedData,
+  options: { password?: string } = {}
+): Promise<SeedSummary> {
+  const { users, posts, comments, follows, stories } = repositories;
+  const passwordHash = await hashPassword(options.password || DEFAULT_SEED_PASSWORD);
+
+  // Seed ID -> repository ID
+  const userIds = new Map<string, string>();
+  const postIds = new Map<string, string>();
+
+  for (const seedUser of data.users) {
+    const createdAt = new Date(seedUser.created_at);
+    const user = await users.create({
+      email: seedUser.email,
+      passwordHash,
+      displayName: seedUser.name,
+      username: seedUser.username,
+      role: seedUser.role,
+      createdAt,
+    });
+
+    await users.update(user.id, {
+      avatar: seedUser.avatar,
+      bio: seedUser.bio,
+      location: seedUser.location,
+      verifiedEmail: true,
+      emailVerifiedAt: createdAt,
+    });
+    userIds.set(seedUser.id, user.id);
+  }
+
+  for (const follow of data.follows) {
+    await follows.follow(userIds.get(follow.follower_id)!, userIds.get(follow.followee_id)!);
+  }
+
+  for (const seedUser of data.users) {
+    await users.update(userIds.get(seedUser.id)!, {
+      followersCount: seedUser.followers_count,
+      followingCount: seedUser.following_count,
+      visibilityScore: seedUser.visibility_score,
+      recentImpressions: seedUser.recent_impressions,
+    });
+  }
+
+  for (const seedPost of data.posts) {
+    const post = await posts.create({
+      userId: userIds.get(seedPost.user_id)!,
+      type: seedPost.type,
+      caption: seedPost.caption,
+      media: seedPost.media_url ? [{ url: seedPost.media_url, type: seedPost.type === 'video' ? 'video' : 'image' }] : [],
+      createdAt: new Date(seedPost.created_at),
+    });
+
+    await posts.incrementCounter(post.id, 'likesCount', seedPost.likes);
+    await posts.incrementCounter(post.id, 'sharesCount', seedPost.shares);
+    postIds.set(seedPost.id, post.id);
+  }
+
+  for (const seedComment of data.comments) {
+    const postId = postIds.get(seedComment.postId)!;
+    await comments.create({
+      postId,
+      userId: userIds.get(seedComment.userId)!,
+      text: seedComment.text,
+      createdAt: new Date(seedComment.createdAt),
+    });
+    await posts.incrementCounter(postId, 'commentsCount', 1);
+  }
+
+  for (const seedStory of data.stories) {
+    await stories.create({
+      userId: userIds.get(seedStory.user_id)!,
+      mediaUrl: seedStory.media_url,
+      createdAt: new Date(seedStory.created_at),
+      expiresAt: new Date(seedStory.expires_at),
+    });
+  }
+
+  return {
+    users: data.users.length,
+    posts: data.posts.length,
+    comments: data.comments.length,
+    follows: data.follows.length,
+    stories: data.stories.length,
+    sampleEmail: data.users[0].email,
+  };
+}
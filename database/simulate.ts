@@ -0,0 +1,252 @@
+/**
+ * Feed Simulation CLI - Fairness report for ranking profiles
+ *
+ * Usage:
+ *   npm run db:simulate -- [--profile <ref>] [--compare <ref>] [population] [options]
+ *
+ * Runs utils/feedSimulation.ts over a population and prints how exposure
+ * is shared out: Gini coefficient, top-1% share, median impressions for
+ * new accounts and exposure share by follower bucket. With --compare, two
+ * profiles run over the same population and seed, side by side.
+ *
+ * Profile refs:
+ *   default         Built-in parameters (DEFAULT_RANKING_PARAMETERS)
+ *   <name>          Ranking profile from the configured database
+ *   <file>.json     Parameters, or a profile as returned by the admin API
+ *
+ * Population: synthetic (utils/seedData.ts, --seed/--users) or exported
+ * (--input file.json with { users, posts, follows?, now? } in the feed
+ * shapes, e.g. generateSeedData output).
+ *
+ * Environment Variables:
+ * - DATABASE_DRIVER=postgres and DATABASE_URL (only to load named profiles)
+ *
+ * Exits with status 1 on any error.
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import {
+  DEFAULT_RANKING_PARAMETERS,
+  validateRankingParameters,
+  type RankingParameters,
+} from '../utils/feedAlgorithm';
+import { simulateFeed, type FairnessReport, type SimulationPopulation } from '../utils/feedSimulation';
+import { generateSeedData } from '../utils/seedData';
+import { closePool } from './pool';
+import { getRepositories } from './repositories';
+import { parseSeedNumber } from './seeder';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run db:simulate -- [--profile <ref>] [--compare <ref>] [population] [options]
+
+  --profile <ref>   Profile to simulate (default: default)
+  --compare <ref>   Second profile, reported side by side with the difference
+                    <ref> is "default", a profile name in the database, or a .json file
+
+Population (default: --seed 1 --users 500):
+  --seed <n>        Synthetic population from the seed generator
+  --users <count>   Synthetic population size
+  --input <file>    Exported population: { users, posts, follows?, now? }
+
+Options:
+  --rounds <n>      Feed opens per user (default 10)
+  --depth <n>       Average posts seen per session (default 20)
+  --json            Print the reports as JSON`;
+
+const DEFAULT_SIMULATED_USERS = 500;
+
+interface LoadedProfile {
+  label: string;
+  parameters: RankingParameters;
+}
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`${name} needs a value`);
+  }
+  return value;
+}
+
+function readCount(args: string[], name: string): number | undefined {
+  const value = readOption(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const count = parseSeedNumber(value);
+  if (count < 1) {
+    throw new Error(`${name} must be at least 1`);
+  }
+  return count;
+}
+
+async function loadProfile(ref: string): Promise<LoadedProfile> {
+  let label = ref;
+  let parameters: unknown;
+
+  if (ref.endsWith('.json')) {
+    const parsed = JSON.parse(fs.readFileSync(ref, 'utf8'));
+    parameters = parsed.parameters ?? parsed;
+    if (parsed.name) {
+      label = parsed.version ? `${parsed.name} v${parsed.version}` : parsed.name;
+    }
+  } else {
+    const repositories = getRepositories();
+    const stored = repositories.driver === 'memory' ? undefined : await repositories.rankingProfiles.findByName(ref);
+
+    if (stored) {
+      label = `${stored.name} v${stored.version}`;
+      parameters = stored.parameters;
+    } else if (ref === 'default') {
+      parameters = DEFAULT_RANKING_PARAMETERS;
+    } else {
+      throw new Error(`Ranking profile "${ref}" not found (named profiles need DATABASE_DRIVER=postgres)`);
+    }
+  }
+
+  const errors = validateRankingParameters(parameters);
+  if (errors.length > 0) {
+    throw new Error(`Profile ${label} is not valid:\n  ${errors.join('\n  ')}`);
+  }
+  return { label, parameters: parameters as RankingParameters };
+}
+
+function loadPopulation(args: string[]): { description: string; population: SimulationPopulation } {
+  const input = readOption(args, '--input');
+
+  if (input) {
+    const parsed = JSON.parse(fs.readFileSync(input, 'utf8'));
+    if (!Array.isArray(parsed.users) || !Array.isArray(parsed.posts)) {
+      throw new Error(`${input} must contain "users" and "posts" arrays`);
+    }
+    return {
+      description: input,
+      population: {
+        users: parsed.users,
+        posts: parsed.posts,
+        follows: parsed.follows,
+        now: parsed.now ?? parsed.generatedAt,
+      },
+    };
+  }
+
+  const seedOption = readOption(args, '--seed');
+  const seed = seedOption !== undefined ? parseSeedNumber(seedOption) : 1;
+  const users = readCount(args, '--users') ?? DEFAULT_SIMULATED_USERS;
+  const data = generateSeedData({ seed, users });
+
+  return {
+    description: `seed ${seed}`,
+    population: { users: data.users, posts: data.posts, follows: data.follows, now: data.generatedAt },
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function signed(value: number, digits: number): string {
+  const text = value.toFixed(digits);
+  return Number(text) < 0 ? text : `+${text.replace('-', '')}`;
+}
+
+const points = (value: number) => `${signed(value * 100, 1)} pts`;
+
+/**
+ * Metric rows: label, formatted value per report, and the difference
+ */
+function formatReports(profiles: LoadedProfile[], reports: FairnessReport[]): string {
+  const rows: string[][] = [['', ...profiles.map(profile => profile.label), ...(reports.length > 1 ? ['Δ'] : [])]];
+  const diff = reports.length > 1;
+
+  const add = (
+    label: string,
+    pick: (report: FairnessReport) => number,
+    format: (value: number) => string,
+    delta: (value: number) => string
+  ) => {
+    const values = reports.map(pick);
+    rows.push([label, ...values.map(format), ...(diff ? [delta(values[1] - values[0])] : [])]);
+  };
+
+  add('Gini coefficient', report => report.gini, value => value.toFixed(3), value => signed(value, 3));
+  add('Top 1% share', report => report.top1PercentShare, percent, points);
+  add(
+    `New accounts (${reports[0].newAccounts}), median impressions`,
+    report => report.newAccountMedianImpressions,
+    value => value.toFixed(1),
+    value => signed(value, 1)
+  );
+
+  rows.push(['Exposure share by followers']);
+  reports[0].buckets.forEach((bucket, index) => {
+    add(
+      `  ${bucket.label} (${bucket.accounts} accounts, ${percent(bucket.accountShare)})`,
+      report => report.buckets[index].impressionShare,
+      percent,
+      points
+    );
+  });
+
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => (row[column] ?? '').length)));
+  return rows
+    .map(row =>
+      row
+        .map((cell, column) => (column === 0 ? cell.padEnd(widths[0]) : cell.padStart(widths[column])))
+        .join('   ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+async function main(args: string[]): Promise<void> {
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const refs = [readOption(args, '--profile') ?? 'default'];
+  const compare = readOption(args, '--compare');
+  if (compare) {
+    refs.push(compare);
+  }
+
+  const profiles: LoadedProfile[] = [];
+  for (const ref of refs) {
+    profiles.push(await loadProfile(ref));
+  }
+
+  const { description, population } = loadPopulation(args);
+  const options = {
+    rounds: readCount(args, '--rounds'),
+    meanSessionDepth: readCount(args, '--depth'),
+  };
+
+  const reports = profiles.map(profile => simulateFeed(population, { ...options, parameters: profile.parameters }));
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(
+      profiles.map((profile, index) => ({ profile: profile.label, ...reports[index] })),
+      null,
+      2
+    ));
+    return;
+  }
+
+  console.log(
+    `Feed simulation: ${description}, ${population.users.length} users, ${reports[0].authors} authors, ` +
+      `${reports[0].sessions} sessions, ${reports[0].impressions} impressions\n`
+  );
+  console.log(formatReports(profiles, reports));
+}
+
+main(process.argv.slice(2))
+  .catch((error: any) => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -21,7 +21,11 @@ export function useAuthMiddleware() {
   useEffect(() => {
     if (!isLoading) {
       // If not authenticated and trying to access protected route, redirect to login
-      const inAuthGroup = segments[0] === '(tabs)' || segments[0] === 'admin' || segments[0] === 'moderation';
+      const inAuthGroup =
+        segments[0] === '(tabs)' ||
+        segments[0] === 'admin' ||
+        segments[0] === 'moderation' ||
+        segments[0] === 'sessions';
 
       if (!isAuthenticated && inAuthGroup) {
         router.replace('/login');
@@ -0,0 +1,122 @@
+/**
+ * useCaptionSuggestions Hook - Autocomplete for @mentions and #hashtags
+ *
+ * Given the token being typed (utils/captionTokens.ts), suggests accounts
+ * for @ and hashtags already in use for #.
+ *
+ * Signed in against the API server, suggestions come from GET /api/search,
+ * debounced while typing; hashtags are taken from the captions it matches.
+ * In mock mode the users and posts in AppContext are searched instead.
+ *
+ * @usage
+ * import { useCaptionSuggestions } from '@/hooks/useCaptionSuggestions';
+ *
+ * const token = findActiveToken(caption, cursor);
+ * const { users, hashtags } = useCaptionSuggestions(token);
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useApp } from '@/context/AppContext';
+import { postsAPI } from '@/utils/postsAPI';
+import { extractHashtags, type CaptionToken } from '@/utils/captionTokens';
+
+const MAX_SUGGESTIONS = 6;
+const SEARCH_DEBOUNCE_MS = 250;
+
+export interface MentionSuggestion {
+  id: string;
+  name: string;
+  username: string;
+  avatar: string;
+}
+
+export interface HashtagSuggestion {
+  tag: string; // Without the #
+  count: number; // Posts using it among those searched
+}
+
+/**
+ * Hashtags starting with the query, most used first
+ */
+function rankHashtags(captions: string[], query: string): HashtagSuggestion[] {
+  const counts = new Map<string, number>();
+  captions.forEach(caption => {
+    new Set(extractHashtags(caption)).forEach(tag => {
+      if (tag.startsWith(query) && tag !== query) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    });
+  });
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([tag, count]) => ({ tag, count }));
+}
+
+export function useCaptionSuggestions(token: CaptionToken | null) {
+  const { auth, users, posts, currentUser } = useApp();
+  const isRemote = !!auth && !auth.accessToken.startsWith('mock-');
+
+  const [remoteUsers, setRemoteUsers] = useState<MentionSuggestion[]>([]);
+  const [remoteHashtags, setRemoteHashtags] = useState<HashtagSuggestion[]>([]);
+
+  const trigger = token?.trigger;
+  const query = token?.query.toLowerCase() ?? '';
+
+  // Remote mode: search once typing pauses, ignoring answers to older queries
+  useEffect(() => {
+    setRemoteUsers([]);
+    setRemoteHashtags([]);
+    if (!isRemote || !trigger || !query) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await postsAPI.search(trigger === '#' ? `#${query}` : query, MAX_SUGGESTIONS * 3);
+        if (cancelled) {
+          return;
+        }
+        if (trigger === '@') {
+          setRemoteUsers(results.users.filter(user => user.id !== currentUser?.id).slice(0, MAX_SUGGESTIONS));
+        } else {
+          setRemoteHashtags(rankHashtags(results.posts.map(post => post.caption), query));
+        }
+      } catch {
+        // Autocomplete is a convenience; typing carries on without it
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isRemote, trigger, query, currentUser?.id]);
+
+  const localUsers = useMemo(() => {
+    if (isRemote || trigger !== '@') {
+      return [];
+    }
+    return users
+      .filter(
+        user =>
+          user.id !== currentUser?.id &&
+          (user.username.toLowerCase().startsWith(query) || user.name.toLowerCase().includes(query))
+      )
+      .slice(0, MAX_SUGGESTIONS);
+  }, [isRemote, trigger, query, users, currentUser?.id]);
+
+  const localHashtags = useMemo(() => {
+    if (isRemote || trigger !== '#') {
+      return [];
+    }
+    return rankHashtags(posts.map(post => post.caption), query);
+  }, [isRemote, trigger, query, posts]);
+
+  return {
+    users: isRemote ? remoteUsers : localUsers,
+    hashtags: isRemote ? remoteHashtags : localHashtags,
+  };
+}
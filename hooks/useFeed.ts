@@ -0,0 +1,176 @@
+/**
+ * useFeed Hook - Ranked home feed with infinite scroll
+ *
+ * Signed in against the API server, pages come from GET /api/feed: the
+ * server ranks a snapshot on the first page and later pages follow its
+ * cursor, so the order does not shift while scrolling.
+ *
+ * In mock mode (no session, or a mock- token) the same algorithm runs over
+ * the posts in AppContext, with the same behaviour: the order is fixed
+ * when the feed loads and pages are revealed from it. Counters stay live.
+ *
+ * Posts edited or deleted through AppContext (editPost / deletePost)
+ * show the change right away in both modes.
+ *
+ * explainPost(postId) returns the "Why this post?" breakdown for the feed
+ * on screen (from the server, or from the local ranking in mock mode).
+ *
+ * @usage
+ * import { useFeed } from '@/hooks/useFeed';
+ *
+ * function Feed() {
+ *   const { posts, getAuthor, loadMore, refresh, refreshing } = useFeed();
+ *   return <FlatList data={posts} onEndReached={loadMore} ... />;
+ * }
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useApp } from '@/context/AppContext';
+import { feedAPI } from '@/utils/feedAPI';
+import { rankFeedPosts, type Post, type RankingExplanation, type User } from '@/utils/feedAlgorithm';
+
+const PAGE_SIZE = 20;
+
+export function useFeed() {
+  const { auth, posts: localPosts, getUser, following, currentUser, editedPosts, deletedPosts, canViewPost } = useApp();
+  const isRemote = !!auth && !auth.accessToken.startsWith('mock-');
+
+  // Remote mode
+  const [remotePosts, setRemotePosts] = useState<Post[]>([]);
+  const [authors, setAuthors] = useState<Map<string, User>>(new Map());
+  const [cursor, setCursor] = useState<string | null>(null);
+
+  // Mock mode: ranked post IDs, revealed a page at a time
+  const [localOrder, setLocalOrder] = useState<string[]>([]);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const localExplanations = useRef(new Map<string, RankingExplanation>());
+
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+  const requestInFlight = useRef(false);
+
+  // Latest local data without re-ranking on every like
+  const localRef = useRef({ localPosts, getUser, following, currentUser, canViewPost });
+  localRef.current = { localPosts, getUser, following, currentUser, canViewPost };
+
+  const rankLocal = useCallback(() => {
+    const { localPosts: current, getUser: lookup, following: followed, currentUser: viewer, canViewPost: canView } =
+      localRef.current;
+    const ranked = rankFeedPosts(current.filter(canView), lookup, {
+      now: new Date(),
+      explain: true,
+      followedIds: new Set(viewer ? [viewer.id, ...followed] : followed),
+    });
+
+    localExplanations.current = new Map(ranked.map(post => [post.id, post.ranking_explanation!]));
+    setLocalOrder(ranked.map(post => post.id));
+    setVisibleCount(PAGE_SIZE);
+  }, []);
+
+  const loadRemotePage = useCallback(async (pageCursor: string | null) => {
+    if (requestInFlight.current) {
+      return;
+    }
+    requestInFlight.current = true;
+
+    try {
+      setError('');
+      const page = await feedAPI.getFeed({ cursor: pageCursor, limit: PAGE_SIZE });
+
+      setRemotePosts(current => (pageCursor ? [...current, ...page.posts] : page.posts));
+      setAuthors(current => {
+        const next = new Map(pageCursor ? current : []);
+        page.authors.forEach(author => next.set(author.id, author));
+        return next;
+      });
+      setCursor(page.nextCursor);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load feed');
+    } finally {
+      requestInFlight.current = false;
+      setLoading(false);
+      setLoadingMore(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  // Initial load (and reload when switching between mock and remote mode)
+  useEffect(() => {
+    setLoading(true);
+    if (isRemote) {
+      loadRemotePage(null);
+    } else {
+      setLoading(false);
+    }
+  }, [isRemote, loadRemotePage]);
+
+  // Mock mode: rank on load, and again when a new local post should show up
+  useEffect(() => {
+    if (!isRemote) {
+      rankLocal();
+    }
+  }, [isRemote, localPosts.length, rankLocal]);
+
+  const refresh = useCallback(() => {
+    setRefreshing(true);
+    if (isRemote) {
+      loadRemotePage(null);
+    } else {
+      rankLocal();
+      setRefreshing(false);
+    }
+  }, [isRemote, loadRemotePage, rankLocal]);
+
+  const hasMore = isRemote ? cursor !== null : visibleCount < localOrder.length;
+
+  const loadMore = useCallback(() => {
+    if (!hasMore || loading || refreshing) {
+      return;
+    }
+    if (isRemote) {
+      setLoadingMore(true);
+      loadRemotePage(cursor);
+    } else {
+      setVisibleCount(count => count + PAGE_SIZE);
+    }
+  }, [hasMore, loading, refreshing, isRemote, cursor, loadRemotePage]);
+
+  const posts = useMemo(() => {
+    if (isRemote) {
+      return remotePosts
+        .filter(post => !deletedPosts.has(post.id))
+        .map(post => (editedPosts.has(post.id) ? { ...post, ...editedPosts.get(post.id) } : post));
+    }
+    const byId = new Map(localPosts.map(post => [post.id, post]));
+    return localOrder
+      .slice(0, visibleCount)
+      .map(id => byId.get(id))
+      .filter((post): post is Post => post !== undefined);
+  }, [isRemote, remotePosts, localPosts, localOrder, visibleCount, editedPosts, deletedPosts]);
+
+  const getAuthor = useCallback(
+    (userId: string): User | undefined => (isRemote ? authors.get(userId) : getUser(userId)),
+    [isRemote, authors, getUser]
+  );
+
+  const explainPost = useCallback(
+    async (postId: string): Promise<RankingExplanation | null> =>
+      isRemote ? feedAPI.explainPost(postId) : localExplanations.current.get(postId) || null,
+    [isRemote]
+  );
+
+  return {
+    posts,
+    getAuthor,
+    explainPost,
+    loading,
+    loadingMore,
+    refreshing,
+    error,
+    hasMore,
+    loadMore,
+    refresh,
+  };
+}
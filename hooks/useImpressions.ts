@@ -0,0 +1,105 @@
+/**
+ * useImpressions Hook - Report what was on screen
+ *
+ * Views are queued and sent to POST /api/impressions in batches (every
+ * 10 seconds, or as soon as 50 are waiting), where they feed the authors'
+ * recent_impressions and visibility_score. The server de-duplicates
+ * repeat views, so the client only skips repeats within a batch.
+ *
+ * Reporting is best-effort: a failed batch is dropped rather than retried.
+ * In mock mode (no session, or a mock- token) nothing is sent.
+ *
+ * @usage
+ * import { useImpressions } from '@/hooks/useImpressions';
+ *
+ * function Feed() {
+ *   const { onViewableItemsChanged, viewabilityConfig } = useImpressions('feed');
+ *   return <FlatList onViewableItemsChanged={onViewableItemsChanged} viewabilityConfig={viewabilityConfig} ... />;
+ * }
+ *
+ * // Or report a single item
+ * const { trackImpression } = useImpressions('story');
+ * useEffect(() => trackImpression(story.id), [story.id]);
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { ViewToken } from 'react-native';
+import { useApp } from '@/context/AppContext';
+import { feedAPI, type ImpressionEvent, type ImpressionSurface } from '@/utils/feedAPI';
+
+const FLUSH_INTERVAL_MS = 10 * 1000;
+const MAX_BATCH_SIZE = 50;
+
+// A post counts once at least half of it has been on screen for a second
+const VIEWABILITY_CONFIG = {
+  itemVisiblePercentThreshold: 50,
+  minimumViewTime: 1000,
+};
+
+// Shared by every screen so one batch carries feed, story and reel views
+let queue: ImpressionEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function flush() {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (queue.length === 0) {
+    return;
+  }
+
+  const batch = queue;
+  queue = [];
+  feedAPI.recordImpressions(batch).catch(() => {
+    // Best-effort: losing a batch only slightly under-counts exposure
+  });
+}
+
+function enqueue(event: ImpressionEvent) {
+  if (queue.some(queued => queued.itemId === event.itemId)) {
+    return;
+  }
+
+  queue.push(event);
+  if (queue.length >= MAX_BATCH_SIZE) {
+    flush();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS);
+  }
+}
+
+export function useImpressions(surface: ImpressionSurface) {
+  const { auth } = useApp();
+  const isRemote = !!auth && !auth.accessToken.startsWith('mock-');
+
+  const trackImpression = useCallback(
+    (itemId: string) => {
+      if (isRemote) {
+        enqueue({ surface, itemId });
+      }
+    },
+    [isRemote, surface]
+  );
+
+  // FlatList requires the same onViewableItemsChanged for its whole life
+  const trackRef = useRef(trackImpression);
+  trackRef.current = trackImpression;
+
+  const onViewableItemsChanged = useRef(({ changed }: { changed: ViewToken[] }) => {
+    for (const token of changed) {
+      if (token.isViewable && token.key) {
+        trackRef.current(token.key);
+      }
+    }
+  }).current;
+
+  // Send what this screen saw when it goes away
+  useEffect(() => flush, []);
+
+  return {
+    trackImpression,
+    onViewableItemsChanged,
+    viewabilityConfig: VIEWABILITY_CONFIG,
+  };
+}
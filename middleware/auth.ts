@@ -0,0 +1,247 @@
+/**
+ * AUTHENTICATION & AUTHORIZATION MIDDLEWARE
+ *
+ * ✅ Verifies JWT signature, issuer and expiry
+ * ✅ Rejects refresh tokens used as access tokens
+ * ✅ Rejects tokens revoked by logout (jti denylist), session revocation or password reset
+ * ✅ Attaches AuthenticatedUser to req.user
+ * ✅ Role guards matching the client's AdminRoute / ModeratorRoute
+ * ✅ Enforces the admin-configured 2FA requirement on privileged roles
+ * ✅ Capability guards (reduced capability set for unverified emails)
+ *
+ * Usage:
+ * app.get('/api/admin/users', authMiddleware, requireRole('admin'), handler);
+ * app.get('/api/moderation/queue', authMiddleware, requireRole('moderator'), handler);
+ * app.post('/api/posts', authMiddleware, requireCapability('post:create'), handler);
+ */
+
+// @ts-ignore - express installed in backend only
+import type { Request, Response, NextFunction } from 'express';
+import { hasMinimumRole, type AuthenticatedUser, type JWTPayload, type UserRole } from '../utils/User';
+import { verifyJwt } from '../utils/jwt';
+import { isTokenIdRevoked, isUserTokenRevoked } from '../utils/tokenDenylist';
+import { findUserById } from '../utils/userStore';
+import { isSessionRevoked } from '../utils/refreshTokens';
+import { hasCapability, type Capability } from '../utils/capabilities';
+import { checkRoleAccess } from '../utils/twoFactor';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /** Set by authMiddleware after successful verification */
+      user?: AuthenticatedUser;
+      /** Raw verified claims of the access token */
+      tokenPayload?: JWTPayload;
+    }
+  }
+}
+
+// ============================================================
+// ROLE HIERARCHY
+// ============================================================
+
+// Defined with the role type so services can share it (see checkRoleAccess)
+export { hasMinimumRole };
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function sendUnauthorized(res: Response, code: string, message: string) {
+  return res.status(401).json({
+    success: false,
+    error: { code, message },
+  });
+}
+
+/**
+ * Extract the token from an "Authorization: Bearer <token>" header
+ */
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice(7).trim() || null;
+}
+
+/**
+ * Verify an access token and check it has not been revoked
+ *
+ * @param token - Encoded JWT
+ * @returns Verified claims, or an error code describing why it was rejected
+ */
+export async function verifyAccessToken(
+  token: string
+): Promise<{ payload: JWTPayload } | { error: 'INVALID_TOKEN' | 'INVALID_TOKEN_TYPE' | 'TOKEN_REVOKED' }> {
+  let payload: JWTPayload;
+  try {
+    payload = verifyJwt(token);
+  } catch {
+    return { error: 'INVALID_TOKEN' };
+  }
+
+  // Refresh tokens are signed with the same key - never accept them here
+  if (payload.type !== 'access') {
+    return { error: 'INVALID_TOKEN_TYPE' };
+  }
+
+  if (payload.jti && (await isTokenIdRevoked(payload.jti))) {
+    return { error: 'TOKEN_REVOKED' };
+  }
+
+  // Session was logged out or revoked from another device
+  if (payload.sid && (await isSessionRevoked(payload.sid))) {
+    return { error: 'TOKEN_REVOKED' };
+  }
+
+  // Issued before a password reset signed the user out everywhere
+  if (payload.iat && (await isUserTokenRevoked(payload.userId, payload.iat))) {
+    return { error: 'TOKEN_REVOKED' };
+  }
+
+  return { payload };
+}
+
+// ============================================================
+// MIDDLEWARE
+// ============================================================
+
+/**
+ * Require a valid access token
+ *
+ * Response 401 codes:
+ * - UNAUTHORIZED: no Bearer token
+ * - INVALID_TOKEN: bad signature, wrong issuer or expired
+ * - INVALID_TOKEN_TYPE: refresh token presented as access token
+ * - TOKEN_REVOKED: token was logged out
+ */
+export async function authMiddleware(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token) {
+    return sendUnauthorized(res, 'UNAUTHORIZED', 'No token provided');
+  }
+
+  try {
+    const result = await verifyAccessToken(token);
+
+    if ('error' in result) {
+      const messages = {
+        INVALID_TOKEN: 'Invalid or expired token',
+        INVALID_TOKEN_TYPE: 'Refresh tokens cannot be used for API access',
+        TOKEN_REVOKED: 'Token has been revoked',
+      };
+      return sendUnauthorized(res, result.error, messages[result.error]);
+    }
+
+    req.tokenPayload = result.payload;
+    req.user = {
+      userId: result.payload.userId,
+      email: result.payload.email,
+      role: result.payload.role,
+    };
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Require a minimum role. Must run after authMiddleware.
+ *
+ * - requireRole('moderator'): moderators and admins (matches ModeratorRoute)
+ * - requireRole('admin'): admins only (matches AdminRoute)
+ *
+ * If admins have made 2FA mandatory for the user's role, accounts that have
+ * not enrolled yet are turned away until they do.
+ *
+ * Response 403:
+ * {
+ *   "success": false,
+ *   "error": { "code": "FORBIDDEN" | "TWO_FACTOR_REQUIRED", "message": "..." }
+ * }
+ */
+export function requireRole(minimumRole: Exclude<UserRole, 'user'>) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendUnauthorized(res, 'UNAUTHORIZED', 'Authentication required');
+    }
+
+    try {
+      const access = await checkRoleAccess(req.user, minimumRole);
+
+      if (access === 'FORBIDDEN') {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Insufficient permissions',
+          },
+        });
+      }
+
+      if (access === 'TWO_FACTOR_REQUIRED') {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'TWO_FACTOR_REQUIRED',
+            message: `Set up two-factor authentication to use ${req.user.role} features`,
+          },
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Shorthand guards
+ */
+export const requireModerator = requireRole('moderator');
+export const requireAdmin = requireRole('admin');
+
+/**
+ * Require an account capability. Must run after authMiddleware.
+ *
+ * Looks up the current account so that verifying an email takes effect
+ * immediately, without waiting for a new access token.
+ *
+ * Response 403:
+ * {
+ *   "success": false,
+ *   "error": { "code": "EMAIL_NOT_VERIFIED", "message": "Verify your email address to do this" }
+ * }
+ */
+export function requireCapability(capability: Capability) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendUnauthorized(res, 'UNAUTHORIZED', 'Authentication required');
+    }
+
+    try {
+      const user = await findUserById(req.user.userId);
+      if (!user) {
+        return sendUnauthorized(res, 'UNAUTHORIZED', 'Account no longer exists');
+      }
+
+      if (!hasCapability(user, capability)) {
+        const unverified = !user.verifiedEmail && user.isActive && !user.isSuspended;
+        return res.status(403).json({
+          success: false,
+          error: unverified
+            ? { code: 'EMAIL_NOT_VERIFIED', message: 'Verify your email address to do this' }
+            : { code: 'FORBIDDEN', message: 'Insufficient permissions' },
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -159,7 +159,7 @@ function shouldSkip(req: Request): boolean {
  */
 function logRateLimitHit(req: Request, endpoint: string, limit: number, window: string) {
   const ip = getClientIp(req);
-  const userId = (req as any).user?.id || 'anonymous';
+  const userId = (req as any).user?.userId || 'anonymous';
 
   // Log to console in development
   if (!IS_PRODUCTION) {
@@ -197,6 +197,9 @@ function logRateLimitHit(req: Request, endpoint: string, limit: number, window:
  * 
  * If user tries 5 wrong passwords quickly,
  * they must wait 60 seconds before trying again.
+ * 
+ * This only limits a single client. Guessing one account's password
+ * from many IPs is handled per account by utils/accountLockout.ts.
  */
 export const loginLimiter = rateLimit({
   store: getStore(),
@@ -301,6 +304,83 @@ export const verifyTokenLimiter = rateLimit({
   },
 });
 
+/**
+ * Refresh Token Rate Limiter
+ * 
+ * Limit: 30 requests per minute per IP
+ * Purpose: Slow down replay of stolen refresh cookies
+ * 
+ * Legitimate clients refresh once per access token lifetime (~15 min).
+ * Several tabs/devices behind one IP stay well under the limit.
+ */
+export const refreshTokenLimiter = rateLimit({
+  store: getStore(),
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 30,
+  message: 'Too many token refresh attempts',
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: shouldSkip,
+  keyGenerator: (req: any) => `refresh:${getClientIp(req)}`,
+  handler: (req: any, res: any) => {
+    logRateLimitHit(req, '/api/auth/refresh', 30, '1 minute');
+    handleRateLimitExceeded(req, res, '/api/auth/refresh');
+  },
+});
+
+/**
+ * Two-Factor Code Rate Limiter
+ * 
+ * Limit: 5 attempts per minute per IP
+ * Purpose: Prevent brute forcing 6-digit authentication codes
+ * 
+ * Each login challenge is also discarded after 5 wrong codes
+ * (see utils/twoFactor.ts), so an attacker must re-enter the password.
+ */
+export const twoFactorLimiter = rateLimit({
+  store: getStore(),
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 5,
+  message: 'Too many authentication code attempts',
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: shouldSkip,
+  keyGenerator: (req: any) => `2fa:${getClientIp(req)}`,
+  handler: (req: any, res: any) => {
+    logRateLimitHit(req, '/api/auth/2fa', 5, '1 minute');
+    handleRateLimitExceeded(req, res, '/api/auth/2fa');
+  },
+});
+
+/**
+ * Verification Email Rate Limiter
+ * 
+ * Limit: 3 emails per hour per user
+ * Purpose: Prevent using the resend endpoint to spam an inbox
+ * 
+ * Legitimate users: resend once if the first email got lost.
+ */
+export const verificationEmailLimiter = rateLimit({
+  store: getStore(),
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 3,
+  message: 'Too many verification email requests',
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: shouldSkip,
+  keyGenerator: (req: any) => {
+    const userId = (req as any).user?.userId;
+    if (userId) {
+      return `verify-email:${userId}`;
+    }
+    return getClientIp(req);
+  },
+  handler: (req: any, res: any) => {
+    logRateLimitHit(req, '/api/auth/verify-email/resend', 3, '1 hour');
+    handleRateLimitExceeded(req, res, '/api/auth/verify-email/resend');
+  },
+});
+
 // ============================================================
 // USER CONTENT TIER LIMITS
 // ============================================================
@@ -324,7 +404,7 @@ export const createPostLimiter = rateLimit({
   legacyHeaders: false,
   skip: shouldSkip,
   keyGenerator: (req: any) => {
-    const userId = (req as any).user?.id;
+    const userId = (req as any).user?.userId;
     if (userId) {
       return `post:${userId}`; // Per user
     }
@@ -336,6 +416,67 @@ export const createPostLimiter = rateLimit({
   },
 });
 
+/**
+ * Media Upload Rate Limiter
+ * 
+ * Limit: 60 uploads per 10 minutes per authenticated user
+ * Purpose: Cap storage use per account
+ * 
+ * Legitimate: A post carries at most 5 items, so a dozen posts fit.
+ * Abuse: Bot filling storage with uploads it never posts, blocked.
+ */
+export const mediaUploadLimiter = rateLimit({
+  store: getStore(),
+  windowMs: 10 * 60 * 1000, // 10 minutes
+  max: 60,
+  message: 'Too many uploads',
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: shouldSkip,
+  keyGenerator: (req: any) => {
+    const userId = (req as any).user?.userId;
+    if (userId) {
+      return `media:${userId}`;
+    }
+    return getClientIp(req);
+  },
+  handler: (req: any, res: any) => {
+    logRateLimitHit(req, '/api/media/uploads', 60, '10 minutes');
+    handleRateLimitExceeded(req, res, '/api/media/uploads');
+  },
+});
+
+/**
+ * Media Chunk Rate Limiter
+ * 
+ * Limit: 1000 chunks per 10 minutes per authenticated user
+ * Purpose: Stop hammering the chunk endpoint without capping file size
+ * 
+ * Legitimate: 60 uploads of a few chunks each, or a handful of long
+ *             videos with retries, fit easily.
+ * Abuse: Tiny chunks sent in a tight loop, blocked.
+ */
+export const mediaChunkLimiter = rateLimit({
+  store: getStore(),
+  windowMs: 10 * 60 * 1000, // 10 minutes
+  max: 1000,
+  message: 'Too many upload chunks',
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: shouldSkip,
+  keyGenerator: (req: any) => {
+    const userId = (req as any).user?.userId;
+    if (userId) {
+      return `media-chunk:${userId}`;
+    }
+    return getClientIp(req);
+  },
+  handler: (req: any, res: any) => {
+    logRateLimitHit(req, '/api/media/uploads/:uploadId', 1000, '10 minutes');
+    handleRateLimitExceeded(req, res, '/api/media/uploads/:uploadId');
+  },
+});
+
 /**
  * Create Comment Rate Limiter
  * 
@@ -354,7 +495,7 @@ export const createCommentLimiter = rateLimit({
   legacyHeaders: false,
   skip: shouldSkip,
   keyGenerator: (req: any) => {
-    const userId = (req as any).user?.id;
+    const userId = (req as any).user?.userId;
     if (userId) {
       return `comment:${userId}`;
     }
@@ -384,7 +525,7 @@ export const likeLimiter = rateLimit({
   legacyHeaders: false,
   skip: shouldSkip,
   keyGenerator: (req: any) => {
-    const userId = (req as any).user?.id;
+    const userId = (req as any).user?.userId;
     if (userId) {
       return `like:${userId}`;
     }
@@ -396,6 +537,66 @@ export const likeLimiter = rateLimit({
   },
 });
 
+/**
+ * Feed Rate Limiter
+ * 
+ * Limit: 60 feed pages per minute per authenticated user
+ * Purpose: Each fresh feed re-ranks candidates, so bound scraping and refresh loops
+ * 
+ * Infinite scroll: a page every few seconds, no problem.
+ * Scraper: paging through hundreds of feeds per minute, blocked.
+ */
+export const feedLimiter = rateLimit({
+  store: getStore(),
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 60,
+  message: 'Too many feed requests',
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: shouldSkip,
+  keyGenerator: (req: any) => {
+    const userId = (req as any).user?.userId;
+    if (userId) {
+      return `feed:${userId}`;
+    }
+    return getClientIp(req);
+  },
+  handler: (req: any, res: any) => {
+    logRateLimitHit(req, '/api/feed', 60, '1 minute');
+    handleRateLimitExceeded(req, res, '/api/feed');
+  },
+});
+
+/**
+ * Impressions Rate Limiter
+ * 
+ * Limit: 30 batches per minute per authenticated user
+ * Purpose: Clients batch views, so a high batch rate means a scripted client
+ * 
+ * Scrolling: a batch every 10 seconds or so, no problem.
+ * View farming: hundreds of batches per minute, blocked.
+ */
+export const impressionsLimiter = rateLimit({
+  store: getStore(),
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 30,
+  message: 'Too many impression reports',
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: shouldSkip,
+  keyGenerator: (req: any) => {
+    const userId = (req as any).user?.userId;
+    if (userId) {
+      return `impressions:${userId}`;
+    }
+    return getClientIp(req);
+  },
+  handler: (req: any, res: any) => {
+    logRateLimitHit(req, '/api/impressions', 30, '1 minute');
+    handleRateLimitExceeded(req, res, '/api/impressions');
+  },
+});
+
 /**
  * Update Profile Rate Limiter
  * 
@@ -414,7 +615,7 @@ export const updateProfileLimiter = rateLimit({
   legacyHeaders: false,
   skip: shouldSkip,
   keyGenerator: (req: any) => {
-    const userId = (req as any).user?.id;
+    const userId = (req as any).user?.userId;
     if (userId) {
       return `profile:${userId}`;
     }
@@ -467,11 +668,16 @@ export const rateLimiters = {
   register: registerLimiter,
   passwordReset: passwordResetLimiter,
   verifyToken: verifyTokenLimiter,
+  refreshToken: refreshTokenLimiter,
+  verificationEmail: verificationEmailLimiter,
+  twoFactor: twoFactorLimiter,
 
   // Content endpoints
   createPost: createPostLimiter,
   createComment: createCommentLimiter,
   like: likeLimiter,
+  feed: feedLimiter,
+  impressions: impressionsLimiter,
   updateProfile: updateProfileLimiter,
 
   // Global fallback
@@ -15,9 +15,10 @@
  */
 
 // @ts-ignore - express-validator installed in backend only
-import { body, param, validationResult, sanitizeHtml } from 'express-validator';
+import { body, param, query, validationResult, sanitizeHtml } from 'express-validator';
 // @ts-ignore
 import type { Request, Response, NextFunction } from 'express';
+import { isUploadedMediaUrl, UPLOAD_CONTENT_TYPES } from '../utils/mediaUploads';
 
 // ============================================================
 // PASSWORD VALIDATION RULES
@@ -144,6 +145,27 @@ export const passwordResetValidation = [
     .withMessage('Email too long (max 255 characters)'),
 ];
 
+/**
+ * PASSWORD RESET CONFIRM VALIDATION
+ * 
+ * - Token: Opaque token from the reset email, bounded length
+ * - NewPassword: Strong password (12+ chars, mixed case, numbers, special)
+ */
+export const passwordResetConfirmValidation = [
+  body('token')
+    .isString()
+    .withMessage('Token is required')
+    .isLength({ min: 10, max: 256 })
+    .withMessage('Invalid token format'),
+
+  body('newPassword')
+    .isString()
+    .withMessage('New password is required')
+    .notEmpty()
+    .withMessage('New password is required')
+    .custom(strongPasswordRule),
+];
+
 /**
  * TOKEN VERIFICATION VALIDATION
  * 
@@ -157,11 +179,92 @@ export const verifyTokenValidation = [
     .withMessage('Invalid token format'),
 ];
 
+/**
+ * EMAIL VERIFICATION VALIDATION
+ * 
+ * - Token: Non-empty, JWT format (rough check), bounded length
+ */
+export const verifyEmailValidation = [
+  body('token')
+    .isString()
+    .withMessage('Token is required')
+    .isLength({ min: 10, max: 2048 })
+    .withMessage('Invalid token format'),
+];
+
+/**
+ * TWO-FACTOR CODE VALIDATION
+ * 
+ * - Code: 6-digit TOTP code or recovery code (xxxxx-xxxxx)
+ */
+export const twoFactorCodeValidation = [
+  body('code')
+    .isString()
+    .withMessage('Authentication code is required')
+    .trim()
+    .isLength({ min: 6, max: 20 })
+    .withMessage('Invalid authentication code'),
+];
+
+/**
+ * TWO-FACTOR CHALLENGE VALIDATION
+ * 
+ * - ChallengeToken: Token from the login response, bounded length
+ * - Code: 6-digit TOTP code or recovery code
+ */
+export const twoFactorChallengeValidation = [
+  body('challengeToken')
+    .isString()
+    .withMessage('Challenge token is required')
+    .isLength({ min: 10, max: 2048 })
+    .withMessage('Invalid challenge token'),
+
+  ...twoFactorCodeValidation,
+];
+
+/**
+ * TWO-FACTOR POLICY VALIDATION
+ * 
+ * - RequiredRoles: Array containing only 'admin' and/or 'moderator'
+ */
+export const twoFactorPolicyValidation = [
+  body('requiredRoles')
+    .isArray({ max: 2 })
+    .withMessage('requiredRoles must be an array'),
+
+  body('requiredRoles.*')
+    .isIn(['admin', 'moderator'])
+    .withMessage('Only admin and moderator roles can require two-factor authentication'),
+];
+
+/**
+ * CREATE MEDIA UPLOAD VALIDATION
+ * 
+ * - ContentType: One of the accepted photo and video types (the file's
+ *   real type is sniffed from its bytes as it arrives)
+ * - Size: Total bytes, at least 1 (caps are checked per type by the upload service)
+ */
+export const createMediaUploadValidation = [
+  body('contentType')
+    .isIn(UPLOAD_CONTENT_TYPES)
+    .withMessage(`Content type must be one of: ${UPLOAD_CONTENT_TYPES.join(', ')}`),
+
+  body('size')
+    .isInt({ min: 1 })
+    .withMessage('Size must be a positive number of bytes')
+    .toInt(),
+];
+
 /**
  * CREATE POST VALIDATION
  * 
  * - Caption: 0-2000 chars, sanitized (XSS prevention)
- * - MediaUrls: Array of URLs, max 5 items
+ * - Type: text | image | video (optional)
+ * - Audience: public | followers | close_friends | only_me (optional, default public)
+ * - Media: Array of attachments, max 5 items: an uploaded media ID, or an
+ *   HTTPS URL and image | video; optional pixel dimensions, blurhash and
+ *   alt text (0-1000 chars, sanitized)
+ * - MediaUrls: Array of URLs, max 5 items (bare alternative to media, not both)
  * - Mentions: Array of user IDs, max 20 mentions
  */
 export const createPostValidation = [
@@ -173,6 +276,68 @@ export const createPostValidation = [
     .escape()
     .withMessage('Caption contains invalid characters'),
 
+  body('type')
+    .optional()
+    .isIn(['text', 'image', 'video'])
+    .withMessage('Post type must be text, image or video'),
+
+  body('audience')
+    .optional()
+    .isIn(['public', 'followers', 'close_friends', 'only_me'])
+    .withMessage('Audience must be public, followers, close_friends or only_me'),
+
+  body('media')
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage('Maximum 5 media attachments allowed')
+    .custom((media: any, { req }: any) => {
+      if (req.body.mediaUrls !== undefined) {
+        throw new Error('Send either media or mediaUrls, not both');
+      }
+      for (const item of media) {
+        if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+          throw new Error('Each media attachment must be an object');
+        }
+        if (item.mediaId !== undefined) {
+          // Uploads carry their own URL and type
+          if (item.url !== undefined || item.type !== undefined) {
+            throw new Error('Send either mediaId or url and type, not both');
+          }
+          if (typeof item.mediaId !== 'string' || !/^media_[a-f0-9]{24}$/.test(item.mediaId)) {
+            throw new Error(`Invalid media ID format: ${item.mediaId}`);
+          }
+          continue;
+        }
+        if (typeof item.url !== 'string' || !isValidUrl(item.url)) {
+          throw new Error(`Invalid URL: ${item.url}`);
+        }
+        if (item.type !== 'image' && item.type !== 'video') {
+          throw new Error('Media type must be image or video');
+        }
+      }
+      return true;
+    }),
+
+  body(['media.*.width', 'media.*.height'])
+    .optional()
+    .isInt({ min: 1, max: 20000 })
+    .withMessage('Media dimensions must be whole pixels between 1 and 20000')
+    .toInt(),
+
+  body('media.*.blurhash')
+    .optional()
+    .isString()
+    .matches(/^[0-9A-Za-z#$%*+,\-.:;=?@[\]^_{|}~]{6,100}$/)
+    .withMessage('Invalid blurhash'),
+
+  body('media.*.alt')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Alt text must be less than 1000 characters')
+    .escape(),
+
   body('mediaUrls')
     .optional()
     .isArray({ max: 5 })
@@ -272,12 +437,250 @@ export const userIdParamValidation = [
     .withMessage('Invalid user ID format'),
 ];
 
+export const sessionIdParamValidation = [
+  param('sessionId')
+    .matches(/^rtf_[a-f0-9]{32}$/)
+    .withMessage('Invalid session ID format'),
+];
+
+export const uploadIdParamValidation = [
+  param('uploadId')
+    .matches(/^[a-f0-9]{32}$/)
+    .withMessage('Invalid upload ID format'),
+];
+
 export const postIdParamValidation = [
   param('postId')
     .matches(/^[a-zA-Z0-9_-]+$/)
     .withMessage('Invalid post ID format'),
 ];
 
+export const rankingProfileNameParamValidation = [
+  param('name')
+    .matches(/^[a-z0-9][a-z0-9-]{1,39}$/)
+    .withMessage('Invalid ranking profile name'),
+];
+
+/**
+ * POST EDIT VALIDATION
+ *
+ * - caption: Required (may be empty if the post has media), max 2000 chars
+ */
+export const updatePostValidation = [
+  body('caption')
+    .isString()
+    .withMessage('Caption is required')
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Caption must be less than 2000 characters')
+    .escape(),
+];
+
+/**
+ * - limit: Optional, 1-100
+ */
+export const deletedPostsQueryValidation = [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+];
+
+/**
+ * PROFILE POSTS QUERY VALIDATION
+ *
+ * - before: Optional ISO 8601 time, createdAt of the last post already shown
+ * - limit: Optional page size, 1-100
+ */
+export const profilePostsQueryValidation = [
+  query('before')
+    .optional()
+    .isISO8601()
+    .withMessage('Before must be an ISO 8601 date'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+];
+
+/**
+ * SEARCH QUERY VALIDATION
+ *
+ * - q: 1-100 chars, escaped like the captions and names it is matched against
+ * - limit: Optional, 1-100 per result type
+ */
+export const searchQueryValidation = [
+  query('q')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Search query must be 1-100 characters')
+    .escape(),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+];
+
+/**
+ * FEED QUERY VALIDATION
+ *
+ * - cursor: Optional opaque cursor from the previous page (base64url)
+ * - limit: Optional page size, 1-100
+ */
+export const feedQueryValidation = [
+  query('cursor')
+    .optional()
+    .isLength({ max: 256 })
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage('Invalid feed cursor'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+];
+
+/**
+ * IMPRESSIONS VALIDATION
+ *
+ * - events: 1-50 views
+ * - events.*.surface: feed | story | reel
+ * - events.*.itemId: Post ID (feed, reel) or story ID
+ */
+export const impressionsValidation = [
+  body('events')
+    .isArray({ min: 1, max: 50 })
+    .withMessage('Events must be an array of 1-50 items'),
+
+  body('events.*.surface')
+    .isIn(['feed', 'story', 'reel'])
+    .withMessage('Surface must be feed, story or reel'),
+
+  body('events.*.itemId')
+    .isString()
+    .matches(/^[a-zA-Z0-9_-]{1,64}$/)
+    .withMessage('Invalid item ID format'),
+];
+
+/**
+ * RANKING PROFILE VALIDATION
+ *
+ * Shape checks only; parameter ranges and the weight sum are checked by
+ * validateRankingParameters (utils/feedAlgorithm.ts).
+ *
+ * - name: 2-40 chars, lowercase letters, digits and dashes (create only)
+ * - description: Optional, max 200 chars
+ * - parameters: Object (optional on create: copies the active profile)
+ * - expectedVersion: Optional version the edit is based on (update only)
+ */
+export const createRankingProfileValidation = [
+  body('name')
+    .matches(/^[a-z0-9][a-z0-9-]{1,39}$/)
+    .withMessage('Name must be 2-40 lowercase letters, digits or dashes'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description must be at most 200 characters'),
+
+  body('parameters')
+    .optional()
+    .isObject()
+    .withMessage('Parameters must be an object'),
+];
+
+export const updateRankingProfileValidation = [
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description must be at most 200 characters'),
+
+  body('parameters')
+    .isObject()
+    .withMessage('Parameters must be an object'),
+
+  body('expectedVersion')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Expected version must be a positive integer')
+    .toInt(),
+];
+
+export const rankingProfileAuditQueryValidation = [
+  query('profile')
+    .optional()
+    .matches(/^[a-z0-9][a-z0-9-]{1,39}$/)
+    .withMessage('Invalid ranking profile name'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+];
+
+/**
+ * EXPERIMENT VALIDATION
+ *
+ * Shape checks only; unique arm names and that each arm's ranking profile
+ * exists are checked by createExperiment (utils/experiments.ts).
+ *
+ * - name: 2-40 chars, lowercase letters, digits and dashes
+ * - description: Optional, max 200 chars
+ * - trafficPercent: 1-100, share of users enrolled
+ * - arms: 2-5 arms of { name, profileName, weight 1-100 }
+ */
+export const experimentNameParamValidation = [
+  param('name')
+    .matches(/^[a-z0-9][a-z0-9-]{1,39}$/)
+    .withMessage('Invalid experiment name'),
+];
+
+export const createExperimentValidation = [
+  body('name')
+    .matches(/^[a-z0-9][a-z0-9-]{1,39}$/)
+    .withMessage('Name must be 2-40 lowercase letters, digits or dashes'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description must be at most 200 characters'),
+
+  body('trafficPercent')
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Traffic percent must be between 1 and 100')
+    .toInt(),
+
+  body('arms')
+    .isArray({ min: 2, max: 5 })
+    .withMessage('Arms must be an array of 2-5 items'),
+
+  body('arms.*.name')
+    .isString()
+    .matches(/^[a-z0-9][a-z0-9-]{0,39}$/)
+    .withMessage('Arm name must be 1-40 lowercase letters, digits or dashes'),
+
+  body('arms.*.profileName')
+    .isString()
+    .matches(/^[a-z0-9][a-z0-9-]{1,39}$/)
+    .withMessage('Invalid ranking profile name'),
+
+  body('arms.*.weight')
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Arm weight must be between 1 and 100')
+    .toInt(),
+];
+
 // ============================================================
 // HELPER FUNCTIONS
 // ============================================================
@@ -290,8 +693,8 @@ function isValidUrl(url: string): boolean {
   try {
     // Must be valid URL
     new URL(url);
-    // Must be HTTPS for security
-    return url.startsWith('https://');
+    // Must be HTTPS for security, unless uploaded to this server (HTTP in development)
+    return url.startsWith('https://') || isUploadedMediaUrl(url);
   } catch {
     return false;
   }
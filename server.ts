@@ -14,14 +14,16 @@
  * - PORT (default: 3000)
  * - NODE_ENV (development | production)
  * - DATABASE_URL (for Supabase/PostgreSQL)
- * - JWT_SECRET (for token signing)
+ * - JWT_SIGNING_KEYS_FILE or JWT_SIGNING_KEYS (ES256 token signing keys)
  * - REDIS_URL (optional, for production rate limiting)
+ * - SEED_DATA (optional, seed number: load sample data into the memory driver)
  */
 
 // @ts-ignore - express installed in backend only
 import express, { Request, Response, NextFunction } from 'express';
 // @ts-ignore - cors installed in backend only
 import cors from 'cors';
+import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 
 // Import security middleware
@@ -35,27 +37,157 @@ import {
   registerLimiter,
   passwordResetLimiter,
   verifyTokenLimiter,
+  refreshTokenLimiter,
+  verificationEmailLimiter,
+  twoFactorLimiter,
   createPostLimiter,
+  mediaUploadLimiter,
+  mediaChunkLimiter,
   createCommentLimiter,
   likeLimiter,
   updateProfileLimiter,
+  feedLimiter,
+  impressionsLimiter,
   globalLimiter,
 } from './middleware/rateLimiters';
 
+// Import authentication middleware
+import {
+  authMiddleware,
+  requireAdmin,
+  requireModerator,
+  requireCapability,
+  verifyAccessToken,
+  getBearerToken,
+} from './middleware/auth';
+
 // Import validation middleware
 import {
   loginValidation,
   registerValidation,
   passwordResetValidation,
+  passwordResetConfirmValidation,
   verifyTokenValidation,
+  verifyEmailValidation,
+  twoFactorCodeValidation,
+  twoFactorChallengeValidation,
+  twoFactorPolicyValidation,
+  createMediaUploadValidation,
   createPostValidation,
+  updatePostValidation,
+  deletedPostsQueryValidation,
   createCommentValidation,
   updateProfileValidation,
   userIdParamValidation,
+  sessionIdParamValidation,
+  uploadIdParamValidation,
   postIdParamValidation,
+  profilePostsQueryValidation,
+  searchQueryValidation,
+  feedQueryValidation,
+  impressionsValidation,
+  rankingProfileNameParamValidation,
+  createRankingProfileValidation,
+  updateRankingProfileValidation,
+  rankingProfileAuditQueryValidation,
+  experimentNameParamValidation,
+  createExperimentValidation,
   handleValidationErrors,
 } from './middleware/validation';
 
+// Import auth utilities
+import { hashPassword, verifyPassword, verifyDummyPassword, shouldRehash, validatePasswordStrength } from './utils/passwordHash';
+import { signAccessToken, verifyJwt } from './utils/jwt';
+import { findUserByEmail, findUserById, createUser, updateUser } from './utils/userStore';
+import {
+  issueRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  listUserSessions,
+  revokeUserSession,
+  revokeOtherUserSessions,
+  RefreshTokenError,
+  type SessionContext,
+} from './utils/refreshTokens';
+import { revokeTokenId } from './utils/tokenDenylist';
+import {
+  sendVerificationEmail,
+  confirmEmailVerification,
+  EmailVerificationError,
+} from './utils/emailVerification';
+import {
+  sendPasswordResetEmail,
+  resetPasswordWithToken,
+  PasswordResetError,
+} from './utils/passwordReset';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  createTwoFactorChallenge,
+  completeTwoFactorChallenge,
+  getTwoFactorRequiredRoles,
+  setTwoFactorRequiredRoles,
+  isTwoFactorRequiredForRole,
+  TwoFactorError,
+} from './utils/twoFactor';
+import {
+  checkLoginAllowed,
+  recordFailedLogin,
+  clearFailedLogins,
+  getLockoutStatus,
+  unlockAccount,
+  type LoginThrottleStatus,
+} from './utils/accountLockout';
+import { getPublicJwks, describeSigningKeys } from './utils/signingKeys';
+import { getRepositories, resolvePageSize, type PostAudience, type PostMedia, type PostType } from './database/repositories';
+import { closePool } from './database/pool';
+import { parseSeedNumber, seedRepositories } from './database/seeder';
+import { generateSeedData } from './utils/seedData';
+import { getFeedPage, explainFeedPost, toFeedPost, toFeedUser, FeedError } from './utils/homeFeed';
+import { recordImpressions, startVisibilityJob } from './utils/impressions';
+import {
+  listRankingProfiles,
+  createRankingProfile,
+  updateRankingProfile,
+  activateRankingProfile,
+  listRankingProfileAudit,
+  RankingProfileError,
+} from './utils/rankingProfiles';
+import {
+  createUploadSession,
+  getUploadStatus,
+  appendChunk,
+  completeUpload,
+  abortUpload,
+  resolvePostMedia,
+  startUploadCleanupJob,
+  MediaUploadError,
+  CHUNK_BYTES,
+} from './utils/mediaUploads';
+import { getMediaStorage, LocalMediaStorage } from './utils/mediaStorage';
+import { editPost, deletePost, restorePost, listPostEdits, EDIT_WINDOW_MINUTES, PostEditError } from './utils/postEditing';
+import {
+  findVisiblePost,
+  listProfilePosts,
+  searchContent,
+  listCloseFriends,
+  addCloseFriend,
+  removeCloseFriend,
+  PostAudienceError,
+} from './utils/postAudience';
+import {
+  listExperiments,
+  createExperiment,
+  startExperiment,
+  stopExperiment,
+  getExperimentReadout,
+  recordExperimentActivity,
+  ExperimentError,
+} from './utils/experiments';
+import { userToResponse, type User } from './utils/User';
+
 // Load environment variables
 dotenv.config();
 
@@ -67,6 +199,9 @@ const app = express();
 const PORT = process.env.PORT || 3000;
 const NODE_ENV = process.env.NODE_ENV || 'development';
 
+// Load signing keys up front so a bad key configuration fails at startup, not on first login
+const SIGNING_KEYS = describeSigningKeys();
+
 // ============================================================
 // SECURITY MIDDLEWARE (Applied First)
 // ============================================================
@@ -97,8 +232,8 @@ app.use(express.json({
 }));
 app.use(express.urlencoded({ limit: '10mb', extended: true }));
 
-// Secure cookies in production (if using cookies elsewhere)
-// Example: res.cookie('token', value, { httpOnly: true, secure: NODE_ENV === 'production', sameSite: 'strict' });
+// Cookie parsing (refresh tokens are sent as httpOnly cookies)
+app.use(cookieParser());
 
 // CORS setup
 app.use(
@@ -106,7 +241,7 @@ app.use(
     origin: process.env.CORS_ORIGIN || 'http://localhost:8081',
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Device-Name'],
   })
 );
 
@@ -142,10 +277,202 @@ app.get('/healthz', (req: Request, res: Response) => {
   res.status(200).json({ ok: true });
 });
 
+// ============================================================
+// KEY DISCOVERY
+// ============================================================
+
+/**
+ * GET /.well-known/jwks.json
+ * Public keys for verifying Vairo tokens (not rate limited)
+ *
+ * Other services verify tokens by matching the token's `kid` header to a
+ * key here. Includes keys that are about to be activated and retired keys
+ * that still verify live tokens. Raw JWK Set (no success envelope), as
+ * JWKS clients expect.
+ *
+ * Response (200):
+ * {
+ *   keys: [{ kty: 'EC', crv: 'P-256', x, y, kid, alg: 'ES256', use: 'sig' }]
+ * }
+ */
+app.get('/.well-known/jwks.json', (req: Request, res: Response) => {
+  try {
+    res.set('Cache-Control', 'public, max-age=300');
+    res.status(200).json(getPublicJwks());
+  } catch (error) {
+    console.error('JWKS error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'JWKS_ERROR',
+        message: 'Failed to load signing keys',
+      },
+    });
+  }
+});
+
 // ============================================================
 // AUTHENTICATION ROUTES
 // ============================================================
-// Protected with rate limiting: 5 login / 3 register / 5 reset / 10 verify per window
+// Protected with rate limiting: 5 login / 3 register / 5 reset / 10 verify / 30 refresh per window
+
+/**
+ * Refresh token cookie
+ * - httpOnly: not readable from JavaScript (XSS cannot steal it)
+ * - secure: HTTPS only in production
+ * - sameSite strict + path scoped to auth routes (not sent with other API calls)
+ */
+const REFRESH_TOKEN_COOKIE = 'refreshToken';
+const REFRESH_TOKEN_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/api/auth',
+};
+
+function setRefreshTokenCookie(res: Response, token: string, expiresIn: number) {
+  res.cookie(REFRESH_TOKEN_COOKIE, token, {
+    ...REFRESH_TOKEN_COOKIE_OPTIONS,
+    maxAge: expiresIn * 1000,
+  });
+}
+
+function clearRefreshTokenCookie(res: Response) {
+  res.clearCookie(REFRESH_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE_OPTIONS);
+}
+
+/**
+ * Device details recorded on the session (see utils/refreshTokens.ts)
+ * Clients may name themselves with X-Device-Name; otherwise the
+ * name is derived from the user agent.
+ */
+function getSessionContext(req: Request): SessionContext {
+  const deviceName = req.get('x-device-name')?.trim().slice(0, 100);
+  return {
+    deviceName: deviceName || undefined,
+    userAgent: req.get('user-agent')?.slice(0, 512),
+    ip: req.ip,
+  };
+}
+
+/**
+ * Issue access + refresh tokens for a fully authenticated user
+ * and send the login response (shared by password login and 2FA verify)
+ */
+async function sendLoginSuccess(req: Request, res: Response, user: User) {
+  const updatedUser = (await updateUser(user.id, { lastLoginAt: new Date() })) || user;
+
+  const refreshToken = await issueRefreshToken(updatedUser, getSessionContext(req));
+  const { token: accessToken, expiresIn } = signAccessToken(updatedUser, refreshToken.familyId);
+  setRefreshTokenCookie(res, refreshToken.token, refreshToken.expiresIn);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      userId: updatedUser.id,
+      email: updatedUser.email,
+      role: updatedUser.role,
+      accessToken,
+      expiresIn,
+      user: userToResponse(updatedUser),
+      // Role requires 2FA but the account has not enrolled yet
+      twoFactorSetupRequired: !updatedUser.twoFactorEnabled && (await isTwoFactorRequiredForRole(updatedUser.role)),
+    },
+  });
+}
+
+/**
+ * Reject a login blocked by per-account lockout (see utils/accountLockout.ts)
+ * - 423 ACCOUNT_LOCKED: too many failures, temporary lock
+ * - 429 LOGIN_THROTTLED: back-off between attempts
+ */
+function sendLoginThrottled(res: Response, status: LoginThrottleStatus) {
+  const locked = status.reason === 'locked';
+  res.setHeader('Retry-After', String(status.retryAfterSeconds));
+  return res.status(locked ? 423 : 429).json({
+    success: false,
+    error: {
+      code: locked ? 'ACCOUNT_LOCKED' : 'LOGIN_THROTTLED',
+      message: locked
+        ? 'Too many failed login attempts. This account is temporarily locked.'
+        : 'Too many failed login attempts. Please wait before trying again.',
+      retryAfter: status.retryAfterSeconds,
+    },
+  });
+}
+
+function sendTwoFactorError(res: Response, error: TwoFactorError) {
+  return res.status(error.status).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+    },
+  });
+}
+
+/**
+ * Reject a ranking profile change (see utils/rankingProfiles.ts); invalid
+ * parameters carry one message per problem in `details`
+ */
+function sendRankingProfileError(res: Response, error: RankingProfileError) {
+  return res.status(error.status).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.details && { details: error.details }),
+    },
+  });
+}
+
+/**
+ * Reject an experiment change (see utils/experiments.ts); invalid
+ * experiments carry one message per problem in `details`
+ */
+function sendExperimentError(res: Response, error: ExperimentError) {
+  return res.status(error.status).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.details && { details: error.details }),
+    },
+  });
+}
+
+/**
+ * Reject a post edit, deletion or restore (see utils/postEditing.ts)
+ */
+function sendPostEditError(res: Response, error: PostEditError) {
+  return res.status(error.status).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+    },
+  });
+}
+
+function sendPostAudienceError(res: Response, error: PostAudienceError) {
+  return res.status(error.status).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+    },
+  });
+}
+
+function sendMediaUploadError(res: Response, error: MediaUploadError) {
+  return res.status(error.status).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+    },
+  });
+}
 
 /**
  * POST /api/auth/login
@@ -161,12 +488,40 @@ app.get('/healthz', (req: Request, res: Response) => {
  * {
  *   "success": true,
  *   "data": {
- *     "user": { "id": "...", "email": "...", "role": "user" },
- *     "token": "eyJhbGc...",
- *     "refreshToken": "ref_..."
+ *     "userId": "user_...",
+ *     "email": "user@example.com",
+ *     "role": "user",
+ *     "accessToken": "eyJhbGc...",
+ *     "expiresIn": 900,
+ *     "user": { "id": "...", "email": "...", "role": "user", ... },
+ *     "twoFactorSetupRequired": false
+ *   }
+ * }
+ * Set-Cookie: refreshToken=...; HttpOnly; SameSite=Strict; Path=/api/auth
+ * 
+ * Response 423 / 429 (per-account lockout, independent of IP):
+ * {
+ *   "success": false,
+ *   "error": { "code": "ACCOUNT_LOCKED" | "LOGIN_THROTTLED", "message": "...", "retryAfter": 900 }
+ * }
+ * 
+ * Response 200 (account has 2FA - no tokens yet, see /api/auth/2fa/verify):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "twoFactorRequired": true,
+ *     "challengeToken": "eyJhbGc...",
+ *     "expiresIn": 300,
+ *     "methods": ["totp", "recovery_code"]
  *   }
  * }
  * 
+ * Response 401:
+ * {
+ *   "success": false,
+ *   "error": { "code": "INVALID_CREDENTIALS", "message": "Invalid email or password" }
+ * }
+ * 
  * Response 429:
  * {
  *   "status": "error",
@@ -179,32 +534,205 @@ app.post('/api/auth/login', loginLimiter, loginValidation, handleValidationError
   const { email, password } = req.body;
 
   try {
-    // TODO: Implement login logic
-    // 1. Validate email and password
-    // 2. Check if user exists
-    // 3. Verify password with Argon2
-    // 4. Generate JWT tokens
-    // 5. Return user + tokens
+    // Per-account back-off / lock, independent of the client IP
+    const throttle = await checkLoginAllowed(email);
+    if (!throttle.allowed) {
+      return sendLoginThrottled(res, throttle);
+    }
+
+    // Same response and timing for unknown email and wrong password (prevents account enumeration)
+    const user = await findUserByEmail(email);
+    const passwordMatches = user
+      ? await verifyPassword(password, user.passwordHash)
+      : await verifyDummyPassword(password);
+    if (!user || !passwordMatches) {
+      const next = await recordFailedLogin(email, { user, ip: req.ip });
+      if (next.reason === 'locked') {
+        return sendLoginThrottled(res, next);
+      }
+
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'INVALID_CREDENTIALS',
+          message: 'Invalid email or password',
+        },
+      });
+    }
+
+    if (!user.isActive || user.isSuspended) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'ACCOUNT_DISABLED',
+          message: 'This account has been disabled.',
+        },
+      });
+    }
+
+    // Upgrade stored hash if it was created with outdated parameters
+    const updatedUser = shouldRehash(user.passwordHash)
+      ? (await updateUser(user.id, { passwordHash: await hashPassword(password) })) || user
+      : user;
+
+    // Password was correct - ask for the second factor before issuing tokens.
+    // Failed attempts are only cleared once that succeeds (see utils/twoFactor.ts).
+    if (updatedUser.twoFactorEnabled) {
+      const challenge = await createTwoFactorChallenge(updatedUser);
+      return res.status(200).json({
+        success: true,
+        data: {
+          twoFactorRequired: true,
+          challengeToken: challenge.challengeToken,
+          expiresIn: challenge.expiresIn,
+          methods: ['totp', 'recovery_code'],
+        },
+      });
+    }
+
+    await clearFailedLogins(email);
+    await sendLoginSuccess(req, res, updatedUser);
+  } catch (error: any) {
+    console.error('Login error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'LOGIN_FAILED',
+        message: 'Failed to login. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Rate limit: 30 per minute per IP
+ * 
+ * Exchanges the refresh token cookie for a new access token.
+ * The refresh token is rotated on every call; presenting an already-used
+ * refresh token revokes its whole family (see utils/refreshTokens.ts).
+ * 
+ * Cookie: refreshToken=...
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "accessToken": "eyJhbGc...", "expiresIn": 900 }
+ * }
+ * Set-Cookie: refreshToken=<rotated>; HttpOnly; SameSite=Strict; Path=/api/auth
+ * 
+ * Response 401:
+ * {
+ *   "success": false,
+ *   "error": { "code": "REFRESH_TOKEN_REUSED", "message": "Refresh token has already been used" }
+ * }
+ */
+app.post('/api/auth/refresh', refreshTokenLimiter, async (req: Request, res: Response) => {
+  const refreshToken = req.cookies?.[REFRESH_TOKEN_COOKIE];
+
+  if (!refreshToken) {
+    return res.status(401).json({
+      success: false,
+      error: {
+        code: 'NO_REFRESH_TOKEN',
+        message: 'No refresh token provided',
+      },
+    });
+  }
+
+  try {
+    const { userAgent, ip } = getSessionContext(req);
+    const rotated = await rotateRefreshToken(refreshToken, findUserById, { userAgent, ip });
+    const { token: accessToken, expiresIn } = signAccessToken(rotated.user, rotated.familyId);
+
+    setRefreshTokenCookie(res, rotated.token, rotated.expiresIn);
 
     res.status(200).json({
       success: true,
       data: {
-        user: {
-          id: 'user_123',
-          email: email,
-          role: 'user',
+        accessToken,
+        expiresIn,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof RefreshTokenError) {
+      clearRefreshTokenCookie(res);
+      return res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
         },
-        token: 'eyJhbGc...',
-        refreshToken: 'ref_...',
+      });
+    }
+
+    console.error('Token refresh error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'REFRESH_FAILED',
+        message: 'Failed to refresh token. Please try again.',
       },
     });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * Rate limit: shares the refresh limiter (30 per minute per IP)
+ * 
+ * Revokes the current session:
+ * 1. Adds the access token's jti to the denylist until it expires
+ * 2. Revokes the refresh token family from the cookie
+ * 3. Clears the refresh token cookie
+ * 
+ * Always succeeds, so clients can clear local state even with an
+ * expired or already-revoked access token.
+ * 
+ * Headers:
+ * Authorization: Bearer <token> (optional)
+ * Cookie: refreshToken=... (optional)
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "message": "Logged out"
+ * }
+ */
+app.post('/api/auth/logout', refreshTokenLimiter, async (req: Request, res: Response) => {
+  const accessToken = getBearerToken(req);
+  const refreshToken = req.cookies?.[REFRESH_TOKEN_COOKIE];
+
+  try {
+    if (accessToken) {
+      try {
+        const payload = verifyJwt(accessToken);
+        if (payload.jti) {
+          await revokeTokenId(payload.jti, payload.exp);
+        }
+      } catch {
+        // Invalid or expired access token - nothing to revoke
+      }
+    }
+
+    if (refreshToken) {
+      await revokeRefreshToken(refreshToken, 'logout');
+    }
+
+    clearRefreshTokenCookie(res);
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out',
+    });
   } catch (error: any) {
-    console.error('Login error:', error);
+    console.error('Logout error:', error);
+    clearRefreshTokenCookie(res);
     res.status(500).json({
       success: false,
       error: {
-        code: 'LOGIN_FAILED',
-        message: 'Failed to login. Please try again.',
+        code: 'LOGOUT_FAILED',
+        message: 'Failed to logout. Please try again.',
       },
     });
   }
@@ -227,6 +755,12 @@ app.post('/api/auth/login', loginLimiter, loginValidation, handleValidationError
  *   "data": { "id": "...", "email": "...", "displayName": "..." }
  * }
  * 
+ * Response 409:
+ * {
+ *   "success": false,
+ *   "error": { "code": "EMAIL_ALREADY_REGISTERED", "message": "..." }
+ * }
+ * 
  * Response 429:
  * {
  *   "status": "error",
@@ -239,20 +773,32 @@ app.post('/api/auth/register', registerLimiter, registerValidation, handleValida
   const { email, password, displayName } = req.body;
 
   try {
-    // TODO: Implement registration logic
-    // 1. Validate input (email format, password strength)
-    // 2. Check if email already registered
-    // 3. Hash password with Argon2
-    // 4. Create user in database
-    // 5. Send verification email
-    // 6. Return created user (no token yet)
+    if (await findUserByEmail(email)) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'EMAIL_ALREADY_REGISTERED',
+          message: 'This email is already registered',
+        },
+      });
+    }
+
+    const passwordHash = await hashPassword(password);
+    const user = await createUser({ email, passwordHash, displayName });
+
+    // Mail failures must not fail the registration - the user can resend
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
 
     res.status(201).json({
       success: true,
       data: {
-        id: 'user_new_123',
-        email: email,
-        displayName: displayName,
+        id: user.id,
+        email: user.email,
+        displayName: user.displayName,
         message: 'Registration successful. Check your email for verification.',
       },
     });
@@ -269,328 +815,2604 @@ app.post('/api/auth/register', registerLimiter, registerValidation, handleValida
 });
 
 /**
- * POST /api/auth/password-reset
- * Rate limit: 5 per hour per email
+ * POST /api/auth/verify-email
+ * Rate limit: 10 per minute per IP (shares the token verification limiter)
+ * 
+ * Confirms an email address with the token from the verification email.
+ * Tokens are single-use and expire (see utils/emailVerification.ts).
  * 
  * Body:
  * {
- *   "email": "user@example.com"
+ *   "token": "eyJhbGc..."
  * }
  * 
  * Response 200:
  * {
  *   "success": true,
- *   "message": "If account exists, password reset email has been sent."
+ *   "data": { "verifiedEmail": true, "emailVerifiedAt": "..." }
+ * }
+ * 
+ * Response 400:
+ * {
+ *   "success": false,
+ *   "error": { "code": "INVALID_VERIFICATION_TOKEN", "message": "..." }
  * }
  */
-app.post('/api/auth/password-reset', passwordResetLimiter, passwordResetValidation, handleValidationErrors, async (req: Request, res: Response) => {
-  const { email } = req.body;
+app.post('/api/auth/verify-email', verifyTokenLimiter, verifyEmailValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { token } = req.body;
 
   try {
-    // TODO: Implement password reset logic
-    // 1. Check if user with email exists
-    // 2. Generate reset token
-    // 3. Store token with expiry (15 minutes)
-    // 4. Send reset email
-    // 5. Return success (don't reveal if email exists)
+    const user = await confirmEmailVerification(token);
 
     res.status(200).json({
       success: true,
-      message: 'If account exists, password reset email has been sent.',
+      data: {
+        verifiedEmail: true,
+        emailVerifiedAt: user.emailVerifiedAt,
+      },
     });
   } catch (error: any) {
-    console.error('Password reset error:', error);
+    if (error instanceof EmailVerificationError) {
+      return res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+    }
+
+    console.error('Email verification error:', error);
     res.status(500).json({
       success: false,
       error: {
-        code: 'PASSWORD_RESET_FAILED',
-        message: 'Failed to process password reset. Please try again.',
+        code: 'EMAIL_VERIFICATION_FAILED',
+        message: 'Failed to verify email. Please try again.',
       },
     });
   }
 });
 
 /**
- * POST /api/auth/verify-token
- * Rate limit: 10 per minute per IP
+ * POST /api/auth/verify-email/resend
+ * Rate limit: 3 per hour per user
  * 
- * Body:
- * {
- *   "token": "eyJhbGc..."
- * }
+ * Sends a new verification email. Earlier links stop working.
+ * 
+ * Headers:
+ * Authorization: Bearer <token>
  * 
  * Response 200:
  * {
  *   "success": true,
- *   "data": { "valid": true, "user": { ... } }
+ *   "message": "Verification email sent."
  * }
  */
-app.post('/api/auth/verify-token', verifyTokenLimiter, verifyTokenValidation, handleValidationErrors, async (req: Request, res: Response) => {
-  const { token } = req.body;
-
+app.post('/api/auth/verify-email/resend', authMiddleware, verificationEmailLimiter, async (req: Request, res: Response) => {
   try {
-    // TODO: Implement token verification
-    // 1. Verify JWT signature
-    // 2. Check token expiry
-    // 3. Return user data if valid
+    const user = await findUserById(req.user!.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'USER_NOT_FOUND', message: 'Account not found' },
+      });
+    }
+
+    await sendVerificationEmail(user);
 
     res.status(200).json({
       success: true,
-      data: {
-        valid: true,
-        user: { id: 'user_123', email: 'user@example.com', role: 'user' },
-      },
+      message: 'Verification email sent.',
     });
   } catch (error: any) {
-    res.status(401).json({
+    if (error instanceof EmailVerificationError) {
+      return res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+    }
+
+    console.error('Resend verification error:', error);
+    res.status(500).json({
       success: false,
-      data: { valid: false },
-      error: { code: 'INVALID_TOKEN' },
+      error: {
+        code: 'VERIFICATION_EMAIL_FAILED',
+        message: 'Failed to send verification email. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/auth/password-reset
+ * Rate limit: 5 per hour per email
+ * 
+ * Body:
+ * {
+ *   "email": "user@example.com"
+ * }
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "message": "If account exists, password reset email has been sent."
+ * }
+ */
+app.post('/api/auth/password-reset', passwordResetLimiter, passwordResetValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { email } = req.body;
+
+  try {
+    const user = await findUserByEmail(email);
+
+    // Same response either way so the endpoint cannot be used to probe accounts
+    if (user && user.isActive && !user.isSuspended) {
+      await sendPasswordResetEmail(user);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If account exists, password reset email has been sent.',
+    });
+  } catch (error: any) {
+    console.error('Password reset error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'PASSWORD_RESET_FAILED',
+        message: 'Failed to process password reset. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/auth/password-reset/confirm
+ * Rate limit: 5 per hour per IP
+ * 
+ * Sets a new password using the token from the reset email.
+ * The token works once; every session and refresh token of the
+ * account is revoked, so the user must log in again everywhere.
+ * 
+ * Body:
+ * {
+ *   "token": "<token from email link>",
+ *   "newPassword": "NewSecurePass123!"
+ * }
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "message": "Password has been reset. Please log in with your new password."
+ * }
+ * 
+ * Response 400:
+ * {
+ *   "success": false,
+ *   "error": { "code": "INVALID_RESET_TOKEN" | "WEAK_PASSWORD", "message": "..." }
+ * }
+ */
+app.post('/api/auth/password-reset/confirm', passwordResetLimiter, passwordResetConfirmValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { token, newPassword } = req.body;
+
+  try {
+    const strength = validatePasswordStrength(newPassword);
+    if (!strength.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'WEAK_PASSWORD',
+          message: strength.errors[0] || 'Password is too weak',
+        },
+      });
+    }
+
+    const user = await resetPasswordWithToken(token, newPassword);
+
+    console.log(JSON.stringify({
+      type: 'password_reset',
+      timestamp: new Date().toISOString(),
+      userId: user.id,
+    }));
+
+    clearRefreshTokenCookie(res);
+
+    res.status(200).json({
+      success: true,
+      message: 'Password has been reset. Please log in with your new password.',
+    });
+  } catch (error: any) {
+    if (error instanceof PasswordResetError) {
+      return res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+    }
+
+    console.error('Password reset confirm error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'PASSWORD_RESET_FAILED',
+        message: 'Failed to reset password. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/auth/verify-token
+ * Rate limit: 10 per minute per IP
+ * 
+ * Body:
+ * {
+ *   "token": "eyJhbGc..."
+ * }
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "valid": true, "user": { ... } }
+ * }
+ */
+app.post('/api/auth/verify-token', verifyTokenLimiter, verifyTokenValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { token } = req.body;
+
+  try {
+    const result = await verifyAccessToken(token);
+
+    if ('error' in result) {
+      return res.status(401).json({
+        success: false,
+        data: { valid: false },
+        error: { code: result.error },
+      });
+    }
+
+    const { userId, email, role } = result.payload;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        valid: true,
+        user: { id: userId, email, role },
+      },
+    });
+  } catch (error: any) {
+    res.status(401).json({
+      success: false,
+      data: { valid: false },
+      error: { code: 'INVALID_TOKEN' },
+    });
+  }
+});
+
+// ============================================================
+// TWO-FACTOR AUTHENTICATION ROUTES
+// ============================================================
+// TOTP (RFC 6238) enrolment and login challenges - see utils/twoFactor.ts
+// Code-checking routes share the 2FA limiter (5 per minute per IP)
+
+/**
+ * POST /api/auth/2fa/verify
+ * Rate limit: 5 per minute per IP
+ * 
+ * Second login step for accounts with 2FA. Exchanges the challenge token
+ * from /api/auth/login plus a TOTP or recovery code for the session.
+ * 
+ * Body:
+ * {
+ *   "challengeToken": "eyJhbGc...",
+ *   "code": "123456"
+ * }
+ * 
+ * Response 200: same as /api/auth/login (tokens + refresh cookie)
+ * 
+ * Response 401:
+ * {
+ *   "success": false,
+ *   "error": { "code": "INVALID_TWO_FACTOR_CODE" | "INVALID_TWO_FACTOR_CHALLENGE", "message": "..." }
+ * }
+ * 
+ * Response 423 / 429: ACCOUNT_LOCKED / LOGIN_THROTTLED, as for /api/auth/login
+ * (wrong codes count toward the same per-account lockout as wrong passwords)
+ */
+app.post('/api/auth/2fa/verify', twoFactorLimiter, twoFactorChallengeValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { challengeToken, code } = req.body;
+
+  try {
+    const { user, method } = await completeTwoFactorChallenge(challengeToken, code, { ip: req.ip });
+
+    if (method === 'recovery_code') {
+      console.warn(JSON.stringify({
+        type: 'two_factor_recovery_code_used',
+        timestamp: new Date().toISOString(),
+        userId: user.id,
+        remaining: user.recoveryCodeHashes?.length ?? 0,
+      }));
+    }
+
+    await sendLoginSuccess(req, res, user);
+  } catch (error: any) {
+    if (error instanceof TwoFactorError && error.throttle) {
+      return sendLoginThrottled(res, error.throttle);
+    }
+    if (error instanceof TwoFactorError) {
+      return sendTwoFactorError(res, error);
+    }
+
+    console.error('2FA verify error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'LOGIN_FAILED',
+        message: 'Failed to login. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/setup
+ * Requires: Authorization header
+ * 
+ * Starts enrolment. The client shows otpauthUri as a QR code
+ * (and the secret for manual entry). Nothing changes until confirmed.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "secret": "JBSWY3DPEHPK3PXP...",
+ *     "otpauthUri": "otpauth://totp/Vairo:user%40example.com?secret=...&issuer=Vairo"
+ *   }
+ * }
+ */
+app.post('/api/auth/2fa/setup', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = await findUserById(req.user!.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'USER_NOT_FOUND', message: 'User not found' },
+      });
+    }
+
+    const enrollment = await beginTwoFactorEnrollment(user);
+
+    res.status(200).json({
+      success: true,
+      data: enrollment,
+    });
+  } catch (error: any) {
+    if (error instanceof TwoFactorError) {
+      return sendTwoFactorError(res, error);
+    }
+
+    console.error('2FA setup error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'TWO_FACTOR_SETUP_FAILED',
+        message: 'Failed to start two-factor setup. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/confirm
+ * Requires: Authorization header
+ * Rate limit: 5 per minute per IP
+ * 
+ * Finishes enrolment with the first code from the authenticator app.
+ * Recovery codes are returned once and cannot be retrieved again.
+ * 
+ * Body:
+ * {
+ *   "code": "123456"
+ * }
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "recoveryCodes": ["abcde-fghij", ...] }
+ * }
+ */
+app.post('/api/auth/2fa/confirm', authMiddleware, twoFactorLimiter, twoFactorCodeValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const user = await findUserById(req.user!.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'USER_NOT_FOUND', message: 'User not found' },
+      });
+    }
+
+    const { recoveryCodes } = await confirmTwoFactorEnrollment(user, req.body.code);
+
+    console.log(JSON.stringify({
+      type: 'two_factor_enabled',
+      timestamp: new Date().toISOString(),
+      userId: user.id,
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error: any) {
+    if (error instanceof TwoFactorError) {
+      return sendTwoFactorError(res, error);
+    }
+
+    console.error('2FA confirm error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'TWO_FACTOR_SETUP_FAILED',
+        message: 'Failed to enable two-factor authentication. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Requires: Authorization header
+ * Rate limit: 5 per minute per IP
+ * 
+ * Replaces all recovery codes. Requires a current TOTP or recovery code.
+ * 
+ * Body:
+ * {
+ *   "code": "123456"
+ * }
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "recoveryCodes": ["abcde-fghij", ...] }
+ * }
+ */
+app.post('/api/auth/2fa/recovery-codes', authMiddleware, twoFactorLimiter, twoFactorCodeValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const user = await findUserById(req.user!.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'USER_NOT_FOUND', message: 'User not found' },
+      });
+    }
+
+    const { recoveryCodes } = await regenerateRecoveryCodes(user, req.body.code);
+
+    res.status(200).json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error: any) {
+    if (error instanceof TwoFactorError) {
+      return sendTwoFactorError(res, error);
+    }
+
+    console.error('2FA recovery codes error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'RECOVERY_CODES_FAILED',
+        message: 'Failed to generate recovery codes. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/disable
+ * Requires: Authorization header
+ * Rate limit: 5 per minute per IP
+ * 
+ * Turns 2FA off. Requires a current TOTP or recovery code and is refused
+ * (403 TWO_FACTOR_REQUIRED) when admins require 2FA for the user's role.
+ * 
+ * Body:
+ * {
+ *   "code": "123456"
+ * }
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "message": "Two-factor authentication disabled"
+ * }
+ */
+app.post('/api/auth/2fa/disable', authMiddleware, twoFactorLimiter, twoFactorCodeValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const user = await findUserById(req.user!.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'USER_NOT_FOUND', message: 'User not found' },
+      });
+    }
+
+    await disableTwoFactor(user, req.body.code);
+
+    console.log(JSON.stringify({
+      type: 'two_factor_disabled',
+      timestamp: new Date().toISOString(),
+      userId: user.id,
+    }));
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error: any) {
+    if (error instanceof TwoFactorError) {
+      return sendTwoFactorError(res, error);
+    }
+
+    console.error('2FA disable error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'TWO_FACTOR_DISABLE_FAILED',
+        message: 'Failed to disable two-factor authentication. Please try again.',
+      },
+    });
+  }
+});
+
+// ============================================================
+// CONTENT CREATION ROUTES
+// ============================================================
+// Requires authentication + rate limiting
+// authMiddleware (middleware/auth.ts) attaches req.user for per-user limiters
+
+/**
+ * POST /api/media/uploads
+ * Rate limit: 60 per 10 minutes per user
+ * 
+ * Starts a resumable upload of one photo or video for a post. Send the
+ * file in chunks of at most chunkSize bytes with PUT, then complete it and
+ * attach the returned media ID to the post.
+ * 
+ * Body:
+ * {
+ *   "contentType": "image/jpeg",   // image/jpeg | image/png | image/webp | image/gif | image/heic | video/mp4 | video/quicktime
+ *   "size": 482113                 // Total bytes
+ * }
+ * 
+ * Response 201:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "uploadId": "3f9c...", "contentType": "image/jpeg", "size": 482113,
+ *     "receivedBytes": 0, "chunkSize": 5242880, "expiresAt": "2026-10-20T09:00:00.000Z"
+ *   }
+ * }
+ * 
+ * Response 413: { "error": { "code": "UPLOAD_TOO_LARGE" } } (over MEDIA_MAX_IMAGE_MB / MEDIA_MAX_VIDEO_MB)
+ * Response 415: { "error": { "code": "UNSUPPORTED_MEDIA_TYPE" } }
+ */
+app.post(
+  '/api/media/uploads',
+  authMiddleware,
+  requireCapability('post:create'),
+  mediaUploadLimiter,
+  createMediaUploadValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const upload = await createUploadSession(req.user!.userId, req.body.contentType, req.body.size);
+
+      res.status(201).json({
+        success: true,
+        data: upload,
+      });
+    } catch (error: any) {
+      if (error instanceof MediaUploadError) {
+        return sendMediaUploadError(res, error);
+      }
+
+      console.error('Media upload creation error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'MEDIA_UPLOAD_FAILED',
+          message: 'Failed to start the upload. Please try again.',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/media/uploads/:uploadId
+ * Rate limit: shares the chunk limit (1000 per 10 minutes per user)
+ * 
+ * Progress of an upload. After a dropped connection, resume by sending
+ * the next chunk from receivedBytes.
+ * 
+ * Response 200: { "success": true, "data": { "uploadId": "3f9c...", "receivedBytes": 5242880, ... } }
+ * 
+ * Response 404: { "error": { "code": "UPLOAD_NOT_FOUND" } } (unknown, expired or someone else's)
+ */
+app.get(
+  '/api/media/uploads/:uploadId',
+  authMiddleware,
+  mediaChunkLimiter,
+  uploadIdParamValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const upload = await getUploadStatus(req.user!.userId, req.params.uploadId);
+
+      res.status(200).json({
+        success: true,
+        data: upload,
+      });
+    } catch (error: any) {
+      if (error instanceof MediaUploadError) {
+        return sendMediaUploadError(res, error);
+      }
+
+      console.error('Media upload status error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'MEDIA_UPLOAD_FETCH_FAILED' },
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/media/uploads/:uploadId
+ * Rate limit: 1000 chunks per 10 minutes per user
+ * 
+ * Sends the next chunk. The body is the raw bytes; chunks must continue
+ * from receivedBytes, and resending bytes already received is harmless.
+ * 
+ * Headers:
+ * Authorization: Bearer <token>
+ * Content-Type: application/octet-stream
+ * Content-Range: bytes 0-5242879/482113000
+ * 
+ * Response 200: { "success": true, "data": { "uploadId": "3f9c...", "receivedBytes": 5242880, ... } }
+ * 
+ * Response 400: { "error": { "code": "INVALID_CONTENT_RANGE" } }
+ * Response 404: { "error": { "code": "UPLOAD_NOT_FOUND" } }
+ * Response 409: { "error": { "code": "UPLOAD_OFFSET_MISMATCH" } } (a gap; check the status and resume)
+ * Response 413: { "error": { "code": "PAYLOAD_TOO_LARGE" } } (chunk over MEDIA_CHUNK_MB)
+ * Response 413: { "error": { "code": "UPLOAD_TOO_LARGE" } } (a video-sized photo, by its first bytes; the upload is discarded)
+ * Response 415: { "error": { "code": "UNSUPPORTED_MEDIA_TYPE" } } (first bytes are not a photo or video; the upload is discarded)
+ */
+app.put(
+  '/api/media/uploads/:uploadId',
+  authMiddleware,
+  mediaChunkLimiter,
+  uploadIdParamValidation,
+  handleValidationErrors,
+  express.raw({ type: () => true, limit: CHUNK_BYTES }),
+  async (req: Request, res: Response) => {
+    try {
+      const upload = await appendChunk(req.user!.userId, req.params.uploadId, req.headers['content-range'], req.body);
+
+      res.status(200).json({
+        success: true,
+        data: upload,
+      });
+    } catch (error: any) {
+      if (error instanceof MediaUploadError) {
+        return sendMediaUploadError(res, error);
+      }
+
+      console.error('Media chunk upload error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'MEDIA_UPLOAD_FAILED',
+          message: 'Failed to save the chunk. Check the upload status and resume.',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/media/uploads/:uploadId/complete
+ * Rate limit: shares the chunk limit (1000 per 10 minutes per user)
+ * 
+ * Finishes an upload. The file's type is sniffed from its bytes and it is
+ * moved to media storage; attach the returned ID to a post as
+ * { "mediaId": "media_..." }.
+ * 
+ * Response 201:
+ * {
+ *   "success": true,
+ *   "data": { "id": "media_...", "url": "https://.../3f9c....jpg", "type": "image", "contentType": "image/jpeg", "size": 482113 }
+ * }
+ * 
+ * Response 404: { "error": { "code": "UPLOAD_NOT_FOUND" } }
+ * Response 409: { "error": { "code": "UPLOAD_INCOMPLETE" } }
+ * Response 413: { "error": { "code": "UPLOAD_TOO_LARGE" } } (over the cap for the sniffed type; the upload is discarded)
+ * Response 415: { "error": { "code": "UNSUPPORTED_MEDIA_TYPE" } } (not a photo or video; the upload is discarded)
+ */
+app.post(
+  '/api/media/uploads/:uploadId/complete',
+  authMiddleware,
+  mediaChunkLimiter,
+  uploadIdParamValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const media = await completeUpload(req.user!.userId, req.params.uploadId);
+
+      res.status(201).json({
+        success: true,
+        data: media,
+      });
+    } catch (error: any) {
+      if (error instanceof MediaUploadError) {
+        return sendMediaUploadError(res, error);
+      }
+
+      console.error('Media upload completion error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'MEDIA_UPLOAD_FAILED',
+          message: 'Failed to finish the upload. Please try again.',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/media/uploads/:uploadId
+ * Rate limit: shares the chunk limit (1000 per 10 minutes per user)
+ * 
+ * Cancels an upload and drops the bytes received so far.
+ * 
+ * Response 200: { "success": true }
+ * 
+ * Response 404: { "error": { "code": "UPLOAD_NOT_FOUND" } }
+ */
+app.delete(
+  '/api/media/uploads/:uploadId',
+  authMiddleware,
+  mediaChunkLimiter,
+  uploadIdParamValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      await abortUpload(req.user!.userId, req.params.uploadId);
+
+      res.status(200).json({ success: true });
+    } catch (error: any) {
+      if (error instanceof MediaUploadError) {
+        return sendMediaUploadError(res, error);
+      }
+
+      console.error('Media upload cancel error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'MEDIA_UPLOAD_CANCEL_FAILED' },
+      });
+    }
+  }
+);
+
+/**
+ * GET /media/:fileName
+ * 
+ * Uploaded files when stored on local disk (MEDIA_STORAGE_DRIVER=local),
+ * public like the URLs posts carry. Served cross-origin so the web app on
+ * another origin can display them. The s3 driver serves files from the
+ * bucket instead.
+ */
+const mediaStorage = getMediaStorage();
+if (mediaStorage instanceof LocalMediaStorage) {
+  app.use(
+    '/media',
+    express.static(mediaStorage.directory, {
+      index: false,
+      maxAge: '30d',
+      immutable: true,
+      setHeaders: res => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+    })
+  );
+}
+
+/**
+ * POST /api/posts
+ * Rate limit: 20 per minute per user
+ * 
+ * Headers:
+ * Authorization: Bearer <token>
+ * 
+ * Body:
+ * {
+ *   "caption": "This is my post",
+ *   "type": "image",               // Optional: text | image | video (default: image with media, else text)
+ *   "audience": "followers",       // Optional: public | followers | close_friends | only_me (default: public)
+ *   "media": [                     // Optional, up to 5, in display order
+ *     { "mediaId": "media_...", "width": 1080, "height": 1350, "blurhash": "LEHV6n...", "alt": "A red bike" },
+ *     { "url": "https://...", "type": "image" }
+ *   ],
+ *   "mentions": ["user_123", "user_456"]
+ * }
+ * 
+ * Attachments are uploads by media ID (POST /api/media/uploads; the
+ * upload's URL and type are used) or external URLs with a type. Instead of
+ * media, "mediaUrls": ["https://..."] attaches bare URLs (typed video for
+ * video posts, image otherwise).
+ * 
+ * Response 201:
+ * {
+ *   "success": true,
+ *   "data": { "id": "post_...", "userId": "user_...", "type": "image", "media": [...], ... }
+ * }
+ * 
+ * Response 400: { "error": { "code": "EMPTY_POST" } } (no caption and no media)
+ * Response 400: { "error": { "code": "INVALID_MEDIA" } } (unknown media ID, or uploaded by someone else)
+ */
+app.post('/api/posts', authMiddleware, requireCapability('post:create'), createPostLimiter, createPostValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { caption, type, audience, media: attachments, mediaUrls, mentions } = req.body;
+
+  try {
+    const media: PostMedia[] = attachments
+      ? await resolvePostMedia(req.user!.userId, attachments)
+      : (mediaUrls || []).map((url: string) => ({ url, type: type === 'video' ? 'video' : 'image' }));
+
+    if (!caption && media.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'EMPTY_POST',
+          message: 'A post needs a caption or media',
+        },
+      });
+    }
+
+    // TODO: Notify mentioned users
+    const post = await getRepositories().posts.create({
+      userId: req.user!.userId,
+      type: (type as PostType) || (media.some(item => item.type === 'video') ? 'video' : media.length > 0 ? 'image' : 'text'),
+      caption: caption || '',
+      media,
+      mentions: mentions || [],
+      audience: (audience as PostAudience) || 'public',
+    });
+
+    res.status(201).json({
+      success: true,
+      data: post,
+    });
+  } catch (error: any) {
+    if (error instanceof MediaUploadError) {
+      return sendMediaUploadError(res, error);
+    }
+
+    console.error('Post creation error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'POST_CREATION_FAILED' },
+    });
+  }
+});
+
+/**
+ * GET /api/posts/:postId
+ * Rate limit: shares the feed limit (60 per minute per user)
+ * 
+ * A single post in the feed shape, with its author. Posts outside the
+ * viewer's audience are reported as not found.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "post": { "id": "post_...", "user_id": "user_...", "audience": "followers", ... },
+ *     "author": { "id": "user_...", "name": "Maya Chen", ... }
+ *   }
+ * }
+ * 
+ * Response 404: { "error": { "code": "POST_NOT_FOUND" } }
+ */
+app.get('/api/posts/:postId', authMiddleware, feedLimiter, postIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const { users, posts } = getRepositories();
+    const post = await findVisiblePost(req.params.postId, req.user!.userId);
+    const author = post && (await users.findById(post.userId));
+
+    if (!post || !author || !author.isActive || author.isSuspended) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'POST_NOT_FOUND',
+          message: 'Post not found',
+        },
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        post: toFeedPost(post),
+        author: toFeedUser(author, await posts.countByUser(author.id)),
+      },
+    });
+  } catch (error: any) {
+    console.error('Post fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'POST_FETCH_FAILED' },
+    });
+  }
+});
+
+/**
+ * PATCH /api/posts/:postId
+ * Rate limit: shares the post creation limit (20 per minute per user)
+ * 
+ * Edits the caption. Authors can edit within POST_EDIT_WINDOW_MINUTES of
+ * posting (default 15); moderators and admins can edit any post at any
+ * time, once enrolled in 2FA if the policy requires it for their role.
+ * The previous caption is kept in the edit history.
+ * 
+ * Body:
+ * {
+ *   "caption": "Updated caption"
+ * }
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "id": "post_...", "caption": "Updated caption", "editedAt": "...", ... }
+ * }
+ * 
+ * Response 400: { "error": { "code": "EMPTY_POST" } } (no caption and no media)
+ * Response 403: { "error": { "code": "NOT_POST_OWNER" | "EDIT_WINDOW_CLOSED" | "TWO_FACTOR_REQUIRED" } }
+ * Response 404: { "error": { "code": "POST_NOT_FOUND" } }
+ */
+app.patch('/api/posts/:postId', authMiddleware, requireCapability('post:create'), createPostLimiter, postIdParamValidation, updatePostValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const post = await editPost(req.params.postId, req.body.caption, req.user!);
+
+    if (post.userId !== req.user!.userId) {
+      console.log(JSON.stringify({
+        type: 'post_edited_by_moderator',
+        timestamp: new Date().toISOString(),
+        moderatorId: req.user!.userId,
+        postId: post.id,
+        authorId: post.userId,
+      }));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: post,
+    });
+  } catch (error: any) {
+    if (error instanceof PostEditError) {
+      return sendPostEditError(res, error);
+    }
+
+    console.error('Post edit error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'POST_EDIT_FAILED' },
+    });
+  }
+});
+
+/**
+ * DELETE /api/posts/:postId
+ * Rate limit: shares the post creation limit (20 per minute per user)
+ * 
+ * Soft-deletes the post: it disappears everywhere but can be restored by
+ * a moderator. Authors can delete their own posts; moderators and admins
+ * can delete any post (once enrolled in 2FA if the policy requires it).
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "id": "post_...", "deletedAt": "..." }
+ * }
+ * 
+ * Response 403: { "error": { "code": "NOT_POST_OWNER" | "TWO_FACTOR_REQUIRED" } }
+ * Response 404: { "error": { "code": "POST_NOT_FOUND" } }
+ */
+app.delete('/api/posts/:postId', authMiddleware, createPostLimiter, postIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const post = await deletePost(req.params.postId, req.user!);
+
+    if (post.userId !== req.user!.userId) {
+      console.log(JSON.stringify({
+        type: 'post_removed_by_moderator',
+        timestamp: new Date().toISOString(),
+        moderatorId: req.user!.userId,
+        postId: post.id,
+        authorId: post.userId,
+      }));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        id: post.id,
+        deletedAt: post.deletedAt,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof PostEditError) {
+      return sendPostEditError(res, error);
+    }
+
+    console.error('Post delete error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'POST_DELETE_FAILED' },
+    });
+  }
+});
+
+/**
+ * GET /api/posts/:postId/edits
+ * 
+ * Previous captions, newest first. Each entry is the caption as it was
+ * before that edit.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "editWindowMinutes": 15,
+ *     "edits": [{ "id": "edit_...", "postId": "post_...", "caption": "...", "editedBy": "user_...", "editedAt": "..." }]
+ *   }
+ * }
+ * 
+ * Response 404: { "error": { "code": "POST_NOT_FOUND" } }
+ */
+app.get('/api/posts/:postId/edits', authMiddleware, postIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const edits = await listPostEdits(req.params.postId, req.user!.userId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        editWindowMinutes: EDIT_WINDOW_MINUTES,
+        edits,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof PostEditError) {
+      return sendPostEditError(res, error);
+    }
+
+    console.error('Post edit history error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'POST_EDITS_FAILED' },
+    });
+  }
+});
+
+/**
+ * POST /api/posts/:postId/comments
+ * Rate limit: 50 per minute per user
+ * 
+ * Body:
+ * {
+ *   "text": "Great post!"
+ * }
+ * 
+ * Response 201:
+ * {
+ *   "success": true,
+ *   "data": { "id": "comment_...", "postId": "post_...", ... }
+ * }
+ */
+app.post(
+  '/api/posts/:postId/comments',
+  authMiddleware,
+  requireCapability('comment:create'),
+  createCommentLimiter,
+  createCommentValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    const { postId } = req.params;
+    const { text } = req.body;
+
+    try {
+      const { posts, comments } = getRepositories();
+
+      if (!(await findVisiblePost(postId, req.user!.userId))) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'POST_NOT_FOUND',
+            message: 'Post not found',
+          },
+        });
+      }
+
+      // TODO: Notify post author
+      const comment = await comments.create({
+        postId,
+        userId: req.user!.userId,
+        text,
+      });
+      await posts.incrementCounter(postId, 'commentsCount', 1);
+      await recordExperimentActivity(req.user!.userId, { comments: 1 });
+
+      res.status(201).json({
+        success: true,
+        data: comment,
+      });
+    } catch (error: any) {
+      console.error('Comment creation error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'COMMENT_CREATION_FAILED' },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/posts/:postId/like
+ * Rate limit: 100 per minute per user
+ * 
+ * Toggles the like: likes the post, or unlikes it if already liked.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "liked": true, "likeCount": 42 }
+ * }
+ */
+app.post('/api/posts/:postId/like', authMiddleware, requireCapability('like'), likeLimiter, postIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { postId } = req.params;
+  const userId = req.user!.userId;
+
+  try {
+    const { posts, likes } = getRepositories();
+
+    if (!(await findVisiblePost(postId, userId))) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'POST_NOT_FOUND',
+          message: 'Post not found',
+        },
+      });
+    }
+
+    // TODO: Notify post author
+    const liked = await likes.add(postId, userId);
+    if (!liked) {
+      await likes.remove(postId, userId);
+    }
+    const likeCount = await posts.incrementCounter(postId, 'likesCount', liked ? 1 : -1);
+    if (liked) {
+      await recordExperimentActivity(userId, { likes: 1 });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        liked,
+        likeCount,
+      },
+    });
+  } catch (error: any) {
+    console.error('Like error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'LIKE_FAILED' },
+    });
+  }
+});
+
+// ============================================================
+// FEED ROUTES
+// ============================================================
+
+/**
+ * GET /api/feed
+ * Rate limit: 60 per minute per user
+ * 
+ * Ranked home feed (see utils/homeFeed.ts). Without a cursor the feed is
+ * ranked afresh; pass nextCursor to continue in the same order.
+ * 
+ * Query:
+ *   cursor  Optional: nextCursor from the previous page
+ *   limit   Optional: page size, 1-100 (default 20)
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "posts": [{ "id": "post_...", "user_id": "user_...", "likes": 12, ... }],
+ *     "authors": [{ "id": "user_...", "name": "Maya Chen", "visibility_score": 18, ... }],
+ *     "nextCursor": "eyJzIjoi...",   // null on the last page
+ *     "rankedAt": "2026-01-01T12:00:00.000Z",
+ *     "profile": { "name": "default", "version": 3 },   // Ranking profile that ordered this feed
+ *     "experiment": { "name": "fresh-voices-test", "arm": "treatment" }   // null when not enrolled
+ *   }
+ * }
+ * 
+ * Response 400: { "error": { "code": "INVALID_FEED_CURSOR" } }
+ * Response 410: { "error": { "code": "FEED_CURSOR_EXPIRED" } } (reload without a cursor)
+ */
+app.get('/api/feed', authMiddleware, feedLimiter, feedQueryValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { cursor, limit } = req.query as { cursor?: string; limit?: number };
+
+  try {
+    const page = await getFeedPage(req.user!.userId, { cursor, limit });
+
+    res.status(200).json({
+      success: true,
+      data: page,
+    });
+  } catch (error: any) {
+    if (error instanceof FeedError) {
+      return res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+    }
+
+    console.error('Feed error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'FEED_FAILED' },
+    });
+  }
+});
+
+/**
+ * GET /api/feed/posts/:postId/explanation
+ * Rate limit: shares the feed limit (60 per minute per user)
+ * 
+ * "Why this post?": the weighted signals behind a post's place in the
+ * viewer's current feed, and whether it took a priority slot reserved for
+ * under-exposed authors.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "post_id": "post_...",
+ *     "ranked_at": "2026-01-01T12:00:00.000Z",
+ *     "profile": { "name": "default", "version": 3 },
+ *     "experiment": null,
+ *     "score": 0.71,
+ *     "components": [
+ *       { "signal": "underexposure_boost", "value": 0.82, "weight": 0.35, "contribution": 0.287 },
+ *       ...
+ *     ],
+ *     "underexposed": true,
+ *     "priority_slot": true,
+ *     "position": 2
+ *   }
+ * }
+ * 
+ * Response 404: { "error": { "code": "POST_NOT_IN_FEED" } }
+ */
+app.get('/api/feed/posts/:postId/explanation', authMiddleware, feedLimiter, postIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const explanation = await explainFeedPost(req.user!.userId, req.params.postId);
+
+    if (!explanation) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'POST_NOT_IN_FEED',
+          message: 'This post is not in your feed',
+        },
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: explanation,
+    });
+  } catch (error: any) {
+    console.error('Feed explanation error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'FEED_EXPLANATION_FAILED' },
+    });
+  }
+});
+
+// ============================================================
+// IMPRESSION ROUTES
+// ============================================================
+
+/**
+ * POST /api/impressions
+ * Rate limit: 30 batches per minute per user
+ * 
+ * Batched views from the feed, stories and reels (see utils/impressions.ts).
+ * Repeat views of an item within the dedup window count once; views of
+ * your own content are ignored.
+ * 
+ * Body:
+ * {
+ *   "events": [
+ *     { "surface": "feed", "itemId": "post_..." },
+ *     { "surface": "story", "itemId": "story_..." }
+ *   ]
+ * }
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "accepted": 1,
+ *     "duplicates": 1,
+ *     "ignored": 0,
+ *     "experiment": { "name": "fresh-voices-test", "arm": "treatment" }   // null when not enrolled
+ *   }
+ * }
+ */
+app.post('/api/impressions', authMiddleware, impressionsLimiter, impressionsValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const result = await recordImpressions(
+      req.user!.userId,
+      req.body.events.map((event: any) => ({ surface: event.surface, itemId: event.itemId }))
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error('Impressions error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'IMPRESSIONS_FAILED' },
+    });
+  }
+});
+
+// ============================================================
+// USER PROFILE ROUTES
+// ============================================================
+
+/**
+ * PATCH /api/users/me
+ * Rate limit: 20 per hour per user
+ * 
+ * Body:
+ * {
+ *   "displayName": "New Name",
+ *   "bio": "Updated bio",
+ *   "avatar": "https://..."
+ * }
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "id": "...", "displayName": "...", ... }
+ * }
+ * 
+ * Response 404: { "error": { "code": "USER_NOT_FOUND" } }
+ */
+app.patch(
+  '/api/users/me',
+  authMiddleware,
+  requireCapability('profile:update'),
+  updateProfileLimiter,
+  updateProfileValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    const { displayName, bio, avatar } = req.body;
+
+    try {
+      const user = await updateUser(req.user!.userId, {
+        ...(displayName !== undefined && { displayName }),
+        ...(bio !== undefined && { bio }),
+        ...(avatar !== undefined && { avatar }),
+      });
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+          },
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: userToResponse(user),
+      });
+    } catch (error: any) {
+      console.error('Profile update error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'PROFILE_UPDATE_FAILED' },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/users/me/sessions
+ * Requires: Authorization header
+ * 
+ * Lists where the user is logged in (one session per login/device),
+ * most recently used first.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "sessions": [{
+ *       "id": "rtf_...",
+ *       "deviceName": "Chrome on macOS",
+ *       "userAgent": "Mozilla/5.0 ...",
+ *       "ip": "203.0.113.7",
+ *       "createdAt": "...",
+ *       "lastSeenAt": "...",
+ *       "expiresAt": "...",
+ *       "current": true
+ *     }]
+ *   }
+ * }
+ */
+app.get('/api/users/me/sessions', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const currentSessionId = req.tokenPayload?.sid;
+    const sessions = await listUserSessions(req.user!.userId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          ...session,
+          current: session.id === currentSessionId,
+        })),
+      },
+    });
+  } catch (error: any) {
+    console.error('List sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SESSIONS_FETCH_FAILED',
+        message: 'Failed to load sessions. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/users/me/sessions/logout-others
+ * Requires: Authorization header
+ * 
+ * Logs out every session except the one making the request.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "revoked": 3 }
+ * }
+ */
+app.post('/api/users/me/sessions/logout-others', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const currentSessionId = req.tokenPayload?.sid;
+    if (!currentSessionId) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'NO_CURRENT_SESSION',
+          message: 'Log in again to manage your sessions',
+        },
+      });
+    }
+
+    const revoked = await revokeOtherUserSessions(req.user!.userId, currentSessionId, 'logout_others');
+
+    res.status(200).json({
+      success: true,
+      data: { revoked },
+    });
+  } catch (error: any) {
+    console.error('Logout other sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SESSION_REVOKE_FAILED',
+        message: 'Failed to log out other sessions. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * DELETE /api/users/me/sessions/:sessionId
+ * Requires: Authorization header
+ * 
+ * Logs out one session. Its refresh token stops working immediately
+ * and its access tokens are rejected.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "message": "Session revoked"
+ * }
+ * 
+ * Response 404:
+ * {
+ *   "success": false,
+ *   "error": { "code": "SESSION_NOT_FOUND", "message": "Session not found" }
+ * }
+ */
+app.delete('/api/users/me/sessions/:sessionId', authMiddleware, sessionIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const revoked = await revokeUserSession(req.user!.userId, req.params.sessionId, 'session_revoked');
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'SESSION_NOT_FOUND',
+          message: 'Session not found',
+        },
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SESSION_REVOKE_FAILED',
+        message: 'Failed to revoke session. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/users/me/close-friends
+ * Requires: Authorization header
+ * 
+ * The user's close friends list: who sees their close_friends posts.
+ * Only the owner can see the list.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "users": [{ "id": "user_...", "name": "Maya Chen", "username": "maya", ... }]
+ *   }
+ * }
+ */
+app.get('/api/users/me/close-friends', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const friends = await listCloseFriends(req.user!.userId);
+
+    res.status(200).json({
+      success: true,
+      data: { users: friends.map(friend => toFeedUser(friend)) },
+    });
+  } catch (error: any) {
+    console.error('List close friends error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'CLOSE_FRIENDS_FAILED' },
+    });
+  }
+});
+
+/**
+ * PUT /api/users/me/close-friends/:userId
+ * Requires: Authorization header
+ * Rate limit: shares the profile update limit (20 per hour per user)
+ * 
+ * Adds an account to the close friends list (no-op if already on it).
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "userId": "user_...", "added": true }   // false if already on the list
+ * }
+ * 
+ * Response 400: { "error": { "code": "INVALID_CLOSE_FRIEND" } } (yourself)
+ * Response 404: { "error": { "code": "USER_NOT_FOUND" } }
+ */
+app.put('/api/users/me/close-friends/:userId', authMiddleware, updateProfileLimiter, userIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const added = await addCloseFriend(req.user!.userId, req.params.userId);
+
+    res.status(200).json({
+      success: true,
+      data: { userId: req.params.userId, added },
+    });
+  } catch (error: any) {
+    if (error instanceof PostAudienceError) {
+      return sendPostAudienceError(res, error);
+    }
+
+    console.error('Add close friend error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'CLOSE_FRIENDS_UPDATE_FAILED' },
+    });
+  }
+});
+
+/**
+ * DELETE /api/users/me/close-friends/:userId
+ * Requires: Authorization header
+ * Rate limit: shares the profile update limit (20 per hour per user)
+ * 
+ * Removes an account from the close friends list. Their feed stops
+ * showing the user's close_friends posts right away.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "userId": "user_...", "removed": true }   // false if not on the list
+ * }
+ */
+app.delete('/api/users/me/close-friends/:userId', authMiddleware, updateProfileLimiter, userIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const removed = await removeCloseFriend(req.user!.userId, req.params.userId);
+
+    res.status(200).json({
+      success: true,
+      data: { userId: req.params.userId, removed },
+    });
+  } catch (error: any) {
+    console.error('Remove close friend error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'CLOSE_FRIENDS_UPDATE_FAILED' },
+    });
+  }
+});
+
+/**
+ * GET /api/users/:userId
+ * Public profile (not rate limited per user)
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "id": "user_...",
+ *     "displayName": "...",
+ *     "username": "...",
+ *     "bio": "...",
+ *     "avatar": "https://...",
+ *     "followerCount": 100,
+ *     "followingCount": 50,
+ *     "postCount": 12
+ *   }
+ * }
+ * 
+ * Response 404: { "error": { "code": "USER_NOT_FOUND" } } (also for deactivated accounts)
+ */
+app.get('/api/users/:userId', userIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { userId } = req.params;
+
+  try {
+    const { users, posts } = getRepositories();
+    const user = await users.findById(userId);
+
+    if (!user || !user.isActive) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found',
+        },
+      });
+    }
+
+    const postCount = await posts.countByUser(userId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        id: user.id,
+        displayName: user.displayName,
+        username: user.username,
+        bio: user.bio,
+        avatar: user.avatar,
+        followerCount: user.followersCount ?? 0,
+        followingCount: user.followingCount ?? 0,
+        postCount,
+      },
+    });
+  } catch (error: any) {
+    console.error('User profile error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'USER_PROFILE_FAILED' },
+    });
+  }
+});
+
+/**
+ * GET /api/users/:userId/posts
+ * Requires: Authorization header
+ * Rate limit: shares the feed limit (60 per minute per user)
+ * 
+ * Profile grid: the user's posts that the viewer may see, newest first,
+ * in the feed shape.
+ * 
+ * Query:
+ *   before  Optional: nextBefore from the previous page
+ *   limit   Optional: page size, 1-100 (default 20)
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "posts": [{ "id": "post_...", "user_id": "user_...", "audience": "public", ... }],
+ *     "nextBefore": "2026-01-01T12:00:00.000Z"   // null on the last page
+ *   }
+ * }
+ * 
+ * Response 404: { "error": { "code": "USER_NOT_FOUND" } } (also for deactivated or suspended accounts)
+ */
+app.get('/api/users/:userId/posts', authMiddleware, feedLimiter, userIdParamValidation, profilePostsQueryValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { before, limit } = req.query as { before?: string; limit?: number };
+
+  try {
+    const { posts } = await listProfilePosts(req.params.userId, req.user!.userId, {
+      before: before ? new Date(before) : undefined,
+      limit,
+    });
+    const last = posts[posts.length - 1];
+
+    res.status(200).json({
+      success: true,
+      data: {
+        posts: posts.map(toFeedPost),
+        nextBefore: last && posts.length === resolvePageSize(limit) ? last.createdAt.toISOString() : null,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof PostAudienceError) {
+      return sendPostAudienceError(res, error);
+    }
+
+    console.error('Profile posts error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'PROFILE_POSTS_FAILED' },
+    });
+  }
+});
+
+// ============================================================
+// SEARCH ROUTES
+// ============================================================
+
+/**
+ * GET /api/search
+ * Requires: Authorization header
+ * Rate limit: shares the feed limit (60 per minute per user)
+ * 
+ * Accounts matching the query by name or username prefix, and
+ * posts whose caption contains it (newest first, only those the viewer
+ * may see), with the posts' authors.
+ * 
+ * Query:
+ *   q      Search text, 1-100 characters
+ *   limit  Optional: results per type, 1-100 (default 20)
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "users": [{ "id": "user_...", "name": "Maya Chen", ... }],
+ *     "posts": [{ "id": "post_...", "user_id": "user_...", "caption": "...", ... }],
+ *     "authors": [{ "id": "user_...", ... }]
+ *   }
+ * }
+ */
+app.get('/api/search', authMiddleware, feedLimiter, searchQueryValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { q = '', limit } = req.query as { q?: string; limit?: number };
+
+  try {
+    const results = await searchContent(q, req.user!.userId, limit);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        users: results.users.map(user => toFeedUser(user)),
+        posts: results.posts.map(toFeedPost),
+        authors: results.authors.map(author => toFeedUser(author)),
+      },
+    });
+  } catch (error: any) {
+    console.error('Search error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'SEARCH_FAILED' },
+    });
+  }
+});
+
+// ============================================================
+// MODERATION ROUTES
+// ============================================================
+// Requires authentication + moderator or admin role
+
+/**
+ * GET /api/moderation/posts/deleted
+ * Requires: Authorization header, moderator or admin role
+ * 
+ * Soft-deleted posts, most recently deleted first.
+ * 
+ * Query:
+ *   limit  Optional: 1-100 (default 20)
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "posts": [{ "id": "post_...", "userId": "user_...", "deletedAt": "...", "deletedBy": "user_...", ... }]
+ *   }
+ * }
+ */
+app.get('/api/moderation/posts/deleted', authMiddleware, requireModerator, deletedPostsQueryValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { limit } = req.query as { limit?: number };
+
+  try {
+    const posts = await getRepositories().posts.listDeleted(limit);
+
+    res.status(200).json({
+      success: true,
+      data: { posts },
+    });
+  } catch (error: any) {
+    console.error('Deleted posts error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'DELETED_POSTS_FAILED' },
+    });
+  }
+});
+
+/**
+ * POST /api/moderation/posts/:postId/restore
+ * Requires: Authorization header, moderator or admin role
+ * 
+ * Brings back a soft-deleted post with its likes, comments and edit history.
+ * 
+ * Response 200: { "success": true, "data": { "id": "post_...", ... } }
+ * Response 404: { "error": { "code": "POST_NOT_FOUND" } }
+ * Response 409: { "error": { "code": "POST_NOT_DELETED" } }
+ */
+app.post('/api/moderation/posts/:postId/restore', authMiddleware, requireModerator, postIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const post = await restorePost(req.params.postId);
+
+    console.log(JSON.stringify({
+      type: 'post_restored',
+      timestamp: new Date().toISOString(),
+      moderatorId: req.user!.userId,
+      postId: post.id,
+      authorId: post.userId,
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: post,
+    });
+  } catch (error: any) {
+    if (error instanceof PostEditError) {
+      return sendPostEditError(res, error);
+    }
+
+    console.error('Post restore error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'POST_RESTORE_FAILED' },
+    });
+  }
+});
+
+// ============================================================
+// ADMIN ROUTES
+// ============================================================
+// Requires authentication + admin role
+
+/**
+ * GET /api/admin/security/two-factor
+ * Requires: Authorization header, admin role
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "requiredRoles": ["admin"] }
+ * }
+ */
+app.get('/api/admin/security/two-factor', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: { requiredRoles: await getTwoFactorRequiredRoles() },
+    });
+  } catch (error: any) {
+    console.error('2FA policy fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SETTINGS_FETCH_FAILED',
+        message: 'Failed to load settings. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * PUT /api/admin/security/two-factor
+ * Requires: Authorization header, admin role
+ * 
+ * Sets which privileged roles must use 2FA. Affected accounts that have
+ * not enrolled are refused by role-guarded routes until they do.
+ * 
+ * Body:
+ * {
+ *   "requiredRoles": ["admin", "moderator"]
+ * }
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "requiredRoles": ["moderator", "admin"] }
+ * }
+ */
+app.put('/api/admin/security/two-factor', authMiddleware, requireAdmin, twoFactorPolicyValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const previousRoles = await getTwoFactorRequiredRoles();
+    const requiredRoles = await setTwoFactorRequiredRoles(req.body.requiredRoles, req.user!.userId);
+
+    console.log(JSON.stringify({
+      type: 'two_factor_policy_updated',
+      timestamp: new Date().toISOString(),
+      adminId: req.user!.userId,
+      previousRoles,
+      requiredRoles,
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: { requiredRoles },
+    });
+  } catch (error: any) {
+    console.error('2FA policy update error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SETTINGS_UPDATE_FAILED',
+        message: 'Failed to update settings. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/admin/users/:userId/lockout
+ * Requires: Authorization header, admin role
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "failedAttempts": 2,
+ *     "locked": true,
+ *     "lockedUntil": "2024-01-01T12:15:00.000Z",
+ *     "retryAfterSeconds": 840,
+ *     "lockNotifications": [{ "lockedAt": "...", "lockedUntil": "...", "failedAttempts": 10, "ip": "..." }]
+ *   }
+ * }
+ */
+app.get('/api/admin/users/:userId/lockout', authMiddleware, requireAdmin, userIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const user = await findUserById(req.params.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'USER_NOT_FOUND', message: 'User not found' },
+      });
+    }
+
+    const status = await getLockoutStatus(user);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...status,
+        lockNotifications: user.lockNotifications || [],
+      },
+    });
+  } catch (error: any) {
+    console.error('Lockout status error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'LOCKOUT_STATUS_FAILED',
+        message: 'Failed to load lockout status. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/admin/users/:userId/unlock
+ * Requires: Authorization header, admin role
+ * 
+ * Lifts a lockout early and resets the failed login counters.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "wasLocked": true }
+ * }
+ */
+app.post('/api/admin/users/:userId/unlock', authMiddleware, requireAdmin, userIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const user = await findUserById(req.params.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'USER_NOT_FOUND', message: 'User not found' },
+      });
+    }
+
+    const wasLocked = await unlockAccount(user, req.user!.userId);
+
+    console.log(JSON.stringify({
+      type: 'account_unlocked',
+      timestamp: new Date().toISOString(),
+      adminId: req.user!.userId,
+      userId: user.id,
+      wasLocked,
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: { wasLocked },
+    });
+  } catch (error: any) {
+    console.error('Account unlock error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'UNLOCK_FAILED',
+        message: 'Failed to unlock account. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/admin/ranking-profiles
+ * Requires: Authorization header, admin role
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "profiles": [{
+ *       "name": "default",
+ *       "description": "Built-in anti-bias ranking",
+ *       "version": 3,
+ *       "active": true,
+ *       "parameters": {
+ *         "weights": { "underexposure_boost": 0.35, ..., "impression_decay": 0.1 },
+ *         "follower_cap": 250000,
+ *         "impression_cap": 100000,
+ *         "recency_decay_hours": 48,
+ *         "underexposed_visibility": 30,
+ *         "priority_slot_interval": 4,
+ *         "priority_slot_offset": 2
+ *       },
+ *       "updatedAt": "...",
+ *       "updatedBy": "user_..."
+ *     }]
+ *   }
+ * }
+ */
+app.get('/api/admin/ranking-profiles', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const profiles = await listRankingProfiles();
+
+    res.status(200).json({
+      success: true,
+      data: { profiles },
+    });
+  } catch (error: any) {
+    console.error('Ranking profile list error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'RANKING_PROFILES_FAILED',
+        message: 'Failed to load ranking profiles. Please try again.',
+      },
     });
   }
 });
 
-// ============================================================
-// CONTENT CREATION ROUTES
-// ============================================================
-// Requires authentication + rate limiting
-
 /**
- * Simplified auth middleware (placeholder)
- * Replace with your actual auth verification
+ * POST /api/admin/ranking-profiles
+ * Requires: Authorization header, admin role
+ * 
+ * Creates an inactive profile. Without parameters it copies the active one.
+ * 
+ * Body:
+ * {
+ *   "name": "fresh-voices",
+ *   "description": "Stronger under-exposure boost",
+ *   "parameters": { ... }   // Optional
+ * }
+ * 
+ * Response 201: { "success": true, "data": { "profile": { ... } } }
+ * Response 400: { "error": { "code": "INVALID_RANKING_PARAMETERS", "details": ["Weights must sum to 1 ..."] } }
+ * Response 409: { "error": { "code": "RANKING_PROFILE_EXISTS" } }
  */
-const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
-  const token = req.headers.authorization?.split(' ')[1];
-  if (!token) {
-    return res.status(401).json({
+app.post('/api/admin/ranking-profiles', authMiddleware, requireAdmin, createRankingProfileValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const profile = await createRankingProfile(
+      {
+        name: req.body.name,
+        description: req.body.description,
+        parameters: req.body.parameters,
+      },
+      req.user!.userId
+    );
+
+    console.log(JSON.stringify({
+      type: 'ranking_profile_created',
+      timestamp: new Date().toISOString(),
+      adminId: req.user!.userId,
+      profile: profile.name,
+      version: profile.version,
+    }));
+
+    res.status(201).json({
+      success: true,
+      data: { profile },
+    });
+  } catch (error: any) {
+    if (error instanceof RankingProfileError) {
+      return sendRankingProfileError(res, error);
+    }
+
+    console.error('Ranking profile create error:', error);
+    res.status(500).json({
       success: false,
-      error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+      error: {
+        code: 'RANKING_PROFILE_UPDATE_FAILED',
+        message: 'Failed to save ranking profile. Please try again.',
+      },
     });
   }
-
-  // TODO: Verify JWT and attach user to request
-  // req.user = decoded;
-
-  next();
-};
+});
 
 /**
- * POST /api/posts
- * Rate limit: 20 per minute per user
+ * PUT /api/admin/ranking-profiles/:name
+ * Requires: Authorization header, admin role
  * 
- * Headers:
- * Authorization: Bearer <token>
+ * Replaces a profile's parameters and bumps its version. Changes to the
+ * active profile apply to feeds ranked from now on.
  * 
  * Body:
  * {
- *   "caption": "This is my post",
- *   "mediaUrls": ["https://..."],
- *   "mentions": ["user_123", "user_456"]
+ *   "parameters": { ... },
+ *   "description": "...",     // Optional
+ *   "expectedVersion": 3      // Optional: reject if someone saved in between
  * }
  * 
- * Response 201:
- * {
- *   "success": true,
- *   "data": { "id": "post_...", "userId": "user_...", ... }
- * }
+ * Response 200: { "success": true, "data": { "profile": { "version": 4, ... } } }
+ * Response 400: { "error": { "code": "INVALID_RANKING_PARAMETERS", "details": [...] } }
+ * Response 404: { "error": { "code": "RANKING_PROFILE_NOT_FOUND" } }
+ * Response 409: { "error": { "code": "RANKING_PROFILE_VERSION_CONFLICT" } }
  */
-app.post('/api/posts', authMiddleware, createPostLimiter, createPostValidation, handleValidationErrors, async (req: Request, res: Response) => {
-  const { caption, mediaUrls, mentions } = req.body;
-
+app.put('/api/admin/ranking-profiles/:name', authMiddleware, requireAdmin, rankingProfileNameParamValidation, updateRankingProfileValidation, handleValidationErrors, async (req: Request, res: Response) => {
   try {
-    // TODO: Create post
-    // 1. Validate caption length
-    // 2. Upload media if provided
-    // 3. Store post in database
-    // 4. Create mentions
-    // 5. Notify mentioned users
+    const profile = await updateRankingProfile(
+      req.params.name,
+      {
+        parameters: req.body.parameters,
+        description: req.body.description,
+        expectedVersion: req.body.expectedVersion,
+      },
+      req.user!.userId
+    );
 
-    res.status(201).json({
+    console.log(JSON.stringify({
+      type: 'ranking_profile_updated',
+      timestamp: new Date().toISOString(),
+      adminId: req.user!.userId,
+      profile: profile.name,
+      version: profile.version,
+      active: profile.active,
+    }));
+
+    res.status(200).json({
       success: true,
-      data: {
-        id: 'post_123',
-        userId: 'user_123',
-        caption: caption,
-        mediaUrls: mediaUrls || [],
-        createdAt: new Date().toISOString(),
+      data: { profile },
+    });
+  } catch (error: any) {
+    if (error instanceof RankingProfileError) {
+      return sendRankingProfileError(res, error);
+    }
+
+    console.error('Ranking profile update error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'RANKING_PROFILE_UPDATE_FAILED',
+        message: 'Failed to save ranking profile. Please try again.',
       },
     });
+  }
+});
+
+/**
+ * POST /api/admin/ranking-profiles/:name/activate
+ * Requires: Authorization header, admin role
+ * 
+ * Makes the profile rank the home feed (the previous one is deactivated).
+ * Feeds already being scrolled keep their order until refreshed.
+ * 
+ * Response 200: { "success": true, "data": { "profile": { "active": true, ... } } }
+ * Response 404: { "error": { "code": "RANKING_PROFILE_NOT_FOUND" } }
+ */
+app.post('/api/admin/ranking-profiles/:name/activate', authMiddleware, requireAdmin, rankingProfileNameParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const profile = await activateRankingProfile(req.params.name, req.user!.userId);
+
+    console.log(JSON.stringify({
+      type: 'ranking_profile_activated',
+      timestamp: new Date().toISOString(),
+      adminId: req.user!.userId,
+      profile: profile.name,
+      version: profile.version,
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: { profile },
+    });
   } catch (error: any) {
-    console.error('Post creation error:', error);
+    if (error instanceof RankingProfileError) {
+      return sendRankingProfileError(res, error);
+    }
+
+    console.error('Ranking profile activate error:', error);
     res.status(500).json({
       success: false,
-      error: { code: 'POST_CREATION_FAILED' },
+      error: {
+        code: 'RANKING_PROFILE_UPDATE_FAILED',
+        message: 'Failed to activate ranking profile. Please try again.',
+      },
     });
   }
 });
 
 /**
- * POST /api/posts/:postId/comments
- * Rate limit: 50 per minute per user
+ * GET /api/admin/ranking-profiles/audit
+ * Requires: Authorization header, admin role
  * 
- * Body:
- * {
- *   "text": "Great post!"
- * }
+ * Query:
+ *   profile  Optional: only this profile's changes
+ *   limit    Optional: 1-100 (default 20)
  * 
- * Response 201:
+ * Response 200:
  * {
  *   "success": true,
- *   "data": { "id": "comment_...", "postId": "post_...", ... }
+ *   "data": {
+ *     "entries": [{
+ *       "id": "audit_...",
+ *       "profileName": "default",
+ *       "version": 4,
+ *       "action": "updated",          // created | updated | activated
+ *       "actorId": "user_...",
+ *       "previousParameters": { ... },
+ *       "parameters": { ... },
+ *       "createdAt": "..."
+ *     }]
+ *   }
  * }
  */
-app.post(
-  '/api/posts/:postId/comments',
-  authMiddleware,
-  createCommentLimiter,
-  createCommentValidation,
-  handleValidationErrors,
-  async (req: Request, res: Response) => {
-    const { postId } = req.params;
-    const { text } = req.body;
+app.get('/api/admin/ranking-profiles/audit', authMiddleware, requireAdmin, rankingProfileAuditQueryValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  const { profile, limit } = req.query as { profile?: string; limit?: number };
 
-    try {
-      // TODO: Create comment
-      // 1. Validate text
-      // 2. Check if post exists
-      // 3. Store comment
-      // 4. Notify post author
-      // 5. Update post comment count
+  try {
+    const entries = await listRankingProfileAudit({ profileName: profile, limit });
 
-      res.status(201).json({
-        success: true,
-        data: {
-          id: 'comment_123',
-          postId: postId,
-          userId: 'user_123',
-          text: text,
-          createdAt: new Date().toISOString(),
-        },
-      });
-    } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        error: { code: 'COMMENT_CREATION_FAILED' },
-      });
-    }
+    res.status(200).json({
+      success: true,
+      data: { entries },
+    });
+  } catch (error: any) {
+    console.error('Ranking profile audit error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'RANKING_PROFILES_FAILED',
+        message: 'Failed to load the ranking audit trail. Please try again.',
+      },
+    });
   }
-);
+});
 
 /**
- * POST /api/posts/:postId/like
- * Rate limit: 100 per minute per user
+ * GET /api/admin/experiments
+ * Requires: Authorization header, admin role
+ * 
+ * Feed ranking A/B experiments, newest first (see utils/experiments.ts).
  * 
  * Response 200:
  * {
  *   "success": true,
- *   "data": { "liked": true, "likeCount": 42 }
+ *   "data": {
+ *     "experiments": [{
+ *       "name": "fresh-voices-test",
+ *       "description": "...",
+ *       "status": "running",           // draft | running | stopped
+ *       "trafficPercent": 20,
+ *       "arms": [
+ *         { "name": "control", "profileName": "default", "weight": 50 },
+ *         { "name": "treatment", "profileName": "fresh-voices", "weight": 50 }
+ *       ],
+ *       "createdBy": "user_...",
+ *       "createdAt": "...",
+ *       "startedAt": "..."
+ *     }]
+ *   }
  * }
  */
-app.post('/api/posts/:postId/like', authMiddleware, likeLimiter, postIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
-  const { postId } = req.params;
-
+app.get('/api/admin/experiments', authMiddleware, requireAdmin, async (req: Request, res: Response) => {
   try {
-    // TODO: Toggle like
-    // 1. Check if already liked
-    // 2. Add/remove like
-    // 3. Update like count
-    // 4. Notify post author
+    const experiments = await listExperiments();
 
     res.status(200).json({
       success: true,
-      data: {
-        liked: true,
-        likeCount: 42,
-      },
+      data: { experiments },
     });
   } catch (error: any) {
+    console.error('Experiment list error:', error);
     res.status(500).json({
       success: false,
-      error: { code: 'LIKE_FAILED' },
+      error: {
+        code: 'EXPERIMENTS_FAILED',
+        message: 'Failed to load experiments. Please try again.',
+      },
     });
   }
 });
 
-// ============================================================
-// USER PROFILE ROUTES
-// ============================================================
-
 /**
- * PATCH /api/users/me
- * Rate limit: 20 per hour per user
+ * POST /api/admin/experiments
+ * Requires: Authorization header, admin role
+ * 
+ * Creates a draft. The first arm is the baseline the read-out compares
+ * the others against.
  * 
  * Body:
  * {
- *   "displayName": "New Name",
- *   "bio": "Updated bio",
- *   "avatar": "https://..."
+ *   "name": "fresh-voices-test",
+ *   "description": "Stronger under-exposure boost",   // Optional
+ *   "trafficPercent": 20,
+ *   "arms": [
+ *     { "name": "control", "profileName": "default", "weight": 50 },
+ *     { "name": "treatment", "profileName": "fresh-voices", "weight": 50 }
+ *   ]
  * }
  * 
- * Response 200:
- * {
- *   "success": true,
- *   "data": { "id": "...", "displayName": "...", ... }
- * }
+ * Response 201: { "success": true, "data": { "experiment": { "status": "draft", ... } } }
+ * Response 400: { "error": { "code": "INVALID_EXPERIMENT", "details": ["Arm \"treatment\": ranking profile ... not found"] } }
+ * Response 409: { "error": { "code": "EXPERIMENT_EXISTS" } }
  */
-app.patch(
-  '/api/users/me',
-  authMiddleware,
-  updateProfileLimiter,
-  updateProfileValidation,
-  handleValidationErrors,
-  async (req: Request, res: Response) => {
-    const { displayName, bio, avatar } = req.body;
+app.post('/api/admin/experiments', authMiddleware, requireAdmin, createExperimentValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const experiment = await createExperiment(
+      {
+        name: req.body.name,
+        description: req.body.description,
+        trafficPercent: req.body.trafficPercent,
+        arms: req.body.arms,
+      },
+      req.user!.userId
+    );
 
-    try {
-      // TODO: Update profile
-      // 1. Validate input
-      // 2. Upload avatar if provided
-      // 3. Update user record
-      // 4. Return updated user
+    console.log(JSON.stringify({
+      type: 'experiment_created',
+      timestamp: new Date().toISOString(),
+      adminId: req.user!.userId,
+      experiment: experiment.name,
+      arms: experiment.arms,
+      trafficPercent: experiment.trafficPercent,
+    }));
 
-      res.status(200).json({
-        success: true,
-        data: {
-          id: 'user_123',
-          displayName: displayName,
-          bio: bio,
-          avatar: avatar,
-        },
-      });
-    } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        error: { code: 'PROFILE_UPDATE_FAILED' },
-      });
+    res.status(201).json({
+      success: true,
+      data: { experiment },
+    });
+  } catch (error: any) {
+    if (error instanceof ExperimentError) {
+      return sendExperimentError(res, error);
     }
+
+    console.error('Experiment create error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'EXPERIMENT_UPDATE_FAILED',
+        message: 'Failed to save experiment. Please try again.',
+      },
+    });
   }
-);
+});
 
 /**
- * GET /api/users/:userId
- * Public profile (not rate limited per user)
+ * POST /api/admin/experiments/:name/start
+ * Requires: Authorization header, admin role
+ * 
+ * Only drafts start, and only one experiment runs at a time. Enrolled
+ * users get their arm's ranking from their next fresh feed.
+ * 
+ * Response 200: { "success": true, "data": { "experiment": { "status": "running", ... } } }
+ * Response 404: { "error": { "code": "EXPERIMENT_NOT_FOUND" } }
+ * Response 409: { "error": { "code": "EXPERIMENT_ALREADY_RUNNING" } }
+ * Response 409: { "error": { "code": "EXPERIMENT_STATUS_CONFLICT" } } (not a draft)
  */
-app.get('/api/users/:userId', userIdParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
-  const { userId } = req.params;
+app.post('/api/admin/experiments/:name/start', authMiddleware, requireAdmin, experimentNameParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const experiment = await startExperiment(req.params.name);
 
+    console.log(JSON.stringify({
+      type: 'experiment_started',
+      timestamp: new Date().toISOString(),
+      adminId: req.user!.userId,
+      experiment: experiment.name,
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: { experiment },
+    });
+  } catch (error: any) {
+    if (error instanceof ExperimentError) {
+      return sendExperimentError(res, error);
+    }
+
+    console.error('Experiment start error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'EXPERIMENT_UPDATE_FAILED',
+        message: 'Failed to start experiment. Please try again.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/admin/experiments/:name/stop
+ * Requires: Authorization header, admin role
+ * 
+ * Stopping is final: enrolled users go back to the active profile from
+ * their next fresh feed, and the read-out stays available.
+ * 
+ * Response 200: { "success": true, "data": { "experiment": { "status": "stopped", ... } } }
+ * Response 404: { "error": { "code": "EXPERIMENT_NOT_FOUND" } }
+ * Response 409: { "error": { "code": "EXPERIMENT_STATUS_CONFLICT" } } (not running)
+ */
+app.post('/api/admin/experiments/:name/stop', authMiddleware, requireAdmin, experimentNameParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
   try {
-    // TODO: Get public user profile
+    const experiment = await stopExperiment(req.params.name);
+
+    console.log(JSON.stringify({
+      type: 'experiment_stopped',
+      timestamp: new Date().toISOString(),
+      adminId: req.user!.userId,
+      experiment: experiment.name,
+    }));
 
     res.status(200).json({
       success: true,
-      data: {
-        id: userId,
-        displayName: 'User Name',
-        bio: 'User bio',
-        avatar: 'https://...',
-        followerCount: 100,
-        followingCount: 50,
+      data: { experiment },
+    });
+  } catch (error: any) {
+    if (error instanceof ExperimentError) {
+      return sendExperimentError(res, error);
+    }
+
+    console.error('Experiment stop error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'EXPERIMENT_UPDATE_FAILED',
+        message: 'Failed to stop experiment. Please try again.',
       },
     });
+  }
+});
+
+/**
+ * GET /api/admin/experiments/:name/readout
+ * Requires: Authorization header, admin role
+ * 
+ * Engagement and exposure fairness per arm. Rates and shares are 0-1;
+ * versusBaseline is the difference from the first arm.
+ * 
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "experiment": { "name": "fresh-voices-test", "status": "running", ... },
+ *     "baseline": "control",
+ *     "arms": [{
+ *       "arm": "treatment",
+ *       "profileName": "fresh-voices",
+ *       "weight": 50,
+ *       "sessions": 812,
+ *       "impressions": 9650,
+ *       "impressionsPerSession": 11.9,
+ *       "likes": 402,
+ *       "comments": 57,
+ *       "engagementRate": 0.048,
+ *       "fairness": { "authors": 310, "gini": 0.41, "top1PercentShare": 0.06, "underexposedShare": 0.33 },
+ *       "versusBaseline": { "engagementRate": -0.002, "gini": -0.08, ... }   // null for the baseline
+ *     }]
+ *   }
+ * }
+ * 
+ * Response 404: { "error": { "code": "EXPERIMENT_NOT_FOUND" } }
+ */
+app.get('/api/admin/experiments/:name/readout', authMiddleware, requireAdmin, experimentNameParamValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const readout = await getExperimentReadout(req.params.name);
+
+    res.status(200).json({
+      success: true,
+      data: readout,
+    });
   } catch (error: any) {
+    if (error instanceof ExperimentError) {
+      return sendExperimentError(res, error);
+    }
+
+    console.error('Experiment readout error:', error);
     res.status(500).json({
       success: false,
-      error: { code: 'USER_NOT_FOUND' },
+      error: {
+        code: 'EXPERIMENTS_FAILED',
+        message: 'Failed to load the experiment read-out. Please try again.',
+      },
     });
   }
 });
@@ -627,7 +3449,8 @@ app.use((err: any, req: Request, res: Response, next: NextFunction) => {
   console.error('Unhandled error:', err);
 
   const statusCode = err.status || 500;
-  const errorCode = err.code || 'INTERNAL_ERROR';
+  // Body parsers reject oversized requests (JSON bodies, media uploads) with a type, not a code
+  const errorCode = err.code || (err.type === 'entity.too.large' ? 'PAYLOAD_TOO_LARGE' : 'INTERNAL_ERROR');
   const message = err.message || 'An unexpected error occurred';
 
   res.status(statusCode).json({
@@ -644,6 +3467,42 @@ app.use((err: any, req: Request, res: Response, next: NextFunction) => {
 // SERVER START
 // ============================================================
 
+/**
+ * Load deterministic sample data on startup (SEED_DATA=<seed number>)
+ *
+ * Memory driver only: a Postgres database is seeded once with
+ * `npm run db:seed` rather than on every start.
+ */
+async function seedOnStartup(): Promise<void> {
+  const seedValue = process.env.SEED_DATA;
+  if (!seedValue) {
+    return;
+  }
+
+  const repositories = getRepositories();
+  if (NODE_ENV === 'production' || repositories.driver !== 'memory') {
+    console.warn('⚠️  SEED_DATA ignored: only supported with the memory driver outside production');
+    return;
+  }
+
+  try {
+    const seed = parseSeedNumber(seedValue);
+    const summary = await seedRepositories(repositories, generateSeedData({ seed }), {
+      password: process.env.SEED_PASSWORD,
+    });
+    console.log(
+      `🌱 Seed ${seed}: ${summary.users} users, ${summary.posts} posts, ${summary.stories} stories ` +
+        `(log in as ${summary.sampleEmail})`
+    );
+  } catch (error) {
+    console.error('Seeding error:', error);
+  }
+}
+
+// Score against the seeded data when there is some
+void seedOnStartup().then(() => startVisibilityJob());
+startUploadCleanupJob();
+
 const server = app.listen(PORT, () => {
   console.log(`
 ╔════════════════════════════════════════════╗
@@ -654,10 +3513,14 @@ const server = app.listen(PORT, () => {
 🔧 Environment: ${NODE_ENV}
 🛡️  Rate Limiting: ✅ ENABLED
 📊 Health Check: /health
+🗄️  Database: ${getRepositories().driver}
+🔑 Signing Keys: ${SIGNING_KEYS.map(key => `${key.kid} (${key.status})`).join(', ')}
 
 ✅ Protected Routes:
-   • Authentication (5 limiters)
+   • Authentication (8 limiters)
    • Content Creation (4 limiters)
+   • Feed (1 limiter)
+   • Impressions (1 limiter)
    • User Profiles (1 limiter)
    • Global Fallback (1000/hour)
 
@@ -671,7 +3534,8 @@ Type 'exit' to stop the server.
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received. Shutting down gracefully...');
-  server.close(() => {
+  server.close(async () => {
+    await closePool();
     console.log('Server closed');
     process.exit(0);
   });
@@ -679,7 +3543,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received. Shutting down gracefully...');
-  server.close(() => {
+  server.close(async () => {
+    await closePool();
     console.log('Server closed');
     process.exit(0);
   });
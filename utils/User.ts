@@ -24,6 +24,7 @@ export interface User {
 
   // Optional profile information
   displayName?: string;
+  username?: string; // Unique handle
   avatar?: string;
   bio?: string;
   location?: string;
@@ -32,6 +33,13 @@ export interface User {
   // Role-based access control
   role: UserRole;
 
+  // Reach (used by feed ranking)
+  followersCount?: number; // Denormalized follower count
+  followingCount?: number;
+  visibilityScore?: number; // 0-100, low = under-exposed
+  recentImpressions?: number; // Decaying count of recent views of the user's content
+  impressionsDecayedAt?: Date; // When recentImpressions was last decayed
+
   // Account status
   isActive: boolean;
   isSuspended?: boolean;
@@ -46,6 +54,29 @@ export interface User {
   verifiedEmail?: boolean;
   emailVerifiedAt?: Date;
   phoneNumber?: string;
+
+  // Two-factor authentication (see utils/twoFactor.ts)
+  twoFactorEnabled?: boolean;
+  twoFactorEnabledAt?: Date;
+  twoFactorSecret?: string; // Base32 TOTP secret
+  twoFactorPendingSecret?: string; // Secret awaiting confirmation during enrolment
+  twoFactorLastUsedStep?: number; // Last accepted TOTP time step (replay protection)
+  recoveryCodeHashes?: string[]; // Argon2 hashes of unused recovery codes
+
+  // Account lockout history (see utils/accountLockout.ts)
+  lockNotifications?: AccountLockNotification[];
+}
+
+/**
+ * Recorded on the account each time too many failed logins lock it
+ */
+export interface AccountLockNotification {
+  lockedAt: Date;
+  lockedUntil: Date;
+  failedAttempts: number;
+  ip?: string; // Client IP of the attempt that triggered the lock
+  unlockedAt?: Date; // Set when an admin lifts the lock early
+  unlockedBy?: string; // Admin user ID
 }
 
 /**
@@ -55,7 +86,9 @@ export interface CreateUserInput {
   email: string;
   passwordHash: string;
   displayName?: string;
+  username?: string;
   role?: UserRole; // Defaults to 'user'
+  createdAt?: Date; // Defaults to now (seed data sets it explicitly)
 }
 
 /**
@@ -80,6 +113,7 @@ export interface UserResponse {
   id: string;
   email: string;
   displayName?: string;
+  username?: string;
   avatar?: string;
   bio?: string;
   location?: string;
@@ -87,6 +121,8 @@ export interface UserResponse {
   role: UserRole;
   isActive: boolean;
   isSuspended?: boolean;
+  verifiedEmail: boolean;
+  twoFactorEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
   lastLoginAt?: Date;
@@ -109,6 +145,9 @@ export interface JWTPayload {
   email: string;
   role: UserRole;
   type: 'access' | 'refresh';
+  jti?: string; // Unique token ID
+  fid?: string; // Refresh token family ID (refresh tokens only)
+  sid?: string; // Session ID = refresh token family ID (access tokens only)
   iat: number;
   exp: number;
 }
@@ -133,6 +172,7 @@ export function userToResponse(user: User): UserResponse {
     id: user.id,
     email: user.email,
     displayName: user.displayName,
+    username: user.username,
     avatar: user.avatar,
     bio: user.bio,
     location: user.location,
@@ -140,6 +180,8 @@ export function userToResponse(user: User): UserResponse {
     role: user.role,
     isActive: user.isActive,
     isSuspended: user.isSuspended,
+    verifiedEmail: !!user.verifiedEmail,
+    twoFactorEnabled: !!user.twoFactorEnabled,
     createdAt: user.createdAt,
     updatedAt: user.updatedAt,
     lastLoginAt: user.lastLoginAt,
@@ -155,6 +197,27 @@ export function isValidUserRole(role: any): role is UserRole {
   return typeof role === 'string' && ['user', 'moderator', 'admin'].includes(role);
 }
 
+/**
+ * Higher rank includes all permissions of lower ranks
+ * (admin can do everything a moderator can)
+ */
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2,
+};
+
+/**
+ * Check whether a role meets a minimum role requirement
+ *
+ * @param role - Role of the current user
+ * @param minimumRole - Lowest role allowed
+ * @returns boolean
+ */
+export function hasMinimumRole(role: UserRole, minimumRole: UserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
 /**
  * Get role display name
  * @param role - User role
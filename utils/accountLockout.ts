@@ -0,0 +1,247 @@
+/**
+ * Account Lockout - Per-account failed login tracking
+ *
+ * loginLimiter (middleware/rateLimiters.ts) limits guesses per IP, which an
+ * attacker can sidestep by rotating IPs. This module counts failed
+ * passwords and second-factor codes (utils/twoFactor.ts) per ACCOUNT,
+ * wherever they come from:
+ *
+ *   failures 1-3   no delay
+ *   failures 4-9   exponential back-off: 1s, 2s, 4s ... before the next try
+ *   failure 10     account locked for 15 minutes
+ *
+ * The counter resets on a successful login (after the second factor, for
+ * accounts with 2FA) or after an hour without failures.
+ * When a lock starts it is recorded on the account (lockNotifications), and
+ * admins can lift it early with unlockAccount().
+ *
+ * Counters are keyed by a hash of the normalized email, so unknown emails
+ * behave exactly like real accounts (no account enumeration) and raw
+ * addresses are never written to Redis.
+ *
+ * Storage: Redis in production (REDIS_URL), memory otherwise.
+ * See utils/keyValueStore.ts. `npm run db:check-lockout` checks that locks,
+ * unlocks and resets on one server instance take effect on the others.
+ *
+ * Environment Variables:
+ * - LOCKOUT_FREE_ATTEMPTS (default: 3) - failures before back-off starts
+ * - LOCKOUT_THRESHOLD (default: 10) - failures that lock the account
+ * - LOCKOUT_DURATION_MINUTES (default: 15)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import crypto from 'crypto';
+import type { AccountLockNotification, User } from './User';
+import { getKeyValueStore } from './keyValueStore';
+import { updateUser } from './userStore';
+
+const store = getKeyValueStore('lockout:');
+
+const FAILURE_WINDOW_SECONDS = 60 * 60;
+const MAX_BACKOFF_SECONDS = 5 * 60;
+const MAX_LOCK_NOTIFICATIONS = 20;
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function getLockoutConfig() {
+  return {
+    freeAttempts: readPositiveInt(process.env.LOCKOUT_FREE_ATTEMPTS, 3),
+    threshold: readPositiveInt(process.env.LOCKOUT_THRESHOLD, 10),
+    lockSeconds: readPositiveInt(process.env.LOCKOUT_DURATION_MINUTES, 15) * 60,
+  };
+}
+
+/**
+ * Result of a lockout check
+ */
+export interface LoginThrottleStatus {
+  allowed: boolean;
+  reason?: 'locked' | 'backoff';
+  retryAfterSeconds: number;
+  lockedUntil?: Date;
+}
+
+/**
+ * Current lockout state of an account (admin view)
+ */
+export interface LockoutStatus {
+  failedAttempts: number;
+  locked: boolean;
+  lockedUntil?: Date;
+  retryAfterSeconds: number;
+}
+
+function accountKey(email: string): string {
+  return crypto.createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
+
+function secondsUntil(timestampMs: number): number {
+  return Math.max(0, Math.ceil((timestampMs - Date.now()) / 1000));
+}
+
+/**
+ * Check whether a login attempt for this email may proceed
+ * Call before verifying the password.
+ *
+ * @param email - Email from the login form
+ */
+export async function checkLoginAllowed(email: string): Promise<LoginThrottleStatus> {
+  const key = accountKey(email);
+
+  const lockedUntil = parseInt((await store.get(`lock:${key}`)) || '0', 10);
+  if (lockedUntil > Date.now()) {
+    return {
+      allowed: false,
+      reason: 'locked',
+      retryAfterSeconds: secondsUntil(lockedUntil),
+      lockedUntil: new Date(lockedUntil),
+    };
+  }
+
+  const nextAttemptAt = parseInt((await store.get(`next:${key}`)) || '0', 10);
+  if (nextAttemptAt > Date.now()) {
+    return {
+      allowed: false,
+      reason: 'backoff',
+      retryAfterSeconds: secondsUntil(nextAttemptAt),
+    };
+  }
+
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Record a failed password or second-factor code and apply back-off / lock
+ *
+ * @param email - Email from the login form
+ * @param context - Matching account (if any) and client IP, for the lock notification
+ * @returns Status for the NEXT attempt
+ */
+export async function recordFailedLogin(
+  email: string,
+  context: { user?: User; ip?: string } = {}
+): Promise<LoginThrottleStatus & { failedAttempts: number }> {
+  const { freeAttempts, threshold, lockSeconds } = getLockoutConfig();
+  const key = accountKey(email);
+
+  const failedAttempts = await store.increment(`fails:${key}`, FAILURE_WINDOW_SECONDS);
+
+  if (failedAttempts >= threshold) {
+    const lockedUntil = Date.now() + lockSeconds * 1000;
+
+    await store.set(`lock:${key}`, String(lockedUntil), lockSeconds);
+    await store.delete(`fails:${key}`);
+    await store.delete(`next:${key}`);
+
+    console.warn(JSON.stringify({
+      type: 'account_locked',
+      timestamp: new Date().toISOString(),
+      userId: context.user?.id || null,
+      failedAttempts,
+      lockedUntil: new Date(lockedUntil).toISOString(),
+      ip: context.ip,
+    }));
+
+    if (context.user) {
+      await recordLockNotification(context.user, {
+        lockedAt: new Date(),
+        lockedUntil: new Date(lockedUntil),
+        failedAttempts,
+        ip: context.ip,
+      });
+    }
+
+    return {
+      allowed: false,
+      reason: 'locked',
+      retryAfterSeconds: lockSeconds,
+      lockedUntil: new Date(lockedUntil),
+      failedAttempts,
+    };
+  }
+
+  if (failedAttempts > freeAttempts) {
+    const delaySeconds = Math.min(2 ** (failedAttempts - freeAttempts - 1), MAX_BACKOFF_SECONDS);
+    await store.set(`next:${key}`, String(Date.now() + delaySeconds * 1000), delaySeconds);
+
+    return {
+      allowed: false,
+      reason: 'backoff',
+      retryAfterSeconds: delaySeconds,
+      failedAttempts,
+    };
+  }
+
+  return { allowed: true, retryAfterSeconds: 0, failedAttempts };
+}
+
+/**
+ * Reset the counters after a successful login
+ *
+ * @param email - Email of the account
+ */
+export async function clearFailedLogins(email: string): Promise<void> {
+  const key = accountKey(email);
+  await store.delete(`fails:${key}`);
+  await store.delete(`next:${key}`);
+}
+
+/**
+ * Get the lockout state of an account
+ *
+ * @param user - Account to inspect
+ */
+export async function getLockoutStatus(user: User): Promise<LockoutStatus> {
+  const key = accountKey(user.email);
+
+  const failedAttempts = parseInt((await store.get(`fails:${key}`)) || '0', 10);
+  const lockedUntil = parseInt((await store.get(`lock:${key}`)) || '0', 10);
+  const locked = lockedUntil > Date.now();
+
+  return {
+    failedAttempts,
+    locked,
+    lockedUntil: locked ? new Date(lockedUntil) : undefined,
+    retryAfterSeconds: locked ? secondsUntil(lockedUntil) : 0,
+  };
+}
+
+/**
+ * Lift a lock and reset the counters (admin action)
+ * The most recent lock notification is marked as unlocked.
+ *
+ * @param user - Account to unlock
+ * @param adminId - Admin performing the action
+ * @returns Whether the account was locked
+ */
+export async function unlockAccount(user: User, adminId: string): Promise<boolean> {
+  const { locked } = await getLockoutStatus(user);
+  const key = accountKey(user.email);
+
+  await store.delete(`lock:${key}`);
+  await clearFailedLogins(user.email);
+
+  const notifications = user.lockNotifications || [];
+  const latest = notifications[notifications.length - 1];
+  if (locked && latest && !latest.unlockedAt) {
+    await updateUser(user.id, {
+      lockNotifications: [
+        ...notifications.slice(0, -1),
+        { ...latest, unlockedAt: new Date(), unlockedBy: adminId },
+      ],
+    });
+  }
+
+  return locked;
+}
+
+async function recordLockNotification(user: User, notification: AccountLockNotification): Promise<void> {
+  const notifications = [...(user.lockNotifications || []), notification];
+  await updateUser(user.id, {
+    lockNotifications: notifications.slice(-MAX_LOCK_NOTIFICATIONS),
+  });
+}
@@ -0,0 +1,284 @@
+/**
+ * Admin API Service - Admin-only endpoints
+ *
+ * All calls require an access token for an admin account.
+ *
+ * @usage
+ * import { adminAPI } from '@/utils/adminAPI';
+ *
+ * const { requiredRoles } = await adminAPI.getTwoFactorPolicy();
+ * await adminAPI.updateTwoFactorPolicy(['admin', 'moderator']);
+ * await adminAPI.unlockUser('user_123');
+ * await adminAPI.updateRankingProfile('default', parameters, profile.version);
+ * const readout = await adminAPI.getExperimentReadout('fresh-voices-test');
+ */
+
+import { apiClient } from '@/utils/apiClient';
+import type { RankingParameters } from '@/utils/feedAlgorithm';
+
+export type PrivilegedRole = 'moderator' | 'admin';
+
+export interface TwoFactorPolicy {
+  requiredRoles: PrivilegedRole[];
+}
+
+export interface AccountLockNotification {
+  lockedAt: string;
+  lockedUntil: string;
+  failedAttempts: number;
+  ip?: string;
+  unlockedAt?: string;
+  unlockedBy?: string;
+}
+
+export interface LockoutStatus {
+  failedAttempts: number;
+  locked: boolean;
+  lockedUntil?: string;
+  retryAfterSeconds: number;
+  lockNotifications: AccountLockNotification[];
+}
+
+export interface RankingProfile {
+  name: string;
+  description: string;
+  version: number;
+  parameters: RankingParameters;
+  active: boolean; // Ranks the home feed
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface RankingProfileAuditEntry {
+  id: string;
+  profileName: string;
+  version: number;
+  action: 'created' | 'updated' | 'activated';
+  actorId: string;
+  previousParameters?: RankingParameters;
+  parameters: RankingParameters;
+  createdAt: string;
+}
+
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+export interface ExperimentArm {
+  name: string;
+  profileName: string; // Ranking profile for users in this arm
+  weight: number; // Relative share of enrolled users
+}
+
+export interface Experiment {
+  name: string;
+  description: string;
+  status: ExperimentStatus;
+  trafficPercent: number; // Share of users enrolled
+  arms: ExperimentArm[]; // The first arm is the baseline
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  stoppedAt?: string;
+}
+
+export interface ExperimentArmReadout {
+  arm: string;
+  profileName: string;
+  weight: number;
+  sessions: number;
+  impressions: number;
+  impressionsPerSession: number;
+  likes: number;
+  comments: number;
+  engagementRate: number; // (likes + comments) / impressions
+  fairness: {
+    authors: number;
+    gini: number; // 0 = even exposure, 1 = one account gets everything
+    top1PercentShare: number;
+    underexposedShare: number;
+  };
+  versusBaseline: {
+    impressionsPerSession: number;
+    engagementRate: number;
+    gini: number;
+    top1PercentShare: number;
+    underexposedShare: number;
+  } | null; // null for the baseline arm
+}
+
+export interface ExperimentReadout {
+  experiment: Experiment;
+  baseline: string;
+  arms: ExperimentArmReadout[];
+}
+
+/**
+ * Admin API Service
+ */
+class AdminAPI {
+  /**
+   * Roles that must use two-factor authentication
+   */
+  async getTwoFactorPolicy(): Promise<TwoFactorPolicy> {
+    return apiClient.get<TwoFactorPolicy>('/api/admin/security/two-factor');
+  }
+
+  /**
+   * Require two-factor authentication for privileged roles
+   *
+   * @param requiredRoles - Roles that must use 2FA (empty to require none)
+   * @returns The saved policy
+   */
+  async updateTwoFactorPolicy(requiredRoles: PrivilegedRole[]): Promise<TwoFactorPolicy> {
+    return apiClient.put<TwoFactorPolicy>('/api/admin/security/two-factor', { requiredRoles });
+  }
+
+  /**
+   * Failed login counters, current lock and lock history of an account
+   *
+   * @param userId - Account to inspect
+   */
+  async getLockoutStatus(userId: string): Promise<LockoutStatus> {
+    return apiClient.get<LockoutStatus>(`/api/admin/users/${encodeURIComponent(userId)}/lockout`);
+  }
+
+  /**
+   * Lift a login lockout early
+   *
+   * @param userId - Account to unlock
+   * @returns Whether the account was locked
+   */
+  async unlockUser(userId: string): Promise<{ wasLocked: boolean }> {
+    return apiClient.post<{ wasLocked: boolean }>(`/api/admin/users/${encodeURIComponent(userId)}/unlock`);
+  }
+
+  /**
+   * All feed ranking profiles (exactly one is active)
+   */
+  async getRankingProfiles(): Promise<RankingProfile[]> {
+    const { profiles } = await apiClient.get<{ profiles: RankingProfile[] }>('/api/admin/ranking-profiles');
+    return profiles;
+  }
+
+  /**
+   * Create an inactive ranking profile
+   *
+   * @param name - 2-40 lowercase letters, digits or dashes
+   * @param parameters - Omit to copy the active profile
+   */
+  async createRankingProfile(
+    name: string,
+    parameters?: RankingParameters,
+    description?: string
+  ): Promise<RankingProfile> {
+    const { profile } = await apiClient.post<{ profile: RankingProfile }>('/api/admin/ranking-profiles', {
+      name,
+      parameters,
+      description,
+    });
+    return profile;
+  }
+
+  /**
+   * Replace a profile's parameters
+   *
+   * @param expectedVersion - Version the edit is based on; the server rejects
+   *   the save if someone else changed the profile in between
+   * @returns The profile with its new version
+   */
+  async updateRankingProfile(
+    name: string,
+    parameters: RankingParameters,
+    expectedVersion?: number
+  ): Promise<RankingProfile> {
+    const { profile } = await apiClient.put<{ profile: RankingProfile }>(
+      `/api/admin/ranking-profiles/${encodeURIComponent(name)}`,
+      { parameters, expectedVersion }
+    );
+    return profile;
+  }
+
+  /**
+   * Rank the home feed with this profile from now on
+   */
+  async activateRankingProfile(name: string): Promise<RankingProfile> {
+    const { profile } = await apiClient.post<{ profile: RankingProfile }>(
+      `/api/admin/ranking-profiles/${encodeURIComponent(name)}/activate`
+    );
+    return profile;
+  }
+
+  /**
+   * Ranking profile changes, newest first
+   *
+   * @param options.profile - Only this profile's changes
+   */
+  async getRankingProfileAudit(options: { profile?: string; limit?: number } = {}): Promise<RankingProfileAuditEntry[]> {
+    const params = new URLSearchParams();
+    if (options.profile) params.set('profile', options.profile);
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const query = params.toString();
+    const { entries } = await apiClient.get<{ entries: RankingProfileAuditEntry[] }>(
+      `/api/admin/ranking-profiles/audit${query ? `?${query}` : ''}`
+    );
+    return entries;
+  }
+
+  /**
+   * Feed ranking experiments, newest first
+   */
+  async getExperiments(): Promise<Experiment[]> {
+    const { experiments } = await apiClient.get<{ experiments: Experiment[] }>('/api/admin/experiments');
+    return experiments;
+  }
+
+  /**
+   * Create a draft experiment
+   *
+   * @param input.trafficPercent - Share of users enrolled (1-100)
+   * @param input.arms - 2-5 arms; the first is the baseline
+   */
+  async createExperiment(input: {
+    name: string;
+    description?: string;
+    trafficPercent: number;
+    arms: ExperimentArm[];
+  }): Promise<Experiment> {
+    const { experiment } = await apiClient.post<{ experiment: Experiment }>('/api/admin/experiments', input);
+    return experiment;
+  }
+
+  /**
+   * Start a draft (only one experiment runs at a time)
+   */
+  async startExperiment(name: string): Promise<Experiment> {
+    const { experiment } = await apiClient.post<{ experiment: Experiment }>(
+      `/api/admin/experiments/${encodeURIComponent(name)}/start`
+    );
+    return experiment;
+  }
+
+  /**
+   * Stop a running experiment for good
+   */
+  async stopExperiment(name: string): Promise<Experiment> {
+    const { experiment } = await apiClient.post<{ experiment: Experiment }>(
+      `/api/admin/experiments/${encodeURIComponent(name)}/stop`
+    );
+    return experiment;
+  }
+
+  /**
+   * Engagement and exposure fairness per arm, compared with the baseline
+   */
+  async getExperimentReadout(name: string): Promise<ExperimentReadout> {
+    return apiClient.get<ExperimentReadout>(`/api/admin/experiments/${encodeURIComponent(name)}/readout`);
+  }
+}
+
+// Export singleton instance
+export const adminAPI = new AdminAPI();
+
+export default adminAPI;
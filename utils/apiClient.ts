@@ -15,6 +15,13 @@
  * 
  * // DELETE with auth
  * await apiClient.delete('/api/admin/users/123');
+ * 
+ * // Upload a file (or a chunk of one) with progress
+ * const status = await apiClient.upload(`/api/media/uploads/${uploadId}`, chunk, {
+ *   method: 'PUT',
+ *   headers: { 'Content-Range': `bytes 0-${chunk.size - 1}/${size}` },
+ *   onProgress: p => setProgress(p),
+ * });
  */
 
 import { storage } from './storage';
@@ -28,6 +35,12 @@ interface ApiResponse<T = any> {
   };
 }
 
+interface UploadOptions {
+  method?: 'POST' | 'PUT'; // Default POST
+  headers?: Record<string, string>; // Content-Type defaults to application/octet-stream
+  onProgress?: (progress: number) => void; // Fraction sent so far (0 to 1)
+}
+
 interface ApiClientConfig {
   baseUrl?: string;
   timeout?: number;
@@ -97,6 +110,7 @@ class APIClient {
       method,
       headers,
       body: options?.body ? JSON.stringify(options.body) : undefined,
+      credentials: 'include', // Send httpOnly refresh token cookie
       signal: AbortSignal.timeout(this.timeout),
     };
 
@@ -209,6 +223,65 @@ class APIClient {
     return response.data as T;
   }
 
+  /**
+   * Upload a file as the raw request body
+   *
+   * Uses XMLHttpRequest rather than fetch, which cannot report upload progress.
+   */
+  async upload<T>(path: string, file: Blob, options: UploadOptions = {}, retry = true): Promise<T> {
+    const { method = 'POST', headers = {}, onProgress } = options;
+    const token = await this.getAccessToken();
+
+    const { status, body } = await new Promise<{ status: number; body: ApiResponse<T> | null }>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(method, this.baseUrl + path);
+      // Set each header once: XMLHttpRequest appends repeated values instead of replacing them
+      Object.entries({ 'Content-Type': 'application/octet-stream', ...headers }).forEach(([name, value]) =>
+        xhr.setRequestHeader(name, value)
+      );
+      if (token) {
+        xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+      }
+      xhr.withCredentials = true;
+      // Uploads of large videos outlast the usual request timeout
+      xhr.timeout = this.timeout * 10;
+
+      xhr.upload.onprogress = event => {
+        if (event.lengthComputable && onProgress) {
+          onProgress(event.loaded / event.total);
+        }
+      };
+      xhr.onload = () => {
+        let parsed: ApiResponse<T> | null = null;
+        try {
+          parsed = JSON.parse(xhr.responseText);
+        } catch {
+          // Not JSON (e.g. a proxy error page)
+        }
+        resolve({ status: xhr.status, body: parsed });
+      };
+      xhr.onerror = () => reject(new Error('Network request failed'));
+      xhr.ontimeout = () => reject(new Error('Request timeout'));
+
+      xhr.send(file);
+    });
+
+    if (status === 401) {
+      if (this.onUnauthorized && retry) {
+        await this.onUnauthorized();
+        return this.upload<T>(path, file, options, false);
+      }
+      await this.clearAccessToken();
+      throw new Error('Unauthorized');
+    }
+
+    if (!body?.success) {
+      throw new Error(body?.error?.message || `HTTP ${status}`);
+    }
+    onProgress?.(1);
+    return body.data as T;
+  }
+
   /**
    * Set custom unauthorized handler
    */
@@ -229,4 +302,4 @@ export const apiClient = new APIClient({
   baseUrl: process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000',
 });
 
-export type { ApiResponse, ApiClientConfig };
+export type { ApiResponse, ApiClientConfig, UploadOptions };
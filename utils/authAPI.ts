@@ -8,6 +8,9 @@
  * 
  * // Login
  * const response = await authAPI.login('user@example.com', 'password');
+ * if ('twoFactorRequired' in response) {
+ *   await authAPI.verifyTwoFactor(response.challengeToken, code);
+ * }
  * 
  * // Refresh token
  * const newToken = await authAPI.refreshToken();
@@ -16,6 +19,8 @@
  * await authAPI.logout();
  */
 
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
 import { apiClient } from '@/utils/apiClient';
 
 export interface LoginResponse {
@@ -24,6 +29,40 @@ export interface LoginResponse {
   role: 'user' | 'moderator' | 'admin';
   accessToken: string;
   expiresIn: number; // in seconds
+  twoFactorSetupRequired?: boolean; // Role requires 2FA but it is not set up yet
+}
+
+/**
+ * Returned by login instead of tokens when the account has 2FA enabled
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number; // in seconds
+  methods: ('totp' | 'recovery_code')[];
+}
+
+/**
+ * A device/browser the user is logged in on
+ */
+export interface Session {
+  id: string;
+  deviceName: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean; // The session making the request
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string; // Render as QR code
+}
+
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[];
 }
 
 export interface RefreshTokenResponse {
@@ -31,6 +70,14 @@ export interface RefreshTokenResponse {
   expiresIn: number;
 }
 
+/**
+ * Name shown for this device in the sessions list
+ */
+function getDeviceHeaders(): Record<string, string> {
+  const deviceName = Constants.deviceName || `${Platform.OS} device`;
+  return { 'X-Device-Name': deviceName };
+}
+
 /**
  * Auth API Service
  */
@@ -40,14 +87,65 @@ class AuthAPI {
    * 
    * @param email - User email
    * @param password - User password
-   * @returns Login response with token and user data
+   * @returns Login response with token and user data,
+   *          or a 2FA challenge to answer with verifyTwoFactor()
    * @throws Error if login fails
    */
-  async login(email: string, password: string): Promise<LoginResponse> {
-    return apiClient.post<LoginResponse>('/auth/login', {
-      email,
-      password,
-    });
+  async login(email: string, password: string): Promise<LoginResponse | TwoFactorChallengeResponse> {
+    return apiClient.post<LoginResponse | TwoFactorChallengeResponse>(
+      '/api/auth/login',
+      { email, password },
+      getDeviceHeaders()
+    );
+  }
+
+  /**
+   * Complete login with a TOTP or recovery code
+   * 
+   * @param challengeToken - Token from the login response
+   * @param code - 6-digit code from the authenticator app, or a recovery code
+   * @returns Login response with token and user data
+   * @throws Error if the code is wrong or the challenge expired
+   */
+  async verifyTwoFactor(challengeToken: string, code: string): Promise<LoginResponse> {
+    return apiClient.post<LoginResponse>(
+      '/api/auth/2fa/verify',
+      { challengeToken, code },
+      getDeviceHeaders()
+    );
+  }
+
+  /**
+   * Start 2FA enrolment (requires authentication)
+   * 
+   * @returns Secret and otpauth:// URI for the QR code
+   */
+  async setupTwoFactor(): Promise<TwoFactorSetupResponse> {
+    return apiClient.post<TwoFactorSetupResponse>('/api/auth/2fa/setup');
+  }
+
+  /**
+   * Finish 2FA enrolment with the first code from the authenticator app
+   * 
+   * @param code - 6-digit code
+   * @returns Recovery codes - show them to the user once
+   */
+  async confirmTwoFactor(code: string): Promise<RecoveryCodesResponse> {
+    return apiClient.post<RecoveryCodesResponse>('/api/auth/2fa/confirm', { code });
+  }
+
+  /**
+   * Replace recovery codes (requires a current code)
+   */
+  async regenerateRecoveryCodes(code: string): Promise<RecoveryCodesResponse> {
+    return apiClient.post<RecoveryCodesResponse>('/api/auth/2fa/recovery-codes', { code });
+  }
+
+  /**
+   * Turn 2FA off (requires a current code)
+   */
+  async disableTwoFactor(code: string): Promise<{ message: string }> {
+    return apiClient.post('/api/auth/2fa/disable', { code });
   }
 
   /**
@@ -60,7 +158,7 @@ class AuthAPI {
    * @throws Error if refresh fails
    */
   async refreshToken(): Promise<RefreshTokenResponse> {
-    return apiClient.post<RefreshTokenResponse>('/auth/refresh');
+    return apiClient.post<RefreshTokenResponse>('/api/auth/refresh');
   }
 
   /**
@@ -75,13 +173,41 @@ class AuthAPI {
    */
   async logout(): Promise<void> {
     try {
-      await apiClient.post('/auth/logout');
+      await apiClient.post('/api/auth/logout');
     } catch (error) {
       // Logout should clear local state even if request fails
       console.error('Logout request failed:', error);
     }
   }
 
+  /**
+   * List the devices the user is logged in on (requires authentication)
+   * 
+   * @returns Sessions, most recently used first
+   */
+  async listSessions(): Promise<Session[]> {
+    const { sessions } = await apiClient.get<{ sessions: Session[] }>('/api/users/me/sessions');
+    return sessions;
+  }
+
+  /**
+   * Log out one session (requires authentication)
+   * 
+   * @param sessionId - Session to revoke
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await apiClient.delete(`/api/users/me/sessions/${encodeURIComponent(sessionId)}`);
+  }
+
+  /**
+   * Log out every session except this one (requires authentication)
+   * 
+   * @returns Number of sessions logged out
+   */
+  async logoutOtherSessions(): Promise<{ revoked: number }> {
+    return apiClient.post<{ revoked: number }>('/api/users/me/sessions/logout-others');
+  }
+
   /**
    * Verify token is still valid
    * 
@@ -101,7 +227,7 @@ class AuthAPI {
    * @throws Error if request fails
    */
   async requestPasswordReset(email: string): Promise<{ message: string }> {
-    return apiClient.post('/auth/password-reset-request', { email });
+    return apiClient.post('/api/auth/password-reset', { email });
   }
 
   /**
@@ -112,7 +238,7 @@ class AuthAPI {
    * @throws Error if reset fails
    */
   async resetPassword(token: string, newPassword: string): Promise<{ message: string }> {
-    return apiClient.post('/auth/password-reset', {
+    return apiClient.post('/api/auth/password-reset/confirm', {
       token,
       newPassword,
     });
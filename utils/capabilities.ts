@@ -0,0 +1,86 @@
+/**
+ * Account Capabilities
+ *
+ * Fine-grained actions a signed-in account may perform, independent of role.
+ * Accounts that have not verified their email get a reduced set so that
+ * throwaway registrations cannot spam content.
+ *
+ * Environment Variables:
+ * - UNVERIFIED_CAPABILITIES: comma-separated list granted to unverified
+ *   accounts (default: like,profile:update)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import type { User } from './User';
+
+/**
+ * Capabilities checked by requireCapability() in middleware/auth.ts
+ */
+export type Capability =
+  | 'post:create'
+  | 'comment:create'
+  | 'like'
+  | 'profile:update'
+  | 'message:send';
+
+export const ALL_CAPABILITIES: Capability[] = [
+  'post:create',
+  'comment:create',
+  'like',
+  'profile:update',
+  'message:send',
+];
+
+const DEFAULT_UNVERIFIED_CAPABILITIES: Capability[] = ['like', 'profile:update'];
+
+/**
+ * Check whether a string names a known capability
+ */
+export function isCapability(value: string): value is Capability {
+  return (ALL_CAPABILITIES as string[]).includes(value);
+}
+
+/**
+ * Capabilities granted to accounts with an unverified email
+ * Unknown names in UNVERIFIED_CAPABILITIES are ignored with a warning.
+ */
+export function getUnverifiedCapabilities(): Capability[] {
+  const configured = process.env.UNVERIFIED_CAPABILITIES;
+  if (configured === undefined) {
+    return DEFAULT_UNVERIFIED_CAPABILITIES;
+  }
+
+  return configured
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .filter(name => {
+      if (!isCapability(name)) {
+        console.warn(`Ignoring unknown capability in UNVERIFIED_CAPABILITIES: ${name}`);
+        return false;
+      }
+      return true;
+    }) as Capability[];
+}
+
+/**
+ * Resolve the capabilities of a user account
+ *
+ * @param user - User record
+ * @returns Capabilities the account currently has
+ */
+export function getCapabilities(user: User): Capability[] {
+  if (!user.isActive || user.isSuspended) {
+    return [];
+  }
+
+  return user.verifiedEmail ? ALL_CAPABILITIES : getUnverifiedCapabilities();
+}
+
+/**
+ * Check a single capability
+ */
+export function hasCapability(user: User, capability: Capability): boolean {
+  return getCapabilities(user).includes(capability);
+}
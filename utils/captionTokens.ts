@@ -0,0 +1,79 @@
+/**
+ * Caption Tokens - @mentions and #hashtags in post captions
+ *
+ * The composer finds the token being typed at the cursor to offer
+ * autocomplete, and swaps it for the chosen suggestion.
+ *
+ * @usage
+ * import { findActiveToken, replaceActiveToken } from '@/utils/captionTokens';
+ *
+ * const token = findActiveToken('Hi @ja', 6); // { trigger: '@', query: 'ja', start: 3, end: 6 }
+ * const { text, cursor } = replaceActiveToken('Hi @ja', token!, '@jane');
+ */
+
+export interface CaptionToken {
+  trigger: '@' | '#';
+  query: string; // Text after the trigger, typed so far
+  start: number; // Index of the trigger
+  end: number; // Index just past the token
+}
+
+const TOKEN_BODY = /^[A-Za-z0-9_.]*$/;
+const HASHTAG = /#([A-Za-z0-9_]+)/g;
+const MENTION = /@([A-Za-z0-9_.]+)/g;
+
+/**
+ * The mention or hashtag the cursor is in, if any
+ */
+export function findActiveToken(text: string, cursor: number): CaptionToken | null {
+  let start = cursor;
+  while (start > 0 && !/\s/.test(text[start - 1])) {
+    start--;
+  }
+
+  const trigger = text[start];
+  if (trigger !== '@' && trigger !== '#') {
+    return null;
+  }
+
+  const query = text.slice(start + 1, cursor);
+  if (!TOKEN_BODY.test(query)) {
+    return null;
+  }
+
+  return { trigger, query, start, end: cursor };
+}
+
+/**
+ * Replace the token with a completed mention or hashtag, followed by a space
+ *
+ * @returns The new caption and where the cursor goes
+ */
+export function replaceActiveToken(
+  text: string,
+  token: CaptionToken,
+  replacement: string
+): { text: string; cursor: number } {
+  const before = text.slice(0, token.start);
+  const after = text.slice(token.end).replace(/^\S*/, '');
+  const inserted = `${replacement} `;
+
+  return {
+    text: before + inserted + after.replace(/^ /, ''),
+    cursor: before.length + inserted.length,
+  };
+}
+
+/**
+ * Hashtags in a caption, lowercased, without the #
+ */
+export function extractHashtags(text: string): string[] {
+  return [...text.matchAll(HASHTAG)].map(match => match[1].toLowerCase());
+}
+
+/**
+ * Usernames mentioned in a caption, lowercased, without the @
+ */
+export function extractMentions(text: string): string[] {
+  return [...text.matchAll(MENTION)].map(match => match[1].toLowerCase());
+}
@@ -0,0 +1,55 @@
+/**
+ * Device Name - Human-readable label for a session's device
+ *
+ * Used when the client does not send an explicit X-Device-Name header.
+ * This is a best-effort label for the sessions screen ("Chrome on macOS"),
+ * not a security signal - user agents are trivially spoofed.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/Expo\/|okhttp\/|CFNetwork\//, 'Vairo app'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+  [/okhttp\//, 'Android'],
+  [/Darwin\//, 'iOS'],
+];
+
+function match(userAgent: string, patterns: [RegExp, string][]): string | undefined {
+  return patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+}
+
+/**
+ * Describe the device behind a user agent
+ *
+ * @param userAgent - User-Agent header
+ * @returns e.g. "Chrome on macOS", "Vairo app on Android", "Unknown device"
+ */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const platform = match(userAgent, PLATFORMS);
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+
+  return browser || platform || 'Unknown device';
+}
@@ -0,0 +1,143 @@
+/**
+ * Email Verification
+ *
+ * FLOW:
+ * 1. Registration (or resend) issues a signed token bound to user ID + email
+ * 2. The token is emailed as a link: <EMAIL_VERIFICATION_URL>?token=...
+ * 3. POST /api/auth/verify-email checks signature, expiry and that the token
+ *    is the user's latest one, then marks the email verified
+ *
+ * Tokens are single-use: the user's current token ID is kept in the
+ * key-value store and deleted on use. Issuing a new token (resend)
+ * supersedes any earlier link.
+ *
+ * Environment Variables:
+ * - EMAIL_VERIFICATION_EXPIRES_IN (default: 24h)
+ * - EMAIL_VERIFICATION_URL (default: <APP_URL>/verify-email)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import type { User } from './User';
+import { signPurposeToken, verifyPurposeToken } from './jwt';
+import { getKeyValueStore } from './keyValueStore';
+import { sendMail } from './mailer';
+import { findUserById, updateUser } from './userStore';
+
+const pendingTokens = getKeyValueStore('email-verify:');
+
+/**
+ * Error codes surfaced to the verification endpoints
+ */
+export type EmailVerificationErrorCode =
+  | 'INVALID_VERIFICATION_TOKEN'
+  | 'VERIFICATION_TOKEN_USED'
+  | 'EMAIL_ALREADY_VERIFIED';
+
+export class EmailVerificationError extends Error {
+  status = 400;
+  code: EmailVerificationErrorCode;
+
+  constructor(code: EmailVerificationErrorCode, message: string) {
+    super(message);
+    this.name = 'EmailVerificationError';
+    this.code = code;
+  }
+}
+
+function getVerificationUrl(token: string): string {
+  const baseUrl =
+    process.env.EMAIL_VERIFICATION_URL ||
+    `${process.env.APP_URL || 'http://localhost:8081'}/verify-email`;
+  return `${baseUrl}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Issue a new verification token and email it to the user
+ * Any previously issued link stops working.
+ *
+ * @param user - User whose email should be verified
+ * @throws EmailVerificationError if the email is already verified
+ */
+export async function sendVerificationEmail(user: User): Promise<void> {
+  if (user.verifiedEmail) {
+    throw new EmailVerificationError('EMAIL_ALREADY_VERIFIED', 'Email is already verified');
+  }
+
+  const { token, tokenId, expiresIn } = signPurposeToken(
+    'email_verification',
+    user.id,
+    { email: user.email },
+    process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h'
+  );
+
+  await pendingTokens.set(user.id, tokenId, expiresIn);
+
+  const link = getVerificationUrl(token);
+  const hours = Math.round(expiresIn / 3600);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your Vairo email address',
+    text:
+      `Hi ${user.displayName || 'there'},\n\n` +
+      `Confirm your email address to unlock posting and commenting on Vairo:\n\n` +
+      `${link}\n\n` +
+      `This link expires in ${hours} hours. If you didn't create an account, ignore this email.`,
+    html:
+      `<p>Hi ${user.displayName || 'there'},</p>` +
+      `<p>Confirm your email address to unlock posting and commenting on Vairo:</p>` +
+      `<p><a href="${link}">Verify email</a></p>` +
+      `<p>This link expires in ${hours} hours. If you didn't create an account, ignore this email.</p>`,
+  });
+}
+
+/**
+ * Consume a verification token and mark the user's email verified
+ *
+ * @param token - Token from the verification link
+ * @returns Updated user
+ * @throws EmailVerificationError if the token is invalid, expired, superseded or used
+ */
+export async function confirmEmailVerification(token: string): Promise<User> {
+  let payload;
+  try {
+    payload = verifyPurposeToken(token, 'email_verification');
+  } catch {
+    throw new EmailVerificationError(
+      'INVALID_VERIFICATION_TOKEN',
+      'Verification link is invalid or has expired'
+    );
+  }
+
+  const user = await findUserById(payload.sub);
+
+  // Token was issued for an address the account no longer uses
+  if (!user || user.email !== payload.email) {
+    throw new EmailVerificationError(
+      'INVALID_VERIFICATION_TOKEN',
+      'Verification link is invalid or has expired'
+    );
+  }
+
+  if (user.verifiedEmail) {
+    throw new EmailVerificationError('EMAIL_ALREADY_VERIFIED', 'Email is already verified');
+  }
+
+  const currentTokenId = await pendingTokens.get(user.id);
+  if (currentTokenId !== payload.jti) {
+    throw new EmailVerificationError(
+      'VERIFICATION_TOKEN_USED',
+      'This verification link has already been used or replaced by a newer one'
+    );
+  }
+
+  await pendingTokens.delete(user.id);
+
+  const updated = await updateUser(user.id, {
+    verifiedEmail: true,
+    emailVerifiedAt: new Date(),
+  });
+
+  return updated || user;
+}
@@ -0,0 +1,374 @@
+/**
+ * Experiments - A/B tests of feed ranking profiles
+ *
+ * An experiment splits users into arms, each ranked by its own ranking
+ * profile (utils/rankingProfiles.ts). At most one experiment runs at a
+ * time; users outside it, or outside its traffic share, get the active
+ * profile as usual.
+ *
+ * Bucketing is deterministic: sha256("<experiment>:<userId>") gives each
+ * user a fixed point in [0, 1). Users below trafficPercent are enrolled,
+ * and the same point picks their arm by weight, so a user stays in one arm
+ * for the whole experiment without any stored assignment. Salting with the
+ * experiment name reshuffles users between experiments.
+ *
+ * While an experiment runs, each arm collects:
+ * - sessions: fresh home feeds ranked for its users
+ * - impressions: home feed views by its users, per author (fairness)
+ * - underexposedImpressions: views of authors below the arm profile's
+ *   underexposed_visibility
+ * - likes and comments made by its users
+ *
+ * getExperimentReadout compares the arms: engagement per impression and
+ * the Gini coefficient / top-1% share of exposure across authors, the same
+ * fairness measures as the offline simulation (utils/feedSimulation.ts).
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import crypto from 'crypto';
+import { getRepositories } from '../database/repositories';
+import type { ExperimentArm, ExperimentCounter, ExperimentRecord } from '../database/repositories';
+import { giniCoefficient } from './feedSimulation';
+
+export const EXPERIMENT_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+export const MIN_EXPERIMENT_ARMS = 2;
+export const MAX_EXPERIMENT_ARMS = 5;
+
+/**
+ * Which experiment arm a response or impression belongs to
+ */
+export interface ExperimentRef {
+  name: string;
+  arm: string;
+}
+
+/**
+ * A user's enrollment in the running experiment
+ */
+export interface ExperimentAssignment {
+  experiment: ExperimentRecord;
+  arm: ExperimentArm;
+}
+
+export interface ExperimentFairness {
+  authors: number; // Authors seen at least once by the arm's users
+  gini: number; // 0 = perfectly even exposure, 1 = one account gets everything
+  top1PercentShare: number; // Share of impressions going to the top 1% of authors
+  underexposedShare: number; // Share of impressions going to under-exposed authors
+}
+
+export interface ExperimentArmReadout {
+  arm: string;
+  profileName: string;
+  weight: number;
+  sessions: number;
+  impressions: number;
+  impressionsPerSession: number;
+  likes: number;
+  comments: number;
+  engagementRate: number; // (likes + comments) / impressions
+  fairness: ExperimentFairness;
+  // Difference from the first (baseline) arm; null for the baseline itself
+  versusBaseline: {
+    impressionsPerSession: number;
+    engagementRate: number;
+    gini: number;
+    top1PercentShare: number;
+    underexposedShare: number;
+  } | null;
+}
+
+export interface ExperimentReadout {
+  experiment: ExperimentRecord;
+  baseline: string; // Name of the first arm
+  arms: ExperimentArmReadout[];
+}
+
+/**
+ * Error codes surfaced to the admin endpoints
+ */
+export type ExperimentErrorCode =
+  | 'INVALID_EXPERIMENT'
+  | 'EXPERIMENT_NOT_FOUND'
+  | 'EXPERIMENT_EXISTS'
+  | 'EXPERIMENT_ALREADY_RUNNING'
+  | 'EXPERIMENT_STATUS_CONFLICT';
+
+const ERROR_STATUS: Record<ExperimentErrorCode, number> = {
+  INVALID_EXPERIMENT: 400,
+  EXPERIMENT_NOT_FOUND: 404,
+  EXPERIMENT_EXISTS: 409,
+  EXPERIMENT_ALREADY_RUNNING: 409,
+  EXPERIMENT_STATUS_CONFLICT: 409,
+};
+
+/**
+ * Raised when an experiment cannot be created, started or stopped
+ */
+export class ExperimentError extends Error {
+  status: number;
+  code: ExperimentErrorCode;
+  details?: string[];
+
+  constructor(code: ExperimentErrorCode, message: string, details?: string[]) {
+    super(message);
+    this.name = 'ExperimentError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.details = details;
+  }
+}
+
+/**
+ * Fixed point in [0, 1) for a user within an experiment
+ */
+function bucketPoint(experimentName: string, userId: string): number {
+  const hash = crypto.createHash('sha256').update(`${experimentName}:${userId}`).digest();
+  return hash.readUInt32BE(0) / 2 ** 32;
+}
+
+/**
+ * The arm a user falls into, or null if outside the experiment's traffic
+ */
+export function assignArm(experiment: ExperimentRecord, userId: string): ExperimentArm | null {
+  const traffic = experiment.trafficPercent / 100;
+  const point = bucketPoint(experiment.name, userId);
+  if (point >= traffic) {
+    return null;
+  }
+
+  // Stretch the enrolled range back to [0, 1) and walk the weights
+  const position = (point / traffic) * experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let cumulative = 0;
+  for (const arm of experiment.arms) {
+    cumulative += arm.weight;
+    if (position < cumulative) {
+      return arm;
+    }
+  }
+  return experiment.arms[experiment.arms.length - 1];
+}
+
+/**
+ * The user's arm in the running experiment, if any
+ */
+export async function getExperimentAssignment(userId: string): Promise<ExperimentAssignment | null> {
+  const experiment = await getRepositories().experiments.findRunning();
+  if (!experiment) {
+    return null;
+  }
+
+  const arm = assignArm(experiment, userId);
+  return arm ? { experiment, arm } : null;
+}
+
+/**
+ * Add to the counters of the user's arm (no-op when not enrolled)
+ *
+ * Best-effort: a failure is logged, never raised, so measurement cannot
+ * break the feed, a like or a comment.
+ */
+export async function recordExperimentActivity(
+  userId: string,
+  counters: Partial<Record<ExperimentCounter, number>>
+): Promise<void> {
+  try {
+    const assignment = await getExperimentAssignment(userId);
+    if (assignment) {
+      await getRepositories().experiments.recordArmActivity(
+        assignment.experiment.name,
+        assignment.arm.name,
+        counters
+      );
+    }
+  } catch (error) {
+    console.error('Experiment activity error:', error);
+  }
+}
+
+/**
+ * Record home feed views by an enrolled user
+ *
+ * @param counts - authorId -> accepted impressions
+ */
+export async function recordExperimentImpressions(
+  assignment: ExperimentAssignment,
+  counts: Record<string, number>
+): Promise<void> {
+  const { experiments, rankingProfiles, users } = getRepositories();
+  const authorIds = Object.keys(counts);
+  if (authorIds.length === 0) {
+    return;
+  }
+
+  const profile = await rankingProfiles.findByName(assignment.arm.profileName);
+  const threshold = profile?.parameters.underexposed_visibility ?? 0;
+
+  let impressions = 0;
+  let underexposedImpressions = 0;
+  for (const author of await users.findByIds(authorIds)) {
+    impressions += counts[author.id];
+    if ((author.visibilityScore ?? 0) < threshold) {
+      underexposedImpressions += counts[author.id];
+    }
+  }
+
+  await experiments.recordArmActivity(
+    assignment.experiment.name,
+    assignment.arm.name,
+    { impressions, underexposedImpressions },
+    counts
+  );
+}
+
+export async function listExperiments(): Promise<ExperimentRecord[]> {
+  return getRepositories().experiments.list();
+}
+
+/**
+ * Create a draft experiment
+ *
+ * @throws ExperimentError if the name is taken, arm names repeat or a profile does not exist
+ */
+export async function createExperiment(
+  input: { name: string; description?: string; trafficPercent: number; arms: ExperimentArm[] },
+  actorId: string
+): Promise<ExperimentRecord> {
+  const { experiments, rankingProfiles } = getRepositories();
+
+  const errors: string[] = [];
+  const armNames = new Set<string>();
+  for (const arm of input.arms) {
+    if (armNames.has(arm.name)) {
+      errors.push(`Arm "${arm.name}" is listed more than once`);
+    }
+    armNames.add(arm.name);
+
+    if (!(await rankingProfiles.findByName(arm.profileName))) {
+      errors.push(`Arm "${arm.name}": ranking profile "${arm.profileName}" not found`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new ExperimentError('INVALID_EXPERIMENT', 'Experiment is not valid', errors);
+  }
+
+  if (await experiments.findByName(input.name)) {
+    throw new ExperimentError('EXPERIMENT_EXISTS', `Experiment "${input.name}" already exists`);
+  }
+
+  return experiments.create({
+    name: input.name,
+    description: input.description,
+    trafficPercent: input.trafficPercent,
+    arms: input.arms.map(arm => ({ name: arm.name, profileName: arm.profileName, weight: arm.weight })),
+    createdBy: actorId,
+  });
+}
+
+async function findExperimentOrThrow(name: string): Promise<ExperimentRecord> {
+  const experiment = await getRepositories().experiments.findByName(name);
+  if (!experiment) {
+    throw new ExperimentError('EXPERIMENT_NOT_FOUND', `Experiment "${name}" not found`);
+  }
+  return experiment;
+}
+
+/**
+ * Start a draft experiment
+ *
+ * @throws ExperimentError if missing, not a draft, or another experiment is running
+ */
+export async function startExperiment(name: string): Promise<ExperimentRecord> {
+  const experiment = await findExperimentOrThrow(name);
+  if (experiment.status !== 'draft') {
+    throw new ExperimentError('EXPERIMENT_STATUS_CONFLICT', `Experiment "${name}" is ${experiment.status}, only drafts can start`);
+  }
+
+  const running = await getRepositories().experiments.findRunning();
+  if (running) {
+    throw new ExperimentError('EXPERIMENT_ALREADY_RUNNING', `Experiment "${running.name}" is already running`);
+  }
+
+  const started = await getRepositories().experiments.transition(name, 'draft', 'running');
+  if (!started) {
+    throw new ExperimentError('EXPERIMENT_STATUS_CONFLICT', `Experiment "${name}" changed status, reload and try again`);
+  }
+  return started;
+}
+
+/**
+ * Stop a running experiment (its users go back to the active profile)
+ *
+ * @throws ExperimentError if missing or not running
+ */
+export async function stopExperiment(name: string): Promise<ExperimentRecord> {
+  const experiment = await findExperimentOrThrow(name);
+  const stopped = experiment.status === 'running'
+    ? await getRepositories().experiments.transition(name, 'running', 'stopped')
+    : undefined;
+
+  if (!stopped) {
+    throw new ExperimentError('EXPERIMENT_STATUS_CONFLICT', `Experiment "${name}" is not running`);
+  }
+  return stopped;
+}
+
+/**
+ * Engagement and fairness per arm, compared with the first arm
+ *
+ * @throws ExperimentError if the experiment does not exist
+ */
+export async function getExperimentReadout(name: string): Promise<ExperimentReadout> {
+  const experiment = await findExperimentOrThrow(name);
+  const stats = new Map((await getRepositories().experiments.getArmStats(name)).map(entry => [entry.arm, entry]));
+
+  const ratio = (value: number, total: number) => (total > 0 ? value / total : 0);
+
+  const arms = experiment.arms.map(arm => {
+    const entry = stats.get(arm.name);
+    const sessions = entry?.sessions ?? 0;
+    const impressions = entry?.impressions ?? 0;
+    const likes = entry?.likes ?? 0;
+    const comments = entry?.comments ?? 0;
+
+    const exposure = Object.values(entry?.exposure ?? {}).sort((a, b) => b - a);
+    const topCount = Math.max(1, Math.ceil(exposure.length * 0.01));
+
+    return {
+      arm: arm.name,
+      profileName: arm.profileName,
+      weight: arm.weight,
+      sessions,
+      impressions,
+      impressionsPerSession: ratio(impressions, sessions),
+      likes,
+      comments,
+      engagementRate: ratio(likes + comments, impressions),
+      fairness: {
+        authors: exposure.length,
+        gini: giniCoefficient(exposure),
+        top1PercentShare: ratio(exposure.slice(0, topCount).reduce((sum, value) => sum + value, 0), impressions),
+        underexposedShare: ratio(entry?.underexposedImpressions ?? 0, impressions),
+      },
+    };
+  });
+
+  const [baseline] = arms;
+  return {
+    experiment,
+    baseline: baseline.arm,
+    arms: arms.map((arm, index) => ({
+      ...arm,
+      versusBaseline: index === 0
+        ? null
+        : {
+            impressionsPerSession: arm.impressionsPerSession - baseline.impressionsPerSession,
+            engagementRate: arm.engagementRate - baseline.engagementRate,
+            gini: arm.fairness.gini - baseline.fairness.gini,
+            top1PercentShare: arm.fairness.top1PercentShare - baseline.fairness.top1PercentShare,
+            underexposedShare: arm.fairness.underexposedShare - baseline.fairness.underexposedShare,
+          },
+    })),
+  };
+}
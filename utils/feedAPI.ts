@@ -0,0 +1,98 @@
+/**
+ * Feed API Service - Ranked home feed
+ *
+ * @usage
+ * import { feedAPI } from '@/utils/feedAPI';
+ *
+ * const first = await feedAPI.getFeed();
+ * const next = await feedAPI.getFeed({ cursor: first.nextCursor });
+ * const why = await feedAPI.explainPost(first.posts[0].id);
+ * await feedAPI.recordImpressions([{ surface: 'feed', itemId: first.posts[0].id }]);
+ */
+
+import { apiClient } from '@/utils/apiClient';
+import type { Post, RankingExplanation, User } from '@/utils/feedAlgorithm';
+
+export interface FeedPage {
+  posts: Post[];
+  authors: User[]; // Authors of this page's posts
+  nextCursor: string | null; // null on the last page
+  rankedAt: string;
+  profile: RankingProfileRef; // Ranking profile version that ordered this feed
+  experiment: ExperimentRef | null; // A/B experiment arm the feed was ranked in
+}
+
+export interface RankingProfileRef {
+  name: string;
+  version: number;
+}
+
+export interface ExperimentRef {
+  name: string;
+  arm: string;
+}
+
+export interface FeedPostExplanation extends RankingExplanation {
+  post_id: string;
+  ranked_at: string;
+  profile: RankingProfileRef;
+  experiment: ExperimentRef | null;
+}
+
+export type ImpressionSurface = 'feed' | 'story' | 'reel';
+
+export interface ImpressionEvent {
+  surface: ImpressionSurface;
+  itemId: string; // Post ID (feed, reel) or story ID
+}
+
+export interface ImpressionResult {
+  accepted: number;
+  duplicates: number; // Already counted recently for this viewer
+  ignored: number; // Unknown items or the viewer's own content
+  experiment: ExperimentRef | null;
+}
+
+/**
+ * Feed API Service
+ */
+class FeedAPI {
+  /**
+   * Get a page of the home feed
+   *
+   * Without a cursor the server ranks a fresh feed; with the previous
+   * page's nextCursor it continues in the same order.
+   *
+   * @param options.cursor - nextCursor of the previous page
+   * @param options.limit - Page size (default 20)
+   */
+  async getFeed(options: { cursor?: string | null; limit?: number } = {}): Promise<FeedPage> {
+    const params = new URLSearchParams();
+    if (options.cursor) params.set('cursor', options.cursor);
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const query = params.toString();
+    return apiClient.get<FeedPage>(`/api/feed${query ? `?${query}` : ''}`);
+  }
+
+  /**
+   * Why a post is where it is in the current feed
+   *
+   * @param postId - Post from the most recently loaded feed
+   */
+  async explainPost(postId: string): Promise<FeedPostExplanation> {
+    return apiClient.get<FeedPostExplanation>(`/api/feed/posts/${encodeURIComponent(postId)}/explanation`);
+  }
+
+  /**
+   * Report items that were on screen (feeds visibility scores)
+   *
+   * @param events - 1-50 views; prefer useImpressions, which batches them
+   */
+  async recordImpressions(events: ImpressionEvent[]): Promise<ImpressionResult> {
+    return apiClient.post<ImpressionResult>('/api/impressions', { events });
+  }
+}
+
+// Export singleton instance
+export const feedAPI = new FeedAPI();
@@ -1,15 +1,27 @@
 // Feed algorithm utility functions
 
+export interface PostMedia {
+  url: string;
+  type: 'image' | 'video';
+  width?: number;
+  height?: number;
+  blurhash?: string; // Placeholder while loading
+  alt?: string; // Screen reader description
+}
+
 export interface Post {
   id: string;
   user_id: string;
   type: 'text' | 'image' | 'video';
   caption: string;
-  media_url?: string;
+  media_url?: string; // First attachment
+  media?: PostMedia[]; // All attachments in order (missing on older posts: use getPostMedia)
+  audience?: 'public' | 'followers' | 'close_friends' | 'only_me'; // Missing means public
   likes: number;
   comments: number;
   shares: number;
   created_at: string;
+  edited_at?: string; // Caption was edited (shown as "Edited")
   reach_score: number;
 }
 
@@ -30,8 +42,100 @@ export interface User {
   created_at: string;
 }
 
-interface RankedPost extends Post {
+export type RankingSignal =
+  | 'underexposure_boost'
+  | 'follower_balance'
+  | 'recency'
+  | 'engagement_quality'
+  | 'content_diversity'
+  | 'impression_decay';
+
+/**
+ * One weighted signal of a post's ranking score
+ */
+export interface RankingComponent {
+  signal: RankingSignal;
+  value: number; // Raw signal, 0-1
+  weight: number;
+  contribution: number; // value * weight
+}
+
+/**
+ * Why a post ranked where it did ("Why this post?")
+ */
+export interface RankingExplanation {
+  score: number; // Sum of all contributions
+  components: RankingComponent[];
+  underexposed: boolean; // Author's visibility_score is below underexposed_visibility
+  priority_slot: boolean; // Placed in a slot reserved for under-exposed authors
+  position: number; // 0-based position in the final feed
+}
+
+export interface RankedPost extends Post {
   ranking_score: number;
+  ranking_explanation?: RankingExplanation; // Only with { explain: true }
+}
+
+/**
+ * Tunable parameters of the algorithm (stored on the server as named
+ * ranking profiles, see utils/rankingProfiles.ts)
+ */
+export interface RankingParameters {
+  // The five blended signals must sum to 1; impression_decay is added on top
+  weights: Record<RankingSignal, number>;
+  follower_cap: number; // Followers at which follower_balance reaches 0
+  impression_cap: number; // Recent impressions at which impression_decay bottoms out
+  recency_decay_hours: number; // Recency falls to 1/e after this many hours
+  underexposed_visibility: number; // Authors below this visibility_score are under-exposed
+  priority_slot_interval: number; // One slot in every N is reserved for under-exposed authors...
+  priority_slot_offset: number; // ...at this 0-based position within each group of N
+  // Feed mix, enforced over every run of diversity_window consecutive posts
+  diversity_window: number;
+  author_cap: number; // Most posts any one author may have in a window
+  min_followed_per_window: number; // Posts from accounts the viewer follows (or their own)...
+  min_discovery_per_window: number; // ...and from accounts they don't follow
+}
+
+export const DEFAULT_RANKING_PARAMETERS: RankingParameters = {
+  weights: {
+    underexposure_boost: 0.35,
+    follower_balance: 0.25,
+    recency: 0.20,
+    engagement_quality: 0.15,
+    content_diversity: 0.05,
+    impression_decay: 0.1,
+  },
+  follower_cap: 250000,
+  impression_cap: 100000,
+  recency_decay_hours: 48,
+  underexposed_visibility: 30,
+  priority_slot_interval: 4,
+  priority_slot_offset: 2,
+  diversity_window: 10,
+  author_cap: 2,
+  min_followed_per_window: 3,
+  min_discovery_per_window: 2,
+};
+
+export const BLENDED_SIGNALS: RankingSignal[] = [
+  'underexposure_boost',
+  'follower_balance',
+  'recency',
+  'engagement_quality',
+  'content_diversity',
+];
+
+export interface RankFeedOptions {
+  // Reference time for recency (default: now). Pin it to rank a feed
+  // snapshot the same way on every page.
+  now?: Date;
+  // Attach a ranking_explanation to every ranked post
+  explain?: boolean;
+  // Profile parameters (default: DEFAULT_RANKING_PARAMETERS)
+  parameters?: RankingParameters;
+  // Accounts the viewer follows, plus the viewer. Enables the
+  // followed / discovery mix; without it only the author cap applies.
+  followedIds?: ReadonlySet<string>;
 }
 
 /**
@@ -48,16 +152,22 @@ interface RankedPost extends Post {
  * 4. Still considers engagement quality (diverse interactions)
  *
  * The result: A more democratic feed where new voices get heard.
+ *
+ * After scoring, interleavePrioritySlots arranges the feed. Every window
+ * of diversity_window consecutive posts is guaranteed to have:
+ * - At most author_cap posts by any one author, priority slots included,
+ *   so one prolific author cannot flood the feed.
+ * - At least min_followed_per_window posts from followed accounts and
+ *   min_discovery_per_window from others (with followedIds), for as long
+ *   as the author cap leaves such posts to place.
+ * Priority slots go to under-exposed authors whenever one is allowed in
+ * that position.
+ *
+ * Once only capped authors are left (e.g. one author dominates a small
+ * feed), their remaining posts follow in rank order at the end. Nothing is
+ * dropped; windows that reach into this tail are exempt from the above.
  */
 
-const WEIGHTS = {
-  UNDEREXPOSURE_BOOST: 0.35,
-  FOLLOWER_BALANCE: 0.25,
-  RECENCY: 0.20,
-  ENGAGEMENT_QUALITY: 0.15,
-  CONTENT_DIVERSITY: 0.05,
-};
-
 function calculateUnderexposureBoost(user: User): number {
   const maxVisibility = 100;
   const inversedVisibility = maxVisibility - user.visibility_score;
@@ -65,23 +175,20 @@ function calculateUnderexposureBoost(user: User): number {
   return normalizedBoost;
 }
 
-function calculateFollowerBalance(user: User): number {
-  const maxFollowers = 250000;
+function calculateFollowerBalance(user: User, maxFollowers: number): number {
   const followerPenalty = Math.min(user.followers_count / maxFollowers, 1);
   return 1 - followerPenalty;
 }
 
-function calculateImpressionDecay(user: User): number {
-  const maxImpressions = 100000;
+function calculateImpressionDecay(user: User, maxImpressions: number): number {
   const impressionPenalty = Math.min(user.recent_impressions / maxImpressions, 1);
   return 1 - (impressionPenalty * 0.8);
 }
 
-function calculateRecencyScore(post: Post): number {
-  const now = new Date();
+function calculateRecencyScore(post: Post, now: Date, decayHours: number): number {
   const postDate = new Date(post.created_at);
   const hoursAgo = (now.getTime() - postDate.getTime()) / (1000 * 60 * 60);
-  const decayFactor = Math.exp(-hoursAgo / 48);
+  const decayFactor = Math.exp(-hoursAgo / decayHours);
   return decayFactor;
 }
 
@@ -100,7 +207,14 @@ function calculateContentDiversity(post: Post, recentTypes: string[]): number {
   return diversityScore;
 }
 
-export function rankFeedPosts(posts: Post[], getUserById?: (id: string) => User | undefined): Post[] {
+export function rankFeedPosts(
+  posts: Post[],
+  getUserById?: (id: string) => User | undefined,
+  options: RankFeedOptions = {}
+): RankedPost[] {
+  const now = options.now || new Date();
+  const parameters = options.parameters || DEFAULT_RANKING_PARAMETERS;
+  const { weights } = parameters;
   const recentTypes: string[] = [];
 
   const rankedPosts: RankedPost[] = posts.map(post => {
@@ -111,9 +225,9 @@ export function rankFeedPosts(posts: Post[], getUserById?: (id: string) => User
     }
 
     const underexposureBoost = calculateUnderexposureBoost(user);
-    const followerBalance = calculateFollowerBalance(user);
-    const impressionDecay = calculateImpressionDecay(user);
-    const recencyScore = calculateRecencyScore(post);
+    const followerBalance = calculateFollowerBalance(user, parameters.follower_cap);
+    const impressionDecay = calculateImpressionDecay(user, parameters.impression_cap);
+    const recencyScore = calculateRecencyScore(post, now, parameters.recency_decay_hours);
     const engagementQuality = calculateEngagementQuality(post, user);
     const contentDiversity = calculateContentDiversity(post, recentTypes);
 
@@ -121,49 +235,214 @@ export function rankFeedPosts(posts: Post[], getUserById?: (id: string) => User
     if (recentTypes.length > 5) recentTypes.shift();
 
     const ranking_score =
-      (underexposureBoost * WEIGHTS.UNDEREXPOSURE_BOOST) +
-      (followerBalance * WEIGHTS.FOLLOWER_BALANCE) +
-      (recencyScore * WEIGHTS.RECENCY) +
-      (engagementQuality * WEIGHTS.ENGAGEMENT_QUALITY) +
-      (contentDiversity * WEIGHTS.CONTENT_DIVERSITY) +
-      (impressionDecay * 0.1);
-
-    return { ...post, ranking_score };
+      (underexposureBoost * weights.underexposure_boost) +
+      (followerBalance * weights.follower_balance) +
+      (recencyScore * weights.recency) +
+      (engagementQuality * weights.engagement_quality) +
+      (contentDiversity * weights.content_diversity) +
+      (impressionDecay * weights.impression_decay);
+
+    if (!options.explain) {
+      return { ...post, ranking_score };
+    }
+
+    const component = (signal: RankingSignal, value: number): RankingComponent => ({
+      signal,
+      value,
+      weight: weights[signal],
+      contribution: value * weights[signal],
+    });
+
+    return {
+      ...post,
+      ranking_score,
+      ranking_explanation: {
+        score: ranking_score,
+        components: [
+          component('underexposure_boost', underexposureBoost),
+          component('follower_balance', followerBalance),
+          component('recency', recencyScore),
+          component('engagement_quality', engagementQuality),
+          component('content_diversity', contentDiversity),
+          component('impression_decay', impressionDecay),
+        ],
+        underexposed: user.visibility_score < parameters.underexposed_visibility,
+        priority_slot: false, // Set by interleavePrioritySlots
+        position: -1,
+      },
+    };
   });
 
   rankedPosts.sort((a, b) => b.ranking_score - a.ranking_score);
 
-  return interleavePrioritySlots(rankedPosts, getUserById);
+  return interleavePrioritySlots(rankedPosts, parameters, getUserById, options.followedIds);
 }
 
-function interleavePrioritySlots(posts: RankedPost[], getUserById?: (id: string) => User | undefined): Post[] {
-  const result: Post[] = [];
+function interleavePrioritySlots(
+  posts: RankedPost[],
+  parameters: RankingParameters,
+  getUserById?: (id: string) => User | undefined,
+  followedIds?: ReadonlySet<string>
+): RankedPost[] {
+  const result: RankedPost[] = [];
+  const threshold = parameters.underexposed_visibility;
+  const window = parameters.diversity_window;
   const underexposedPosts = posts.filter(p => {
     const user = getUserById?.(p.user_id);
-    return user && user.visibility_score < 30;
+    return user && user.visibility_score < threshold;
   });
   const regularPosts = posts.filter(p => {
     const user = getUserById?.(p.user_id);
-    return user && user.visibility_score >= 30;
+    return user && user.visibility_score >= threshold;
   });
 
-  let underIdx = 0;
-  let regularIdx = 0;
-
-  for (let i = 0; i < posts.length; i++) {
-    if (i % 4 === 2 && underIdx < underexposedPosts.length) {
-      result.push(underexposedPosts[underIdx]);
-      underIdx++;
-    } else if (regularIdx < regularPosts.length) {
-      result.push(regularPosts[regularIdx]);
-      regularIdx++;
-    } else if (underIdx < underexposedPosts.length) {
-      result.push(underexposedPosts[underIdx]);
-      underIdx++;
+  const isFollowed = (post: Post) => followedIds!.has(post.user_id);
+
+  while (underexposedPosts.length + regularPosts.length > 0) {
+    const i = result.length;
+
+    // The window this post completes (the first window while the feed is shorter)
+    const windowStart = Math.max(0, i - window + 1);
+    const placed = result.slice(windowStart);
+    const slotsAfter = windowStart + window - 1 - i;
+
+    const authorCounts = new Map<string, number>();
+    for (const post of placed) {
+      authorCounts.set(post.user_id, (authorCounts.get(post.user_id) ?? 0) + 1);
     }
+    const allowed = (post: Post) => (authorCounts.get(post.user_id) ?? 0) < parameters.author_cap;
+
+    // Must this post be followed (true) or discovery (false) to keep the mix?
+    let required: boolean | undefined;
+    if (followedIds) {
+      const followed = placed.filter(isFollowed).length;
+      if (followed + slotsAfter < parameters.min_followed_per_window) {
+        required = true;
+      } else if (placed.length - followed + slotsAfter < parameters.min_discovery_per_window) {
+        required = false;
+      }
+    }
+
+    const prioritySlot = i % parameters.priority_slot_interval === parameters.priority_slot_offset;
+    const queues = prioritySlot ? [underexposedPosts, regularPosts] : [regularPosts, underexposedPosts];
+
+    const pick = (fits: (post: Post) => boolean) => {
+      for (const queue of queues) {
+        const index = queue.findIndex(fits);
+        if (index !== -1) {
+          return { queue, post: queue.splice(index, 1)[0] };
+        }
+      }
+      return undefined;
+    };
+
+    // The mix gives way when the required kind has run out; the cap only
+    // once every remaining post is capped, for the tail after the arranged part
+    const picked =
+      (required !== undefined ? pick(post => allowed(post) && isFollowed(post) === required) : undefined) ??
+      pick(allowed);
+    if (!picked) {
+      const leftover = [...regularPosts, ...underexposedPosts].sort((a, b) => b.ranking_score - a.ranking_score);
+      result.push(...leftover);
+      break;
+    }
+
+    const { queue, post } = picked;
+    result.push(prioritySlot && queue === underexposedPosts && post.ranking_explanation
+      ? { ...post, ranking_explanation: { ...post.ranking_explanation, priority_slot: true } }
+      : post);
   }
 
-  return result;
+  return result.map((post, position) => post.ranking_explanation
+    ? { ...post, ranking_explanation: { ...post.ranking_explanation, position } }
+    : post);
+}
+
+/**
+ * Check ranking parameters before they are saved to a profile
+ *
+ * @returns Human-readable problems (empty when valid)
+ */
+export function validateRankingParameters(parameters: any): string[] {
+  const errors: string[] = [];
+
+  if (!parameters || typeof parameters !== 'object') {
+    return ['Parameters must be an object'];
+  }
+
+  const weights = parameters.weights;
+  if (!weights || typeof weights !== 'object') {
+    errors.push('weights must be an object');
+  } else {
+    const signals = Object.keys(DEFAULT_RANKING_PARAMETERS.weights) as RankingSignal[];
+    for (const key of Object.keys(weights)) {
+      if (!signals.includes(key as RankingSignal)) {
+        errors.push(`Unknown weight: ${key}`);
+      }
+    }
+    for (const signal of signals) {
+      const weight = weights[signal];
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > 1) {
+        errors.push(`weights.${signal} must be a number from 0 to 1`);
+      }
+    }
+    if (errors.length === 0) {
+      const blended = BLENDED_SIGNALS.reduce((sum, signal) => sum + weights[signal], 0);
+      if (Math.abs(blended - 1) > 0.001) {
+        errors.push(`The ${BLENDED_SIGNALS.length} blended weights must sum to 1 (currently ${blended.toFixed(3)})`);
+      }
+      if (weights.impression_decay > 0.5) {
+        errors.push('weights.impression_decay must be at most 0.5');
+      }
+    }
+  }
+
+  const integer = (key: keyof RankingParameters, min: number, max: number) => {
+    const value = parameters[key];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${key} must be a whole number from ${min} to ${max}`);
+    }
+  };
+
+  integer('follower_cap', 1, 1000000000);
+  integer('impression_cap', 1, 1000000000);
+  integer('underexposed_visibility', 0, 100);
+  integer('priority_slot_interval', 2, 20);
+  integer('diversity_window', 2, 50);
+
+  const window = Number.isInteger(parameters.diversity_window) ? parameters.diversity_window : 0;
+  const windowShare = (key: keyof RankingParameters, min: number) => {
+    const value = parameters[key];
+    if (!Number.isInteger(value) || value < min || value > window) {
+      errors.push(`${key} must be a whole number from ${min} to diversity_window`);
+    }
+  };
+
+  windowShare('author_cap', 1);
+  windowShare('min_followed_per_window', 0);
+  windowShare('min_discovery_per_window', 0);
+  if (parameters.min_followed_per_window + parameters.min_discovery_per_window > window) {
+    errors.push('min_followed_per_window and min_discovery_per_window together must fit in diversity_window');
+  }
+
+  const decay = parameters.recency_decay_hours;
+  if (typeof decay !== 'number' || !Number.isFinite(decay) || decay < 1 || decay > 720) {
+    errors.push('recency_decay_hours must be from 1 to 720');
+  }
+
+  const offset = parameters.priority_slot_offset;
+  if (!Number.isInteger(offset) || offset < 0 || offset >= (parameters.priority_slot_interval || 0)) {
+    errors.push('priority_slot_offset must be a whole number below priority_slot_interval');
+  }
+
+  const known = new Set(Object.keys(DEFAULT_RANKING_PARAMETERS));
+  for (const key of Object.keys(parameters)) {
+    if (!known.has(key)) {
+      errors.push(`Unknown parameter: ${key}`);
+    }
+  }
+
+  return errors;
 }
 
 export function rankStoryUsers(userIds: string[], getUserById?: (id: string) => User | undefined): string[] {
@@ -180,6 +459,16 @@ export function rankStoryUsers(userIds: string[], getUserById?: (id: string) =>
   });
 }
 
+/**
+ * A post's attachments, falling back to media_url for posts without a media list
+ */
+export function getPostMedia(post: Pick<Post, 'type' | 'media_url' | 'media'>): PostMedia[] {
+  if (post.media && post.media.length > 0) {
+    return post.media;
+  }
+  return post.media_url ? [{ url: post.media_url, type: post.type === 'video' ? 'video' : 'image' }] : [];
+}
+
 export function formatNumber(num: number): string {
   if (num >= 1000000) {
     return (num / 1000000).toFixed(1).replace(/\.0$/, '') + 'M';
@@ -0,0 +1,236 @@
+/**
+ * Feed Simulation - Offline exposure and fairness measurement
+ *
+ * Replays many home-feed sessions over a population through
+ * rankFeedPosts, with a given set of ranking parameters, and measures how
+ * exposure ends up distributed across accounts. Used by
+ * `npm run db:simulate` to see what a weight change does before it ships.
+ *
+ * The model mirrors the server:
+ * - Candidates per viewer are built like utils/homeFeed.ts: the newest
+ *   posts from the viewer and the accounts they follow, plus the newest
+ *   posts overall, within the candidate window
+ * - Each round, every user opens the feed once (in random order) and
+ *   scrolls a random depth; every post seen is one impression for its
+ *   author (own posts excluded)
+ * - After each round, recent_impressions decay and gain the round's
+ *   impressions and visibility_score becomes the percentile rank by
+ *   recent_impressions, as utils/impressions.ts does. This feedback loop
+ *   is what the ranking's under-exposure signals react to.
+ *
+ * Time is frozen at the population's `now`, so recency stays fixed and
+ * only exposure changes between rounds. Runs are deterministic for a
+ * given population, parameters and seed.
+ *
+ * Has no platform dependencies.
+ */
+
+import { rankFeedPosts, type Post, type RankingParameters, type User } from './feedAlgorithm';
+import { createRandom } from './seedData';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CANDIDATES_PER_SOURCE = 100; // Matches MAX_PAGE_SIZE on the server
+const NEW_ACCOUNT_DAYS = 30;
+
+const FOLLOWER_BUCKETS: { label: string; min: number }[] = [
+  { label: '<100', min: 0 },
+  { label: '100-1k', min: 100 },
+  { label: '1k-10k', min: 1000 },
+  { label: '10k-100k', min: 10000 },
+  { label: '100k+', min: 100000 },
+];
+
+export interface SimulationPopulation {
+  users: User[];
+  posts: Post[];
+  follows?: { follower_id: string; followee_id: string }[];
+  now?: string; // Reference time (default: newest post)
+}
+
+export interface SimulationOptions {
+  parameters: RankingParameters;
+  seed?: number; // Viewer order and scroll depths (default 1)
+  rounds?: number; // Feed opens per user (default 10)
+  meanSessionDepth?: number; // Average posts seen per session (default 20)
+  roundHours?: number; // Time one round stands for, for decay (default 6)
+  halfLifeHours?: number; // recent_impressions half-life (default 72)
+  candidateDays?: number; // Only posts this recent are ranked (default 7)
+}
+
+export interface FollowerBucketReport {
+  label: string; // e.g. "1k-10k" followers
+  accounts: number; // Accounts with posts in the candidate window
+  accountShare: number; // 0-1
+  impressionShare: number; // 0-1
+  meanImpressions: number;
+}
+
+export interface FairnessReport {
+  sessions: number;
+  impressions: number;
+  authors: number; // Accounts with posts in the candidate window
+  gini: number; // 0 = perfectly even exposure, 1 = one account gets everything
+  top1PercentShare: number; // Share of impressions going to the top 1% of authors
+  newAccounts: number; // Authors who joined in the last 30 days
+  newAccountMedianImpressions: number;
+  buckets: FollowerBucketReport[];
+}
+
+/**
+ * Gini coefficient of non-negative values (0 when all are equal or zero)
+ */
+export function giniCoefficient(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  if (sorted.length === 0 || total === 0) {
+    return 0;
+  }
+
+  const weighted = sorted.reduce((sum, value, index) => sum + (index + 1) * value, 0);
+  const n = sorted.length;
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Percentile rank (0-100) of each value; ties share the lower rank
+ */
+function percentileRanks(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const firstIndex = new Map<number, number>();
+  sorted.forEach((value, index) => {
+    if (!firstIndex.has(value)) firstIndex.set(value, index);
+  });
+
+  return values.map(value =>
+    sorted.length > 1 ? Math.round((100 * firstIndex.get(value)!) / (sorted.length - 1)) : 0
+  );
+}
+
+/**
+ * Simulate feed sessions and report how exposure is distributed
+ */
+export function simulateFeed(population: SimulationPopulation, options: SimulationOptions): FairnessReport {
+  const random = createRandom(options.seed ?? 1);
+  const rounds = options.rounds ?? 10;
+  const meanDepth = options.meanSessionDepth ?? 20;
+  const roundDecay = 0.5 ** ((options.roundHours ?? 6) / (options.halfLifeHours ?? 72));
+
+  const now = population.now
+    ? new Date(population.now)
+    : new Date(population.posts.reduce((latest, post) => Math.max(latest, Date.parse(post.created_at)), 0));
+  const oldest = now.getTime() - (options.candidateDays ?? 7) * DAY_MS;
+
+  // Working copies: reach stats change as the simulation runs
+  const users = population.users.map(user => ({ ...user }));
+  const usersById = new Map(users.map(user => [user.id, user]));
+
+  const posts = population.posts
+    .filter(post => usersById.has(post.user_id) && Date.parse(post.created_at) >= oldest)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const following = new Map<string, Set<string>>();
+  for (const follow of population.follows ?? []) {
+    if (!following.has(follow.follower_id)) following.set(follow.follower_id, new Set());
+    following.get(follow.follower_id)!.add(follow.followee_id);
+  }
+
+  // Candidates per viewer, as the server builds them
+  const everyone = posts.slice(0, CANDIDATES_PER_SOURCE);
+  const candidates = new Map<string, Post[]>();
+  const networks = new Map<string, Set<string>>(); // Followed accounts and the viewer
+  for (const viewer of users) {
+    const network = new Set([viewer.id, ...(following.get(viewer.id) ?? [])]);
+    networks.set(viewer.id, network);
+    const own = posts
+      .filter(post => network.has(post.user_id))
+      .slice(0, CANDIDATES_PER_SOURCE);
+    candidates.set(viewer.id, [...new Map([...own, ...everyone].map(post => [post.id, post])).values()]);
+  }
+
+  const totals = new Map<string, number>(users.map(user => [user.id, 0]));
+  let sessions = 0;
+  let impressions = 0;
+
+  for (let round = 0; round < rounds; round++) {
+    const roundCounts = new Map<string, number>();
+
+    // Fisher-Yates shuffle of who opens the feed first
+    const viewers = [...users];
+    for (let i = viewers.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [viewers[i], viewers[j]] = [viewers[j], viewers[i]];
+    }
+
+    for (const viewer of viewers) {
+      const ranked = rankFeedPosts(candidates.get(viewer.id)!, id => usersById.get(id), {
+        now,
+        parameters: options.parameters,
+        followedIds: networks.get(viewer.id),
+      });
+
+      // Scroll depth: most sessions are short, a few go deep
+      const depth = Math.max(1, Math.round(-meanDepth * Math.log(1 - random())));
+      for (const post of ranked.slice(0, depth)) {
+        if (post.user_id !== viewer.id) {
+          roundCounts.set(post.user_id, (roundCounts.get(post.user_id) ?? 0) + 1);
+          totals.set(post.user_id, totals.get(post.user_id)! + 1);
+          impressions++;
+        }
+      }
+      sessions++;
+    }
+
+    // What the impression pipeline would do between rounds
+    for (const user of users) {
+      user.recent_impressions = user.recent_impressions * roundDecay + (roundCounts.get(user.id) ?? 0);
+    }
+    const scores = percentileRanks(users.map(user => user.recent_impressions));
+    users.forEach((user, index) => {
+      user.visibility_score = scores[index];
+    });
+  }
+
+  // Exposure is measured over accounts that had something to show
+  const authorIds = new Set(posts.map(post => post.user_id));
+  const authors = population.users.filter(user => authorIds.has(user.id));
+  const exposure = authors.map(user => totals.get(user.id)!);
+  const byExposure = [...exposure].sort((a, b) => b - a);
+  const topCount = Math.max(1, Math.ceil(authors.length * 0.01));
+  const share = (value: number) => (impressions > 0 ? value / impressions : 0);
+
+  const newAccounts = authors.filter(user => Date.parse(user.created_at) >= now.getTime() - NEW_ACCOUNT_DAYS * DAY_MS);
+
+  const buckets = FOLLOWER_BUCKETS.map(({ label, min }, index) => {
+    const max = FOLLOWER_BUCKETS[index + 1]?.min ?? Infinity;
+    const members = authors.filter(user => user.followers_count >= min && user.followers_count < max);
+    const bucketImpressions = members.reduce((sum, user) => sum + totals.get(user.id)!, 0);
+
+    return {
+      label,
+      accounts: members.length,
+      accountShare: authors.length > 0 ? members.length / authors.length : 0,
+      impressionShare: share(bucketImpressions),
+      meanImpressions: members.length > 0 ? bucketImpressions / members.length : 0,
+    };
+  });
+
+  return {
+    sessions,
+    impressions,
+    authors: authors.length,
+    gini: giniCoefficient(exposure),
+    top1PercentShare: share(byExposure.slice(0, topCount).reduce((sum, value) => sum + value, 0)),
+    newAccounts: newAccounts.length,
+    newAccountMedianImpressions: median(newAccounts.map(user => totals.get(user.id)!)),
+    buckets,
+  };
+}
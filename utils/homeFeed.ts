@@ -0,0 +1,341 @@
+/**
+ * Home Feed - Ranked, paginated feed for GET /api/feed
+ *
+ * The first page of a feed builds a SNAPSHOT:
+ * 1. Candidates: recent posts from the viewer and the accounts they
+ *    follow, plus recent posts from everyone (so new voices can surface),
+ *    limited to posts whose audience includes the viewer (utils/postAudience.ts)
+ * 2. Ranking: rankFeedPosts (utils/feedAlgorithm.ts) with the snapshot time
+ *    as its reference "now", which also applies interleavePrioritySlots
+ *    and the per-author cap and followed / discovery mix
+ * 3. The ranked post IDs are stored under a random snapshot ID
+ *
+ * The snapshot also keeps each post's ranking explanation (weighted signal
+ * breakdown and priority-slot flag) for GET /api/feed/posts/:postId/explanation,
+ * which explains the viewer's most recent snapshot.
+ *
+ * Later pages are served from the stored order via an opaque cursor
+ * (snapshot ID + offset), so the order cannot shift while the user
+ * scrolls: posts published in the meantime, new likes or changed reach
+ * stats only show up when the client asks for a fresh first page.
+ * Pages always carry the posts' current counters; posts deleted since the
+ * snapshot, or no longer visible to the viewer (unfollowed, dropped from
+ * close friends), are skipped.
+ *
+ *   page 1 (no cursor)  ──> rank ──> snapshot S ──> posts 0-19, cursor(S, 20)
+ *   page 2 cursor(S,20) ──────────────────────────> posts 20-39, cursor(S, 40)
+ *
+ * Ranking uses the active ranking profile (utils/rankingProfiles.ts). The
+ * snapshot records the profile name and version, and every page and
+ * explanation reports them, so a response can be traced to the exact
+ * parameters that ordered it even after an admin edits the profile.
+ *
+ * Viewers enrolled in a running A/B experiment (utils/experiments.ts) are
+ * ranked with their arm's profile instead. The snapshot then records the
+ * experiment and arm too, and each fresh feed counts as a session for
+ * that arm.
+ *
+ * Environment Variables:
+ * - FEED_CANDIDATE_DAYS (default 7, only posts this recent are ranked)
+ * - FEED_SNAPSHOT_TTL_MINUTES (default 30, how long cursors stay valid)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import crypto from 'crypto';
+import { canViewPost, getRepositories, MAX_PAGE_SIZE, resolvePageSize, type PostRecord } from '../database/repositories';
+import {
+  rankFeedPosts,
+  type Post as FeedPost,
+  type RankingExplanation,
+  type User as FeedUser,
+} from './feedAlgorithm';
+import { getExperimentAssignment, recordExperimentActivity, type ExperimentRef } from './experiments';
+import { getKeyValueStore } from './keyValueStore';
+import { getPostViewer } from './postAudience';
+import { getActiveRankingProfile, type RankingProfileRef } from './rankingProfiles';
+import type { User } from './User';
+
+export type { FeedPost, FeedUser };
+
+/**
+ * One page of the home feed
+ */
+export interface FeedPage {
+  posts: FeedPost[];
+  authors: FeedUser[]; // Authors of this page's posts
+  nextCursor: string | null; // null on the last page
+  rankedAt: string; // Snapshot time (ISO)
+  profile: RankingProfileRef; // Ranking profile version that ordered this feed
+  experiment: ExperimentRef | null; // Experiment arm the viewer was ranked in
+}
+
+/**
+ * Ranking breakdown of one post in the viewer's feed
+ */
+export interface FeedPostExplanation extends RankingExplanation {
+  post_id: string;
+  ranked_at: string; // Snapshot time (ISO)
+  profile: RankingProfileRef;
+  experiment: ExperimentRef | null;
+}
+
+/**
+ * Error codes surfaced to the feed endpoint
+ */
+export type FeedErrorCode = 'INVALID_FEED_CURSOR' | 'FEED_CURSOR_EXPIRED';
+
+/**
+ * Raised for cursors that are malformed, belong to another user, or whose
+ * snapshot has expired (the client should reload from the first page).
+ */
+export class FeedError extends Error {
+  status: number;
+  code: FeedErrorCode;
+
+  constructor(code: FeedErrorCode, message: string) {
+    super(message);
+    this.name = 'FeedError';
+    this.code = code;
+    this.status = code === 'FEED_CURSOR_EXPIRED' ? 410 : 400;
+  }
+}
+
+interface FeedSnapshot {
+  viewerId: string;
+  rankedAt: string;
+  profile: RankingProfileRef;
+  experiment: ExperimentRef | null;
+  postIds: string[];
+  explanations: Record<string, RankingExplanation>;
+}
+
+interface FeedCursor {
+  s: string; // Snapshot ID
+  o: number; // Offset of the next post
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const CANDIDATE_WINDOW_MS = readPositiveInt(process.env.FEED_CANDIDATE_DAYS, 7) * 24 * 60 * 60 * 1000;
+const SNAPSHOT_TTL_SECONDS = readPositiveInt(process.env.FEED_SNAPSHOT_TTL_MINUTES, 30) * 60;
+
+const snapshots = getKeyValueStore('feed:snapshot:');
+const latestSnapshotIds = getKeyValueStore('feed:latest:'); // viewerId -> snapshot ID
+
+function encodeCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): FeedCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof cursor?.s === 'string' &&
+      /^[a-f0-9]{32}$/.test(cursor.s) &&
+      Number.isInteger(cursor.o) &&
+      cursor.o >= 0
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new FeedError('INVALID_FEED_CURSOR', 'Feed cursor is not valid');
+}
+
+/**
+ * Repository post -> feed algorithm shape
+ */
+export function toFeedPost(post: PostRecord): FeedPost {
+  return {
+    id: post.id,
+    user_id: post.userId,
+    type: post.type,
+    caption: post.caption,
+    media_url: post.media[0]?.url,
+    media: post.media,
+    audience: post.audience,
+    likes: post.likesCount,
+    comments: post.commentsCount,
+    shares: post.sharesCount,
+    created_at: post.createdAt.toISOString(),
+    edited_at: post.editedAt?.toISOString(),
+    reach_score: 0,
+  };
+}
+
+/**
+ * Repository user -> feed algorithm shape (public profile fields only)
+ */
+export function toFeedUser(user: User, postsCount = 0): FeedUser {
+  return {
+    id: user.id,
+    name: user.displayName || user.username || '',
+    username: user.username || '',
+    avatar: user.avatar || '',
+    bio: user.bio || '',
+    location: user.location || '',
+    occupation: '',
+    followers_count: user.followersCount ?? 0,
+    following_count: user.followingCount ?? 0,
+    posts_count: postsCount,
+    likes_count: 0,
+    visibility_score: user.visibilityScore ?? 0,
+    recent_impressions: Math.round(user.recentImpressions ?? 0),
+    created_at: user.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Rank the viewer's candidates and store the order as a new snapshot
+ */
+async function createSnapshot(viewerId: string, now: Date): Promise<{ id: string; snapshot: FeedSnapshot }> {
+  const { users, posts, rankingProfiles } = getRepositories();
+
+  const viewer = await getPostViewer(viewerId);
+  const followingIds = viewer.followingIds;
+  const [network, everyone] = await Promise.all([
+    posts.listRecent({ userIds: [viewerId, ...followingIds], limit: MAX_PAGE_SIZE, visibleTo: viewer }),
+    posts.listRecent({ limit: MAX_PAGE_SIZE, visibleTo: viewer }),
+  ]);
+
+  const oldest = now.getTime() - CANDIDATE_WINDOW_MS;
+  const candidates = new Map<string, PostRecord>();
+  for (const post of [...network, ...everyone]) {
+    if (post.createdAt.getTime() >= oldest) {
+      candidates.set(post.id, post);
+    }
+  }
+
+  // Posts by deactivated or suspended accounts are never ranked
+  const authorIds = [...new Set([...candidates.values()].map(post => post.userId))];
+  const authors = new Map<string, FeedUser>();
+  for (const author of await users.findByIds(authorIds)) {
+    if (author.isActive && !author.isSuspended) {
+      authors.set(author.id, toFeedUser(author));
+    }
+  }
+
+  // The arm's profile for enrolled viewers, otherwise the active one
+  const assignment = await getExperimentAssignment(viewerId);
+  const armProfile = assignment ? await rankingProfiles.findByName(assignment.arm.profileName) : undefined;
+  const profile = armProfile ?? (await getActiveRankingProfile());
+
+  const ranked = rankFeedPosts(
+    [...candidates.values()].filter(post => authors.has(post.userId)).map(toFeedPost),
+    id => authors.get(id),
+    { now, explain: true, parameters: profile.parameters, followedIds: new Set([viewerId, ...followingIds]) }
+  );
+
+  const snapshot: FeedSnapshot = {
+    viewerId,
+    rankedAt: now.toISOString(),
+    profile: { name: profile.name, version: profile.version },
+    experiment: assignment && armProfile ? { name: assignment.experiment.name, arm: assignment.arm.name } : null,
+    postIds: ranked.map(post => post.id),
+    explanations: {},
+  };
+  for (const post of ranked) {
+    snapshot.explanations[post.id] = post.ranking_explanation!;
+  }
+
+  const id = crypto.randomBytes(16).toString('hex');
+  await snapshots.set(id, JSON.stringify(snapshot), SNAPSHOT_TTL_SECONDS);
+  await latestSnapshotIds.set(viewerId, id, SNAPSHOT_TTL_SECONDS);
+
+  return { id, snapshot };
+}
+
+/**
+ * Get a page of the viewer's home feed
+ *
+ * @param viewerId - Authenticated user
+ * @param options.cursor - nextCursor of the previous page (omit for a fresh feed)
+ * @param options.limit - Page size (default 20, max 100)
+ * @throws FeedError if the cursor is invalid or its snapshot has expired
+ */
+export async function getFeedPage(
+  viewerId: string,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<FeedPage> {
+  const limit = resolvePageSize(options.limit);
+  let snapshotId: string;
+  let snapshot: FeedSnapshot;
+  let offset = 0;
+
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    const stored = await snapshots.get(cursor.s);
+    if (!stored) {
+      throw new FeedError('FEED_CURSOR_EXPIRED', 'Feed has expired, reload from the top');
+    }
+
+    snapshot = JSON.parse(stored);
+    if (snapshot.viewerId !== viewerId) {
+      throw new FeedError('INVALID_FEED_CURSOR', 'Feed cursor is not valid');
+    }
+    snapshotId = cursor.s;
+    offset = cursor.o;
+  } else {
+    ({ id: snapshotId, snapshot } = await createSnapshot(viewerId, new Date()));
+    if (snapshot.experiment) {
+      await recordExperimentActivity(viewerId, { sessions: 1 });
+    }
+  }
+
+  const { users, posts } = getRepositories();
+  const viewer = await getPostViewer(viewerId);
+  const pageIds = snapshot.postIds.slice(offset, offset + limit);
+  const pagePosts = (await Promise.all(pageIds.map(id => posts.findById(id))))
+    .filter((post): post is PostRecord => post !== undefined && canViewPost(post, viewer));
+
+  const authors = await Promise.all(
+    (await users.findByIds([...new Set(pagePosts.map(post => post.userId))])).map(async author =>
+      toFeedUser(author, await posts.countByUser(author.id))
+    )
+  );
+
+  const nextOffset = offset + pageIds.length;
+
+  return {
+    posts: pagePosts.map(toFeedPost),
+    authors,
+    nextCursor: nextOffset < snapshot.postIds.length ? encodeCursor({ s: snapshotId, o: nextOffset }) : null,
+    rankedAt: snapshot.rankedAt,
+    profile: snapshot.profile,
+    experiment: snapshot.experiment ?? null,
+  };
+}
+
+/**
+ * Explain why a post is where it is in the viewer's feed
+ *
+ * Uses the viewer's most recent snapshot, so the breakdown matches the
+ * feed on screen. If that snapshot has expired, the feed is ranked afresh.
+ *
+ * @returns null if the post is not in the viewer's feed
+ */
+export async function explainFeedPost(viewerId: string, postId: string): Promise<FeedPostExplanation | null> {
+  const latestId = await latestSnapshotIds.get(viewerId);
+  const stored = latestId ? await snapshots.get(latestId) : null;
+  const snapshot: FeedSnapshot = stored
+    ? JSON.parse(stored)
+    : (await createSnapshot(viewerId, new Date())).snapshot;
+
+  const explanation = snapshot.explanations[postId];
+  if (!explanation) {
+    return null;
+  }
+
+  return {
+    post_id: postId,
+    ranked_at: snapshot.rankedAt,
+    profile: snapshot.profile,
+    experiment: snapshot.experiment ?? null,
+    ...explanation,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Impressions - Exposure tracking behind visibility_score and recent_impressions
+ *
+ * The feed algorithm favours under-exposed accounts, which only works if
+ * exposure is measured. Clients report what was actually on screen in
+ * batches (POST /api/impressions):
+ *
+ * 1. Each event names a surface (feed, story, reel) and the item viewed;
+ *    the author is looked up on the server, never taken from the client
+ * 2. Views of your own content, unknown items and posts outside the
+ *    viewer's audience (utils/postAudience.ts) are ignored
+ * 3. A viewer seeing the same item again within the dedup window counts
+ *    once (fixed windows, so scrolling back and forth cannot farm views)
+ * 4. Remaining views are added to the authors' recent_impressions, a
+ *    count that decays exponentially (halving every half-life)
+ *
+ * A periodic job (startVisibilityJob) decays every account's
+ * recent_impressions and recomputes visibility_score as the account's
+ * percentile rank by recent impressions among active accounts: 0 = seen
+ * least, 100 = seen most. The ranking treats accounts below the active
+ * profile's underexposed_visibility (default 30) as under-exposed.
+ *
+ * For viewers enrolled in a running A/B experiment (utils/experiments.ts),
+ * the result names their experiment arm, and accepted home feed views are
+ * also counted towards that arm's exposure metrics.
+ *
+ * Environment Variables:
+ * - IMPRESSION_DEDUP_MINUTES (default 30)
+ * - IMPRESSION_HALF_LIFE_HOURS (default 72)
+ * - VISIBILITY_REFRESH_MINUTES (default 15, how often the job runs)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import { getRepositories, type PostViewer } from '../database/repositories';
+import { getExperimentAssignment, recordExperimentImpressions, type ExperimentRef } from './experiments';
+import { getKeyValueStore } from './keyValueStore';
+import { findVisiblePost, getPostViewer } from './postAudience';
+
+export type ImpressionSurface = 'feed' | 'story' | 'reel';
+
+export interface ImpressionEvent {
+  surface: ImpressionSurface;
+  itemId: string; // Post ID (feed, reel) or story ID
+}
+
+export interface ImpressionResult {
+  accepted: number; // Counted towards an author's recent impressions
+  duplicates: number; // Already counted for this viewer in the current window
+  ignored: number; // Unknown or hidden items, or the viewer's own content
+  experiment: ExperimentRef | null; // Viewer's arm in the running experiment
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const DEDUP_WINDOW_SECONDS = readPositiveInt(process.env.IMPRESSION_DEDUP_MINUTES, 30) * 60;
+const HALF_LIFE_HOURS = readPositiveInt(process.env.IMPRESSION_HALF_LIFE_HOURS, 72);
+const REFRESH_INTERVAL_MS = readPositiveInt(process.env.VISIBILITY_REFRESH_MINUTES, 15) * 60 * 1000;
+
+const seenImpressions = getKeyValueStore('impressions:seen:');
+
+/**
+ * Author of the item, if it exists, matches the surface and the viewer may see it
+ */
+async function findAuthorId(event: ImpressionEvent, viewer: PostViewer): Promise<string | undefined> {
+  if (event.surface === 'story') {
+    return (await getRepositories().stories.findById(event.itemId))?.userId;
+  }
+
+  const post = await findVisiblePost(event.itemId, viewer);
+  if (!post || (event.surface === 'reel' && post.type !== 'video')) {
+    return undefined;
+  }
+  return post.userId;
+}
+
+/**
+ * Count a batch of views by one viewer
+ *
+ * @param viewerId - Authenticated user who saw the items
+ * @param events - Items that were on screen (any order, may repeat)
+ */
+export async function recordImpressions(
+  viewerId: string,
+  events: ImpressionEvent[],
+  now = new Date()
+): Promise<ImpressionResult> {
+  const assignment = await getExperimentAssignment(viewerId);
+  const result: ImpressionResult = {
+    accepted: 0,
+    duplicates: 0,
+    ignored: 0,
+    experiment: assignment && { name: assignment.experiment.name, arm: assignment.arm.name },
+  };
+  const counts: Record<string, number> = {};
+  const feedCounts: Record<string, number> = {}; // Views ranked by the experiment arm
+  const window = Math.floor(now.getTime() / 1000 / DEDUP_WINDOW_SECONDS);
+  const viewer = await getPostViewer(viewerId);
+
+  for (const event of events) {
+    const authorId = await findAuthorId(event, viewer);
+    if (!authorId || authorId === viewerId) {
+      result.ignored++;
+      continue;
+    }
+
+    // First sighting in this window? (atomic, so concurrent batches agree)
+    const sightings = await seenImpressions.increment(`${viewerId}:${event.itemId}:${window}`, DEDUP_WINDOW_SECONDS);
+    if (sightings > 1) {
+      result.duplicates++;
+      continue;
+    }
+
+    counts[authorId] = (counts[authorId] ?? 0) + 1;
+    if (event.surface === 'feed') {
+      feedCounts[authorId] = (feedCounts[authorId] ?? 0) + 1;
+    }
+    result.accepted++;
+  }
+
+  await getRepositories().users.addImpressions(counts, now, HALF_LIFE_HOURS);
+  if (assignment) {
+    await recordExperimentImpressions(assignment, feedCounts);
+  }
+  return result;
+}
+
+/**
+ * Decay recent impressions and recompute every visibility_score
+ *
+ * @returns Number of accounts scored
+ */
+export async function refreshVisibilityScores(now = new Date()): Promise<number> {
+  return getRepositories().users.refreshReachStats(now, HALF_LIFE_HOURS);
+}
+
+/**
+ * Run refreshVisibilityScores now and then every VISIBILITY_REFRESH_MINUTES
+ *
+ * Safe to run on several instances: each run recomputes from stored data.
+ *
+ * @returns Function that stops the job
+ */
+export function startVisibilityJob(): () => void {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    const startedAt = Date.now();
+    try {
+      const accounts = await refreshVisibilityScores();
+      console.log(JSON.stringify({
+        type: 'visibility_refreshed',
+        timestamp: new Date().toISOString(),
+        accounts,
+        durationMs: Date.now() - startedAt,
+      }));
+    } catch (error) {
+      console.error('Visibility refresh error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, REFRESH_INTERVAL_MS);
+  // Don't keep the process alive just for the job
+  (timer as any).unref?.();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,240 @@
+/**
+ * JWT Signing Utility
+ * Issues and verifies signed tokens for the Express API
+ *
+ * Tokens are signed with ES256 using the active key from utils/signingKeys.ts,
+ * and its key ID is written to the `kid` header. Verification picks the public
+ * key by kid, so keys can be rotated without invalidating live tokens.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ * Private keys must never be bundled into the client app.
+ *
+ * Environment Variables:
+ * - JWT_SIGNING_KEYS_FILE / JWT_SIGNING_KEYS (see utils/signingKeys.ts)
+ * - JWT_EXPIRES_IN (access token lifetime, default: 15m)
+ * - JWT_REFRESH_EXPIRES_IN (refresh token lifetime, default: 7d)
+ *
+ * @example
+ * const { token, expiresIn } = signAccessToken(user);
+ * const payload = verifyJwt(token);
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { JWTPayload, User } from './User';
+import {
+  SIGNING_ALGORITHM,
+  getActiveSigningKey,
+  getLegacySecret,
+  getVerificationKey,
+} from './signingKeys';
+
+/**
+ * Algorithm for tokens without a kid, issued before key rotation (JWT_SECRET)
+ */
+const LEGACY_ALGORITHM = 'HS256' as const;
+
+const JWT_ISSUER = 'vairo-api';
+
+/**
+ * Signed token along with its lifetime
+ */
+export interface SignedToken {
+  token: string;
+  expiresIn: number; // Lifetime in seconds
+}
+
+/**
+ * Sign with the active key and stamp its kid into the header
+ */
+function signWithActiveKey(payload: object, options: jwt.SignOptions): string {
+  const { kid, privateKey } = getActiveSigningKey();
+
+  return jwt.sign(payload, privateKey, {
+    ...options,
+    algorithm: SIGNING_ALGORITHM,
+    keyid: kid,
+  });
+}
+
+/**
+ * Verify a token against the key named by its kid header
+ * The algorithm is pinned per key type so a token cannot choose its own
+ * algorithm ("alg: none" and HS256/public-key confusion attacks).
+ *
+ * @throws jwt.JsonWebTokenError for unknown, retired or missing keys
+ */
+function verifyWithKeyRing(token: string, options: jwt.VerifyOptions): jwt.JwtPayload {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded) {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+
+  const { kid } = decoded.header;
+
+  if (!kid) {
+    const legacySecret = getLegacySecret();
+    if (!legacySecret) {
+      throw new jwt.JsonWebTokenError('token has no key ID');
+    }
+    return jwt.verify(token, legacySecret, { ...options, algorithms: [LEGACY_ALGORITHM] }) as jwt.JwtPayload;
+  }
+
+  const publicKey = getVerificationKey(kid);
+  if (!publicKey) {
+    throw new jwt.JsonWebTokenError('unknown or retired signing key');
+  }
+
+  return jwt.verify(token, publicKey, { ...options, algorithms: [SIGNING_ALGORITHM] }) as jwt.JwtPayload;
+}
+
+/**
+ * Sign a payload and report its lifetime in seconds
+ */
+function signToken(
+  claims: Omit<JWTPayload, 'iat' | 'exp'>,
+  expiresIn: string
+): SignedToken {
+  const token = signWithActiveKey(claims, {
+    expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+    issuer: JWT_ISSUER,
+  });
+
+  const decoded = jwt.decode(token) as JWTPayload;
+
+  return {
+    token,
+    expiresIn: decoded.exp - decoded.iat,
+  };
+}
+
+/**
+ * Issue a short-lived access token for a user
+ *
+ * @param user - Authenticated user record
+ * @param sessionId - Session (refresh token family) the token belongs to
+ * @returns Signed access token and its lifetime in seconds
+ */
+export function signAccessToken(user: User, sessionId?: string): SignedToken {
+  return signToken(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      type: 'access',
+      jti: crypto.randomUUID(), // Lets logout revoke this token (see utils/tokenDenylist.ts)
+      ...(sessionId ? { sid: sessionId } : {}), // Lets session revocation reject it
+    },
+    process.env.JWT_EXPIRES_IN || '15m'
+  );
+}
+
+/**
+ * Issue a refresh token belonging to a token family
+ *
+ * @param user - Authenticated user record
+ * @param familyId - Refresh token family the token belongs to
+ * @param tokenId - Unique ID of this token within the family
+ * @returns Signed refresh token and its lifetime in seconds
+ */
+export function signRefreshToken(user: User, familyId: string, tokenId: string): SignedToken {
+  return signToken(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      type: 'refresh',
+      jti: tokenId,
+      fid: familyId,
+    },
+    process.env.JWT_REFRESH_EXPIRES_IN || '7d'
+  );
+}
+
+/**
+ * Verify a token's signature, issuer and expiry
+ *
+ * @param token - Encoded JWT
+ * @param options.ignoreExpiration - Accept expired tokens (only for revocation)
+ * @returns Decoded payload
+ * @throws jwt.JsonWebTokenError / jwt.TokenExpiredError if invalid
+ */
+export function verifyJwt(
+  token: string,
+  options: { ignoreExpiration?: boolean } = {}
+): JWTPayload {
+  return verifyWithKeyRing(token, {
+    issuer: JWT_ISSUER,
+    ignoreExpiration: options.ignoreExpiration ?? false,
+  }) as JWTPayload;
+}
+
+// ============================================================
+// PURPOSE-BOUND TOKENS
+// ============================================================
+
+/**
+ * Tokens sent out-of-band (e.g. in emails) or used for one step of a flow
+ * (e.g. the login 2FA challenge).
+ * The purpose is stored as the audience claim, and these tokens carry no
+ * `type` claim, so they can never pass as access or refresh tokens.
+ */
+export type TokenPurpose = 'email_verification' | 'two_factor_challenge';
+
+export interface PurposeTokenPayload {
+  sub: string; // User ID
+  jti: string;
+  aud: TokenPurpose;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Sign a single-purpose token for a user
+ *
+ * @param purpose - What the token may be used for
+ * @param userId - Subject of the token
+ * @param claims - Extra claims to bind (e.g. the email being verified)
+ * @param expiresIn - Lifetime (e.g. '24h')
+ * @returns Signed token, its lifetime and its unique ID
+ */
+export function signPurposeToken(
+  purpose: TokenPurpose,
+  userId: string,
+  claims: Record<string, string>,
+  expiresIn: string
+): SignedToken & { tokenId: string } {
+  const tokenId = crypto.randomUUID();
+
+  const token = signWithActiveKey(claims, {
+    expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+    issuer: JWT_ISSUER,
+    audience: purpose,
+    subject: userId,
+    jwtid: tokenId,
+  });
+
+  const decoded = jwt.decode(token) as PurposeTokenPayload;
+
+  return {
+    token,
+    tokenId,
+    expiresIn: decoded.exp - decoded.iat,
+  };
+}
+
+/**
+ * Verify a single-purpose token
+ *
+ * @param token - Encoded JWT
+ * @param purpose - Expected purpose (audience)
+ * @returns Decoded payload
+ * @throws jwt.JsonWebTokenError / jwt.TokenExpiredError if invalid
+ */
+export function verifyPurposeToken(token: string, purpose: TokenPurpose): PurposeTokenPayload {
+  return verifyWithKeyRing(token, {
+    issuer: JWT_ISSUER,
+    audience: purpose,
+  }) as PurposeTokenPayload;
+}
@@ -0,0 +1,230 @@
+/**
+ * Key-Value Store - Shared expiring state for the API server
+ *
+ * Backs server-side security state that must survive across requests
+ * (revoked token IDs, counters, etc). Mirrors the store selection in
+ * middleware/rateLimiters.ts:
+ * - Production with REDIS_URL: Redis (shared between server instances)
+ * - Otherwise: in-process memory
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+const IS_PRODUCTION = process.env.NODE_ENV === 'production';
+
+/**
+ * Minimal expiring key-value store
+ * All TTLs are in seconds.
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /**
+   * Atomically read and remove a key, so only one caller gets its value
+   * (e.g. to claim a one-time token). Returns null if it was missing.
+   */
+  take(key: string): Promise<string | null>;
+  /**
+   * Atomically add 1 to an integer counter (missing keys start at 0)
+   * and reset its TTL. Returns the new value.
+   */
+  increment(key: string, ttlSeconds: number): Promise<number>;
+}
+
+// ============================================================
+// MEMORY STORE
+// ============================================================
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-process store for development and single-instance deployments.
+ * Expired entries are removed lazily on read and by a periodic sweep.
+ */
+export class MemoryKeyValueStore implements KeyValueStore {
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(sweepIntervalMs = 60 * 1000) {
+    const timer = setInterval(() => this.sweep(), sweepIntervalMs);
+    // Don't keep the process alive just for cleanup
+    (timer as any).unref?.();
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.set(key, {
+      value,
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async take(key: string): Promise<string | null> {
+    // Read and delete without awaiting in between so only one caller gets the value
+    const entry = this.entries.get(key);
+    this.entries.delete(key);
+    return entry && entry.expiresAt > Date.now() ? entry.value : null;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    // Read and write without awaiting in between so concurrent calls cannot interleave
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > Date.now() ? parseInt(entry.value, 10) || 0 : 0;
+    const next = current + 1;
+    this.entries.set(key, {
+      value: String(next),
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+    return next;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+// ============================================================
+// REDIS STORE
+// ============================================================
+
+/**
+ * Redis-backed store shared by all server instances.
+ *
+ * Writes are mirrored to a local memory store so that a Redis outage
+ * degrades to per-instance state instead of losing it entirely. The copy is
+ * only read while Redis is failing: it misses other instances' writes and
+ * deletes, so Redis stays the source of truth whenever it answers.
+ */
+export class RedisKeyValueStore implements KeyValueStore {
+  private fallback = new MemoryKeyValueStore();
+
+  constructor(private client: any, private prefix: string) {}
+
+  async get(key: string): Promise<string | null> {
+    try {
+      return await this.client.get(this.prefix + key);
+    } catch (error: any) {
+      console.error('Redis get failed, using memory fallback:', error.message);
+      return this.fallback.get(key);
+    }
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.fallback.set(key, value, ttlSeconds);
+    try {
+      await this.client.set(this.prefix + key, value, { EX: Math.max(1, Math.ceil(ttlSeconds)) });
+    } catch (error: any) {
+      console.error('Redis set failed, using memory fallback:', error.message);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.fallback.delete(key);
+    try {
+      await this.client.del(this.prefix + key);
+    } catch (error: any) {
+      console.error('Redis delete failed, using memory fallback:', error.message);
+    }
+  }
+
+  async take(key: string): Promise<string | null> {
+    const localValue = await this.fallback.take(key);
+    try {
+      const [value] = await this.client
+        .multi()
+        .get(this.prefix + key)
+        .del(this.prefix + key)
+        .exec();
+      return value ?? null;
+    } catch (error: any) {
+      console.error('Redis take failed, using memory fallback:', error.message);
+      return localValue;
+    }
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const localValue = await this.fallback.increment(key, ttlSeconds);
+    try {
+      const [value] = await this.client
+        .multi()
+        .incr(this.prefix + key)
+        .expire(this.prefix + key, Math.max(1, Math.ceil(ttlSeconds)))
+        .exec();
+      return Number(value);
+    } catch (error: any) {
+      console.error('Redis increment failed, using memory fallback:', error.message);
+      return localValue;
+    }
+  }
+}
+
+// ============================================================
+// STORE SELECTION
+// ============================================================
+
+let redisClient: any = null;
+
+/**
+ * Lazily create a single shared Redis connection
+ */
+function getRedisClient(): any {
+  if (!redisClient) {
+    const redis = require('redis');
+
+    redisClient = redis.createClient({
+      url: process.env.REDIS_URL,
+    });
+
+    redisClient.on('error', (err: Error) => {
+      console.error('Redis error, falling back to memory store:', err.message);
+    });
+
+    redisClient.connect().catch((err: Error) => {
+      console.error('Redis connection failed:', err.message);
+    });
+  }
+
+  return redisClient;
+}
+
+/**
+ * Get store based on environment.
+ * In production, if Redis is available, use it.
+ * Otherwise, fall back to memory store.
+ *
+ * @param prefix - Key namespace (e.g. 'denylist:')
+ */
+export function getKeyValueStore(prefix: string): KeyValueStore {
+  if (IS_PRODUCTION && process.env.REDIS_URL) {
+    try {
+      return new RedisKeyValueStore(getRedisClient(), prefix);
+    } catch (error) {
+      console.warn(`Redis not available for ${prefix}*, using memory store`);
+    }
+  }
+
+  return new MemoryKeyValueStore();
+}
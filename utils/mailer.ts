@@ -0,0 +1,147 @@
+/**
+ * Mailer - Pluggable outgoing email transport
+ *
+ * Drivers:
+ * - console: prints messages to stdout (default in development)
+ * - file: writes each message as JSON to MAIL_OUTBOX_DIR (default: .mail-outbox)
+ *
+ * Production deployments plug in their own provider (SMTP, SES, etc)
+ * with setMailTransport() at startup:
+ *
+ * @example
+ * setMailTransport({
+ *   name: 'ses',
+ *   async send(message) { await ses.sendEmail(...); },
+ * });
+ *
+ * Environment Variables:
+ * - MAIL_TRANSPORT (console | file, default: console)
+ * - MAIL_FROM (default: Vairo <no-reply@vairo.app>)
+ * - MAIL_OUTBOX_DIR (file driver only)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Outgoing email message
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Transport driver interface
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// ============================================================
+// DRIVERS
+// ============================================================
+
+/**
+ * Console driver - logs the message instead of sending it
+ */
+export const consoleMailTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(
+      [
+        '📧 ──────────── OUTGOING EMAIL ────────────',
+        `From:    ${message.from}`,
+        `To:      ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        '──────────────────────────────────────────',
+      ].join('\n')
+    );
+  },
+};
+
+/**
+ * File driver - writes one JSON file per message
+ * Useful for inspecting emails (and their links) during local development.
+ *
+ * @param outboxDir - Directory to write messages to
+ */
+export function createFileMailTransport(outboxDir: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.promises.mkdir(outboxDir, { recursive: true });
+
+      const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+      const filePath = path.join(outboxDir, fileName);
+
+      await fs.promises.writeFile(
+        filePath,
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+
+      console.log(`📧 Email to ${message.to} written to ${filePath}`);
+    },
+  };
+}
+
+// ============================================================
+// TRANSPORT SELECTION
+// ============================================================
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * Select the driver configured in MAIL_TRANSPORT
+ */
+function createConfiguredTransport(): MailTransport {
+  const driver = process.env.MAIL_TRANSPORT || 'console';
+
+  switch (driver) {
+    case 'file':
+      return createFileMailTransport(process.env.MAIL_OUTBOX_DIR || '.mail-outbox');
+    case 'console':
+      return consoleMailTransport;
+    default:
+      console.warn(`Unknown MAIL_TRANSPORT "${driver}", using console transport`);
+      return consoleMailTransport;
+  }
+}
+
+/**
+ * Replace the active transport (e.g. with a production provider)
+ *
+ * @param transport - Transport implementation
+ */
+export function setMailTransport(transport: MailTransport): void {
+  activeTransport = transport;
+}
+
+/**
+ * Get the active transport, creating the configured one on first use
+ */
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    activeTransport = createConfiguredTransport();
+  }
+  return activeTransport;
+}
+
+/**
+ * Send an email with the active transport
+ *
+ * @param message - Recipient, subject and body
+ * @throws Error if the transport fails
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = process.env.MAIL_FROM || 'Vairo <no-reply@vairo.app>';
+  await getMailTransport().send({ ...message, from });
+}
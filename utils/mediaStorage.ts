@@ -0,0 +1,267 @@
+/**
+ * Media Storage - Where finished uploads are kept and served from
+ *
+ * Selects a driver once per process (MEDIA_STORAGE_DRIVER):
+ * - local (default): files in MEDIA_UPLOAD_DIR, served by the API server
+ *   under /media (or from MEDIA_BASE_URL when a CDN fronts the directory)
+ * - s3: any S3-compatible object store, signed with AWS Signature V4.
+ *   Point S3_ENDPOINT at a local stand-in such as MinIO for development
+ *   (path-style addressing is used whenever an endpoint is set).
+ *
+ * Drivers only store finished files; chunked upload sessions are staged
+ * on the API server's disk (utils/mediaUploads.ts).
+ *
+ * Environment Variables:
+ * - MEDIA_STORAGE_DRIVER (local | s3, default: local)
+ * - MEDIA_UPLOAD_DIR (local, default ./uploads)
+ * - MEDIA_BASE_URL (local, default <API_BASE_URL>/media)
+ * - S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY (s3, required)
+ * - S3_REGION (s3, default us-east-1)
+ * - S3_ENDPOINT (s3, default AWS; e.g. http://localhost:9000 for MinIO)
+ * - S3_PUBLIC_URL (s3, default the bucket's own URL; set for a CDN)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import crypto from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+
+/**
+ * Storage for uploaded media files
+ */
+export interface MediaStorage {
+  readonly driver: 'local' | 's3';
+  /** Every stored file's URL starts with this (no trailing slash) */
+  readonly baseUrl: string;
+  /** Store a copy of a local file under key (the caller removes the original) */
+  putFile(key: string, filePath: string, contentType: string): Promise<void>;
+  /** Remove a stored file; missing files are not an error */
+  delete(key: string): Promise<void>;
+  /** Public URL of a stored file */
+  url(key: string): string;
+}
+
+/**
+ * Keys are generated by the server, but encode them anyway so a URL can never break out of its path
+ */
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeURIComponent).join('/');
+}
+
+// ============================================================
+// LOCAL DISK
+// ============================================================
+
+export class LocalMediaStorage implements MediaStorage {
+  readonly driver = 'local';
+
+  constructor(
+    readonly directory: string,
+    readonly baseUrl: string
+  ) {}
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    const destination = this.resolve(key);
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await fs.copyFile(filePath, destination);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.baseUrl}/${encodeKey(key)}`;
+  }
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.directory, key);
+    if (!resolved.startsWith(this.directory + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+}
+
+// ============================================================
+// S3-COMPATIBLE
+// ============================================================
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // Path-style requests to this origin instead of AWS
+  publicUrl?: string;
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+function sha256Hex(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+export class S3MediaStorage implements MediaStorage {
+  readonly driver = 's3';
+  readonly baseUrl: string;
+  private objectBaseUrl: string;
+
+  constructor(private config: S3StorageConfig) {
+    this.objectBaseUrl = config.endpoint
+      ? `${config.endpoint.replace(/\/+$/, '')}/${config.bucket}`
+      : `https://${config.bucket}.s3.${config.region}.amazonaws.com`;
+    this.baseUrl = (config.publicUrl || this.objectBaseUrl).replace(/\/+$/, '');
+  }
+
+  async putFile(key: string, filePath: string, contentType: string): Promise<void> {
+    const { size } = await fs.stat(filePath);
+    await this.send('PUT', key, { 'content-type': contentType, 'content-length': String(size) }, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 answers 204 whether or not the object existed
+    await this.send('DELETE', key, {});
+  }
+
+  url(key: string): string {
+    return `${this.baseUrl}/${encodeKey(key)}`;
+  }
+
+  /**
+   * Sign a request with AWS Signature Version 4
+   *
+   * Every header passed is signed, plus host, x-amz-date and x-amz-content-sha256.
+   *
+   * @returns The headers to send, including Authorization
+   */
+  private sign(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    payloadHash: string,
+    now: Date = new Date()
+  ): Record<string, string> {
+    const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+
+    const signed: Record<string, string> = {
+      ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const names = Object.keys(signed).sort();
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      [...url.searchParams.entries()]
+        .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+        .sort()
+        .join('&'),
+      names.map(name => `${name}:${signed[name]}\n`).join(''),
+      names.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce<Buffer>(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.config.secretAccessKey}`, date), this.config.region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      ...signed,
+      authorization:
+        `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, ` +
+        `SignedHeaders=${names.join(';')}, Signature=${signature}`,
+    };
+  }
+
+  /**
+   * Send a signed request, streaming the body from a file if given
+   *
+   * @throws Error if the store answers with anything but 2xx
+   */
+  private send(method: 'PUT' | 'DELETE', key: string, headers: Record<string, string>, bodyPath?: string): Promise<void> {
+    const url = new URL(`${this.objectBaseUrl}/${encodeKey(key)}`);
+    const signedHeaders = this.sign(method, url, headers, UNSIGNED_PAYLOAD);
+    const transport = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = transport.request(url.toString(), { method, headers: signedHeaders }, response => {
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', chunk => (body += chunk));
+        response.on('end', () => {
+          const status = response.statusCode || 0;
+          if (status >= 200 && status < 300) {
+            resolve();
+          } else {
+            const code = /<Code>([^<]+)<\/Code>/.exec(body)?.[1] || 'UnknownError';
+            reject(new Error(`S3 ${method} ${key} failed: ${status} ${code}`));
+          }
+        });
+      });
+      request.on('error', reject);
+
+      if (bodyPath) {
+        const file = createReadStream(bodyPath);
+        file.on('error', error => request.destroy(error));
+        file.pipe(request);
+      } else {
+        request.end();
+      }
+    });
+  }
+}
+
+// ============================================================
+// DRIVER SELECTION
+// ============================================================
+
+let storage: MediaStorage | null = null;
+
+/**
+ * Get the storage for the configured driver
+ * @throws Error for an unknown MEDIA_STORAGE_DRIVER, or s3 without its bucket and credentials
+ */
+export function getMediaStorage(): MediaStorage {
+  if (!storage) {
+    const driver = process.env.MEDIA_STORAGE_DRIVER || 'local';
+
+    if (driver === 'local') {
+      storage = new LocalMediaStorage(
+        path.resolve(process.env.MEDIA_UPLOAD_DIR || 'uploads'),
+        (process.env.MEDIA_BASE_URL || `${process.env.API_BASE_URL || 'http://localhost:3000'}/media`).replace(/\/+$/, '')
+      );
+    } else if (driver === 's3') {
+      const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+      if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error('MEDIA_STORAGE_DRIVER=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+      }
+      storage = new S3MediaStorage({
+        bucket: S3_BUCKET,
+        region: process.env.S3_REGION || 'us-east-1',
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        endpoint: process.env.S3_ENDPOINT,
+        publicUrl: process.env.S3_PUBLIC_URL,
+      });
+    } else {
+      throw new Error(`Unknown MEDIA_STORAGE_DRIVER: ${driver}`);
+    }
+  }
+
+  return storage;
+}
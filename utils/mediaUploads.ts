@@ -0,0 +1,541 @@
+/**
+ * Media Uploads - Resumable chunked uploads of photos and videos for posts
+ *
+ * The composer uploads each picked or captured item before creating the
+ * post, then attaches it by the returned media ID:
+ * 1. createUploadSession: declare the content type and total size, get an
+ *    upload ID and the chunk size to send
+ * 2. appendChunk: send the file in order, each chunk with a Content-Range.
+ *    After a dropped connection, getUploadStatus reports how many bytes
+ *    arrived and the client continues from there; resending bytes the
+ *    server already has is harmless
+ * 3. completeUpload: the file is checked and moved to media storage
+ *    (utils/mediaStorage.ts) and recorded as a media ID only its uploader
+ *    can attach to posts
+ *
+ * The content type is sniffed from the file's leading bytes, never trusted
+ * from the client: the first chunk is rejected early if it is not a
+ * supported photo or video, and the finished file is stored under the
+ * sniffed type. Size caps apply to the declared size up front and to the
+ * sniffed type at completion.
+ *
+ * Chunks are staged on the API server's disk under MEDIA_STAGING_DIR, so
+ * with several server instances uploads need sticky sessions or a shared
+ * staging volume. Unfinished uploads expire after MEDIA_UPLOAD_TTL_HOURS
+ * and a periodic job (startUploadCleanupJob) removes their staged bytes.
+ *
+ * Environment Variables:
+ * - MEDIA_MAX_IMAGE_MB (default 20)
+ * - MEDIA_MAX_VIDEO_MB (default 200)
+ * - MEDIA_CHUNK_MB (default 5)
+ * - MEDIA_UPLOAD_TTL_HOURS (default 24)
+ * - MEDIA_STAGING_DIR (default <os temp dir>/media-uploads)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getRepositories, type MediaRecord, type PostMedia } from '../database/repositories';
+import { getKeyValueStore } from './keyValueStore';
+import { getMediaStorage } from './mediaStorage';
+
+/**
+ * Error codes surfaced to the upload and post creation endpoints
+ */
+export type MediaUploadErrorCode =
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'UPLOAD_TOO_LARGE'
+  | 'UPLOAD_NOT_FOUND'
+  | 'INVALID_CONTENT_RANGE'
+  | 'UPLOAD_OFFSET_MISMATCH'
+  | 'UPLOAD_INCOMPLETE'
+  | 'INVALID_MEDIA';
+
+const ERROR_STATUS: Record<MediaUploadErrorCode, number> = {
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  UPLOAD_TOO_LARGE: 413,
+  UPLOAD_NOT_FOUND: 404,
+  INVALID_CONTENT_RANGE: 400,
+  UPLOAD_OFFSET_MISMATCH: 409,
+  UPLOAD_INCOMPLETE: 409,
+  INVALID_MEDIA: 400,
+};
+
+/**
+ * Raised when an upload cannot be accepted, continued or attached
+ */
+export class MediaUploadError extends Error {
+  status: number;
+  code: MediaUploadErrorCode;
+
+  constructor(code: MediaUploadErrorCode, message: string) {
+    super(message);
+    this.name = 'MediaUploadError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+/**
+ * Progress of an upload, returned by every session call
+ */
+export interface UploadSessionStatus {
+  uploadId: string;
+  contentType: string; // As declared by the client
+  size: number; // Total bytes
+  receivedBytes: number; // The next chunk starts here
+  chunkSize: number; // Bytes per chunk the server accepts at most
+  expiresAt: string; // ISO 8601
+}
+
+/**
+ * A finished upload, attachable to posts by ID
+ */
+export interface UploadedMedia {
+  id: string;
+  url: string;
+  type: 'image' | 'video';
+  contentType: string;
+  size: number; // Bytes
+}
+
+/**
+ * A post attachment as sent by clients: an uploaded media ID, or a URL
+ */
+export type PostMediaInput = Omit<PostMedia, 'url' | 'type'> & ({ mediaId: string } | Pick<PostMedia, 'url' | 'type'>);
+
+interface UploadSession {
+  id: string;
+  userId: string;
+  contentType: string;
+  size: number;
+  expiresAt: string;
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const MB = 1024 * 1024;
+const MAX_BYTES: Record<UploadedMedia['type'], number> = {
+  image: readPositiveInt(process.env.MEDIA_MAX_IMAGE_MB, 20) * MB,
+  video: readPositiveInt(process.env.MEDIA_MAX_VIDEO_MB, 200) * MB,
+};
+export const CHUNK_BYTES = readPositiveInt(process.env.MEDIA_CHUNK_MB, 5) * MB;
+const UPLOAD_TTL_SECONDS = readPositiveInt(process.env.MEDIA_UPLOAD_TTL_HOURS, 24) * 60 * 60;
+const STAGING_DIR = path.resolve(process.env.MEDIA_STAGING_DIR || path.join(os.tmpdir(), 'media-uploads'));
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Accepted content types and the extension their files are stored with
+ */
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+};
+
+export const UPLOAD_CONTENT_TYPES = Object.keys(EXTENSIONS);
+
+const sessions = getKeyValueStore('media-upload:');
+
+// ============================================================
+// CONTENT SNIFFING
+// ============================================================
+
+/** Enough leading bytes to recognise every accepted format */
+const SNIFF_BYTES = 12;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const HEIC_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1']);
+const MP4_BRANDS = new Set(['isom', 'iso2', 'iso4', 'iso5', 'iso6', 'mp41', 'mp42', 'avc1', 'dash', 'mmp4', 'M4V ']);
+
+/**
+ * The accepted content type a file's leading bytes identify, if any
+ */
+function sniffContentType(header: Buffer): string | null {
+  if (header.length >= 3 && header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (header.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    return 'image/png';
+  }
+
+  const ascii = header.toString('latin1', 0, SNIFF_BYTES);
+  if (ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')) {
+    return 'image/gif';
+  }
+  if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  // ISO base media files: a box size, then "ftyp" and the major brand
+  if (ascii.slice(4, 8) === 'ftyp') {
+    const brand = ascii.slice(8, 12);
+    if (HEIC_BRANDS.has(brand)) {
+      return 'image/heic';
+    }
+    if (brand === 'qt  ') {
+      return 'video/quicktime';
+    }
+    if (MP4_BRANDS.has(brand)) {
+      return 'video/mp4';
+    }
+  }
+  return null;
+}
+
+function mediaTypeOf(contentType: string): UploadedMedia['type'] {
+  return contentType.startsWith('video/') ? 'video' : 'image';
+}
+
+/**
+ * @throws MediaUploadError if size is over the cap for the content type
+ */
+function assertWithinCap(contentType: string, size: number): void {
+  const type = mediaTypeOf(contentType);
+  if (size > MAX_BYTES[type]) {
+    throw new MediaUploadError(
+      'UPLOAD_TOO_LARGE',
+      `${type === 'video' ? 'Videos' : 'Photos'} can be at most ${MAX_BYTES[type] / MB} MB`
+    );
+  }
+}
+
+// ============================================================
+// SESSIONS
+// ============================================================
+
+function stagingPath(uploadId: string): string {
+  return path.join(STAGING_DIR, uploadId);
+}
+
+async function receivedBytes(uploadId: string): Promise<number> {
+  try {
+    return (await fs.stat(stagingPath(uploadId))).size;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+function toStatus(session: UploadSession, received: number): UploadSessionStatus {
+  return {
+    uploadId: session.id,
+    contentType: session.contentType,
+    size: session.size,
+    receivedBytes: received,
+    chunkSize: CHUNK_BYTES,
+    expiresAt: session.expiresAt,
+  };
+}
+
+/**
+ * Load a session, treating other users' sessions as missing
+ * @throws MediaUploadError if it does not exist, has expired or isn't the user's
+ */
+async function loadSession(userId: string, uploadId: string): Promise<UploadSession> {
+  const raw = await sessions.get(uploadId);
+  const session: UploadSession | null = raw ? JSON.parse(raw) : null;
+  if (!session || session.userId !== userId) {
+    throw new MediaUploadError('UPLOAD_NOT_FOUND', 'Upload not found or expired');
+  }
+  return session;
+}
+
+async function discardSession(uploadId: string): Promise<void> {
+  await sessions.delete(uploadId);
+  await fs.rm(stagingPath(uploadId), { force: true });
+}
+
+const uploadLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run one step of an upload at a time, so a retried chunk racing the
+ * original can't write the same bytes twice
+ */
+async function withUploadLock<T>(uploadId: string, step: () => Promise<T>): Promise<T> {
+  const previous = uploadLocks.get(uploadId) || Promise.resolve();
+  const current = previous.catch(() => undefined).then(step);
+  uploadLocks.set(uploadId, current);
+  try {
+    return await current;
+  } finally {
+    if (uploadLocks.get(uploadId) === current) {
+      uploadLocks.delete(uploadId);
+    }
+  }
+}
+
+/**
+ * Start an upload
+ *
+ * @throws MediaUploadError if the content type is not accepted or the size is over its cap
+ */
+export async function createUploadSession(userId: string, contentType: string, size: number): Promise<UploadSessionStatus> {
+  if (!EXTENSIONS[contentType]) {
+    throw new MediaUploadError(
+      'UNSUPPORTED_MEDIA_TYPE',
+      `Unsupported media type. Upload one of: ${UPLOAD_CONTENT_TYPES.join(', ')}`
+    );
+  }
+  assertWithinCap(contentType, size);
+
+  const session: UploadSession = {
+    id: randomBytes(16).toString('hex'),
+    userId,
+    contentType,
+    size,
+    expiresAt: new Date(Date.now() + UPLOAD_TTL_SECONDS * 1000).toISOString(),
+  };
+  await sessions.set(session.id, JSON.stringify(session), UPLOAD_TTL_SECONDS);
+
+  return toStatus(session, 0);
+}
+
+/**
+ * How far an upload has got, to resume it
+ * @throws MediaUploadError if it does not exist, has expired or isn't the user's
+ */
+export async function getUploadStatus(userId: string, uploadId: string): Promise<UploadSessionStatus> {
+  const session = await loadSession(userId, uploadId);
+  return toStatus(session, await receivedBytes(uploadId));
+}
+
+/**
+ * Add a chunk to an upload
+ *
+ * Chunks must continue from the bytes already received; a chunk that
+ * overlaps them (a retry after a lost response) only adds its new bytes.
+ *
+ * @param contentRange - The request's Content-Range, "bytes <first>-<last>/<size>"
+ * @throws MediaUploadError if the range is malformed or leaves a gap, or the
+ *   first bytes are not a supported photo or video or the declared size is
+ *   over the cap for what they are (the upload is discarded)
+ */
+export async function appendChunk(
+  userId: string,
+  uploadId: string,
+  contentRange: string | undefined,
+  data: Buffer | undefined
+): Promise<UploadSessionStatus> {
+  const session = await loadSession(userId, uploadId);
+
+  const match = /^bytes (\d+)-(\d+)\/(\d+)$/.exec((contentRange || '').trim());
+  const chunk = Buffer.isBuffer(data) ? data : Buffer.alloc(0);
+  const start = match ? Number(match[1]) : NaN;
+  const end = match ? Number(match[2]) : NaN;
+  if (!match || Number(match[3]) !== session.size || end < start || end >= session.size || end - start + 1 !== chunk.length) {
+    throw new MediaUploadError(
+      'INVALID_CONTENT_RANGE',
+      `Content-Range must be "bytes <first>-<last>/${session.size}" and match the ${chunk.length} bytes sent`
+    );
+  }
+
+  return withUploadLock(uploadId, async () => {
+    const received = await receivedBytes(uploadId);
+    if (start > received) {
+      throw new MediaUploadError('UPLOAD_OFFSET_MISMATCH', `Expected the next chunk to start at byte ${received}`);
+    }
+    if (end < received) {
+      return toStatus(session, received);
+    }
+
+    const fresh = chunk.subarray(received - start);
+    if (received === 0 && (fresh.length >= SNIFF_BYTES || fresh.length === session.size)) {
+      const sniffed = sniffContentType(fresh);
+      try {
+        if (!sniffed) {
+          throw new MediaUploadError('UNSUPPORTED_MEDIA_TYPE', 'The file is not a supported photo or video');
+        }
+        assertWithinCap(sniffed, session.size);
+      } catch (error) {
+        await discardSession(uploadId);
+        throw error;
+      }
+    }
+
+    await fs.mkdir(STAGING_DIR, { recursive: true });
+    await fs.appendFile(stagingPath(uploadId), fresh);
+    return toStatus(session, received + fresh.length);
+  });
+}
+
+/**
+ * Finish an upload: check the file, move it to media storage and record it
+ *
+ * @throws MediaUploadError if bytes are missing, or the file is not a
+ *   supported photo or video or is over its cap (the upload is discarded)
+ */
+export async function completeUpload(userId: string, uploadId: string): Promise<UploadedMedia> {
+  const session = await loadSession(userId, uploadId);
+
+  return withUploadLock(uploadId, async () => {
+    const filePath = stagingPath(uploadId);
+    const received = await receivedBytes(uploadId);
+    if (received < session.size) {
+      throw new MediaUploadError('UPLOAD_INCOMPLETE', `Received ${received} of ${session.size} bytes`);
+    }
+
+    const header = Buffer.alloc(SNIFF_BYTES);
+    const file = await fs.open(filePath, 'r');
+    try {
+      await file.read(header, 0, SNIFF_BYTES, 0);
+    } finally {
+      await file.close();
+    }
+
+    const contentType = sniffContentType(header);
+    try {
+      if (!contentType) {
+        throw new MediaUploadError('UNSUPPORTED_MEDIA_TYPE', 'The file is not a supported photo or video');
+      }
+      assertWithinCap(contentType, received);
+    } catch (error) {
+      await discardSession(uploadId);
+      throw error;
+    }
+
+    const storage = getMediaStorage();
+    const storageKey = `${randomBytes(16).toString('hex')}.${EXTENSIONS[contentType]}`;
+    await storage.putFile(storageKey, filePath, contentType);
+
+    let media: MediaRecord;
+    try {
+      media = await getRepositories().media.create({
+        userId,
+        storageKey,
+        url: storage.url(storageKey),
+        type: mediaTypeOf(contentType),
+        contentType,
+        size: received,
+      });
+    } catch (error) {
+      await storage.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+
+    await discardSession(uploadId);
+    return { id: media.id, url: media.url, type: media.type, contentType: media.contentType, size: media.size };
+  });
+}
+
+/**
+ * Cancel an upload and drop its received bytes
+ * @throws MediaUploadError if it does not exist, has expired or isn't the user's
+ */
+export async function abortUpload(userId: string, uploadId: string): Promise<void> {
+  await loadSession(userId, uploadId);
+  await withUploadLock(uploadId, () => discardSession(uploadId));
+}
+
+// ============================================================
+// POST ATTACHMENTS
+// ============================================================
+
+/**
+ * Whether a URL points at a file in this server's media storage
+ */
+export function isUploadedMediaUrl(url: string): boolean {
+  return url.startsWith(`${getMediaStorage().baseUrl}/`);
+}
+
+/**
+ * Turn a post's attachments into stored media, replacing media IDs with
+ * their URL and sniffed type
+ *
+ * @throws MediaUploadError if a media ID does not exist or was uploaded by someone else
+ */
+export async function resolvePostMedia(userId: string, items: PostMediaInput[]): Promise<PostMedia[]> {
+  const { media } = getRepositories();
+
+  return Promise.all(
+    items.map(async item => {
+      const details = {
+        ...(item.width !== undefined && { width: item.width }),
+        ...(item.height !== undefined && { height: item.height }),
+        ...(item.blurhash && { blurhash: item.blurhash }),
+        ...(item.alt && { alt: item.alt }),
+      };
+
+      if (!('mediaId' in item)) {
+        return { url: item.url, type: item.type, ...details };
+      }
+
+      const record = await media.findById(item.mediaId);
+      if (!record || record.userId !== userId) {
+        throw new MediaUploadError('INVALID_MEDIA', `Media ${item.mediaId} not found`);
+      }
+      return { url: record.url, type: record.type, ...details };
+    })
+  );
+}
+
+// ============================================================
+// CLEANUP
+// ============================================================
+
+/**
+ * Remove staged bytes of uploads that expired without being completed
+ * @returns How many were removed
+ */
+export async function sweepStaleUploads(): Promise<number> {
+  let names: string[];
+  try {
+    names = await fs.readdir(STAGING_DIR);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+
+  const cutoff = Date.now() - UPLOAD_TTL_SECONDS * 1000;
+  let removed = 0;
+  for (const name of names) {
+    const filePath = path.join(STAGING_DIR, name);
+    const stats = await fs.stat(filePath).catch(() => null);
+    // Appending touches the file, so this is the time of the last chunk
+    if (stats && stats.mtimeMs < cutoff && !uploadLocks.has(name)) {
+      await fs.rm(filePath, { force: true });
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Sweep stale uploads hourly. Returns a function that stops the job.
+ */
+export function startUploadCleanupJob(): () => void {
+  const run = async () => {
+    try {
+      const removed = await sweepStaleUploads();
+      if (removed > 0) {
+        console.log(JSON.stringify({
+          type: 'media_uploads_swept',
+          timestamp: new Date().toISOString(),
+          removed,
+        }));
+      }
+    } catch (error) {
+      console.error('Media upload cleanup error:', error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, CLEANUP_INTERVAL_MS);
+  // Don't keep the process alive just for the job
+  (timer as any).unref?.();
+
+  return () => clearInterval(timer);
+}
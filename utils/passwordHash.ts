@@ -108,6 +108,25 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   }
 }
 
+/**
+ * Hash of a random password nobody knows, made with ARGON2_OPTIONS.
+ * Regenerate it if the options change, so dummy checks keep the same cost.
+ */
+const DUMMY_HASH = '$argon2i$v=19$m=65536,t=3,p=4$7bpAl7VbAnJ34YT/PG+3ZA$+lcCOj60TkMKQkcxug5Xn1jNBirD52AU33UGqnQrI54';
+
+/**
+ * Spend the same time as verifyPassword when there is no hash to check
+ * 
+ * Login calls this for unknown emails, so response times don't reveal
+ * which accounts exist.
+ * 
+ * @returns Always false
+ */
+export async function verifyDummyPassword(password: string): Promise<false> {
+  await argon2.verify(DUMMY_HASH, password || '').catch(() => false);
+  return false;
+}
+
 /**
  * Check if a password hash needs to be rehashed
  * Useful for migration to stronger parameters
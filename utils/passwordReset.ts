@@ -0,0 +1,134 @@
+/**
+ * Password Reset
+ *
+ * FLOW:
+ * 1. POST /api/auth/password-reset issues a random token and emails it
+ *    (the response never reveals whether the email exists)
+ * 2. Only the SHA-256 hash of the token is stored, with a 15 minute expiry,
+ *    so a leaked store cannot be used to reset passwords
+ * 3. POST /api/auth/password-reset/confirm consumes the token (single-use),
+ *    stores the new password hash and revokes every existing session
+ *
+ * Requesting a new reset link invalidates the previous one.
+ *
+ * Environment Variables:
+ * - PASSWORD_RESET_EXPIRES_MINUTES (default: 15)
+ * - PASSWORD_RESET_URL (default: <APP_URL>/forgot-password)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import crypto from 'crypto';
+import type { User } from './User';
+import { getKeyValueStore } from './keyValueStore';
+import { sendMail } from './mailer';
+import { hashPassword } from './passwordHash';
+import { findUserById, updateUser } from './userStore';
+import { revokeAllRefreshTokenFamilies } from './refreshTokens';
+import { revokeUserTokens } from './tokenDenylist';
+
+// token hash -> user ID
+const resetTokens = getKeyValueStore('password-reset:');
+// user ID -> token hash of the latest link (so a new link supersedes the old one)
+const latestResetTokens = getKeyValueStore('password-reset-user:');
+
+export class PasswordResetError extends Error {
+  status = 400;
+  code = 'INVALID_RESET_TOKEN';
+
+  constructor(message = 'Password reset link is invalid or has expired') {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function getResetTtlSeconds(): number {
+  const minutes = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '15', 10);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : 15) * 60;
+}
+
+function getResetUrl(token: string): string {
+  const baseUrl =
+    process.env.PASSWORD_RESET_URL ||
+    `${process.env.APP_URL || 'http://localhost:8081'}/forgot-password`;
+  return `${baseUrl}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Issue a reset token for a user and email the reset link
+ *
+ * @param user - Account requesting the reset
+ */
+export async function sendPasswordResetEmail(user: User): Promise<void> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const tokenHash = hashResetToken(token);
+  const ttlSeconds = getResetTtlSeconds();
+
+  // Invalidate the previous link, if any
+  const previousHash = await latestResetTokens.get(user.id);
+  if (previousHash) {
+    await resetTokens.delete(previousHash);
+  }
+
+  await resetTokens.set(tokenHash, user.id, ttlSeconds);
+  await latestResetTokens.set(user.id, tokenHash, ttlSeconds);
+
+  const link = getResetUrl(token);
+  const minutes = Math.round(ttlSeconds / 60);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Vairo password',
+    text:
+      `Hi ${user.displayName || 'there'},\n\n` +
+      `Someone (hopefully you) asked to reset your Vairo password. Use this link to choose a new one:\n\n` +
+      `${link}\n\n` +
+      `This link expires in ${minutes} minutes and can only be used once. ` +
+      `If you didn't ask for this, you can ignore this email - your password has not changed.`,
+    html:
+      `<p>Hi ${user.displayName || 'there'},</p>` +
+      `<p>Someone (hopefully you) asked to reset your Vairo password. Use this link to choose a new one:</p>` +
+      `<p><a href="${link}">Reset password</a></p>` +
+      `<p>This link expires in ${minutes} minutes and can only be used once. ` +
+      `If you didn't ask for this, you can ignore this email - your password has not changed.</p>`,
+  });
+}
+
+/**
+ * Consume a reset token, set the new password and sign the user out everywhere
+ *
+ * @param token - Token from the reset link
+ * @param newPassword - New password (already strength-checked by the caller)
+ * @returns Updated user
+ * @throws PasswordResetError if the token is unknown, expired or already used
+ */
+export async function resetPasswordWithToken(token: string, newPassword: string): Promise<User> {
+  const tokenHash = hashResetToken(token);
+
+  const userId = await resetTokens.get(tokenHash);
+  if (!userId) {
+    throw new PasswordResetError();
+  }
+
+  // Single-use: delete before doing anything else
+  await resetTokens.delete(tokenHash);
+  await latestResetTokens.delete(userId);
+
+  const user = await findUserById(userId);
+  if (!user) {
+    throw new PasswordResetError();
+  }
+
+  const passwordHash = await hashPassword(newPassword);
+  const updated = (await updateUser(user.id, { passwordHash })) || user;
+
+  // Anyone holding an old session (possibly the attacker) is signed out
+  await revokeAllRefreshTokenFamilies(user.id, 'password_reset');
+  await revokeUserTokens(user.id);
+
+  return updated;
+}
@@ -0,0 +1,176 @@
+/**
+ * Post Audiences - Who can see a post, and the reads that respect it
+ *
+ * Every post has an audience (database/repositories/types.ts):
+ * - public: everyone
+ * - followers: accounts that follow the author
+ * - close_friends: accounts on the author's close friends list
+ * - only_me: the author alone
+ *
+ * Authors always see their own posts. Every read path checks the audience
+ * against the authenticated viewer: the home feed (utils/homeFeed.ts),
+ * profile grids, search and single-post fetches, plus likes, comments,
+ * edit history and impressions, so a post outside the viewer's audience
+ * behaves exactly like a missing one (404, never 403).
+ *
+ * Listings pass a PostViewer to the repository, so filtering happens in
+ * the query and pages stay full.
+ *
+ * Close friends lists are one-sided and private: only the owner can read
+ * or change theirs.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import { canViewPost, getRepositories, type PageOptions, type PostRecord, type PostViewer } from '../database/repositories';
+import type { User } from './User';
+
+/**
+ * Error codes surfaced to the profile, search and close friends endpoints
+ */
+export type PostAudienceErrorCode = 'USER_NOT_FOUND' | 'INVALID_CLOSE_FRIEND';
+
+const ERROR_STATUS: Record<PostAudienceErrorCode, number> = {
+  USER_NOT_FOUND: 404,
+  INVALID_CLOSE_FRIEND: 400,
+};
+
+/**
+ * Raised when a profile or close friend does not exist or cannot be used
+ */
+export class PostAudienceError extends Error {
+  status: number;
+  code: PostAudienceErrorCode;
+
+  constructor(code: PostAudienceErrorCode, message: string) {
+    super(message);
+    this.name = 'PostAudienceError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+/**
+ * Accounts whose profiles and posts are shown to others
+ */
+function isListed(user: User | undefined): user is User {
+  return !!user && user.isActive && !user.isSuspended;
+}
+
+/**
+ * The viewer's relationships, for repository listings and canViewPost
+ */
+export async function getPostViewer(userId: string): Promise<PostViewer> {
+  const { follows, closeFriends } = getRepositories();
+  const [followingIds, closeFriendOfIds] = await Promise.all([
+    follows.listFollowingIds(userId),
+    closeFriends.listOwnerIds(userId),
+  ]);
+  return { userId, followingIds, closeFriendOfIds };
+}
+
+/**
+ * A post, if it exists and the viewer is in its audience
+ *
+ * @param viewer - User ID, or a viewer already loaded with getPostViewer
+ */
+export async function findVisiblePost(postId: string, viewer: string | PostViewer): Promise<PostRecord | undefined> {
+  const post = await getRepositories().posts.findById(postId);
+  if (!post) {
+    return undefined;
+  }
+
+  const viewerId = typeof viewer === 'string' ? viewer : viewer.userId;
+  if (post.userId === viewerId || post.audience === 'public') {
+    return post;
+  }
+
+  const loaded = typeof viewer === 'string' ? await getPostViewer(viewer) : viewer;
+  return canViewPost(post, loaded) ? post : undefined;
+}
+
+/**
+ * A profile's posts that the viewer may see, newest first
+ *
+ * @throws PostAudienceError if the author does not exist or is deactivated or suspended
+ */
+export async function listProfilePosts(
+  authorId: string,
+  viewerId: string,
+  page: PageOptions = {}
+): Promise<{ author: User; posts: PostRecord[] }> {
+  const { users, posts } = getRepositories();
+
+  const author = await users.findById(authorId);
+  if (!isListed(author)) {
+    throw new PostAudienceError('USER_NOT_FOUND', 'User not found');
+  }
+
+  return {
+    author,
+    posts: await posts.listByUser(authorId, { ...page, visibleTo: await getPostViewer(viewerId) }),
+  };
+}
+
+/**
+ * Accounts and posts matching a query
+ *
+ * Accounts match on name or username prefix - never email, so search
+ * cannot reveal who is registered. Posts match on caption, newest first,
+ * limited to those the viewer may see.
+ */
+export async function searchContent(
+  query: string,
+  viewerId: string,
+  limit?: number
+): Promise<{ users: User[]; posts: PostRecord[]; authors: User[] }> {
+  const { users, posts } = getRepositories();
+
+  const [matchedUsers, matchedPosts] = await Promise.all([
+    users.search(query, limit),
+    getPostViewer(viewerId).then(viewer => posts.search(query, { limit, visibleTo: viewer })),
+  ]);
+
+  const authors = (await users.findByIds([...new Set(matchedPosts.map(post => post.userId))])).filter(isListed);
+  const listedAuthorIds = new Set(authors.map(author => author.id));
+
+  return {
+    users: matchedUsers.filter(isListed),
+    posts: matchedPosts.filter(post => listedAuthorIds.has(post.userId)),
+    authors,
+  };
+}
+
+/**
+ * The user's close friends (deactivated and suspended accounts left out)
+ */
+export async function listCloseFriends(userId: string): Promise<User[]> {
+  const { users, closeFriends } = getRepositories();
+  return (await users.findByIds(await closeFriends.listFriendIds(userId))).filter(isListed);
+}
+
+/**
+ * Add an account to the user's close friends list
+ *
+ * @returns false if already on the list
+ * @throws PostAudienceError if the account is the user themselves or does not exist
+ */
+export async function addCloseFriend(userId: string, friendId: string): Promise<boolean> {
+  if (friendId === userId) {
+    throw new PostAudienceError('INVALID_CLOSE_FRIEND', 'You cannot add yourself to your close friends');
+  }
+
+  const { users, closeFriends } = getRepositories();
+  if (!isListed(await users.findById(friendId))) {
+    throw new PostAudienceError('USER_NOT_FOUND', 'User not found');
+  }
+
+  return closeFriends.add(userId, friendId);
+}
+
+/**
+ * @returns false if the account was not on the list
+ */
+export async function removeCloseFriend(userId: string, friendId: string): Promise<boolean> {
+  return getRepositories().closeFriends.remove(userId, friendId);
+}
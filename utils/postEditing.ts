@@ -0,0 +1,182 @@
+/**
+ * Post Editing - Caption edits, edit history and soft deletion
+ *
+ * Authors can edit their post's caption for a limited time after posting
+ * (POST_EDIT_WINDOW_MINUTES). Every edit keeps the replaced caption in the
+ * post's edit history, and the post carries editedAt so clients can mark
+ * it as edited.
+ *
+ * Deleting is soft: the post disappears from feeds, profiles and lookups,
+ * but stays stored with its likes, comments and history, so a moderator
+ * can restore it.
+ *
+ * Ownership is checked against the authenticated user. Moderators and
+ * admins may edit or delete anyone's post, at any time - once they meet the
+ * 2FA policy for their role, as on the moderation routes (checkRoleAccess in
+ * utils/twoFactor.ts). Posts outside the actor's audience
+ * (utils/postAudience.ts) are reported as not found.
+ *
+ * Environment Variables:
+ * - POST_EDIT_WINDOW_MINUTES (default 15)
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import { getRepositories } from '../database/repositories';
+import type { PostEditRecord, PostRecord } from '../database/repositories';
+import { findVisiblePost } from './postAudience';
+import { checkRoleAccess } from './twoFactor';
+import type { AuthenticatedUser } from './User';
+
+/**
+ * Error codes surfaced to the post endpoints
+ */
+export type PostEditErrorCode =
+  | 'POST_NOT_FOUND'
+  | 'NOT_POST_OWNER'
+  | 'EDIT_WINDOW_CLOSED'
+  | 'EMPTY_POST'
+  | 'POST_NOT_DELETED'
+  | 'TWO_FACTOR_REQUIRED';
+
+const ERROR_STATUS: Record<PostEditErrorCode, number> = {
+  POST_NOT_FOUND: 404,
+  NOT_POST_OWNER: 403,
+  TWO_FACTOR_REQUIRED: 403,
+  EDIT_WINDOW_CLOSED: 403,
+  EMPTY_POST: 400,
+  POST_NOT_DELETED: 409,
+};
+
+/**
+ * Raised when a post cannot be edited, deleted or restored
+ */
+export class PostEditError extends Error {
+  status: number;
+  code: PostEditErrorCode;
+
+  constructor(code: PostEditErrorCode, message: string) {
+    super(message);
+    this.name = 'PostEditError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export const EDIT_WINDOW_MINUTES = readPositiveInt(process.env.POST_EDIT_WINDOW_MINUTES, 15);
+
+/**
+ * The post, if the actor may change it
+ *
+ * @returns The post, and whether the actor acts as a moderator (any post, no edit window)
+ * @throws PostEditError if missing (or deleted) or not the actor's to change
+ */
+async function findManageablePost(
+  postId: string,
+  actor: AuthenticatedUser
+): Promise<{ post: PostRecord; moderating: boolean }> {
+  const post = await getRepositories().posts.findById(postId);
+  if (!post) {
+    throw new PostEditError('POST_NOT_FOUND', 'Post not found');
+  }
+
+  const access = await checkRoleAccess(actor, 'moderator');
+  if (post.userId !== actor.userId && access !== 'allowed') {
+    if (!(await findVisiblePost(postId, actor.userId))) {
+      throw new PostEditError('POST_NOT_FOUND', 'Post not found');
+    }
+    throw access === 'TWO_FACTOR_REQUIRED'
+      ? new PostEditError('TWO_FACTOR_REQUIRED', `Set up two-factor authentication to use ${actor.role} features`)
+      : new PostEditError('NOT_POST_OWNER', 'You can only change your own posts');
+  }
+  return { post, moderating: access === 'allowed' };
+}
+
+/**
+ * Replace a post's caption
+ *
+ * An unchanged caption is not recorded as an edit.
+ *
+ * @throws PostEditError if missing, not the actor's, past the edit window,
+ *   or left with neither caption nor media
+ */
+export async function editPost(
+  postId: string,
+  caption: string,
+  actor: AuthenticatedUser,
+  now = new Date()
+): Promise<PostRecord> {
+  const { post, moderating } = await findManageablePost(postId, actor);
+
+  const editableUntil = post.createdAt.getTime() + EDIT_WINDOW_MINUTES * 60 * 1000;
+  if (!moderating && now.getTime() > editableUntil) {
+    throw new PostEditError(
+      'EDIT_WINDOW_CLOSED',
+      `Posts can only be edited within ${EDIT_WINDOW_MINUTES} minutes of posting`
+    );
+  }
+
+  if (!caption && post.media.length === 0) {
+    throw new PostEditError('EMPTY_POST', 'A post needs a caption or media');
+  }
+
+  if (caption === post.caption) {
+    return post;
+  }
+
+  const updated = await getRepositories().posts.updateCaption(postId, caption, actor.userId);
+  if (!updated) {
+    throw new PostEditError('POST_NOT_FOUND', 'Post not found');
+  }
+  return updated;
+}
+
+/**
+ * Soft-delete a post
+ *
+ * @throws PostEditError if missing or not the actor's
+ */
+export async function deletePost(postId: string, actor: AuthenticatedUser): Promise<PostRecord> {
+  await findManageablePost(postId, actor);
+
+  const deleted = await getRepositories().posts.softDelete(postId, actor.userId);
+  if (!deleted) {
+    throw new PostEditError('POST_NOT_FOUND', 'Post not found');
+  }
+  return deleted;
+}
+
+/**
+ * Bring back a soft-deleted post (moderators; the route enforces the role)
+ *
+ * @throws PostEditError if missing or not deleted
+ */
+export async function restorePost(postId: string): Promise<PostRecord> {
+  const { posts } = getRepositories();
+
+  const restored = await posts.restore(postId);
+  if (!restored) {
+    const existing = await posts.findById(postId, { includeDeleted: true });
+    throw existing
+      ? new PostEditError('POST_NOT_DELETED', 'Post is not deleted')
+      : new PostEditError('POST_NOT_FOUND', 'Post not found');
+  }
+  return restored;
+}
+
+/**
+ * Previous captions of a post the viewer can see, newest first
+ *
+ * @throws PostEditError if missing, deleted or outside the viewer's audience
+ */
+export async function listPostEdits(postId: string, viewerId: string): Promise<PostEditRecord[]> {
+  if (!(await findVisiblePost(postId, viewerId))) {
+    throw new PostEditError('POST_NOT_FOUND', 'Post not found');
+  }
+  return getRepositories().posts.listEdits(postId);
+}
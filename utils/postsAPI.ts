@@ -0,0 +1,266 @@
+/**
+ * Posts API Service - Creating, reading, editing, deleting and restoring posts
+ *
+ * Every post has an audience (public, followers, close friends or only me);
+ * the server leaves out posts the signed-in user is not in the audience of,
+ * so single fetches, profile grids and search only return what may be shown.
+ *
+ * Authors can edit a caption for a limited time after posting and delete
+ * their own posts; moderators and admins can do both for any post, and
+ * restore deleted ones.
+ *
+ * @usage
+ * import { postsAPI } from '@/utils/postsAPI';
+ *
+ * const { id } = await postsAPI.uploadMedia(asset.uri, 'image/jpeg', p => setProgress(p));
+ * await postsAPI.createPost({ caption: 'Hello', media: [{ mediaId: id, alt: 'A red bike' }], audience: 'close_friends' });
+ * const { post, author } = await postsAPI.getPost(postId);
+ * const { posts, nextBefore } = await postsAPI.getUserPosts(userId);
+ * const results = await postsAPI.search('sunset');
+ * await postsAPI.addCloseFriend(userId);
+ * const post = await postsAPI.editPost(postId, 'Fixed the typo');
+ * await postsAPI.deletePost(postId);
+ * const { edits } = await postsAPI.getEditHistory(postId);
+ * await postsAPI.restorePost(postId); // Moderators
+ */
+
+import { apiClient } from '@/utils/apiClient';
+import type { PostAudience } from '@/context/AppContext';
+import type { Post, PostMedia, User } from '@/utils/feedAlgorithm';
+
+/**
+ * Post as stored on the server
+ */
+export interface ServerPost {
+  id: string;
+  userId: string;
+  type: 'text' | 'image' | 'video';
+  caption: string;
+  media: PostMedia[]; // In display order
+  mentions: string[];
+  audience: PostAudience;
+  likesCount: number;
+  commentsCount: number;
+  sharesCount: number;
+  createdAt: string;
+  updatedAt: string;
+  editedAt?: string;
+  deletedAt?: string;
+  deletedBy?: string;
+}
+
+export interface PostEdit {
+  id: string;
+  postId: string;
+  caption: string; // The caption before this edit
+  editedBy: string;
+  editedAt: string;
+}
+
+export interface UploadSession {
+  uploadId: string;
+  contentType: string;
+  size: number; // Total bytes
+  receivedBytes: number; // The next chunk starts here
+  chunkSize: number; // Largest chunk the server accepts
+  expiresAt: string;
+}
+
+export interface UploadedMedia {
+  id: string; // Pass as the attachment's mediaId in CreatePostRequest.media
+  url: string;
+  type: 'image' | 'video'; // Sniffed from the file by the server
+  contentType: string;
+  size: number; // Bytes
+}
+
+/**
+ * A post attachment to create: an uploaded file by ID, or a URL
+ */
+export type PostMediaInput = Omit<PostMedia, 'url' | 'type'> & ({ mediaId: string } | Pick<PostMedia, 'url' | 'type'>);
+
+export interface CreatePostRequest {
+  caption?: string;
+  type?: 'text' | 'image' | 'video'; // Inferred from the media when omitted
+  audience?: PostAudience; // Defaults to public
+  media?: PostMediaInput[]; // At most 5, in display order
+  mediaUrls?: string[]; // Bare URLs instead of media
+  mentions?: string[];
+}
+
+export interface SearchResults {
+  users: User[];
+  posts: Post[];
+  authors: User[]; // Authors of the matched posts
+}
+
+const CHUNK_RETRIES = 3;
+const CHUNK_RETRY_DELAY_MS = 1000; // Grows with each failure in a row
+
+/**
+ * Posts API Service
+ */
+class PostsAPI {
+  /**
+   * Upload a photo or video from a local URI (camera or gallery)
+   *
+   * Sends the file in chunks. When a chunk fails (a dropped connection),
+   * asks the server how much arrived and resumes from there, giving up
+   * after CHUNK_RETRIES failures in a row.
+   *
+   * @param onProgress - Called with the fraction uploaded so far (0 to 1)
+   */
+  async uploadMedia(
+    uri: string,
+    contentType: string,
+    onProgress?: (progress: number) => void
+  ): Promise<UploadedMedia> {
+    const file = await (await fetch(uri)).blob();
+    const size = file.size;
+    let upload = await apiClient.post<UploadSession>('/api/media/uploads', { contentType, size });
+    const uploadPath = `/api/media/uploads/${upload.uploadId}`;
+
+    let failures = 0;
+    let firstError: unknown;
+    while (upload.receivedBytes < size) {
+      const start = upload.receivedBytes;
+      const end = Math.min(start + upload.chunkSize, size);
+      try {
+        upload = await apiClient.upload<UploadSession>(uploadPath, file.slice(start, end), {
+          method: 'PUT',
+          headers: { 'Content-Range': `bytes ${start}-${end - 1}/${size}` },
+          onProgress: progress => onProgress?.((start + progress * (end - start)) / size),
+        });
+        failures = 0;
+      } catch (error) {
+        // Report what started the failures, not a later "upload not found"
+        firstError = failures === 0 ? error : firstError;
+        if (++failures > CHUNK_RETRIES) {
+          throw firstError;
+        }
+        await new Promise(resolve => setTimeout(resolve, failures * CHUNK_RETRY_DELAY_MS));
+        try {
+          // The chunk may have arrived before the connection dropped
+          upload = await apiClient.get<UploadSession>(uploadPath);
+        } catch {
+          // Still offline; send the same chunk again
+        }
+      }
+    }
+
+    const media = await apiClient.post<UploadedMedia>(`${uploadPath}/complete`);
+    onProgress?.(1);
+    return media;
+  }
+
+  /**
+   * Publish a post
+   */
+  async createPost(request: CreatePostRequest): Promise<ServerPost> {
+    return apiClient.post<ServerPost>('/api/posts', request);
+  }
+
+  /**
+   * A single post with its author
+   *
+   * @throws Error if the post does not exist or you are not in its audience
+   */
+  async getPost(postId: string): Promise<{ post: Post; author: User }> {
+    return apiClient.get<{ post: Post; author: User }>(`/api/posts/${encodeURIComponent(postId)}`);
+  }
+
+  /**
+   * A profile's posts you may see, newest first
+   *
+   * Pass the previous page's nextBefore to load older posts.
+   */
+  async getUserPosts(
+    userId: string,
+    options: { before?: string; limit?: number } = {}
+  ): Promise<{ posts: Post[]; nextBefore: string | null }> {
+    const params = new URLSearchParams();
+    if (options.before) params.set('before', options.before);
+    if (options.limit) params.set('limit', String(options.limit));
+    const query = params.toString();
+
+    return apiClient.get<{ posts: Post[]; nextBefore: string | null }>(
+      `/api/users/${encodeURIComponent(userId)}/posts${query ? `?${query}` : ''}`
+    );
+  }
+
+  /**
+   * Accounts and posts matching a query
+   */
+  async search(query: string, limit?: number): Promise<SearchResults> {
+    const params = new URLSearchParams({ q: query });
+    if (limit) params.set('limit', String(limit));
+    return apiClient.get<SearchResults>(`/api/search?${params.toString()}`);
+  }
+
+  /**
+   * Your close friends list, the audience of close friends posts
+   */
+  async getCloseFriends(): Promise<User[]> {
+    const { users } = await apiClient.get<{ users: User[] }>('/api/users/me/close-friends');
+    return users;
+  }
+
+  async addCloseFriend(userId: string): Promise<{ userId: string; added: boolean }> {
+    return apiClient.put<{ userId: string; added: boolean }>(
+      `/api/users/me/close-friends/${encodeURIComponent(userId)}`
+    );
+  }
+
+  async removeCloseFriend(userId: string): Promise<{ userId: string; removed: boolean }> {
+    return apiClient.delete<{ userId: string; removed: boolean }>(
+      `/api/users/me/close-friends/${encodeURIComponent(userId)}`
+    );
+  }
+
+  /**
+   * Replace a post's caption (the previous one is kept in the history)
+   *
+   * @throws Error if the edit window has closed or the post is not yours
+   */
+  async editPost(postId: string, caption: string): Promise<ServerPost> {
+    return apiClient.patch<ServerPost>(`/api/posts/${encodeURIComponent(postId)}`, { caption });
+  }
+
+  /**
+   * Delete a post (moderators can restore it)
+   */
+  async deletePost(postId: string): Promise<{ id: string; deletedAt: string }> {
+    return apiClient.delete<{ id: string; deletedAt: string }>(`/api/posts/${encodeURIComponent(postId)}`);
+  }
+
+  /**
+   * Previous captions, newest first
+   */
+  async getEditHistory(postId: string): Promise<{ editWindowMinutes: number; edits: PostEdit[] }> {
+    return apiClient.get<{ editWindowMinutes: number; edits: PostEdit[] }>(
+      `/api/posts/${encodeURIComponent(postId)}/edits`
+    );
+  }
+
+  /**
+   * Deleted posts, most recently deleted first (moderators)
+   */
+  async getDeletedPosts(limit?: number): Promise<ServerPost[]> {
+    const { posts } = await apiClient.get<{ posts: ServerPost[] }>(
+      `/api/moderation/posts/deleted${limit ? `?limit=${limit}` : ''}`
+    );
+    return posts;
+  }
+
+  /**
+   * Bring back a deleted post (moderators)
+   */
+  async restorePost(postId: string): Promise<ServerPost> {
+    return apiClient.post<ServerPost>(`/api/moderation/posts/${encodeURIComponent(postId)}/restore`);
+  }
+}
+
+// Export singleton instance
+export const postsAPI = new PostsAPI();
+
+export default postsAPI;
@@ -0,0 +1,197 @@
+/**
+ * Ranking Profiles - Named, versioned feed ranking parameters
+ *
+ * The feed algorithm's weights, follower/impression caps, recency decay and
+ * priority-slot interleave (RankingParameters in utils/feedAlgorithm.ts)
+ * live in named profiles stored through the repository layer. Exactly one
+ * profile is active; it ranks every new feed snapshot, and each feed
+ * response reports the profile name and version that ranked it.
+ *
+ * Every edit bumps the profile's version and is recorded in an audit
+ * trail (who, when, parameters before and after). Edits can pass the
+ * version they were based on, so two admins cannot silently overwrite
+ * each other.
+ *
+ * A 'default' profile with DEFAULT_RANKING_PARAMETERS is created on first
+ * use when no profile is active.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import { getRepositories } from '../database/repositories';
+import type { RankingProfileAuditRecord, RankingProfileRecord } from '../database/repositories';
+import {
+  DEFAULT_RANKING_PARAMETERS,
+  validateRankingParameters,
+  type RankingParameters,
+} from './feedAlgorithm';
+
+export const DEFAULT_PROFILE_NAME = 'default';
+export const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+
+/**
+ * Which profile ranked a feed
+ */
+export interface RankingProfileRef {
+  name: string;
+  version: number;
+}
+
+/**
+ * Error codes surfaced to the admin endpoints
+ */
+export type RankingProfileErrorCode =
+  | 'INVALID_RANKING_PARAMETERS'
+  | 'RANKING_PROFILE_NOT_FOUND'
+  | 'RANKING_PROFILE_EXISTS'
+  | 'RANKING_PROFILE_VERSION_CONFLICT';
+
+const ERROR_STATUS: Record<RankingProfileErrorCode, number> = {
+  INVALID_RANKING_PARAMETERS: 400,
+  RANKING_PROFILE_NOT_FOUND: 404,
+  RANKING_PROFILE_EXISTS: 409,
+  RANKING_PROFILE_VERSION_CONFLICT: 409,
+};
+
+/**
+ * Raised when a profile cannot be created, updated or activated
+ */
+export class RankingProfileError extends Error {
+  status: number;
+  code: RankingProfileErrorCode;
+  details?: string[];
+
+  constructor(code: RankingProfileErrorCode, message: string, details?: string[]) {
+    super(message);
+    this.name = 'RankingProfileError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.details = details;
+  }
+}
+
+function assertValidParameters(parameters: unknown): asserts parameters is RankingParameters {
+  const errors = validateRankingParameters(parameters);
+  if (errors.length > 0) {
+    throw new RankingProfileError('INVALID_RANKING_PARAMETERS', 'Ranking parameters are not valid', errors);
+  }
+}
+
+/**
+ * The profile that ranks the home feed (creates 'default' if none is active)
+ */
+export async function getActiveRankingProfile(): Promise<RankingProfileRecord> {
+  const { rankingProfiles } = getRepositories();
+
+  const active = await rankingProfiles.findActive();
+  if (active) {
+    return active;
+  }
+
+  if (await rankingProfiles.findByName(DEFAULT_PROFILE_NAME)) {
+    return (await rankingProfiles.activate(DEFAULT_PROFILE_NAME, 'system'))!;
+  }
+
+  try {
+    return await rankingProfiles.create({
+      name: DEFAULT_PROFILE_NAME,
+      description: 'Built-in anti-bias ranking',
+      parameters: DEFAULT_RANKING_PARAMETERS,
+      active: true,
+      actorId: 'system',
+    });
+  } catch {
+    // Another request created it first
+    return (await rankingProfiles.findActive())!;
+  }
+}
+
+export async function listRankingProfiles(): Promise<RankingProfileRecord[]> {
+  await getActiveRankingProfile();
+  return getRepositories().rankingProfiles.list();
+}
+
+/**
+ * Create a profile
+ *
+ * @param input.parameters - Defaults to a copy of the active profile's parameters
+ * @throws RankingProfileError if the name is taken or the parameters are invalid
+ */
+export async function createRankingProfile(
+  input: { name: string; description?: string; parameters?: unknown },
+  actorId: string
+): Promise<RankingProfileRecord> {
+  const parameters = input.parameters ?? (await getActiveRankingProfile()).parameters;
+  assertValidParameters(parameters);
+
+  const { rankingProfiles } = getRepositories();
+  if (await rankingProfiles.findByName(input.name)) {
+    throw new RankingProfileError('RANKING_PROFILE_EXISTS', `Profile "${input.name}" already exists`);
+  }
+
+  const profile = await rankingProfiles.create({
+    name: input.name,
+    description: input.description,
+    parameters,
+    actorId,
+  });
+  return profile;
+}
+
+/**
+ * Replace a profile's parameters
+ *
+ * @param changes.expectedVersion - Version the edit was based on (rejects stale edits)
+ * @throws RankingProfileError if missing, stale or invalid
+ */
+export async function updateRankingProfile(
+  name: string,
+  changes: { parameters: unknown; description?: string; expectedVersion?: number },
+  actorId: string
+): Promise<RankingProfileRecord> {
+  assertValidParameters(changes.parameters);
+
+  const { rankingProfiles } = getRepositories();
+  const updated = await rankingProfiles.update(
+    name,
+    { parameters: changes.parameters, description: changes.description },
+    actorId,
+    changes.expectedVersion
+  );
+
+  if (!updated) {
+    const existing = await rankingProfiles.findByName(name);
+    if (!existing) {
+      throw new RankingProfileError('RANKING_PROFILE_NOT_FOUND', `Profile "${name}" not found`);
+    }
+    throw new RankingProfileError(
+      'RANKING_PROFILE_VERSION_CONFLICT',
+      `Profile "${name}" was changed by someone else (now version ${existing.version}). Reload and try again.`
+    );
+  }
+
+  return updated;
+}
+
+/**
+ * Make a profile the one that ranks the home feed
+ *
+ * @throws RankingProfileError if the profile does not exist
+ */
+export async function activateRankingProfile(name: string, actorId: string): Promise<RankingProfileRecord> {
+  const activated = await getRepositories().rankingProfiles.activate(name, actorId);
+  if (!activated) {
+    throw new RankingProfileError('RANKING_PROFILE_NOT_FOUND', `Profile "${name}" not found`);
+  }
+
+  return activated;
+}
+
+/**
+ * Audit trail, newest first
+ */
+export async function listRankingProfileAudit(
+  options: { profileName?: string; limit?: number } = {}
+): Promise<RankingProfileAuditRecord[]> {
+  return getRepositories().rankingProfiles.listAudit(options);
+}
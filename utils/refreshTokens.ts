@@ -0,0 +1,354 @@
+/**
+ * Refresh Token Families - Rotation with reuse detection
+ *
+ * Every login starts a new token family. Each call to /api/auth/refresh
+ * rotates the family: the presented token is retired and a new one is issued.
+ * Only the most recent token in a family is valid.
+ *
+ * If a retired token is presented again, the refresh cookie has most likely
+ * been stolen (either the attacker or the legitimate user already used it).
+ * The whole family is revoked, so both parties must log in again.
+ *
+ *   login ──> family F, token T1
+ *   refresh(T1) ──> T2          (T1 retired)
+ *   refresh(T2) ──> T3          (T2 retired)
+ *   refresh(T1) ──> REUSE DETECTED, family F revoked, T3 stops working
+ *
+ * Each family is also a SESSION shown to the user (one per login/device),
+ * with device name, user agent, IP, creation and last-seen times.
+ * Access tokens carry the family ID as `sid`, so revoking a session also
+ * rejects its access tokens (see isSessionRevoked).
+ *
+ * Families are stored through the sessions repository
+ * (database/repositories), so they survive restarts and every server
+ * instance sees the same revocations. Rotation is a compare-and-set on the
+ * family's current token ID.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import crypto from 'crypto';
+import { getRepositories, type SessionRecord } from '../database/repositories';
+import type { User } from './User';
+import { signRefreshToken, verifyJwt } from './jwt';
+import { describeDevice } from './deviceName';
+
+/**
+ * Server-side record of a refresh token family
+ */
+export type RefreshTokenFamily = SessionRecord;
+
+/**
+ * Request details recorded on a session
+ */
+export interface SessionContext {
+  deviceName?: string;
+  userAgent?: string;
+  ip?: string;
+}
+
+/**
+ * Session as shown to its owner
+ */
+export interface SessionInfo {
+  id: string;
+  deviceName: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Result of issuing or rotating a refresh token
+ */
+export interface IssuedRefreshToken {
+  token: string;
+  expiresIn: number; // Lifetime in seconds
+  familyId: string;
+  userId: string;
+}
+
+/**
+ * Error codes surfaced to the refresh endpoint
+ */
+export type RefreshTokenErrorCode =
+  | 'INVALID_REFRESH_TOKEN'
+  | 'REFRESH_TOKEN_REVOKED'
+  | 'REFRESH_TOKEN_REUSED';
+
+/**
+ * Raised when a refresh token cannot be rotated.
+ * Carries status/code in the shape the global error handler expects.
+ */
+export class RefreshTokenError extends Error {
+  status = 401;
+  code: RefreshTokenErrorCode;
+
+  constructor(code: RefreshTokenErrorCode, message: string) {
+    super(message);
+    this.name = 'RefreshTokenError';
+    this.code = code;
+  }
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(16).toString('hex')}`;
+}
+
+/**
+ * Start a new token family for a freshly authenticated user
+ *
+ * @param user - Authenticated user
+ * @param context - Device/request details recorded on the session
+ * @returns First refresh token of the new family
+ */
+export async function issueRefreshToken(
+  user: User,
+  context: SessionContext = {}
+): Promise<IssuedRefreshToken> {
+  const { sessions } = getRepositories();
+  const now = new Date();
+  // Drop expired families so the store does not grow unbounded
+  await sessions.deleteExpired(now);
+
+  const familyId = generateId('rtf');
+  const tokenId = generateId('rt');
+  const { token, expiresIn } = signRefreshToken(user, familyId, tokenId);
+
+  await sessions.create({
+    id: familyId,
+    userId: user.id,
+    currentTokenId: tokenId,
+    createdAt: now,
+    lastRotatedAt: now,
+    expiresAt: new Date(now.getTime() + expiresIn * 1000),
+    deviceName: context.deviceName || describeDevice(context.userAgent),
+    userAgent: context.userAgent,
+    ip: context.ip,
+    lastSeenAt: now,
+  });
+
+  return { token, expiresIn, familyId, userId: user.id };
+}
+
+/**
+ * Decode a refresh token and return its family without rotating it
+ *
+ * @param token - Encoded refresh token
+ * @returns Token claims and family record
+ * @throws RefreshTokenError if the token is invalid or its family is revoked
+ */
+async function readRefreshToken(token: string) {
+  let payload;
+  try {
+    payload = verifyJwt(token);
+  } catch {
+    throw new RefreshTokenError('INVALID_REFRESH_TOKEN', 'Refresh token is invalid or expired');
+  }
+
+  if (payload.type !== 'refresh' || !payload.jti || !payload.fid) {
+    throw new RefreshTokenError('INVALID_REFRESH_TOKEN', 'Refresh token is invalid or expired');
+  }
+
+  const family = await getRepositories().sessions.findById(payload.fid);
+  if (!family || family.userId !== payload.userId) {
+    throw new RefreshTokenError('INVALID_REFRESH_TOKEN', 'Refresh token is invalid or expired');
+  }
+
+  if (family.revokedAt) {
+    throw new RefreshTokenError('REFRESH_TOKEN_REVOKED', 'Refresh token has been revoked');
+  }
+
+  return { payload, family };
+}
+
+/**
+ * A retired token came back: revoke the family for both holders
+ */
+async function rejectReusedToken(family: RefreshTokenFamily): Promise<never> {
+  await revokeRefreshTokenFamily(family.id, 'reuse_detected');
+  console.warn(JSON.stringify({
+    type: 'refresh_token_reuse',
+    timestamp: new Date().toISOString(),
+    userId: family.userId,
+    familyId: family.id,
+  }));
+  throw new RefreshTokenError('REFRESH_TOKEN_REUSED', 'Refresh token has already been used');
+}
+
+/**
+ * Exchange a refresh token for the next token in its family
+ *
+ * @param token - Refresh token presented by the client
+ * @param loadUser - Loads the current user record (role/status may have changed)
+ * @param context - Current request details (updates the session's IP / last seen)
+ * @returns New refresh token and the user it was issued for
+ * @throws RefreshTokenError on invalid, revoked or reused tokens
+ */
+export async function rotateRefreshToken(
+  token: string,
+  loadUser: (userId: string) => Promise<User | undefined>,
+  context: SessionContext = {}
+): Promise<IssuedRefreshToken & { user: User }> {
+  const { sessions } = getRepositories();
+  const { payload, family } = await readRefreshToken(token);
+
+  if (payload.jti !== family.currentTokenId) {
+    return rejectReusedToken(family);
+  }
+
+  const user = await loadUser(family.userId);
+  if (!user || !user.isActive || user.isSuspended) {
+    await revokeRefreshTokenFamily(family.id, 'account_disabled');
+    throw new RefreshTokenError('REFRESH_TOKEN_REVOKED', 'Refresh token has been revoked');
+  }
+
+  const now = new Date();
+  const tokenId = generateId('rt');
+  const next = signRefreshToken(user, family.id, tokenId);
+
+  // Compare-and-set: fails if the family was revoked or rotated since it was read
+  const rotated = await sessions.rotate(family.id, payload.jti, {
+    currentTokenId: tokenId,
+    lastRotatedAt: now,
+    expiresAt: new Date(now.getTime() + next.expiresIn * 1000),
+    userAgent: context.userAgent ?? family.userAgent,
+    ip: context.ip ?? family.ip,
+    lastSeenAt: now,
+  });
+  if (!rotated) {
+    const latest = await sessions.findById(family.id);
+    if (!latest || latest.revokedAt) {
+      throw new RefreshTokenError('REFRESH_TOKEN_REVOKED', 'Refresh token has been revoked');
+    }
+    // A concurrent refresh already retired this token
+    return rejectReusedToken(latest);
+  }
+
+  return {
+    token: next.token,
+    expiresIn: next.expiresIn,
+    familyId: family.id,
+    userId: user.id,
+    user,
+  };
+}
+
+/**
+ * Revoke every token in a family
+ *
+ * @param familyId - Family to revoke
+ * @param reason - Short machine-readable reason (e.g. 'logout', 'reuse_detected')
+ */
+export async function revokeRefreshTokenFamily(familyId: string, reason: string): Promise<void> {
+  await getRepositories().sessions.revoke(familyId, reason);
+}
+
+/**
+ * Revoke the family a refresh token belongs to (used by logout)
+ * Invalid or unknown tokens are ignored - logout must always succeed.
+ *
+ * @param token - Refresh token presented by the client
+ * @param reason - Short machine-readable reason
+ */
+export async function revokeRefreshToken(token: string, reason: string): Promise<void> {
+  let payload;
+  try {
+    payload = verifyJwt(token, { ignoreExpiration: true });
+  } catch {
+    // Tampered or foreign token - nothing to revoke
+    return;
+  }
+
+  if (payload.type === 'refresh' && payload.fid) {
+    await revokeRefreshTokenFamily(payload.fid, reason);
+  }
+}
+
+/**
+ * Revoke every active family of a user (e.g. after a password reset)
+ *
+ * @param userId - Account whose sessions should end
+ * @param reason - Short machine-readable reason
+ * @returns Number of families revoked
+ */
+export async function revokeAllRefreshTokenFamilies(userId: string, reason: string): Promise<number> {
+  return revokeOtherUserSessions(userId, undefined, reason);
+}
+
+// ============================================================
+// SESSIONS
+// ============================================================
+
+function toSessionInfo(family: RefreshTokenFamily): SessionInfo {
+  return {
+    id: family.id,
+    deviceName: family.deviceName,
+    userAgent: family.userAgent,
+    ip: family.ip,
+    createdAt: family.createdAt,
+    lastSeenAt: family.lastSeenAt,
+    expiresAt: family.expiresAt,
+  };
+}
+
+/**
+ * List a user's active sessions, most recently used first
+ *
+ * @param userId - Session owner
+ */
+export async function listUserSessions(userId: string): Promise<SessionInfo[]> {
+  const active = await getRepositories().sessions.listActiveByUser(userId, new Date());
+  return active.map(toSessionInfo);
+}
+
+/**
+ * Revoke one of a user's sessions
+ *
+ * @param userId - Session owner (sessions of other users are never touched)
+ * @param sessionId - Session (family) ID
+ * @param reason - Short machine-readable reason
+ * @returns False if the user has no such active session
+ */
+export async function revokeUserSession(
+  userId: string,
+  sessionId: string,
+  reason: string
+): Promise<boolean> {
+  const { sessions } = getRepositories();
+  const family = await sessions.findById(sessionId);
+  if (!family || family.userId !== userId) {
+    return false;
+  }
+
+  return sessions.revoke(sessionId, reason);
+}
+
+/**
+ * Revoke every session of a user except one ("log out everywhere else")
+ *
+ * @param userId - Session owner
+ * @param keepSessionId - Session to keep (the caller's own)
+ * @param reason - Short machine-readable reason
+ * @returns Number of sessions revoked
+ */
+export async function revokeOtherUserSessions(
+  userId: string,
+  keepSessionId: string | undefined,
+  reason: string
+): Promise<number> {
+  const revoked = await getRepositories().sessions.revokeAllForUser(userId, reason, keepSessionId);
+  return revoked.length;
+}
+
+/**
+ * Check whether the session an access token belongs to has been revoked
+ *
+ * @param sessionId - `sid` claim of the access token
+ */
+export async function isSessionRevoked(sessionId: string): Promise<boolean> {
+  const family = await getRepositories().sessions.findById(sessionId);
+  return !!family?.revokedAt;
+}
@@ -0,0 +1,343 @@
+/**
+ * Seed Data Generator - Reproducible sample users, posts and stories
+ *
+ * Generates a small social graph for development: users with realistic
+ * (heavy-tailed) follower counts, visibility scores and recent
+ * impressions, posts of every type, stories (some already expired),
+ * follows and comments.
+ *
+ * The same seed number always produces the same users, content, IDs and
+ * relative timings. Timestamps are anchored at `now` (default: the current
+ * time) so stories and recency stay meaningful - pass a fixed `now` for
+ * byte-identical output.
+ *
+ * Records use the client/feed shapes (snake_case, ISO dates) so they can be
+ * dropped straight into AppContext and rankFeedPosts. The API server loads
+ * them into its repositories with database/seeder.ts.
+ *
+ * Has no platform dependencies: used by both the app and the server.
+ *
+ * @example
+ * const data = generateSeedData({ seed: 42 });
+ * data.users.length; // 40
+ */
+
+import type { Post, User } from './feedAlgorithm';
+
+export interface SeedUser extends User {
+  email: string;
+  role: 'user' | 'moderator' | 'admin';
+}
+
+export type SeedPost = Post;
+
+export interface SeedStory {
+  id: string;
+  user_id: string;
+  media_url: string;
+  created_at: string;
+  expires_at: string;
+  seen_by: string[];
+}
+
+export interface SeedFollow {
+  follower_id: string;
+  followee_id: string;
+}
+
+export interface SeedComment {
+  id: string;
+  postId: string;
+  userId: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface SeedData {
+  seed: number;
+  generatedAt: string; // The `now` anchor
+  users: SeedUser[];
+  posts: SeedPost[];
+  stories: SeedStory[];
+  follows: SeedFollow[];
+  comments: SeedComment[];
+}
+
+export interface SeedOptions {
+  seed: number;
+  users?: number; // Default 40
+  now?: Date;
+}
+
+const DEFAULT_USER_COUNT = 40;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const STORY_LIFETIME_MS = DAY_MS;
+
+const FIRST_NAMES = [
+  'Amara', 'Ben', 'Chloe', 'Dev', 'Elena', 'Farid', 'Grace', 'Hiro', 'Isla', 'Jonas',
+  'Kemi', 'Leo', 'Maya', 'Noah', 'Olivia', 'Priya', 'Quinn', 'Rafael', 'Sana', 'Tomas',
+  'Uma', 'Victor', 'Wen', 'Ximena', 'Yusuf', 'Zoe',
+];
+
+const LAST_NAMES = [
+  'Adeyemi', 'Baker', 'Chen', 'Dubois', 'Eriksen', 'Fernandez', 'Gupta', 'Haddad', 'Ivanova',
+  'Jensen', 'Kowalski', 'Lopez', 'Mensah', 'Nakamura', 'Okafor', 'Petrov', 'Rossi', 'Silva',
+  'Tanaka', 'Varga', 'Williams', 'Yilmaz',
+];
+
+const OCCUPATIONS = [
+  'Photographer', 'Barista', 'Nurse', 'Software Engineer', 'Teacher', 'Illustrator', 'Chef',
+  'Student', 'Musician', 'Architect', 'Gardener', 'Writer', 'Cyclist', 'Data Analyst', 'Potter',
+];
+
+const LOCATIONS = [
+  'Lagos, Nigeria', 'Lisbon, Portugal', 'Toronto, Canada', 'Osaka, Japan', 'Austin, TX',
+  'Berlin, Germany', 'Mumbai, India', 'Mexico City, Mexico', 'Nairobi, Kenya', 'Melbourne, Australia',
+  'São Paulo, Brazil', 'Glasgow, UK',
+];
+
+const BIOS = [
+  'Making small things with big care.',
+  'Coffee first, then everything else.',
+  'Sharing what I learn along the way.',
+  'Weekend hiker, weekday dreamer.',
+  'Here for the good conversations.',
+  'Documenting my city one photo at a time.',
+  'Trying a new recipe every week.',
+  'Sketchbook always in my bag.',
+];
+
+const CAPTIONS = [
+  'Golden hour never gets old',
+  'First attempt at sourdough - verdict: edible',
+  'Anyone else think Mondays should be optional?',
+  'New studio setup is finally done',
+  'Tiny wins count too',
+  'Found this little spot on my walk today',
+  'Rainy day, good book, warm tea',
+  'Three months of practice, here is where I am',
+  'What should I try next? Open to ideas',
+  'Grateful for this community',
+  'Morning light through the kitchen window',
+  'The view was worth every step',
+];
+
+const IMAGE_URLS = [
+  'https://images.unsplash.com/photo-1500530855697-b586d89ba3ee?w=800',
+  'https://images.unsplash.com/photo-1501785888041-af3ef285b470?w=800',
+  'https://images.unsplash.com/photo-1470071459604-3b5ec3a7fe05?w=800',
+  'https://images.unsplash.com/photo-1441974231531-c6227db76b6e?w=800',
+  'https://images.unsplash.com/photo-1519681393784-d120267933ba?w=800',
+  'https://images.unsplash.com/photo-1493246507139-91e8fad9978e?w=800',
+];
+
+const VIDEO_URLS = [
+  'https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4',
+  'https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerEscapes.mp4',
+  'https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerFun.mp4',
+];
+
+const COMMENTS = [
+  'Love this!',
+  'This made my day',
+  'Wow, beautiful',
+  'Need the recipe please',
+  'So inspiring',
+  'Where is this?',
+  'Keep going, it shows',
+  'Haha same',
+];
+
+const POST_TYPES: Post['type'][] = ['text', 'image', 'video'];
+
+/**
+ * Small, fast seeded PRNG (mulberry32). Returns floats in [0, 1).
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a reproducible data set
+ *
+ * @param options.seed - Any integer; the same seed gives the same data
+ * @param options.users - Number of users (default 40)
+ * @param options.now - Anchor for all timestamps (default: now)
+ */
+export function generateSeedData(options: SeedOptions): SeedData {
+  const random = createRandom(options.seed);
+  const now = (options.now || new Date()).getTime();
+  const userCount = Math.max(options.users ?? DEFAULT_USER_COUNT, 3);
+
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const integer = (min: number, max: number) => Math.floor(between(min, max + 1));
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const iso = (timestamp: number) => new Date(timestamp).toISOString();
+  const id = (prefix: string) =>
+    `${prefix}_${Array.from({ length: 24 }, () => Math.floor(random() * 16).toString(16)).join('')}`;
+
+  // ---- Users ----
+  const users: SeedUser[] = [];
+  const usernames = new Set<string>();
+
+  for (let i = 0; i < userCount; i++) {
+    const first = pick(FIRST_NAMES);
+    const last = pick(LAST_NAMES);
+
+    let username = `${first}.${last}`.toLowerCase();
+    for (let suffix = 2; usernames.has(username); suffix++) {
+      username = `${first}.${last}${suffix}`.toLowerCase();
+    }
+    usernames.add(username);
+
+    // About 1 in 5 accounts is new: joined in the last two weeks, tiny audience
+    const isNew = random() < 0.2;
+
+    // Heavy tail: most accounts have hundreds of followers, a few have 100k+
+    const followers = isNew
+      ? integer(0, 80)
+      : Math.floor(10 ** (1 + 4.6 * random() ** 1.8));
+
+    // Visibility tracks audience size, with noise; new accounts start low
+    const visibility = isNew
+      ? integer(0, 15)
+      : Math.round(Math.min(100, Math.max(0, 16 * Math.log10(followers + 1) + between(-15, 15))));
+
+    const impressions = Math.round(Math.min(150000, followers * between(0.1, 1.4) + integer(0, 400)));
+
+    users.push({
+      id: id('user'),
+      email: `${username}@example.com`,
+      role: 'user',
+      name: `${first} ${last}`,
+      username,
+      avatar: `https://i.pravatar.cc/150?img=${(i % 70) + 1}`,
+      bio: pick(BIOS),
+      location: pick(LOCATIONS),
+      occupation: pick(OCCUPATIONS),
+      followers_count: followers,
+      following_count: integer(20, 900),
+      posts_count: 0,
+      likes_count: 0,
+      visibility_score: visibility,
+      recent_impressions: impressions,
+      created_at: iso(isNew ? now - between(1, 14) * DAY_MS : now - between(60, 900) * DAY_MS),
+    });
+  }
+
+  // ---- Posts (first three cover every type) ----
+  const posts: SeedPost[] = [];
+
+  for (const user of users) {
+    const count = integer(1, 5);
+
+    for (let p = 0; p < count; p++) {
+      const type = posts.length < POST_TYPES.length ? POST_TYPES[posts.length] : pick(POST_TYPES);
+      const ageMs = between(0.25, 7 * 24) * HOUR_MS;
+      const engagementRate = between(0.005, 0.08);
+      const likes = Math.round(user.followers_count * engagementRate * between(0.3, 1)) + integer(0, 25);
+
+      posts.push({
+        id: id('post'),
+        user_id: user.id,
+        type,
+        caption: pick(CAPTIONS),
+        media_url: type === 'image' ? pick(IMAGE_URLS) : type === 'video' ? pick(VIDEO_URLS) : undefined,
+        likes,
+        comments: 0, // Filled in from generated comments below
+        shares: Math.round(likes * between(0, 0.05)),
+        created_at: iso(now - ageMs),
+        reach_score: 0,
+      });
+
+      user.posts_count++;
+      user.likes_count += likes;
+    }
+  }
+
+  posts.sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  // ---- Stories (about 40% of users; older ones have expired) ----
+  const stories: SeedStory[] = [];
+
+  for (const user of users) {
+    if (random() >= 0.4) continue;
+
+    const count = integer(1, 3);
+    for (let s = 0; s < count; s++) {
+      const createdAt = now - between(0.5, 30) * HOUR_MS;
+      stories.push({
+        id: id('story'),
+        user_id: user.id,
+        media_url: pick(IMAGE_URLS),
+        created_at: iso(createdAt),
+        expires_at: iso(createdAt + STORY_LIFETIME_MS),
+        seen_by: [],
+      });
+    }
+  }
+
+  // ---- Follows (preferential: big accounts are followed more) ----
+  const follows: SeedFollow[] = [];
+  const totalWeight = users.reduce((sum, user) => sum + Math.log10(user.followers_count + 10), 0);
+
+  for (const follower of users) {
+    const targets = new Set<string>();
+    const wanted = integer(2, Math.min(12, userCount - 1));
+
+    for (let attempt = 0; attempt < wanted * 4 && targets.size < wanted; attempt++) {
+      let roll = random() * totalWeight;
+      const followee = users.find(user => (roll -= Math.log10(user.followers_count + 10)) <= 0) || users[0];
+
+      if (followee.id !== follower.id) {
+        targets.add(followee.id);
+      }
+    }
+
+    for (const followeeId of targets) {
+      follows.push({ follower_id: follower.id, followee_id: followeeId });
+    }
+  }
+
+  // ---- Comments ----
+  const comments: SeedComment[] = [];
+
+  for (const post of posts) {
+    const count = integer(0, 4);
+    const postedAt = Date.parse(post.created_at);
+
+    for (let c = 0; c < count; c++) {
+      const author = pick(users);
+      if (author.id === post.user_id) continue;
+
+      comments.push({
+        id: id('comment'),
+        postId: post.id,
+        userId: author.id,
+        text: pick(COMMENTS),
+        createdAt: iso(postedAt + random() * (now - postedAt)),
+      });
+      post.comments++;
+    }
+  }
+
+  comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  return {
+    seed: options.seed,
+    generatedAt: iso(now),
+    users,
+    posts,
+    stories,
+    follows,
+    comments,
+  };
+}
@@ -0,0 +1,289 @@
+/**
+ * Signing Keys - Asymmetric key ring for JWT signing
+ *
+ * Tokens are signed with ES256 (ECDSA P-256). Each key has an ID (`kid`)
+ * that is written into the token header, so several keys can be valid at
+ * once and verifiers pick the right public key by kid. Public keys are
+ * published at /.well-known/jwks.json for other services.
+ *
+ * Key lifecycle (all timestamps optional):
+ *   pending   activatesAt in the future - published, not yet used for signing
+ *   active    newest activated key signs all new tokens
+ *   retired   retiresAt has passed - no longer signs, still verifies tokens
+ *             it issued until JWT_KEY_RETENTION_HOURS later, then dropped
+ *
+ * Rotation without logging anyone out:
+ *   1. Add the new key with activatesAt a few hours ahead (verifiers fetch it)
+ *   2. Set retiresAt on the old key to the same time
+ *   3. Remove the old key from config once its retention has passed
+ *
+ * Generate a key:
+ *   openssl genpkey -algorithm EC -pkeyopt ec_paramgen_curve:P-256
+ *
+ * Tokens issued before key rotation was introduced have no kid and were
+ * signed with JWT_SECRET (HS256). While JWT_SECRET is set they keep
+ * verifying; unset it once they have expired (JWT_REFRESH_EXPIRES_IN).
+ *
+ * Environment Variables:
+ * - JWT_SIGNING_KEYS_FILE - path to a JSON array of keys (see SigningKeyConfig)
+ * - JWT_SIGNING_KEYS - the same JSON array inline (used if no file is set)
+ * - JWT_KEY_RETENTION_HOURS (default: 168) - how long retired keys still verify
+ * - JWT_SECRET (optional) - legacy HS256 secret, verification only
+ *
+ * Without configured keys, development servers generate a temporary key at
+ * startup (tokens stop verifying on restart). Production requires keys.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+
+export const SIGNING_ALGORITHM = 'ES256' as const;
+
+const IS_PRODUCTION = process.env.NODE_ENV === 'production';
+
+/**
+ * One entry of JWT_SIGNING_KEYS / JWT_SIGNING_KEYS_FILE
+ */
+export interface SigningKeyConfig {
+  kid: string;
+  privateKey?: string; // PKCS#8 or SEC1 PEM; omit for verify-only keys
+  publicKey?: string; // SPKI PEM; derived from privateKey when omitted
+  activatesAt?: string; // ISO timestamp
+  retiresAt?: string; // ISO timestamp
+}
+
+export type SigningKeyStatus = 'pending' | 'active' | 'retired';
+
+interface SigningKey {
+  kid: string;
+  privateKey?: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  activatesAt: number;
+  retiresAt?: number;
+}
+
+/**
+ * Key summary for status output (never includes key material)
+ */
+export interface SigningKeyInfo {
+  kid: string;
+  status: SigningKeyStatus;
+  canSign: boolean;
+  activatesAt?: Date;
+  retiresAt?: Date;
+  verifiesUntil?: Date;
+}
+
+/**
+ * Public key in JSON Web Key format
+ */
+export interface PublicJwk {
+  kty: string;
+  crv?: string;
+  x?: string;
+  y?: string;
+  kid: string;
+  alg: typeof SIGNING_ALGORITHM;
+  use: 'sig';
+}
+
+let keyRing: SigningKey[] | null = null;
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function getRetentionMs(): number {
+  return readPositiveInt(process.env.JWT_KEY_RETENTION_HOURS, 168) * 60 * 60 * 1000;
+}
+
+function parseTimestamp(value: string | undefined, kid: string, field: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Signing key "${kid}": ${field} is not a valid date`);
+  }
+
+  return timestamp;
+}
+
+function assertP256(key: crypto.KeyObject, kid: string): void {
+  if (key.asymmetricKeyType !== 'ec' || key.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+    throw new Error(`Signing key "${kid}" must be an EC P-256 key for ${SIGNING_ALGORITHM}`);
+  }
+}
+
+function loadKey(config: SigningKeyConfig): SigningKey {
+  if (!config.kid || typeof config.kid !== 'string') {
+    throw new Error('Every signing key needs a "kid"');
+  }
+  if (!config.privateKey && !config.publicKey) {
+    throw new Error(`Signing key "${config.kid}" needs a privateKey or publicKey`);
+  }
+
+  const privateKey = config.privateKey ? crypto.createPrivateKey(config.privateKey) : undefined;
+  const publicKey = config.publicKey
+    ? crypto.createPublicKey(config.publicKey)
+    : crypto.createPublicKey(privateKey!);
+
+  if (privateKey) {
+    assertP256(privateKey, config.kid);
+  }
+  assertP256(publicKey, config.kid);
+
+  return {
+    kid: config.kid,
+    privateKey,
+    publicKey,
+    activatesAt: parseTimestamp(config.activatesAt, config.kid, 'activatesAt') ?? 0,
+    retiresAt: parseTimestamp(config.retiresAt, config.kid, 'retiresAt'),
+  };
+}
+
+function readKeyConfig(): SigningKeyConfig[] | null {
+  const file = process.env.JWT_SIGNING_KEYS_FILE;
+  const raw = file ? fs.readFileSync(file, 'utf8') : process.env.JWT_SIGNING_KEYS;
+
+  if (!raw) {
+    return null;
+  }
+
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('JWT signing keys must be a non-empty JSON array');
+  }
+
+  return parsed;
+}
+
+function generateDevelopmentKey(): SigningKey {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const kid = `dev-${crypto.randomBytes(4).toString('hex')}`;
+
+  console.warn(
+    `⚠️  No JWT signing keys configured - using temporary key ${kid}. ` +
+      'Tokens will stop verifying when the server restarts.'
+  );
+
+  return { kid, privateKey, publicKey, activatesAt: 0 };
+}
+
+/**
+ * Load the key ring once (keys only change on restart)
+ * @throws Error if the configuration is invalid, or missing in production
+ */
+function getKeyRing(): SigningKey[] {
+  if (keyRing) {
+    return keyRing;
+  }
+
+  const configs = readKeyConfig();
+
+  if (!configs) {
+    if (IS_PRODUCTION) {
+      throw new Error('JWT_SIGNING_KEYS_FILE or JWT_SIGNING_KEYS must be set in production');
+    }
+    keyRing = [generateDevelopmentKey()];
+    return keyRing;
+  }
+
+  const keys = configs.map(loadKey);
+  const kids = new Set(keys.map(key => key.kid));
+  if (kids.size !== keys.length) {
+    throw new Error('Signing key IDs (kid) must be unique');
+  }
+
+  keyRing = keys;
+  return keyRing;
+}
+
+function getStatus(key: SigningKey, now: number): SigningKeyStatus {
+  if (key.retiresAt !== undefined && key.retiresAt <= now) {
+    return 'retired';
+  }
+  return key.activatesAt > now ? 'pending' : 'active';
+}
+
+function isVerifiable(key: SigningKey, now: number): boolean {
+  return key.retiresAt === undefined || key.retiresAt + getRetentionMs() > now;
+}
+
+/**
+ * Key used to sign new tokens: the most recently activated key that has a
+ * private key and is not retired
+ *
+ * @throws Error if no key can sign right now
+ */
+export function getActiveSigningKey(): { kid: string; privateKey: crypto.KeyObject } {
+  const now = Date.now();
+
+  const candidates = getKeyRing()
+    .filter(key => key.privateKey && getStatus(key, now) === 'active')
+    .sort((a, b) => b.activatesAt - a.activatesAt);
+
+  if (candidates.length === 0) {
+    throw new Error('No active JWT signing key (all keys are pending, retired or verify-only)');
+  }
+
+  return { kid: candidates[0].kid, privateKey: candidates[0].privateKey! };
+}
+
+/**
+ * Public key for a kid, if that key may still verify tokens
+ *
+ * @param kid - Key ID from the token header
+ */
+export function getVerificationKey(kid: string): crypto.KeyObject | null {
+  const key = getKeyRing().find(candidate => candidate.kid === kid);
+  return key && isVerifiable(key, Date.now()) ? key.publicKey : null;
+}
+
+/**
+ * Legacy HS256 secret for tokens issued before key rotation (no kid)
+ */
+export function getLegacySecret(): string | null {
+  const secret = process.env.JWT_SECRET;
+  return secret && secret.length >= 32 ? secret : null;
+}
+
+/**
+ * Public keys of every key that may appear in a valid token,
+ * including pending keys so verifiers can cache them ahead of activation
+ */
+export function getPublicJwks(): { keys: PublicJwk[] } {
+  const now = Date.now();
+
+  return {
+    keys: getKeyRing()
+      .filter(key => isVerifiable(key, now))
+      .map(key => ({
+        ...(key.publicKey.export({ format: 'jwk' }) as { kty: string; crv?: string; x?: string; y?: string }),
+        kid: key.kid,
+        alg: SIGNING_ALGORITHM,
+        use: 'sig' as const,
+      })),
+  };
+}
+
+/**
+ * Summary of the key ring (for logs and status output)
+ */
+export function describeSigningKeys(): SigningKeyInfo[] {
+  const now = Date.now();
+  const retentionMs = getRetentionMs();
+
+  return getKeyRing().map(key => ({
+    kid: key.kid,
+    status: getStatus(key, now),
+    canSign: Boolean(key.privateKey),
+    activatesAt: key.activatesAt ? new Date(key.activatesAt) : undefined,
+    retiresAt: key.retiresAt !== undefined ? new Date(key.retiresAt) : undefined,
+    verifiesUntil: key.retiresAt !== undefined ? new Date(key.retiresAt + retentionMs) : undefined,
+  }));
+}
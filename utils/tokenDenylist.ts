@@ -0,0 +1,72 @@
+/**
+ * Token Denylist - Revoked access token IDs
+ *
+ * JWTs are stateless, so a logged-out access token would stay valid until
+ * it expires. On logout its `jti` is added here and authMiddleware rejects it.
+ * Entries only need to live until the token's own `exp`, which keeps the
+ * denylist small.
+ *
+ * Revoking all of a user's tokens at once (password reset) stores a
+ * per-user cutoff instead: tokens issued before it are rejected.
+ *
+ * Storage: Redis in production (REDIS_URL), memory otherwise.
+ * See utils/keyValueStore.ts.
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import { getKeyValueStore } from './keyValueStore';
+
+const store = getKeyValueStore(process.env.TOKEN_DENYLIST_PREFIX || 'denylist:');
+
+const USER_CUTOFF_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Revoke a token until it expires
+ *
+ * @param jti - Token ID claim
+ * @param exp - Token expiry claim (seconds since epoch)
+ */
+export async function revokeTokenId(jti: string, exp: number): Promise<void> {
+  const ttlSeconds = exp - Math.floor(Date.now() / 1000);
+
+  // Already expired - signature verification rejects it anyway
+  if (ttlSeconds <= 0) {
+    return;
+  }
+
+  await store.set(jti, '1', ttlSeconds);
+}
+
+/**
+ * Check whether a token ID has been revoked
+ *
+ * @param jti - Token ID claim
+ * @returns True if the token must be rejected
+ */
+export async function isTokenIdRevoked(jti: string): Promise<boolean> {
+  return (await store.get(jti)) !== null;
+}
+
+/**
+ * Revoke every access token a user holds right now
+ * The cutoff only has to outlive the access token lifetime (JWT_EXPIRES_IN,
+ * 15m by default); a day leaves plenty of margin for longer settings.
+ *
+ * @param userId - Account whose tokens should be rejected
+ */
+export async function revokeUserTokens(userId: string): Promise<void> {
+  await store.set(`user:${userId}`, String(Math.floor(Date.now() / 1000)), USER_CUTOFF_TTL_SECONDS);
+}
+
+/**
+ * Check whether a token was issued before the user's revocation cutoff
+ *
+ * @param userId - Token subject
+ * @param iat - Token issued-at claim (seconds since epoch)
+ * @returns True if the token must be rejected
+ */
+export async function isUserTokenRevoked(userId: string, iat: number): Promise<boolean> {
+  const cutoff = await store.get(`user:${userId}`);
+  return cutoff !== null && iat < parseInt(cutoff, 10);
+}
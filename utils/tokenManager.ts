@@ -31,7 +31,7 @@
  * SECURITY FEATURES:
  * ✓ Access tokens in memory only (cleared on page refresh)
  * ✓ Refresh tokens in HTTP-only cookies (immune to XSS)
- * ✓ Tokens signed with server secret (no client tampering)
+ * ✓ Tokens signed with rotating server keys (no client tampering)
  * ✓ Token rotation on refresh (automatic + on login)
  * ✓ Token blacklist for logout enforcement
  * ✓ Expiration validation on all protected routes
@@ -57,6 +57,7 @@ export interface JWTPayload {
   iat: number;               // Issued at (timestamp)
   exp: number;               // Expiration (timestamp)
   type: 'access' | 'refresh'; // Token type
+  kid?: string;              // Signing key ID from the token header (absent on legacy tokens)
 }
 
 /**
@@ -105,6 +106,7 @@ function base64Decode(str: string): string {
 
 /**
  * Parse JWT token to extract payload
+ * The signing key ID (`kid`) from the header is copied onto the result.
  * 
  * SECURITY WARNING: This only decodes the token. It does NOT verify the signature.
  * Always validate the token signature on the backend!
@@ -121,8 +123,12 @@ export function decodeToken(token: string): JWTPayload | null {
       return null;
     }
     
+    const header = JSON.parse(base64Decode(parts[0]));
     const payload = JSON.parse(base64Decode(parts[1]));
-    return payload as JWTPayload;
+    return {
+      ...payload,
+      ...(typeof header.kid === 'string' ? { kid: header.kid } : {}),
+    } as JWTPayload;
   } catch (error) {
     console.error('Failed to decode token:', error);
     return null;
@@ -247,9 +253,9 @@ export async function refreshAccessToken(): Promise<TokenResponse> {
       };
     }
 
-    const data = await response.json();
+    const { data } = await response.json();
     
-    if (data.accessToken) {
+    if (data?.accessToken) {
       setAccessToken(data.accessToken);
     }
 
@@ -0,0 +1,486 @@
+/**
+ * Two-Factor Authentication - TOTP enrolment, login challenges and policy
+ *
+ * ENROLMENT:
+ * 1. POST /api/auth/2fa/setup generates a secret and an otpauth:// URI (QR code)
+ * 2. POST /api/auth/2fa/confirm checks a first code from the authenticator app,
+ *    enables 2FA and returns one-time recovery codes (shown once)
+ *
+ * LOGIN:
+ * 1. POST /api/auth/login with a correct password returns a short-lived
+ *    challenge token instead of access/refresh tokens
+ * 2. POST /api/auth/2fa/verify exchanges the challenge token plus a TOTP
+ *    or recovery code for the real session
+ *
+ * Wrong codes count toward the per-account lockout (utils/accountLockout.ts)
+ * just like wrong passwords, and the counter is only reset once the second
+ * factor succeeds - so knowing the password does not buy fresh guesses.
+ *
+ * Recovery codes are hashed with the same Argon2 settings as passwords
+ * (utils/passwordHash.ts) and removed once used. Accepted TOTP time steps
+ * are remembered so a code cannot be replayed.
+ *
+ * POLICY:
+ * Admins can require 2FA for the admin and moderator roles. Until an affected
+ * account enrols, requireRole() rejects it with TWO_FACTOR_REQUIRED. The
+ * policy is saved in the settings repository and read on every check, so all
+ * server instances enforce the same one and it survives restarts.
+ *
+ * Environment Variables:
+ * - TWO_FACTOR_REQUIRED_ROLES: policy until an admin saves one, comma-separated (e.g. admin,moderator)
+ * - TWO_FACTOR_ISSUER (default: Vairo) - name shown in authenticator apps
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ */
+
+import crypto from 'crypto';
+import { getRepositories } from '../database/repositories';
+import { hasMinimumRole, type AuthenticatedUser, type User, type UserRole } from './User';
+import {
+  checkLoginAllowed,
+  clearFailedLogins,
+  recordFailedLogin,
+  type LoginThrottleStatus,
+} from './accountLockout';
+import { signPurposeToken, verifyPurposeToken } from './jwt';
+import { getKeyValueStore } from './keyValueStore';
+import { hashPassword, verifyPassword } from './passwordHash';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+import { findUserById, updateUser } from './userStore';
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_EXPIRES_IN = '5m';
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// challenge token ID -> user ID while the challenge can be answered;
+// attempts:<challenge token ID> -> codes checked so far
+const pendingChallenges = getKeyValueStore('2fa-challenge:');
+
+/**
+ * Roles that can be made to require 2FA
+ */
+export type PrivilegedRole = Exclude<UserRole, 'user'>;
+
+export const PRIVILEGED_ROLES: PrivilegedRole[] = ['moderator', 'admin'];
+
+/**
+ * How the second factor was proven
+ */
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+/**
+ * Error codes surfaced to the 2FA endpoints
+ */
+export type TwoFactorErrorCode =
+  | 'INVALID_TWO_FACTOR_CODE'
+  | 'INVALID_TWO_FACTOR_CHALLENGE'
+  | 'TWO_FACTOR_ALREADY_ENABLED'
+  | 'TWO_FACTOR_NOT_ENABLED'
+  | 'TWO_FACTOR_SETUP_NOT_STARTED'
+  | 'TWO_FACTOR_REQUIRED'
+  | 'ACCOUNT_LOCKED'
+  | 'LOGIN_THROTTLED';
+
+export class TwoFactorError extends Error {
+  status: number;
+  code: TwoFactorErrorCode;
+  throttle?: LoginThrottleStatus; // Set for ACCOUNT_LOCKED / LOGIN_THROTTLED
+
+  constructor(code: TwoFactorErrorCode, message: string, status = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// ============================================================
+// POLICY
+// ============================================================
+
+function parseRequiredRoles(value: string | undefined): PrivilegedRole[] {
+  return (value || '')
+    .split(',')
+    .map(role => role.trim())
+    .filter((role): role is PrivilegedRole => (PRIVILEGED_ROLES as string[]).includes(role));
+}
+
+const REQUIRED_ROLES_SETTING = 'two_factor_required_roles';
+
+/**
+ * Roles that currently must use 2FA
+ */
+export async function getTwoFactorRequiredRoles(): Promise<PrivilegedRole[]> {
+  const setting = await getRepositories().settings.get(REQUIRED_ROLES_SETTING);
+  const roles: unknown[] = Array.isArray(setting?.value)
+    ? setting.value
+    : parseRequiredRoles(process.env.TWO_FACTOR_REQUIRED_ROLES);
+
+  return PRIVILEGED_ROLES.filter(role => roles.includes(role));
+}
+
+/**
+ * Replace the set of roles that must use 2FA (admin setting)
+ *
+ * @param roles - Roles to require 2FA for
+ * @param adminId - Admin making the change
+ * @returns The new policy
+ */
+export async function setTwoFactorRequiredRoles(
+  roles: PrivilegedRole[],
+  adminId: string
+): Promise<PrivilegedRole[]> {
+  const requiredRoles = PRIVILEGED_ROLES.filter(role => roles.includes(role));
+  await getRepositories().settings.set(REQUIRED_ROLES_SETTING, requiredRoles, adminId);
+  return requiredRoles;
+}
+
+/**
+ * Whether accounts with this role must use 2FA
+ */
+export async function isTwoFactorRequiredForRole(role: UserRole): Promise<boolean> {
+  return role !== 'user' && (await getTwoFactorRequiredRoles()).includes(role);
+}
+
+/**
+ * Whether an account may use the features of a privileged role right now:
+ * its role must reach minimumRole and, if the policy requires 2FA for that
+ * role, it must have enrolled. Used by requireRole() and by role overrides
+ * inside services (e.g. moderators editing posts, utils/postEditing.ts).
+ *
+ * @param actor - Authenticated account
+ * @param minimumRole - Lowest role allowed
+ */
+export async function checkRoleAccess(
+  actor: AuthenticatedUser,
+  minimumRole: PrivilegedRole
+): Promise<'allowed' | 'FORBIDDEN' | 'TWO_FACTOR_REQUIRED'> {
+  if (!hasMinimumRole(actor.role, minimumRole)) {
+    return 'FORBIDDEN';
+  }
+
+  if (await isTwoFactorRequiredForRole(actor.role)) {
+    const user = await findUserById(actor.userId);
+    if (!user?.twoFactorEnabled) {
+      return 'TWO_FACTOR_REQUIRED';
+    }
+  }
+
+  return 'allowed';
+}
+
+// ============================================================
+// RECOVERY CODES
+// ============================================================
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Generate recovery codes in the form "abcde-fghij"
+ */
+function generateRecoveryCodes(): string[] {
+  const alphabet = 'abcdefghijkmnpqrstuvwxyz23456789'; // no 0/o, 1/l
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.randomBytes(10), byte => alphabet[byte % alphabet.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+async function hashRecoveryCodes(codes: string[]): Promise<string[]> {
+  const hashes: string[] = [];
+  for (const code of codes) {
+    hashes.push(await hashPassword(normalizeRecoveryCode(code)));
+  }
+  return hashes;
+}
+
+/**
+ * Find and remove a matching recovery code
+ *
+ * @returns True if the code was valid (it can no longer be used)
+ */
+async function consumeRecoveryCode(user: User, code: string): Promise<boolean> {
+  const normalized = normalizeRecoveryCode(code);
+  if (normalized.length !== 10) {
+    return false;
+  }
+
+  for (const hash of user.recoveryCodeHashes || []) {
+    if (await verifyPassword(normalized, hash)) {
+      // Conditional, so two concurrent requests cannot both spend the same code
+      return getRepositories().users.removeRecoveryCodeHash(user.id, hash);
+    }
+  }
+
+  return false;
+}
+
+// ============================================================
+// ENROLMENT
+// ============================================================
+
+/**
+ * Start enrolment: generate a secret that becomes active once confirmed
+ * Calling it again replaces any unconfirmed secret.
+ *
+ * @param user - Account enrolling
+ * @returns Secret (for manual entry) and otpauth:// URI (for the QR code)
+ * @throws TwoFactorError if 2FA is already enabled
+ */
+export async function beginTwoFactorEnrollment(
+  user: User
+): Promise<{ secret: string; otpauthUri: string }> {
+  if (user.twoFactorEnabled) {
+    throw new TwoFactorError('TWO_FACTOR_ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+  await updateUser(user.id, { twoFactorPendingSecret: secret });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, user.email, process.env.TWO_FACTOR_ISSUER || 'Vairo'),
+  };
+}
+
+/**
+ * Finish enrolment with a first code from the authenticator app
+ *
+ * @param user - Account enrolling
+ * @param code - 6-digit TOTP code
+ * @returns Plain recovery codes - shown to the user once, only hashes are kept
+ * @throws TwoFactorError if enrolment was not started or the code is wrong
+ */
+export async function confirmTwoFactorEnrollment(
+  user: User,
+  code: string
+): Promise<{ recoveryCodes: string[] }> {
+  if (user.twoFactorEnabled) {
+    throw new TwoFactorError('TWO_FACTOR_ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+  }
+
+  if (!user.twoFactorPendingSecret) {
+    throw new TwoFactorError('TWO_FACTOR_SETUP_NOT_STARTED', 'Start two-factor setup first');
+  }
+
+  const step = verifyTotp(user.twoFactorPendingSecret, code);
+  if (step === null) {
+    throw new TwoFactorError('INVALID_TWO_FACTOR_CODE', 'Invalid authentication code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await updateUser(user.id, {
+    twoFactorEnabled: true,
+    twoFactorEnabledAt: new Date(),
+    twoFactorSecret: user.twoFactorPendingSecret,
+    twoFactorPendingSecret: undefined,
+    twoFactorLastUsedStep: step,
+    recoveryCodeHashes: await hashRecoveryCodes(recoveryCodes),
+  });
+
+  return { recoveryCodes };
+}
+
+/**
+ * Check a TOTP or recovery code for an enrolled account
+ * Successful codes are consumed (TOTP step recorded, recovery code removed).
+ *
+ * @param user - Enrolled account
+ * @param code - TOTP code or recovery code
+ * @returns Method that matched, or null
+ */
+export async function verifySecondFactor(
+  user: User,
+  code: string
+): Promise<SecondFactorMethod | null> {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return null;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step !== null) {
+    // Reject replays of a code (or an earlier one) that was already accepted.
+    // Checked against the stored step, not this copy of the user, so two
+    // concurrent requests cannot both use the same code.
+    return (await getRepositories().users.advanceTwoFactorStep(user.id, step)) ? 'totp' : null;
+  }
+
+  if (await consumeRecoveryCode(user, code)) {
+    return 'recovery_code';
+  }
+
+  return null;
+}
+
+/**
+ * Turn 2FA off (requires a current code)
+ *
+ * @throws TwoFactorError if 2FA is required for the role, not enabled, or the code is wrong
+ */
+export async function disableTwoFactor(user: User, code: string): Promise<void> {
+  if (!user.twoFactorEnabled) {
+    throw new TwoFactorError('TWO_FACTOR_NOT_ENABLED', 'Two-factor authentication is not enabled');
+  }
+
+  if (await isTwoFactorRequiredForRole(user.role)) {
+    throw new TwoFactorError(
+      'TWO_FACTOR_REQUIRED',
+      `Two-factor authentication is required for the ${user.role} role`,
+      403
+    );
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    throw new TwoFactorError('INVALID_TWO_FACTOR_CODE', 'Invalid authentication code');
+  }
+
+  await updateUser(user.id, {
+    twoFactorEnabled: false,
+    twoFactorEnabledAt: undefined,
+    twoFactorSecret: undefined,
+    twoFactorPendingSecret: undefined,
+    twoFactorLastUsedStep: undefined,
+    recoveryCodeHashes: undefined,
+  });
+}
+
+/**
+ * Replace all recovery codes (requires a current code)
+ *
+ * @returns New plain recovery codes
+ * @throws TwoFactorError if 2FA is not enabled or the code is wrong
+ */
+export async function regenerateRecoveryCodes(
+  user: User,
+  code: string
+): Promise<{ recoveryCodes: string[] }> {
+  if (!user.twoFactorEnabled) {
+    throw new TwoFactorError('TWO_FACTOR_NOT_ENABLED', 'Two-factor authentication is not enabled');
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    throw new TwoFactorError('INVALID_TWO_FACTOR_CODE', 'Invalid authentication code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await updateUser(user.id, { recoveryCodeHashes: await hashRecoveryCodes(recoveryCodes) });
+
+  return { recoveryCodes };
+}
+
+// ============================================================
+// LOGIN CHALLENGE
+// ============================================================
+
+/**
+ * Issue the "second factor required" challenge after a correct password
+ *
+ * @param user - Account that passed the password check
+ * @returns Challenge token to send back with the code, and its lifetime
+ */
+export async function createTwoFactorChallenge(
+  user: User
+): Promise<{ challengeToken: string; expiresIn: number }> {
+  const { token, tokenId, expiresIn } = signPurposeToken(
+    'two_factor_challenge',
+    user.id,
+    {},
+    CHALLENGE_EXPIRES_IN
+  );
+
+  await pendingChallenges.set(tokenId, user.id, expiresIn);
+
+  return { challengeToken: token, expiresIn };
+}
+
+function throttledError(status: LoginThrottleStatus): TwoFactorError {
+  const locked = status.reason === 'locked';
+  const error = locked
+    ? new TwoFactorError('ACCOUNT_LOCKED', 'Too many failed login attempts. This account is temporarily locked.', 423)
+    : new TwoFactorError('LOGIN_THROTTLED', 'Too many failed login attempts. Please wait before trying again.', 429);
+  error.throttle = status;
+  return error;
+}
+
+/**
+ * Answer a login challenge
+ * A challenge works once and is discarded after too many wrong codes.
+ * Attempts are counted atomically before the code is checked, and a correct
+ * code only counts once the challenge has been claimed (removed), so parallel
+ * requests with one challenge cannot exceed the attempt cap or log in twice.
+ * Wrong codes also count toward the account lockout, which is only
+ * cleared here, after the second factor succeeds.
+ *
+ * @param challengeToken - Token from the login response
+ * @param code - TOTP code or recovery code
+ * @param context - Client IP, for the lock notification
+ * @returns The authenticated user and the method used
+ * @throws TwoFactorError if the challenge is invalid/expired, the code is wrong
+ *   or the account is locked / backing off (ACCOUNT_LOCKED, LOGIN_THROTTLED)
+ */
+export async function completeTwoFactorChallenge(
+  challengeToken: string,
+  code: string,
+  context: { ip?: string } = {}
+): Promise<{ user: User; method: SecondFactorMethod }> {
+  const invalidChallenge = () =>
+    new TwoFactorError('INVALID_TWO_FACTOR_CHALLENGE', 'Login attempt expired. Please log in again.', 401);
+
+  let payload;
+  try {
+    payload = verifyPurposeToken(challengeToken, 'two_factor_challenge');
+  } catch {
+    throw invalidChallenge();
+  }
+
+  if ((await pendingChallenges.get(payload.jti)) !== payload.sub) {
+    throw invalidChallenge();
+  }
+
+  const remainingSeconds = Math.max(1, payload.exp - Math.floor(Date.now() / 1000));
+  const attempts = await pendingChallenges.increment(`attempts:${payload.jti}`, remainingSeconds);
+  if (attempts > MAX_CHALLENGE_ATTEMPTS) {
+    await pendingChallenges.delete(payload.jti);
+    throw invalidChallenge();
+  }
+
+  const user = await findUserById(payload.sub);
+  if (!user || !user.isActive || user.isSuspended || !user.twoFactorEnabled) {
+    await pendingChallenges.delete(payload.jti);
+    throw invalidChallenge();
+  }
+
+  const throttle = await checkLoginAllowed(user.email);
+  if (!throttle.allowed) {
+    if (throttle.reason === 'locked') {
+      await pendingChallenges.delete(payload.jti);
+    }
+    throw throttledError(throttle);
+  }
+
+  const method = await verifySecondFactor(user, code);
+  if (!method) {
+    const next = await recordFailedLogin(user.email, { user, ip: context.ip });
+    if (next.reason === 'locked') {
+      await pendingChallenges.delete(payload.jti);
+      throw throttledError(next);
+    }
+
+    if (attempts >= MAX_CHALLENGE_ATTEMPTS) {
+      await pendingChallenges.delete(payload.jti);
+    }
+    throw new TwoFactorError('INVALID_TWO_FACTOR_CODE', 'Invalid authentication code', 401);
+  }
+
+  // Claim the challenge before any tokens are issued: only one request gets it
+  if ((await pendingChallenges.take(payload.jti)) === null) {
+    throw invalidChallenge();
+  }
+  await pendingChallenges.delete(`attempts:${payload.jti}`);
+  await clearFailedLogins(user.email);
+
+  return { user: (await findUserById(user.id)) || user, method };
+}
@@ -0,0 +1,60 @@
+/**
+ * User Store - Server-side user lookup and persistence
+ *
+ * Thin wrapper over the user repository (database/repositories), so auth
+ * code does not depend on the storage backend. Emails are stored in
+ * normalized (lowercase) form to match the output of express-validator's
+ * normalizeEmail().
+ *
+ * IMPORTANT: This module is designed for server-side use.
+ * Records contain password hashes and must never be sent to clients -
+ * convert with userToResponse() from utils/User.ts first.
+ */
+
+import type { User, CreateUserInput } from './User';
+import { getRepositories } from '../database/repositories';
+
+/**
+ * Find a user by email address
+ *
+ * @param email - Email address (case-insensitive)
+ * @returns User record or undefined if not found
+ */
+export async function findUserByEmail(email: string): Promise<User | undefined> {
+  return getRepositories().users.findByEmail(email);
+}
+
+/**
+ * Find a user by ID
+ *
+ * @param userId - User ID
+ * @returns User record or undefined if not found
+ */
+export async function findUserById(userId: string): Promise<User | undefined> {
+  return getRepositories().users.findById(userId);
+}
+
+/**
+ * Create a new user record
+ *
+ * @param input - Email, password hash and optional profile fields
+ * @returns Created user
+ * @throws Error if the email is already registered
+ */
+export async function createUser(input: CreateUserInput): Promise<User> {
+  return getRepositories().users.create(input);
+}
+
+/**
+ * Update fields on an existing user record
+ *
+ * @param userId - User ID
+ * @param changes - Fields to overwrite (id and email are immutable here)
+ * @returns Updated user or undefined if not found
+ */
+export async function updateUser(
+  userId: string,
+  changes: Partial<Omit<User, 'id' | 'email' | 'createdAt'>>
+): Promise<User | undefined> {
+  return getRepositories().users.update(userId, changes);
+}